@@ -0,0 +1,267 @@
+#!/usr/bin/env node
+
+/**
+ * opencoder CLI for opencode-plugin-opencoder
+ *
+ * Manages the installed agents without reinstalling the npm package:
+ * `install` and `uninstall` run postinstall.mjs and preuninstall.mjs with
+ * the given flags, `status` compares the installed agents with the packaged
+ * ones, `diff` shows how they differ, `doctor` checks the installation, and
+ * `lint` checks the structure of agent files.
+ */
+
+import { spawnSync } from "node:child_process"
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs"
+import { join } from "node:path"
+import { createUnifiedDiff } from "./src/diff.mjs"
+import { formatDiagnostics, runDiagnostics } from "./src/doctor.mjs"
+import { formatLintReport, LINT_CONFIG_FILE, lintAgents, loadLintConfig } from "./src/lint.mjs"
+import { getPackageInfo } from "./src/manifest.mjs"
+import {
+	getAgentsSourceDir,
+	getPackageRoot,
+	getProjectRoot,
+	parseCliFlags,
+	resolveAgentsTargetDir,
+} from "./src/paths.mjs"
+import { getAgentStatuses } from "./src/status.mjs"
+
+const packageRoot = getPackageRoot(import.meta.url)
+const AGENTS_SOURCE_DIR = getAgentsSourceDir(packageRoot)
+
+const USAGE = `Usage: opencoder <command> [options]
+
+Manage the OpenCoder agents installed for OpenCode.
+
+Commands:
+  install      Install the packaged agents (see opencoder install --help)
+  uninstall    Remove the installed agents (see opencoder uninstall --help)
+  status       Compare the installed agents with the packaged ones
+  diff [agent] Show how the installed agents differ from the packaged ones
+  doctor       Diagnose why agents don't show up in OpenCode
+  lint [path]  Check agent files or directories (default: the agents directory)
+
+Options:
+  --scope <scope>  global (default) or project: use the project's .opencode/agents/
+  --target <dir>   Use the given agents directory
+  --config <file>  Read lint settings from this file (default: .opencode/opencoder.json)
+  --json           Print the status, diagnostics or lint report as JSON (status, doctor, lint)
+  --help           Show this help message and exit
+
+Examples:
+  opencoder status                   # Show installed and packaged versions
+  opencoder diff opencoder-builder   # Show local changes to the builder
+  opencoder install --scope project  # Pin the agents for the current project
+  opencoder doctor                   # Check why agents don't show up
+  opencoder lint agents/             # Lint forked agent files`
+
+/** Flags that take a value, so their value is not mistaken for an argument */
+const VALUE_FLAGS = ["--scope", "--target", "--rollback", "--config"]
+
+/**
+ * Returns the positional arguments of a command, skipping flags and their values.
+ *
+ * @param {string[]} args - The arguments after the command
+ * @returns {string[]} The positional arguments
+ */
+function getPositionalArgs(args) {
+	return args.filter(
+		(arg, index) => !arg.startsWith("-") && !VALUE_FLAGS.includes(args[index - 1] ?? ""),
+	)
+}
+
+/**
+ * Runs an install script with the given arguments.
+ *
+ * @param {string} script - The script file name
+ * @param {string[]} args - The arguments
+ * @returns {number} The script's exit code
+ */
+function runScript(script, args) {
+	const result = spawnSync(process.execPath, [join(packageRoot, script), ...args], {
+		stdio: "inherit",
+	})
+	return result.status ?? 1
+}
+
+/**
+ * Formats the version and short checksum of an agent file.
+ *
+ * @param {{ version?: string, sha256: string } | null} file - The file's version and checksum
+ * @returns {string} The description, or "-" for a missing file
+ */
+function describeVersion(file) {
+	if (!file) return "-"
+	return `${file.version ?? "?"} (${file.sha256.slice(0, 12)})`
+}
+
+/**
+ * Prints the installed and packaged versions of each agent.
+ *
+ * @param {string} targetDir - The agents directory
+ * @param {boolean} json - Whether to print JSON
+ * @returns {number} The exit code
+ */
+function status(targetDir, json) {
+	const statuses = getAgentStatuses(AGENTS_SOURCE_DIR, targetDir)
+	if (json) {
+		console.log(JSON.stringify({ targetDir, agents: statuses }, null, 2))
+		return 0
+	}
+
+	const { name, version } = getPackageInfo(packageRoot)
+	console.log(`${name} ${version}`)
+	console.log(`Agents directory: ${targetDir}\n`)
+	const rows = [
+		["AGENT", "STATE", "INSTALLED", "PACKAGED", "INSTALLED BY"],
+		...statuses.map(({ file, state, installed, packaged }) => [
+			file,
+			state,
+			describeVersion(installed),
+			describeVersion(packaged),
+			installed?.installedBy ?? "-",
+		]),
+	]
+	const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)))
+	for (const row of rows) {
+		console.log(`  ${row.map((cell, column) => cell.padEnd(widths[column])).join("  ")}`.trimEnd())
+	}
+
+	const outOfDate = statuses.filter(({ state }) => state !== "current")
+	if (outOfDate.length > 0) {
+		console.log(
+			`\n${outOfDate.length} agent(s) differ from the packaged version. Run \`opencoder diff\` to see the changes or \`opencoder install\` to update them.`,
+		)
+	}
+	return 0
+}
+
+/**
+ * Prints a unified diff from each installed agent to the packaged agent.
+ *
+ * @param {string} targetDir - The agents directory
+ * @param {string[]} agents - Agent names or file names to compare (all if empty)
+ * @returns {number} The exit code
+ */
+function diff(targetDir, agents) {
+	const wanted = agents.map((agent) => (agent.endsWith(".md") ? agent : `${agent}.md`))
+	const statuses = getAgentStatuses(AGENTS_SOURCE_DIR, targetDir).filter(
+		({ file }) => wanted.length === 0 || wanted.includes(file),
+	)
+	const unknown = wanted.filter((file) => !statuses.some((s) => s.file === file))
+	if (unknown.length > 0) {
+		console.error(`opencoder: Unknown agent(s): ${unknown.join(", ")}`)
+		return 1
+	}
+
+	for (const { file, state } of statuses) {
+		if (state === "current") continue
+		const installedPath = join(targetDir, file)
+		const packagedPath = join(AGENTS_SOURCE_DIR, file)
+		const read = (path) => (existsSync(path) ? readFileSync(path, "utf-8") : "")
+		process.stdout.write(
+			createUnifiedDiff(read(installedPath), read(packagedPath), {
+				oldLabel: existsSync(installedPath) ? installedPath : "/dev/null",
+				newLabel: existsSync(packagedPath) ? packagedPath : "/dev/null",
+			}),
+		)
+	}
+	return 0
+}
+
+/**
+ * Prints the diagnostics report for the agents directory.
+ *
+ * @param {string} targetDir - The agents directory
+ * @param {boolean} json - Whether to print JSON
+ * @returns {number} The exit code: 1 if any check failed
+ */
+function doctor(targetDir, json) {
+	const report = runDiagnostics({ sourceDir: AGENTS_SOURCE_DIR, targetDir })
+	console.log(json ? JSON.stringify(report, null, 2) : formatDiagnostics(report))
+	return report.counts.fail > 0 ? 1 : 0
+}
+
+/**
+ * Prints the lint report for agent files.
+ *
+ * @param {string} targetDir - The agents directory, linted when no paths are given
+ * @param {string[]} paths - Agent files or directories of agent files
+ * @param {string[]} args - The arguments after the command, for `--config` and `--json`
+ * @returns {number} The exit code: 1 if any rule reported an error
+ */
+function lint(targetDir, paths, args) {
+	if (paths.length === 0 && !existsSync(targetDir)) {
+		console.error(`opencoder: No agents installed in ${targetDir}. Run: opencoder install`)
+		return 1
+	}
+	const missing = paths.filter((path) => !existsSync(path))
+	if (missing.length > 0) {
+		console.error(`opencoder: No such file or directory: ${missing.join(", ")}`)
+		return 1
+	}
+	const files = (paths.length > 0 ? paths : [targetDir]).flatMap((path) =>
+		statSync(path).isDirectory()
+			? readdirSync(path)
+					.filter((file) => file.endsWith(".md"))
+					.sort()
+					.map((file) => join(path, file))
+			: [path],
+	)
+	if (files.length === 0) {
+		console.error(`opencoder: No agent files found in ${paths.join(", ") || targetDir}`)
+		return 1
+	}
+
+	const configIndex = args.findIndex((arg) => arg === "--config" || arg.startsWith("--config="))
+	const configArg = args[configIndex] ?? ""
+	const configPath =
+		configIndex === -1
+			? join(getProjectRoot(process.cwd()), LINT_CONFIG_FILE)
+			: configArg.startsWith("--config=")
+				? configArg.slice("--config=".length)
+				: (args[configIndex + 1] ?? "")
+	const report = lintAgents(
+		files.map((path) => ({ path, content: readFileSync(path, "utf-8") })),
+		loadLintConfig(configPath),
+	)
+	console.log(args.includes("--json") ? JSON.stringify(report, null, 2) : formatLintReport(report))
+	return report.counts.error > 0 ? 1 : 0
+}
+
+/**
+ * Main entry point for the opencoder CLI.
+ *
+ * @returns {number} The exit code
+ */
+function main() {
+	const [command, ...args] = process.argv.slice(2)
+	if (command === undefined || command === "help" || command === "--help") {
+		console.log(USAGE)
+		return command === undefined ? 1 : 0
+	}
+	if (command === "install") return runScript("postinstall.mjs", args)
+	if (command === "uninstall") return runScript("preuninstall.mjs", args)
+	if (!["status", "diff", "doctor", "lint"].includes(command)) {
+		console.error(`opencoder: Unknown command "${command}"\n\n${USAGE}`)
+		return 1
+	}
+
+	const flags = parseCliFlags(process.argv)
+	if (flags.help) {
+		console.log(USAGE)
+		return 0
+	}
+	const targetDir = resolveAgentsTargetDir({ scope: flags.scope, target: flags.target })
+	if (command === "status") return status(targetDir, args.includes("--json"))
+	if (command === "diff") return diff(targetDir, getPositionalArgs(args))
+	if (command === "lint") return lint(targetDir, getPositionalArgs(args), args)
+	return doctor(targetDir, args.includes("--json"))
+}
+
+try {
+	process.exitCode = main()
+} catch (err) {
+	console.error(`opencoder: ${err.message}`)
+	process.exitCode = 1
+}
@@ -3,23 +3,58 @@
 /**
  * Postinstall script for opencode-plugin-opencoder
  *
- * Copies agent markdown files to ~/.config/opencode/agents/
+ * Copies agent markdown files to ~/.config/opencode/agents/, or to the
+ * project's .opencode/agents/ with `--scope project`, or to `--target <dir>`.
  * This allows OpenCode to discover and use the agents.
+ * Installed files are recorded with their checksums in an install manifest,
+ * so preuninstall.mjs can leave files the user has modified in place. On
+ * upgrade, local changes to an agent are merged into the new version; if
+ * they conflict, the user's file is kept and the update is written to a
+ * `.new` file next to it.
+ *
+ * All files are staged and validated, and the agents checked against each
+ * other's output formats (see src/contracts.mjs), before any installed file is
+ * replaced, and are then moved into place together (see src/transaction.mjs).
+ * Before agent files are overwritten, the installed agents are backed up;
+ * `--rollback [id]` restores a backup instead of installing.
  */
 
-import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync, statSync } from "node:fs"
-import { join } from "node:path"
-
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync } from "node:fs"
+import { basename, join } from "node:path"
+import {
+	createBackup,
+	findBackup,
+	getBackupsDir,
+	getMaxBackups,
+	pruneBackups,
+	restoreBackup,
+} from "./src/backup.mjs"
+import { verifyAgentContracts } from "./src/contracts.mjs"
+import {
+	BASE_DIR,
+	getManifestPath,
+	getPackageInfo,
+	hashContent,
+	MANIFEST_FILE,
+	readBase,
+	readManifest,
+	recordInstalledFiles,
+} from "./src/manifest.mjs"
+import { mergeMarkdown } from "./src/merge.mjs"
+import { describeOpenCodeVersion, detectOpenCodeVersion } from "./src/opencode-version.mjs"
 import {
-	AGENTS_TARGET_DIR,
 	createLogger,
+	formatDiagnostic,
 	getAgentsSourceDir,
 	getErrorMessage,
 	getPackageRoot,
 	parseCliFlags,
+	resolveAgentsTargetDir,
 	retryOnTransientError,
+	validateAgentContent,
 	validateAgentFile,
 } from "./src/paths.mjs"
+import { createInstallTransaction } from "./src/transaction.mjs"
 
 const packageRoot = getPackageRoot(import.meta.url)
 const AGENTS_SOURCE_DIR = getAgentsSourceDir(packageRoot)
@@ -30,35 +65,121 @@ const DRY_RUN = flags.dryRun
 const VERBOSE = flags.verbose
 const QUIET = flags.quiet
 const FORCE = flags.force
+const ROLLBACK = flags.rollback
 
 /** Print usage information and exit */
 if (flags.help) {
 	console.log(`Usage: node postinstall.mjs [options]
 
-Install OpenCoder agents to ~/.config/opencode/agents/
+Install OpenCoder agents to ~/.config/opencode/agents/ (or
+$OPENCODE_CONFIG_DIR/agents/, $XDG_CONFIG_HOME/opencode/agents/)
 
 Options:
-  --dry-run   Simulate installation without copying files
-  --verbose   Enable verbose output for debugging
-  --quiet     Suppress non-error output (for CI environments)
-  --force     Overwrite existing files without prompting
-  --help      Show this help message and exit
+  --dry-run         Simulate installation without copying files
+  --verbose         Enable verbose output for debugging
+  --quiet           Suppress non-error output (for CI environments)
+  --force           Overwrite existing files, including local changes
+  --rollback [id]   Restore the agents from a backup (default: the latest)
+  --scope <scope>   global (default) or project: install into the project's
+                    .opencode/agents/ (default from OPENCODER_SCOPE)
+  --target <dir>    Install into the given directory
+  --help            Show this help message and exit
+
+Existing agents are backed up before they are overwritten. The last
+${getMaxBackups()} backups are kept (set OPENCODER_MAX_BACKUPS to change this).
 
 Examples:
-  node postinstall.mjs              # Install agents
-  node postinstall.mjs --dry-run    # Preview what would be installed
-  node postinstall.mjs --verbose    # Install with detailed logging
-  node postinstall.mjs --quiet      # Install silently (errors only)
-  node postinstall.mjs --force      # Force overwrite existing agents`)
+  node postinstall.mjs                  # Install agents
+  node postinstall.mjs --dry-run        # Preview what would be installed
+  node postinstall.mjs --verbose        # Install with detailed logging
+  node postinstall.mjs --quiet          # Install silently (errors only)
+  node postinstall.mjs --force          # Force overwrite existing agents
+  node postinstall.mjs --rollback       # Restore the agents from before the last install
+  node postinstall.mjs --scope project  # Pin the agents for the current project`)
 	process.exit(0)
 }
 
+/** Resolve the agents directory from --scope and --target */
+let targetDir
+try {
+	targetDir = resolveAgentsTargetDir({ scope: flags.scope, target: flags.target })
+} catch (err) {
+	console.error(`opencode-plugin-opencoder: ${err.message}`)
+	process.exit(1)
+}
+const AGENTS_TARGET_DIR = targetDir
+
 /** Create logger with verbose and quiet flags */
 const logger = createLogger(VERBOSE, QUIET)
 const verbose = logger.verbose
 const log = logger.log
 const logError = logger.error
 
+/**
+ * Restores the agents from a backup instead of installing.
+ *
+ * The current agents are backed up first, so a rollback can itself be
+ * rolled back.
+ *
+ * @param {string | true} id - The backup id, or true for the latest backup
+ * @returns {void}
+ */
+function rollback(id) {
+	const prefix = DRY_RUN ? "[DRY-RUN] " : ""
+	verbose(`Backups directory: ${getBackupsDir(AGENTS_TARGET_DIR)}`)
+
+	let backup
+	try {
+		backup = findBackup(AGENTS_TARGET_DIR, id === true ? undefined : id)
+	} catch (err) {
+		logError(`${prefix}opencode-plugin-opencoder: Cannot roll back: ${err.message}`)
+		process.exit(1)
+	}
+	log(`${prefix}opencode-plugin-opencoder: Rolling back agents to backup ${backup.id}...`)
+	const agents = backup.files.filter((file) => file.endsWith(".md"))
+
+	if (DRY_RUN) {
+		for (const file of agents) {
+			log(`${prefix}Would restore: ${file}`)
+		}
+		return
+	}
+
+	try {
+		const manifest = readManifest(AGENTS_TARGET_DIR)
+		const current = createBackup(AGENTS_TARGET_DIR, [
+			...agents,
+			...(manifest?.files.map((entry) => entry.file) ?? []),
+		])
+		if (current) log(`  Backed up current agents: ${current.id}`)
+	} catch (err) {
+		verbose(`Could not back up current agents: ${err.message}`)
+	}
+
+	try {
+		const { removed } = restoreBackup(AGENTS_TARGET_DIR, backup.id)
+		for (const file of agents) {
+			log(`  Restored: ${file}`)
+		}
+		for (const file of removed.filter((path) => path.endsWith(".md"))) {
+			log(`  Removed: ${file} (not in the backup)`)
+		}
+	} catch (err) {
+		const outcome = err.unrestored?.length
+			? "not all current agents could be restored"
+			: "agents left unchanged"
+		console.error(`opencode-plugin-opencoder: Rollback failed, ${outcome}: ${err.message}`)
+		process.exit(1)
+	}
+	// Keep the restored backup, so the rollback can be repeated
+	pruneBackups(AGENTS_TARGET_DIR, getMaxBackups(), [backup.id])
+
+	console.log(
+		`opencode-plugin-opencoder: Rolled back ${agents.length} agent(s) to backup ${backup.id}`,
+	)
+	log(`  Location: ${AGENTS_TARGET_DIR}`)
+}
+
 /**
  * Main entry point for the postinstall script.
  *
@@ -66,17 +187,19 @@ const logError = logger.error
  * to the OpenCode configuration directory (~/.config/opencode/agents/).
  * This enables OpenCode to discover and use the installed agents.
  *
- * The function handles partial failures gracefully, installing as many
- * agents as possible and reporting individual failures.
+ * Installation is a transaction: all files are staged and validated
+ * first, then moved into place together. If any file fails, no agent is
+ * changed, so a half-upgraded set (e.g. a new orchestrator with an old
+ * builder) is never left behind.
  *
  * @returns {Promise<void>}
  *
  * @throws {never} Does not throw - uses process.exit() for error conditions
  *
  * Exit codes:
- * - 0: All agents installed successfully, or partial success with some failures
- * - 1: Complete failure - source directory missing, no agent files found,
- *      or all file copies failed
+ * - 0: All agents installed successfully
+ * - 1: Failure - source directory missing, no agent files found, or any
+ *      file failed to install (no agents were changed)
  *
  * @example
  * // Run as postinstall script
@@ -86,6 +209,11 @@ const logError = logger.error
  * })
  */
 async function main() {
+	if (ROLLBACK) {
+		rollback(ROLLBACK)
+		return
+	}
+
 	const prefix = DRY_RUN ? "[DRY-RUN] " : ""
 	log(`${prefix}opencode-plugin-opencoder: Installing agents...`)
 
@@ -95,6 +223,9 @@ async function main() {
 	verbose(`Dry run: ${DRY_RUN}`)
 	verbose(`Force: ${FORCE}`)
 
+	const opencode = detectOpenCodeVersion()
+	verbose(`OpenCode version: ${describeOpenCodeVersion(opencode)}`)
+
 	// Warn about force mode
 	if (FORCE) {
 		verbose(`Force mode enabled: version compatibility checks will be skipped`)
@@ -134,6 +265,24 @@ async function main() {
 
 	const successes = []
 	const failures = []
+	/** Customized files that could not be merged, kept with a `.new` file next to them */
+	const conflicts = []
+	/** Packaged content of the installed files, recorded in the manifest */
+	const installed = []
+	/** Content each agent has after the install, by agent name, for the contract checks */
+	const agentContents = {}
+
+	let manifest = null
+	try {
+		manifest = readManifest(AGENTS_TARGET_DIR)
+		verbose(manifest ? `Install manifest found` : `No install manifest found`)
+	} catch (err) {
+		verbose(`Ignoring unreadable install manifest: ${err.message}`)
+	}
+
+	// Stage all files first, so a failure leaves the installed agents untouched
+	const transaction = DRY_RUN ? null : createInstallTransaction(AGENTS_TARGET_DIR)
+	if (transaction) verbose(`Staging directory: ${transaction.stagingDir}`)
 
 	for (const file of files) {
 		const sourcePath = join(AGENTS_SOURCE_DIR, file)
@@ -143,60 +292,99 @@ async function main() {
 		verbose(`  Target path: ${targetPath}`)
 
 		try {
-			// Check if target file exists and has different content (stale)
+			const sourceContent = readFileSync(sourcePath, "utf-8")
+			/** Merged content for customized files, or the conflicting blocks */
+			let merge = null
+
+			// Check if target file exists and has different content (stale or customized)
 			if (existsSync(targetPath)) {
-				const sourceContent = readFileSync(sourcePath, "utf-8")
 				const targetContent = readFileSync(targetPath, "utf-8")
-				if (sourceContent !== targetContent) {
+				const entry = manifest?.files.find((e) => e.file === file)
+				const customized =
+					!FORCE &&
+					entry !== undefined &&
+					sourceContent !== targetContent &&
+					hashContent(targetContent) !== entry.sha256
+				if (customized) {
+					verbose(`Local changes found: ${file} (checksum differs from the installed version)`)
+					const base = readBase(AGENTS_TARGET_DIR, file)
+					merge =
+						base !== null && hashContent(base) === entry.sha256
+							? mergeMarkdown(base, targetContent, sourceContent)
+							: { content: targetContent, conflicts: ["(no merge base)"] }
+					if (merge.conflicts.length === 0) {
+						const validation = validateAgentContent(merge.content, basename(file, ".md"))
+						if (!validation.valid) {
+							merge.conflicts.push(`(merged file is invalid: ${validation.error})`)
+						}
+					}
+				} else if (sourceContent !== targetContent) {
 					verbose(`Overwriting existing file: ${file} (content differs)`)
 				} else {
 					verbose(`Target file unchanged: ${file}`)
 				}
 			}
 
+			/** The file to validate: the source in dry-run mode, otherwise the staged file */
+			let checkedPath = sourcePath
 			if (DRY_RUN) {
-				// In dry-run mode, validate source file but don't copy
+				// In dry-run mode, validate source file but don't stage
 				verbose(`  Validating source file (dry-run mode)...`)
-				const validation = validateAgentFile(sourcePath, undefined, FORCE)
-				if (!validation.valid) {
-					throw new Error(`Invalid agent file content: ${validation.error}`)
-				}
-				if (validation.skippedVersionCheck) {
-					verbose(`  Warning: Version compatibility check skipped (--force)`)
-				}
-				verbose(`  Validation passed`)
-				successes.push(file)
-				log(`${prefix}Would install: ${file} -> ${targetPath}`)
+			} else if (merge?.conflicts.length) {
+				// Keep the customized file and the previous merge base; offer the update next to it
+				await retryOnTransientError(() => transaction.stage(`${file}.new`, sourceContent))
 			} else {
-				verbose(`  Copying file...`)
-				await retryOnTransientError(() => copyFileSync(sourcePath, targetPath))
-
-				// Verify the copy succeeded by comparing file sizes
-				const sourceSize = statSync(sourcePath).size
-				const targetSize = statSync(targetPath).size
-				verbose(`  Source size: ${sourceSize} bytes`)
-				verbose(`  Target size: ${targetSize} bytes`)
-
-				if (sourceSize !== targetSize) {
-					throw new Error(
-						`File size mismatch: source=${sourceSize} bytes, target=${targetSize} bytes`,
-					)
+				verbose(`  Staging file...`)
+				checkedPath = await retryOnTransientError(() =>
+					transaction.stage(file, merge ? merge.content : sourceContent),
+				)
+				if (!merge) {
+					// Verify the copy succeeded by comparing file sizes
+					const sourceSize = statSync(sourcePath).size
+					const stagedSize = statSync(checkedPath).size
+					verbose(`  Source size: ${sourceSize} bytes`)
+					verbose(`  Staged size: ${stagedSize} bytes`)
+					if (sourceSize !== stagedSize) {
+						throw new Error(
+							`File size mismatch: source=${sourceSize} bytes, staged=${stagedSize} bytes`,
+						)
+					}
+					verbose(`  Size verification passed`)
 				}
-				verbose(`  Size verification passed`)
-
-				// Validate content structure
+				transaction.stage(`${BASE_DIR}/${file}.base`, sourceContent)
 				verbose(`  Validating content structure...`)
-				const validation = validateAgentFile(targetPath, undefined, FORCE)
-				if (!validation.valid) {
-					throw new Error(`Invalid agent file content: ${validation.error}`)
-				}
-				if (validation.skippedVersionCheck) {
-					verbose(`  Warning: Version compatibility check skipped (--force)`)
-				}
-				verbose(`  Validation passed`)
+			}
 
-				successes.push(file)
-				log(`  Installed: ${file}`)
+			const validation = validateAgentFile(checkedPath, opencode.version, FORCE)
+			// Show every problem at once; only errors stop the install
+			for (const diagnostic of validation.diagnostics) {
+				const report = { error: logError, warning: log, info: verbose }[diagnostic.severity]
+				report(`${prefix}  ${formatDiagnostic(diagnostic, file).replaceAll("\n", "\n    ")}`)
+			}
+			if (!validation.valid) {
+				throw new Error(`Invalid agent file content: ${validation.error}`)
+			}
+			if (validation.skippedVersionCheck) {
+				verbose(`  Warning: Version compatibility check skipped (--force)`)
+			}
+			verbose(`  Validation passed`)
+			agentContents[basename(file, ".md")] = merge?.conflicts.length
+				? readFileSync(targetPath, "utf-8")
+				: (merge?.content ?? sourceContent)
+
+			if (merge?.conflicts.length) {
+				conflicts.push({ file, blocks: merge.conflicts })
+				if (DRY_RUN) log(`${prefix}Would keep local changes: ${file} and write ${file}.new`)
+			} else {
+				successes.push({ file, merged: merge !== null })
+				installed.push({ file, sha256: hashContent(sourceContent) })
+				if (DRY_RUN) {
+					log(
+						merge
+							? `${prefix}Would merge local changes into: ${file}`
+							: `${prefix}Would install: ${file} -> ${targetPath}`,
+					)
+				}
 			}
 		} catch (err) {
 			const error = err instanceof Error ? err : new Error(String(err))
@@ -206,10 +394,116 @@ async function main() {
 		}
 	}
 
+	// The orchestrator parses the planner's and builder's output, so their formats must match
+	if (failures.length === 0) {
+		verbose(`Checking agent contracts...`)
+		const contracts = verifyAgentContracts(agentContents)
+		for (const [name, diagnostics] of Object.entries(contracts)) {
+			const file = `${name}.md`
+			for (const diagnostic of diagnostics) {
+				const report = { error: logError, warning: log, info: verbose }[diagnostic.severity]
+				report(`${prefix}  ${formatDiagnostic(diagnostic, file).replaceAll("\n", "\n    ")}`)
+			}
+			const errors = diagnostics.filter(({ severity }) => severity === "error")
+			if (errors.length > 0) {
+				const message = `Breaks agent contracts: ${errors.map((e) => e.message).join("; ")}`
+				failures.push({ file, message })
+				logError(`${prefix}  Failed: ${file} - ${message}`)
+			}
+		}
+	}
+
+	verbose(
+		`Installation summary: ${successes.length} succeeded, ${conflicts.length} conflicted, ${failures.length} failed`,
+	)
+	if (failures.length > 0) {
+		// Install all agents or none, so the orchestrator never runs with mismatched subagents
+		transaction?.abort()
+		console.error(
+			`${prefix}opencode-plugin-opencoder: ${DRY_RUN ? "Installation would fail" : "Installation failed"}, no agents were changed`,
+		)
+		logError(`${prefix}  ${failures.length} file(s) failed to install:`)
+		for (const { file, message } of failures) {
+			logError(`${prefix}    - ${file}: ${message}`)
+		}
+		process.exit(1)
+	}
+
+	// Record the installed files in the manifest, as part of the same transaction
+	const manifestPath = getManifestPath(AGENTS_TARGET_DIR)
+	if (DRY_RUN) {
+		log(`${prefix}Would write install manifest: ${manifestPath}`)
+	} else if (installed.length > 0) {
+		try {
+			const { name, version } = getPackageInfo(packageRoot)
+			const updated = recordInstalledFiles(manifest, name, installed, version)
+			transaction.stage(MANIFEST_FILE, `${JSON.stringify(updated, null, 2)}\n`)
+			verbose(`Staged install manifest: ${manifestPath}`)
+		} catch (err) {
+			// Uninstall falls back to comparing against the packaged agents
+			logError(`${prefix}  Warning: Could not write install manifest: ${err.message}`)
+		}
+	}
+
+	// Back up the installed agents before any of them is overwritten
+	try {
+		const overwriting = files.some((file) => {
+			const targetPath = join(AGENTS_TARGET_DIR, file)
+			return (
+				existsSync(targetPath) &&
+				readFileSync(targetPath, "utf-8") !== readFileSync(join(AGENTS_SOURCE_DIR, file), "utf-8")
+			)
+		})
+		if (overwriting && DRY_RUN) {
+			log(`${prefix}Would back up existing agents to ${getBackupsDir(AGENTS_TARGET_DIR)}`)
+		} else if (overwriting) {
+			const backup = createBackup(AGENTS_TARGET_DIR, [
+				...files,
+				...(manifest?.files.map((entry) => entry.file) ?? []),
+			])
+			log(`  Backed up existing agents: ${backup.id}`)
+			for (const id of pruneBackups(AGENTS_TARGET_DIR, getMaxBackups())) {
+				verbose(`Removed old backup: ${id}`)
+			}
+		}
+	} catch (err) {
+		logError(`${prefix}  Warning: Could not back up existing agents: ${err.message}`)
+	}
+
+	// Move all staged files into place together
+	if (transaction) {
+		try {
+			transaction.commit()
+		} catch (err) {
+			const outcome = err.unrestored?.length
+				? "not all previous agents could be restored"
+				: "previous agents restored"
+			console.error(`opencode-plugin-opencoder: Installation failed, ${outcome}: ${err.message}`)
+			process.exit(1)
+		}
+		for (const { file, merged } of successes) {
+			log(merged ? `  Merged local changes: ${file}` : `  Installed: ${file}`)
+		}
+		for (const { file } of conflicts) {
+			log(`  Kept local changes: ${file} (update written to ${file}.new)`)
+		}
+	}
+
 	// Print summary
-	verbose(`Installation summary: ${successes.length} succeeded, ${failures.length} failed`)
 	log("")
-	if (successes.length > 0 && failures.length === 0) {
+	if (conflicts.length > 0) {
+		// Always show, so customized agents are not silently left on the old version
+		console.log(
+			`${prefix}opencode-plugin-opencoder: ${conflicts.length} customized agent(s) could not be merged with this update:`,
+		)
+		for (const { file, blocks } of conflicts) {
+			console.log(`${prefix}    - ${file}: conflicting changes in ${blocks.join(", ")}`)
+		}
+		console.log(
+			`${prefix}  Your versions were kept. Merge the changes from the .new file next to each agent by hand.\n`,
+		)
+	}
+	if (successes.length > 0) {
 		// Final success message - always show even in quiet mode
 		console.log(
 			`${prefix}opencode-plugin-opencoder: Successfully installed ${successes.length} agent(s)`,
@@ -219,23 +513,6 @@ async function main() {
 			log("\nTo use the autonomous development loop, run:")
 			log("  opencode @opencoder")
 		}
-	} else if (successes.length > 0 && failures.length > 0) {
-		// Final partial success message - always show even in quiet mode
-		console.log(
-			`${prefix}opencode-plugin-opencoder: Installed ${successes.length} of ${files.length} agent(s)`,
-		)
-		log(`${prefix}  Location: ${AGENTS_TARGET_DIR}`)
-		logError(`\n${prefix}  ${failures.length} file(s) failed to install:`)
-		for (const { file, message } of failures) {
-			logError(`${prefix}    - ${file}: ${message}`)
-		}
-	} else {
-		// Final failure message - always show
-		console.error(`${prefix}opencode-plugin-opencoder: Failed to install any agents`)
-		for (const { file, message } of failures) {
-			logError(`${prefix}    - ${file}: ${message}`)
-		}
-		process.exit(1)
 	}
 }
 
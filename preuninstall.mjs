@@ -3,20 +3,29 @@
 /**
  * Preuninstall script for opencode-plugin-opencoder
  *
- * Removes agent markdown files from ~/.config/opencode/agents/
+ * Removes agent markdown files from ~/.config/opencode/agents/ (or the
+ * directory selected with `--scope`/`--target`).
  * This cleans up the agents when the plugin is uninstalled.
+ * Files modified since installation are kept unless --force is given, as
+ * are `<agent>.md.new` updates that no longer hold the packaged content.
  */
 
 import { existsSync, readdirSync, unlinkSync } from "node:fs"
 import { join } from "node:path"
-
 import {
-	AGENTS_TARGET_DIR,
+	checkInstalledFile,
+	hashFile,
+	readManifest,
+	removeBase,
+	writeManifest,
+} from "./src/manifest.mjs"
+import {
 	createLogger,
 	getAgentsSourceDir,
 	getErrorMessage,
 	getPackageRoot,
 	parseCliFlags,
+	resolveAgentsTargetDir,
 	retryOnTransientError,
 } from "./src/paths.mjs"
 
@@ -34,24 +43,41 @@ const FORCE = flags.force
 if (flags.help) {
 	console.log(`Usage: node preuninstall.mjs [options]
 
-Remove OpenCoder agents from ~/.config/opencode/agents/
+Remove OpenCoder agents from ~/.config/opencode/agents/ (or
+$OPENCODE_CONFIG_DIR/agents/, $XDG_CONFIG_HOME/opencode/agents/)
 
 Options:
-  --dry-run   Simulate removal without deleting files
-  --verbose   Enable verbose output for debugging
-  --quiet     Suppress non-error output (for CI environments)
-  --force     Force removal without prompting
-  --help      Show this help message and exit
+  --dry-run         Simulate removal without deleting files
+  --verbose         Enable verbose output for debugging
+  --quiet           Suppress non-error output (for CI environments)
+  --force           Also remove agent files modified since installation and
+                    edited <agent>.md.new updates
+  --scope <scope>   global (default) or project: remove from the project's
+                    .opencode/agents/ (default from OPENCODER_SCOPE)
+  --target <dir>    Remove from the given directory
+  --help            Show this help message and exit
 
 Examples:
-  node preuninstall.mjs              # Remove agents
-  node preuninstall.mjs --dry-run    # Preview what would be removed
-  node preuninstall.mjs --verbose    # Remove with detailed logging
-  node preuninstall.mjs --quiet      # Remove silently (errors only)
-  node preuninstall.mjs --force      # Force remove agents`)
+  node preuninstall.mjs                  # Remove agents
+  node preuninstall.mjs --dry-run        # Preview what would be removed
+  node preuninstall.mjs --verbose        # Remove with detailed logging
+  node preuninstall.mjs --quiet          # Remove silently (errors only)
+  node preuninstall.mjs --force          # Remove agents, including modified ones
+  node preuninstall.mjs --scope project  # Remove the agents pinned in the current project`)
 	process.exit(0)
 }
 
+/** Resolve the agents directory from --scope and --target */
+let targetDir
+try {
+	targetDir = resolveAgentsTargetDir({ scope: flags.scope, target: flags.target })
+} catch (err) {
+	console.error(`opencode-plugin-opencoder: ${err.message}`)
+	// Don't exit with error code - we want uninstall to succeed
+	process.exit(0)
+}
+const AGENTS_TARGET_DIR = targetDir
+
 /** Create logger with verbose and quiet flags */
 const logger = createLogger(VERBOSE, QUIET)
 const verbose = logger.verbose
@@ -63,7 +89,15 @@ const logError = logger.error
  *
  * Removes agent markdown files that were installed by this package
  * from the OpenCode configuration directory (~/.config/opencode/agents/).
- * Only removes files that match agents in the package's agents/ directory.
+ * Only removes files recorded in the install manifest or matching agents in
+ * the package's agents/ directory, and only if their checksum still matches
+ * the installed content. Modified files are reported and kept unless
+ * --force is given.
+ *
+ * Updates that postinstall could not merge into customized agents were
+ * written next to them as `<agent>.md.new`. These are removed too while
+ * they still hold the packaged agent; edited ones are reported and kept
+ * unless --force is given.
  *
  * The function handles missing directories and files gracefully,
  * continuing to remove remaining agents even if some fail.
@@ -95,7 +129,7 @@ async function main() {
 
 	// Note about force mode for uninstall
 	if (FORCE) {
-		verbose(`Force mode enabled: removal will proceed without additional checks`)
+		verbose(`Force mode enabled: modified agent files will be removed`)
 	}
 
 	// Check if target directory exists
@@ -116,9 +150,22 @@ async function main() {
 	}
 	verbose(`Source directory exists`)
 
+	let manifest = null
+	try {
+		manifest = readManifest(AGENTS_TARGET_DIR)
+		verbose(manifest ? `Install manifest found` : `No install manifest found`)
+	} catch (err) {
+		logError(`${prefix}  Warning: ${err.message}`)
+	}
+
 	const allFiles = readdirSync(AGENTS_SOURCE_DIR)
 	verbose(`Files in source directory: ${allFiles.join(", ") || "(none)"}`)
-	const agentFiles = allFiles.filter((f) => f.endsWith(".md"))
+	const agentFiles = [
+		...new Set([
+			...allFiles.filter((f) => f.endsWith(".md")),
+			...(manifest?.files.map((entry) => entry.file) ?? []),
+		]),
+	]
 	verbose(`Markdown files to remove: ${agentFiles.length}`)
 
 	if (agentFiles.length === 0) {
@@ -127,13 +174,37 @@ async function main() {
 	}
 
 	let removedCount = 0
+	/** Files modified since installation, left in place */
+	const modifiedFiles = []
+	/** Files left in place for any reason, still tracked by the manifest */
+	const keptFiles = []
 
 	for (const file of agentFiles) {
 		const targetPath = join(AGENTS_TARGET_DIR, file)
 		verbose(`Processing: ${file}`)
 		verbose(`  Target path: ${targetPath}`)
 
-		if (existsSync(targetPath)) {
+		const entry = manifest?.files.find((e) => e.file === file)
+		let state
+		try {
+			state = checkInstalledFile(targetPath, entry, join(AGENTS_SOURCE_DIR, file))
+		} catch (err) {
+			logError(`${prefix}  Warning: Could not check ${file}: ${err.message}`)
+			keptFiles.push(file)
+			continue
+		}
+
+		if (state === "modified" && !FORCE) {
+			verbose(`  Checksum differs from the installed file`)
+			log(`${prefix}  Kept modified file: ${file} (remove it manually or rerun with --force)`)
+			modifiedFiles.push(file)
+			keptFiles.push(file)
+		} else if (state !== "missing") {
+			verbose(
+				state === "unmodified"
+					? `  Checksum matches the installed file`
+					: `  Checksum differs from the installed file (--force)`,
+			)
 			verbose(`  File exists, removing...`)
 			try {
 				if (DRY_RUN) {
@@ -150,17 +221,83 @@ async function main() {
 				const message = getErrorMessage(error, file, targetPath)
 				logError(`${prefix}  Warning: Could not remove ${file}: ${message}`)
 				verbose(`  Error details: ${error.message}`)
+				keptFiles.push(file)
 			}
 		} else {
 			verbose(`  File does not exist, skipping`)
 		}
 	}
 
-	verbose(`Removal summary: ${removedCount} files removed`)
-	if (removedCount > 0) {
+	let removedUpdates = 0
+	/** `.new` updates that differ from the packaged agent, left in place */
+	const keptUpdates = []
+
+	for (const file of agentFiles) {
+		const update = `${file}.new`
+		const updatePath = join(AGENTS_TARGET_DIR, update)
+		if (!existsSync(updatePath)) continue
+		verbose(`Processing: ${update}`)
+		const sourcePath = join(AGENTS_SOURCE_DIR, file)
+		try {
+			const packaged = existsSync(sourcePath) && hashFile(updatePath) === hashFile(sourcePath)
+			if (!packaged && !FORCE) {
+				verbose(`  Content differs from the packaged agent`)
+				log(`${prefix}  Kept edited update: ${update} (remove it manually or rerun with --force)`)
+				keptUpdates.push(update)
+				continue
+			}
+			if (DRY_RUN) {
+				log(`${prefix}Would remove: ${updatePath}`)
+			} else {
+				await retryOnTransientError(() => unlinkSync(updatePath))
+				log(`  Removed: ${update}`)
+			}
+			removedUpdates++
+		} catch (err) {
+			const error = err instanceof Error ? err : new Error(String(err))
+			const message = getErrorMessage(error, update, updatePath)
+			logError(`${prefix}  Warning: Could not remove ${update}: ${message}`)
+			keptUpdates.push(update)
+		}
+	}
+
+	// Keep manifest entries and merge bases for the files left in place, so a
+	// later run can still check them
+	if (!DRY_RUN) {
+		try {
+			for (const file of agentFiles.filter((f) => !keptFiles.includes(f))) {
+				removeBase(AGENTS_TARGET_DIR, file)
+			}
+			if (manifest) {
+				writeManifest(AGENTS_TARGET_DIR, {
+					...manifest,
+					files: manifest.files.filter((entry) => keptFiles.includes(entry.file)),
+				})
+			}
+		} catch (err) {
+			logError(`${prefix}  Warning: Could not update install manifest: ${err.message}`)
+		}
+	}
+
+	verbose(`Removal summary: ${removedCount} files removed, ${keptFiles.length} kept`)
+	verbose(`Updates: ${removedUpdates} removed, ${keptUpdates.length} kept`)
+	if (modifiedFiles.length > 0) {
+		// Always show, so users know which files to clean up
+		console.log(
+			`\n${prefix}opencode-plugin-opencoder: Kept ${modifiedFiles.length} modified agent(s): ${modifiedFiles.join(", ")}`,
+		)
+	}
+	if (keptUpdates.length > 0) {
+		// Always show, so users know which files to clean up
+		console.log(
+			`\n${prefix}opencode-plugin-opencoder: Kept ${keptUpdates.length} update file(s): ${keptUpdates.join(", ")}`,
+		)
+	}
+	if (removedCount > 0 || removedUpdates > 0) {
 		// Final success message - always show even in quiet mode
-		console.log(`\n${prefix}opencode-plugin-opencoder: Removed ${removedCount} agent(s)`)
-	} else {
+		const updates = removedUpdates > 0 ? ` and ${removedUpdates} unmerged update(s)` : ""
+		console.log(`\n${prefix}opencode-plugin-opencoder: Removed ${removedCount} agent(s)${updates}`)
+	} else if (modifiedFiles.length === 0 && keptUpdates.length === 0) {
 		// Final status message - always show even in quiet mode
 		console.log(`\n${prefix}opencode-plugin-opencoder: No agents were installed, nothing removed`)
 	}
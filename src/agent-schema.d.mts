@@ -0,0 +1,140 @@
+/**
+ * Type declarations for agent-schema.mjs
+ */
+
+/** Allowed values of `permission` settings */
+export const PERMISSION_VALUES: readonly ["allow", "ask", "deny"]
+
+/** Value type of a frontmatter field: a YAML string, number, boolean or map */
+export type FieldType = "string" | "number" | "boolean" | "map"
+
+/**
+ * Format a field's text must have, checked on the value as written:
+ *
+ * - `semver`: a version such as `1.0.0` or `0.15.0-beta.2`
+ * - `range`: an npm-style version range such as `>=0.1.0 <1.0.0`
+ * - `date`: an ISO 8601 date such as `2026-01-18`, optionally with a time
+ */
+export type FieldFormat = "semver" | "range" | "date"
+
+/**
+ * Rule for a frontmatter field or map value.
+ */
+export interface FieldRule {
+	/** The allowed value types */
+	type: FieldType | readonly FieldType[]
+	/** Whether the field must be set */
+	required?: boolean
+	/** Allowed values of a string */
+	enum?: readonly string[]
+	/** Smallest allowed number */
+	min?: number
+	/** Largest allowed number */
+	max?: number
+	/** Pattern a string must match */
+	pattern?: RegExp
+	/** How to describe the pattern in messages, e.g. "provider/model" */
+	patternName?: string
+	/** Format of the value as written */
+	format?: FieldFormat
+	/** Rule for each value of a map */
+	values?: Readonly<FieldRule>
+	/** Severity of the diagnostic when the field is not set (optional fields only) */
+	recommended?: "warning" | "info"
+	/** Example value as written, suggested when the field is missing */
+	example?: string
+}
+
+/** Severity of a diagnostic: only errors make an agent invalid */
+export type DiagnosticSeverity = "error" | "warning" | "info"
+
+/** Diagnostic severities, from most to least serious */
+export const DIAGNOSTIC_SEVERITIES: readonly ["error", "warning", "info"]
+
+/**
+ * A problem found while validating an agent.
+ */
+export interface AgentDiagnostic {
+	/** Id of the check that found it, e.g. "field-enum" */
+	rule: string
+	/** How serious it is */
+	severity: DiagnosticSeverity
+	/** What is wrong */
+	message: string
+	/** 1-based line number in the agent file */
+	line: number
+	/** 1-based column number in the agent file */
+	column: number
+	/** How to fix it */
+	fix?: string
+}
+
+/**
+ * Frontmatter as returned by `parseFrontmatter`.
+ */
+export interface Frontmatter {
+	/** The parsed values */
+	data: Record<string, unknown>
+	/** The values as written, by dotted path */
+	fields: Record<string, string>
+	/** Where each value is written, by dotted path (diagnostics are at 1:1 without it) */
+	positions?: Record<string, { line: number; column: number }>
+}
+
+/** Rules of frontmatter fields by field name */
+export type FrontmatterSchema = Readonly<Record<string, Readonly<FieldRule>>>
+
+/**
+ * Schema of agent frontmatter fields.
+ *
+ * - `description`: what the agent does, shown by OpenCode when picking an agent
+ * - `mode`: `primary`, `subagent`, or `all` (OpenCode's default, usable as both)
+ * - `model`: the model to run the agent with, as `provider/model`
+ * - `temperature`: sampling temperature from 0 to 2
+ * - `tools`: tool names mapped to true or false
+ * - `permission`: `allow`, `ask` or `deny` per tool, or per command pattern
+ *   for tools like `bash`
+ * - `version`: the agent's semver version
+ * - `requires`: the range of OpenCode versions the agent supports
+ * - `updated`: the ISO date the agent was last updated
+ *
+ * `version` and `requires` are required; a missing `description` is a warning
+ * and a missing `updated` is an info diagnostic.
+ */
+export const AGENT_FRONTMATTER_SCHEMA: FrontmatterSchema
+
+/**
+ * Validates parsed frontmatter against a schema.
+ *
+ * Collects every violation instead of stopping at the first one, as
+ * diagnostics located at the offending field. Fields that are missing or empty
+ * (`key:` without a value) are reported together in one `required-field`
+ * error if they are required, and as a `recommended-field` warning or info if
+ * the schema recommends them; fields not in the schema are ignored. Other
+ * violations are errors with the rule ids `field-type`, `field-enum`,
+ * `field-pattern`, `field-range` and `field-format`.
+ *
+ * @param frontmatter - The frontmatter as returned by `parseFrontmatter`
+ * @param schema - The schema (defaults to {@link AGENT_FRONTMATTER_SCHEMA})
+ * @returns The diagnostics, empty if nothing is wrong
+ * @throws {TypeError} If frontmatter has no data or fields object
+ *
+ * @example
+ * validateFrontmatter(parseFrontmatter("---\nversion: 1.0\nrequires: '>=0.1.0'\n---"))
+ * // [
+ * //   { rule: "recommended-field", severity: "warning", ... },
+ * //   { rule: "recommended-field", severity: "info", ... },
+ * //   {
+ * //     rule: "field-format",
+ * //     severity: "error",
+ * //     message: 'Frontmatter field version must be a semver version (e.g. 1.0.0), got "1.0"',
+ * //     line: 2,
+ * //     column: 1,
+ * //     fix: "Set version to a semver version (e.g. 1.0.0)",
+ * //   },
+ * // ]
+ */
+export function validateFrontmatter(
+	frontmatter: Frontmatter,
+	schema?: FrontmatterSchema,
+): AgentDiagnostic[]
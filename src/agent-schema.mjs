@@ -0,0 +1,323 @@
+/**
+ * Schema of OpenCode agent frontmatter.
+ *
+ * Describes the frontmatter fields OpenCode and the install scripts read from
+ * agent files, so an agent with a misspelled mode, a string temperature or a
+ * malformed `requires` range is rejected before it is installed. Fields not
+ * in the schema are left to OpenCode.
+ *
+ * Problems are reported as diagnostics: each has a rule id, a severity, the
+ * line and column of the offending field and a suggested fix, so an installer
+ * can show every problem at once and let warnings through.
+ */
+
+import { parseVersion, validateRange } from "./semver.mjs"
+
+/** Allowed values of `permission` settings */
+export const PERMISSION_VALUES = Object.freeze(["allow", "ask", "deny"])
+
+/**
+ * Value type of a frontmatter field: a YAML string, number, boolean or map.
+ * @typedef {"string" | "number" | "boolean" | "map"} FieldType
+ */
+
+/**
+ * Format a field's text must have, checked on the value as written:
+ *
+ * - `semver`: a version such as `1.0.0` or `0.15.0-beta.2`
+ * - `range`: an npm-style version range such as `>=0.1.0 <1.0.0`
+ * - `date`: an ISO 8601 date such as `2026-01-18`, optionally with a time
+ * @typedef {"semver" | "range" | "date"} FieldFormat
+ */
+
+/**
+ * Rule for a frontmatter field or map value.
+ * @typedef {Object} FieldRule
+ * @property {FieldType | FieldType[]} type - The allowed value types
+ * @property {boolean} [required] - Whether the field must be set
+ * @property {readonly string[]} [enum] - Allowed values of a string
+ * @property {number} [min] - Smallest allowed number
+ * @property {number} [max] - Largest allowed number
+ * @property {RegExp} [pattern] - Pattern a string must match
+ * @property {string} [patternName] - How to describe the pattern in messages,
+ *   e.g. "provider/model"
+ * @property {FieldFormat} [format] - Format of the value as written
+ * @property {FieldRule} [values] - Rule for each value of a map
+ * @property {"warning" | "info"} [recommended] - Severity of the diagnostic when the
+ *   field is not set (optional fields only)
+ * @property {string} [example] - Example value as written, suggested when the field is
+ *   missing
+ */
+
+/**
+ * Severity of a diagnostic: only errors make an agent invalid.
+ * @typedef {"error" | "warning" | "info"} DiagnosticSeverity
+ */
+
+/**
+ * A problem found while validating an agent.
+ * @typedef {Object} AgentDiagnostic
+ * @property {string} rule - Id of the check that found it, e.g. "field-enum"
+ * @property {DiagnosticSeverity} severity - How serious it is
+ * @property {string} message - What is wrong
+ * @property {number} line - 1-based line number in the agent file
+ * @property {number} column - 1-based column number in the agent file
+ * @property {string} [fix] - How to fix it
+ */
+
+/** Diagnostic severities, from most to least serious */
+export const DIAGNOSTIC_SEVERITIES = Object.freeze(["error", "warning", "info"])
+
+/**
+ * Schema of agent frontmatter fields.
+ *
+ * - `description`: what the agent does, shown by OpenCode when picking an agent
+ * - `mode`: `primary`, `subagent`, or `all` (OpenCode's default, usable as both)
+ * - `model`: the model to run the agent with, as `provider/model`
+ * - `temperature`: sampling temperature from 0 to 2
+ * - `tools`: tool names mapped to true or false
+ * - `permission`: `allow`, `ask` or `deny` per tool, or per command pattern
+ *   for tools like `bash`
+ * - `version`: the agent's semver version
+ * - `requires`: the range of OpenCode versions the agent supports
+ * - `updated`: the ISO date the agent was last updated
+ *
+ * `version` and `requires` are required; a missing `description` is a warning
+ * and a missing `updated` is an info diagnostic.
+ *
+ * @type {Readonly<Record<string, Readonly<FieldRule>>>}
+ */
+export const AGENT_FRONTMATTER_SCHEMA = Object.freeze({
+	version: Object.freeze({ type: "string", required: true, format: "semver", example: "1.0.0" }),
+	requires: Object.freeze({ type: "string", required: true, format: "range", example: '">=0.1.0"' }),
+	description: Object.freeze({
+		type: "string",
+		recommended: "warning",
+		example: "What the agent does, shown when picking an agent",
+	}),
+	mode: Object.freeze({ type: "string", enum: Object.freeze(["primary", "subagent", "all"]) }),
+	model: Object.freeze({
+		type: "string",
+		pattern: /^[^/\s]+\/\S+$/,
+		patternName: "provider/model (e.g. anthropic/claude-sonnet-4)",
+	}),
+	temperature: Object.freeze({ type: "number", min: 0, max: 2 }),
+	tools: Object.freeze({ type: "map", values: Object.freeze({ type: "boolean" }) }),
+	permission: Object.freeze({
+		type: "map",
+		values: Object.freeze({
+			type: ["string", "map"],
+			enum: PERMISSION_VALUES,
+			values: Object.freeze({ type: "string", enum: PERMISSION_VALUES }),
+		}),
+	}),
+	updated: Object.freeze({
+		type: "string",
+		format: "date",
+		recommended: "info",
+		example: "2026-01-18",
+	}),
+})
+
+/** How types are named in messages */
+const TYPE_NAMES = {
+	string: "a string",
+	number: "a number",
+	boolean: "true or false",
+	map: "a map",
+}
+
+/** An ISO 8601 date with an optional time and offset */
+const ISO_DATE_PATTERN =
+	/^(\d{4})-(\d{2})-(\d{2})(?:[Tt ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:[Zz]|[+-]\d{2}:?\d{2})?)?$/
+
+/**
+ * Checks that text is a real calendar date in ISO 8601 format.
+ *
+ * @param {string} text - The text, e.g. "2026-01-18"
+ * @returns {boolean} True for a valid date
+ */
+function isIsoDate(text) {
+	const match = ISO_DATE_PATTERN.exec(text)
+	if (!match) return false
+	const [year, month, day] = match.slice(1, 4).map(Number)
+	const date = new Date(Date.UTC(year, month - 1, day))
+	return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+/**
+ * Checks text against a field format.
+ *
+ * @param {FieldFormat} format - The format
+ * @param {string} text - The value as written
+ * @returns {{ expected: string, reason?: string } | null} What the value must be and why
+ *   it is not, or null if it has the format
+ */
+function checkFormat(format, text) {
+	if (format === "semver") {
+		return parseVersion(text) ? null : { expected: "a semver version (e.g. 1.0.0)" }
+	}
+	if (format === "range") {
+		const range = validateRange(text)
+		return range.valid ? null : { expected: "a version range (e.g. >=0.1.0)", reason: range.error }
+	}
+	return isIsoDate(text) ? null : { expected: "an ISO date (e.g. 2026-01-18)" }
+}
+
+/**
+ * Returns the type of a parsed frontmatter value.
+ *
+ * @param {unknown} value - The value
+ * @returns {string} "map", "list", "null", or the `typeof` of a scalar
+ */
+function typeOf(value) {
+	if (value === null) return "null"
+	if (Array.isArray(value)) return "list"
+	return typeof value === "object" ? "map" : typeof value
+}
+
+/**
+ * Frontmatter as returned by `parseFrontmatter`.
+ * @typedef {Object} Frontmatter
+ * @property {Record<string, unknown>} data - The parsed values
+ * @property {Record<string, string>} fields - The values as written, by dotted path
+ * @property {Record<string, { line: number, column: number }>} [positions] - Where
+ *   each value is written, by dotted path (diagnostics are at 1:1 without it)
+ */
+
+/**
+ * Collects the violations of a value against its rule.
+ *
+ * @param {string} path - Dotted path of the value, e.g. "tools.write"
+ * @param {unknown} value - The parsed value
+ * @param {Readonly<FieldRule>} rule - The rule
+ * @param {Frontmatter} frontmatter - The frontmatter, for values as written and positions
+ * @param {AgentDiagnostic[]} diagnostics - The violations collected so far
+ */
+function checkValue(path, value, rule, frontmatter, diagnostics) {
+	const { fields, positions = {} } = frontmatter
+	const type = typeOf(value)
+	const got = type === "map" || type === "list" ? `a ${type}` : `"${fields[path] ?? value}"`
+	const fail = (
+		/** @type {string} */ id,
+		/** @type {string} */ expected,
+		/** @type {string | undefined} */ reason,
+	) => {
+		const detail = reason ? `: ${reason}` : ""
+		const { line = 1, column = 1 } = positions[path] ?? {}
+		diagnostics.push({
+			rule: id,
+			severity: "error",
+			message: `Frontmatter field ${path} must be ${expected}, got ${got}${detail}`,
+			line,
+			column,
+			fix: `Set ${path} to ${expected}`,
+		})
+	}
+
+	// Formats apply to the value as written, so `version: 1.0` is checked as "1.0"
+	if (rule.format && type !== "map" && type !== "list") {
+		const problem = checkFormat(rule.format, fields[path] ?? String(value))
+		if (problem) fail("field-format", problem.expected, problem.reason)
+		return
+	}
+	const types = [rule.type].flat()
+	if (!types.some((allowed) => allowed === type)) {
+		fail("field-type", types.map((allowed) => TYPE_NAMES[allowed]).join(" or "))
+		return
+	}
+	if (type === "string" && rule.enum && !rule.enum.includes(/** @type {string} */ (value))) {
+		fail("field-enum", `one of ${rule.enum.join(", ")}`)
+	}
+	if (type === "string" && rule.pattern && !rule.pattern.test(/** @type {string} */ (value))) {
+		fail("field-pattern", rule.patternName ?? `a string matching ${rule.pattern}`)
+	}
+	if (type === "number") {
+		const number = /** @type {number} */ (value)
+		const { min, max } = rule
+		if (min !== undefined && max !== undefined && !(number >= min && number <= max)) {
+			fail("field-range", `between ${min} and ${max}`)
+		} else if (min !== undefined && !(number >= min)) {
+			fail("field-range", `at least ${min}`)
+		} else if (max !== undefined && !(number <= max)) {
+			fail("field-range", `at most ${max}`)
+		}
+	}
+	if (type === "map" && rule.values) {
+		for (const [key, child] of Object.entries(/** @type {object} */ (value))) {
+			checkValue(`${path}.${key}`, child, rule.values, frontmatter, diagnostics)
+		}
+	}
+}
+
+/**
+ * Validates parsed frontmatter against a schema.
+ *
+ * Collects every violation instead of stopping at the first one, as
+ * diagnostics located at the offending field. Fields that are missing or empty
+ * (`key:` without a value) are reported together in one `required-field`
+ * error if they are required, and as a `recommended-field` warning or info if
+ * the schema recommends them; fields not in the schema are ignored. Other
+ * violations are errors with the rule ids `field-type`, `field-enum`,
+ * `field-pattern`, `field-range` and `field-format`.
+ *
+ * @param {Frontmatter} frontmatter - The frontmatter as returned by `parseFrontmatter`
+ * @param {Readonly<Record<string, Readonly<FieldRule>>>} [schema] - The schema
+ *   (defaults to {@link AGENT_FRONTMATTER_SCHEMA})
+ * @returns {AgentDiagnostic[]} The diagnostics, empty if nothing is wrong
+ * @throws {TypeError} If frontmatter has no data or fields object
+ *
+ * @example
+ * validateFrontmatter(parseFrontmatter("---\nversion: 1.0\nrequires: '>=0.1.0'\n---"))
+ * // [
+ * //   { rule: "recommended-field", severity: "warning", ... },
+ * //   { rule: "recommended-field", severity: "info", ... },
+ * //   {
+ * //     rule: "field-format",
+ * //     severity: "error",
+ * //     message: 'Frontmatter field version must be a semver version (e.g. 1.0.0), got "1.0"',
+ * //     line: 2,
+ * //     column: 1,
+ * //     fix: "Set version to a semver version (e.g. 1.0.0)",
+ * //   },
+ * // ]
+ */
+export function validateFrontmatter(frontmatter, schema = AGENT_FRONTMATTER_SCHEMA) {
+	const { data, fields } = frontmatter ?? {}
+	if (typeof data !== "object" || data === null || typeof fields !== "object" || !fields) {
+		throw new TypeError("validateFrontmatter: frontmatter must have data and fields objects")
+	}
+	/** @type {AgentDiagnostic[]} */
+	const diagnostics = []
+	const entries = Object.entries(schema)
+	const unset = entries.filter(([name]) => (data[name] ?? "") === "")
+	const missing = unset.filter(([, rule]) => rule.required)
+	if (missing.length > 0) {
+		const lines = missing.map(([name, rule]) => `${name}: ${rule.example ?? "..."}`)
+		diagnostics.push({
+			rule: "required-field",
+			severity: "error",
+			message: `Frontmatter missing required fields: ${missing.map(([name]) => name).join(", ")}`,
+			line: 1,
+			column: 1,
+			fix: `Add to the frontmatter: ${lines.join(", ")}`,
+		})
+	}
+	for (const [name, rule] of unset) {
+		if (rule.required || !rule.recommended) continue
+		diagnostics.push({
+			rule: "recommended-field",
+			severity: rule.recommended,
+			message: `Frontmatter missing recommended field: ${name}`,
+			line: 1,
+			column: 1,
+			fix: `Add to the frontmatter: ${name}: ${rule.example ?? "..."}`,
+		})
+	}
+	for (const [name, rule] of entries) {
+		const value = data[name]
+		if (value === undefined || value === null || value === "") continue
+		checkValue(name, value, rule, frontmatter, diagnostics)
+	}
+	return diagnostics
+}
@@ -0,0 +1,101 @@
+/**
+ * Type declarations for backup.mjs
+ */
+
+/** Directory in the user's state directory that holds the backups */
+export const BACKUPS_DIR: string
+
+/** File in each backup directory describing the backup */
+export const BACKUP_INFO_FILE: "backup.json"
+
+/** Default number of backups kept */
+export const DEFAULT_MAX_BACKUPS: 5
+
+/** Environment variable overriding {@link DEFAULT_MAX_BACKUPS} */
+export const MAX_BACKUPS_ENV: "OPENCODER_MAX_BACKUPS"
+
+/**
+ * A backup of installed agents.
+ */
+export interface Backup {
+	/** Backup identifier, derived from its creation time */
+	id: string
+	/** ISO timestamp of the backup */
+	createdAt: string
+	/** Backed up paths, relative to the agents directory */
+	files: string[]
+}
+
+/**
+ * Returns the directory holding the backups of an agents directory: a
+ * directory named after a hash of the agents directory's path, under
+ * `$XDG_STATE_HOME/opencoder/backups/` (~/.local/state by default).
+ *
+ * @param targetDir - The agents target directory
+ * @param env - Environment variables (defaults to `process.env`)
+ * @returns The backups directory
+ */
+export function getBackupsDir(targetDir: string, env?: Record<string, string | undefined>): string
+
+/**
+ * Reads the number of backups to keep from the environment.
+ *
+ * @param env - Environment variables (defaults to `process.env`)
+ * @returns The number of backups to keep
+ */
+export function getMaxBackups(env?: Record<string, string | undefined>): number
+
+/**
+ * Snapshots installed agents into a new backup, together with their merge
+ * bases and the install manifest.
+ *
+ * @param targetDir - The agents target directory
+ * @param files - Agent file names to back up (missing files are skipped)
+ * @param now - Creation time (defaults to now)
+ * @returns The backup, or null if none of the agent files exist
+ */
+export function createBackup(targetDir: string, files: string[], now?: Date): Backup | null
+
+/**
+ * Lists the backups of an agents directory, ordered by creation time and
+ * sequence number.
+ *
+ * @param targetDir - The agents target directory
+ * @returns The backups, oldest first
+ */
+export function listBackups(targetDir: string): Backup[]
+
+/**
+ * Deletes the oldest backups beyond the given number.
+ *
+ * @param targetDir - The agents target directory
+ * @param keep - Number of backups to keep
+ * @param preserve - Identifiers of backups never deleted, such as the backup a
+ *   rollback just restored
+ * @returns Identifiers of the deleted backups
+ */
+export function pruneBackups(targetDir: string, keep: number, preserve?: string[]): string[]
+
+/**
+ * Finds a backup by identifier, or the latest backup.
+ *
+ * @param targetDir - The agents target directory
+ * @param id - Backup identifier (defaults to the latest backup)
+ * @returns The backup
+ * @throws {Error} If there are no backups or no backup has the identifier
+ */
+export function findBackup(targetDir: string, id?: string): Backup
+
+/**
+ * Restores the installed agents from a backup in an install transaction,
+ * so a failed restore leaves the current agents untouched.
+ *
+ * @param targetDir - The agents target directory
+ * @param id - Backup identifier (defaults to the latest backup)
+ * @returns The restored backup and the removed paths
+ * @throws {Error} If the backup does not exist or cannot be read
+ */
+export function restoreBackup(
+	targetDir: string,
+	id?: string,
+): { backup: Backup; removed: string[] }
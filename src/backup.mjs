@@ -0,0 +1,280 @@
+/**
+ * Backups of installed agents for agent installation scripts.
+ *
+ * Before postinstall.mjs overwrites agent files, it snapshots the installed
+ * agents, their merge bases and the install manifest into a timestamped
+ * backup directory in the user's state directory: not in the agents
+ * directory, where OpenCode would load the copies as agents, and not in the
+ * repository of a project install. Only the most recent backups are kept.
+ * `postinstall.mjs --rollback [id]` restores a backup, so an agent update
+ * that degrades the loop can be undone.
+ */
+
+import { createHash } from "node:crypto"
+import {
+	copyFileSync,
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	renameSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs"
+import { homedir } from "node:os"
+import { dirname, join, resolve } from "node:path"
+import { BASE_DIR, MANIFEST_FILE, readManifest } from "./manifest.mjs"
+import { createInstallTransaction } from "./transaction.mjs"
+
+/** Directory in the user's state directory that holds the backups */
+export const BACKUPS_DIR = join("opencoder", "backups")
+
+/** File in each backup directory describing the backup */
+export const BACKUP_INFO_FILE = "backup.json"
+
+/** Default number of backups kept */
+export const DEFAULT_MAX_BACKUPS = 5
+
+/** Environment variable overriding {@link DEFAULT_MAX_BACKUPS} */
+export const MAX_BACKUPS_ENV = "OPENCODER_MAX_BACKUPS"
+
+/**
+ * A backup of installed agents.
+ * @typedef {Object} Backup
+ * @property {string} id - Backup identifier, derived from its creation time
+ * @property {string} createdAt - ISO timestamp of the backup
+ * @property {string[]} files - Backed up paths, relative to the agents directory
+ */
+
+/**
+ * Returns the directory holding the backups of an agents directory: a
+ * directory named after a hash of the agents directory's path, under
+ * `$XDG_STATE_HOME/opencoder/backups/` (~/.local/state by default).
+ *
+ * @param {string} targetDir - The agents target directory
+ * @param {Record<string, string | undefined>} [env] - Environment variables (defaults to `process.env`)
+ * @returns {string} The backups directory
+ *
+ * @example
+ * getBackupsDir("/home/user/project/.opencode/agents")
+ * // "/home/user/.local/state/opencoder/backups/3f5a9c0e1b2d4f68"
+ */
+export function getBackupsDir(targetDir, env = process.env) {
+	const stateHome = env.XDG_STATE_HOME
+		? resolve(env.XDG_STATE_HOME)
+		: join(homedir(), ".local", "state")
+	const key = createHash("sha256").update(resolve(targetDir)).digest("hex").slice(0, 16)
+	return join(stateHome, BACKUPS_DIR, key)
+}
+
+/**
+ * Reads the number of backups to keep from the environment.
+ *
+ * @param {Record<string, string | undefined>} [env] - Environment variables (defaults to `process.env`)
+ * @returns {number} The number of backups to keep
+ *
+ * @example
+ * // OPENCODER_MAX_BACKUPS=10 npm install opencode-plugin-opencoder
+ * getMaxBackups()  // 10
+ */
+export function getMaxBackups(env = process.env) {
+	const value = env[MAX_BACKUPS_ENV]?.trim()
+	if (!value || !/^\d+$/.test(value) || Number.parseInt(value, 10) === 0) {
+		return DEFAULT_MAX_BACKUPS
+	}
+	return Number.parseInt(value, 10)
+}
+
+/**
+ * Lists the files of an install: the given agent files, their merge bases
+ * and the install manifest, as far as they exist.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @param {string[]} files - Agent file names
+ * @returns {string[]} Existing paths, relative to the agents directory
+ */
+function collectInstallFiles(targetDir, files) {
+	const paths = []
+	for (const file of new Set(files)) {
+		if (existsSync(join(targetDir, file))) paths.push(file)
+		const base = `${BASE_DIR}/${file}.base`
+		if (existsSync(join(targetDir, base))) paths.push(base)
+	}
+	if (existsSync(join(targetDir, MANIFEST_FILE))) paths.push(MANIFEST_FILE)
+	return paths
+}
+
+/**
+ * Snapshots installed agents into a new backup, together with their merge
+ * bases and the install manifest. The backup is written to a temporary
+ * directory first, so an interrupted backup is never listed.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @param {string[]} files - Agent file names to back up (missing files are skipped)
+ * @param {Date} [now] - Creation time (defaults to now)
+ * @returns {Backup | null} The backup, or null if none of the agent files exist
+ *
+ * @example
+ * const backup = createBackup(AGENTS_TARGET_DIR, ["opencoder.md", "opencoder-planner.md"])
+ * if (backup) log(`Backed up existing agents: ${backup.id}`)
+ */
+export function createBackup(targetDir, files, now = new Date()) {
+	const paths = collectInstallFiles(targetDir, files)
+	if (!paths.some((path) => !path.startsWith(BASE_DIR) && path !== MANIFEST_FILE)) return null
+
+	const backupsDir = getBackupsDir(targetDir)
+	const timestamp = now.toISOString().replace(/[:.]/g, "-")
+	let id = timestamp
+	for (let n = 2; existsSync(join(backupsDir, id)); n++) {
+		id = `${timestamp}-${n}`
+	}
+
+	const backup = { id, createdAt: now.toISOString(), files: paths }
+	const tempDir = join(backupsDir, `${id}.tmp`)
+	rmSync(tempDir, { recursive: true, force: true })
+	for (const path of paths) {
+		mkdirSync(dirname(join(tempDir, path)), { recursive: true })
+		copyFileSync(join(targetDir, path), join(tempDir, path))
+	}
+	writeFileSync(join(tempDir, BACKUP_INFO_FILE), `${JSON.stringify(backup, null, 2)}\n`)
+	renameSync(tempDir, join(backupsDir, id))
+	return backup
+}
+
+/**
+ * Returns the number that {@link createBackup} appends to the id of a backup
+ * created in the same millisecond as an earlier one (1 for the first).
+ *
+ * @param {Backup} backup - The backup
+ * @returns {number} The sequence number
+ */
+function sequenceOf(backup) {
+	const match = backup.id.match(/Z-(\d+)$/)
+	return match ? Number.parseInt(match[1], 10) : 1
+}
+
+/**
+ * Lists the backups of an agents directory, ordered by creation time and
+ * sequence number (so `…Z-10` comes after `…Z-2`). Directories without a
+ * valid backup description are ignored.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @returns {Backup[]} The backups, oldest first
+ */
+export function listBackups(targetDir) {
+	const backupsDir = getBackupsDir(targetDir)
+	if (!existsSync(backupsDir)) return []
+
+	const backups = []
+	for (const name of readdirSync(backupsDir)) {
+		const infoPath = join(backupsDir, name, BACKUP_INFO_FILE)
+		if (!existsSync(infoPath)) continue
+		try {
+			const backup = JSON.parse(readFileSync(infoPath, "utf-8"))
+			if (
+				backup?.id === name &&
+				Array.isArray(backup.files) &&
+				!Number.isNaN(Date.parse(backup.createdAt))
+			) {
+				backups.push(backup)
+			}
+		} catch {
+			// Not a backup written by createBackup
+		}
+	}
+	return backups.sort(
+		(a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt) || sequenceOf(a) - sequenceOf(b),
+	)
+}
+
+/**
+ * Deletes the oldest backups beyond the given number.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @param {number} keep - Number of backups to keep
+ * @param {string[]} [preserve] - Identifiers of backups never deleted, such as
+ *   the backup a rollback just restored
+ * @returns {string[]} Identifiers of the deleted backups
+ */
+export function pruneBackups(targetDir, keep, preserve = []) {
+	const backups = listBackups(targetDir)
+	const removed = backups
+		.slice(0, Math.max(0, backups.length - keep))
+		.map((backup) => backup.id)
+		.filter((id) => !preserve.includes(id))
+	for (const id of removed) {
+		rmSync(join(getBackupsDir(targetDir), id), { recursive: true, force: true })
+	}
+	return removed
+}
+
+/**
+ * Finds a backup by identifier, or the latest backup.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @param {string} [id] - Backup identifier (defaults to the latest backup)
+ * @returns {Backup} The backup
+ * @throws {Error} If there are no backups or no backup has the identifier
+ */
+export function findBackup(targetDir, id) {
+	const backups = listBackups(targetDir)
+	if (backups.length === 0) {
+		throw new Error(`No backups found in ${getBackupsDir(targetDir)}`)
+	}
+	if (id === undefined) return backups[backups.length - 1]
+	const backup = backups.find((b) => b.id === id)
+	if (!backup) {
+		throw new Error(
+			`Backup "${id}" not found. Available backups: ${backups.map((b) => b.id).join(", ")}`,
+		)
+	}
+	return backup
+}
+
+/**
+ * Restores the installed agents from a backup.
+ *
+ * The files are restored in an install transaction, so a failed restore
+ * leaves the current agents untouched. Agents recorded in the current
+ * install manifest that the backup does not contain (added by a later
+ * version) are removed, along with their merge bases.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @param {string} [id] - Backup identifier (defaults to the latest backup)
+ * @returns {{ backup: Backup, removed: string[] }} The restored backup and the removed paths
+ * @throws {Error} If the backup does not exist or cannot be read
+ *
+ * @example
+ * const { backup } = restoreBackup(AGENTS_TARGET_DIR, "2026-01-19T12-00-00-000Z")
+ * log(`Restored ${backup.files.length} file(s)`)
+ */
+export function restoreBackup(targetDir, id) {
+	const backup = findBackup(targetDir, id)
+	const backupDir = join(getBackupsDir(targetDir), backup.id)
+
+	let current = []
+	try {
+		current = (readManifest(targetDir)?.files ?? []).map((entry) => entry.file)
+	} catch {
+		// An unreadable manifest is replaced by the backup's
+	}
+	const removed = collectInstallFiles(targetDir, current).filter(
+		(path) => !backup.files.includes(path),
+	)
+
+	const transaction = createInstallTransaction(targetDir)
+	try {
+		for (const path of backup.files) {
+			transaction.stage(path, readFileSync(join(backupDir, path)))
+		}
+		for (const path of removed) {
+			transaction.remove(path)
+		}
+	} catch (err) {
+		transaction.abort()
+		throw err
+	}
+	transaction.commit()
+
+	return { backup, removed }
+}
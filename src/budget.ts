@@ -0,0 +1,124 @@
+/**
+ * Session budgets for the OpenCoder loop.
+ *
+ * The orchestrator loops until it is interrupted, which doesn't work for
+ * unattended runs such as CI jobs. Budgets cap a run's wall-clock time,
+ * cycles, tool calls and tokens. When a budget is exhausted, the plugin
+ * stops the loop gracefully: the current task finishes, new tasks are
+ * rejected, and the orchestrator is told to commit, push and summarize.
+ */
+
+import type { BudgetConfig } from "./config"
+
+/**
+ * Resources consumed by the current run.
+ */
+export interface BudgetUsage {
+	/** Wall-clock minutes since the loop started */
+	minutes: number
+	/** Cycles completed (a cycle completes when the next one starts) */
+	cycles: number
+	/** Tool calls made by the orchestrator and its subagents */
+	toolCalls: number
+	/** Tokens used by assistant messages (input, output and reasoning) */
+	tokens: number
+}
+
+/**
+ * A budget that was used up.
+ */
+export interface BudgetExhaustion {
+	/** The configuration key of the exhausted budget */
+	limit: keyof BudgetConfig
+	/** Amount used */
+	used: number
+	/** The configured maximum */
+	max: number
+}
+
+/** Budgets in the order they are checked, with the usage they limit */
+const BUDGET_LIMITS = Object.freeze([
+	{ limit: "maxMinutes", usage: "minutes", unit: "minutes" },
+	{ limit: "maxCycles", usage: "cycles", unit: "cycles" },
+	{ limit: "maxToolCalls", usage: "toolCalls", unit: "tool calls" },
+	{ limit: "maxTokens", usage: "tokens", unit: "tokens" },
+] as const)
+
+/**
+ * Counts the tokens of an assistant message. Cache reads and writes are not
+ * counted, as they are billed and rate-limited separately by most providers.
+ *
+ * @param tokens - The message's token counts
+ * @returns The number of tokens used
+ */
+export function countTokens(tokens: { input: number; output: number; reasoning: number }): number {
+	return tokens.input + tokens.output + tokens.reasoning
+}
+
+/**
+ * Checks the usage against the configured budgets.
+ *
+ * @param config - The `budget` configuration
+ * @param usage - Resources consumed so far
+ * @returns The first exhausted budget, or null if all budgets have room left
+ *
+ * @example
+ * checkBudget({ maxCycles: 3 }, { minutes: 12, cycles: 3, toolCalls: 240, tokens: 90000 })
+ * // { limit: "maxCycles", used: 3, max: 3 }
+ */
+export function checkBudget(config: BudgetConfig, usage: BudgetUsage): BudgetExhaustion | null {
+	for (const { limit, usage: key } of BUDGET_LIMITS) {
+		const max = config[limit]
+		if (max !== undefined && usage[key] >= max) {
+			return { limit, used: usage[key], max }
+		}
+	}
+	return null
+}
+
+/**
+ * Describes an exhausted budget, e.g. "30 of 30 cycles (budget.maxCycles)".
+ *
+ * @param exhaustion - The exhausted budget
+ * @returns The description
+ */
+export function describeExhaustion(exhaustion: BudgetExhaustion): string {
+	const unit = BUDGET_LIMITS.find(({ limit }) => limit === exhaustion.limit)?.unit
+	return `${Math.floor(exhaustion.used)} of ${exhaustion.max} ${unit} (budget.${exhaustion.limit})`
+}
+
+/**
+ * Formats the stop sequence injected into the orchestrator's system prompt
+ * once a budget is exhausted.
+ *
+ * @param exhaustion - The exhausted budget
+ * @returns Markdown instructions for stopping the loop
+ */
+export function formatBudgetStop(exhaustion: BudgetExhaustion): string {
+	return [
+		"## Session Budget Exhausted",
+		"",
+		`This run has used ${describeExhaustion(exhaustion)}. Stop the loop gracefully:`,
+		"",
+		"1. Let the task in progress finish. Do not start new tasks or cycles; the plugin rejects new planner and builder invocations.",
+		"2. Commit any completed changes that are not committed yet.",
+		"3. Push all commits.",
+		"4. Write a final summary: cycles completed, tasks done, blocked tasks with their blockers, tasks not started, and which budget ended the run.",
+		"",
+		"Then end your turn. Do not start another cycle.",
+	].join("\n")
+}
+
+/**
+ * Formats the error shown when a subagent invocation is rejected because a
+ * budget is exhausted.
+ *
+ * @param exhaustion - The exhausted budget
+ * @returns The rejection message
+ */
+export function formatBudgetRejection(exhaustion: BudgetExhaustion): string {
+	return [
+		`The session budget is exhausted: ${describeExhaustion(exhaustion)}.`,
+		"Do not start new tasks. Commit and push the completed work, write the final summary, and stop.",
+	].join(" ")
+}
@@ -0,0 +1,198 @@
+/**
+ * Parser for builder completion reports.
+ *
+ * Turns the builder's `## Done:`, `## Blocked:` and `## Partial:` reports
+ * into a typed {@link TaskOutcome}, and applies the orchestrator's
+ * "Decision Matrix" to decide whether the task's changes should be committed.
+ */
+
+/** The continuation signal every builder report ends with */
+export const READY_SIGNAL = "READY_FOR_NEXT_TASK"
+
+/**
+ * How a builder invocation ended.
+ *
+ * - `done`: task completed (`## Done:`)
+ * - `blocked`: task could not be completed (`## Blocked:`)
+ * - `partial`: some of the task was completed (`## Partial:`)
+ * - `unclear`: no report, no continuation signal, or a cut-off response
+ */
+export type TaskOutcomeStatus = "done" | "blocked" | "partial" | "unclear"
+
+/**
+ * Result of a single verification step from the `**Verified:**` line.
+ */
+export interface VerificationResult {
+	/** Check name as reported (e.g. "tests", "lint", "types") */
+	check: string
+	status: "passed" | "failed" | "unknown"
+}
+
+/**
+ * Machine-readable outcome of a builder invocation.
+ */
+export interface TaskOutcome {
+	status: TaskOutcomeStatus
+	/** Task title from the report heading */
+	title?: string
+	/** Files reported as changed (`**Files:**`) */
+	files: string[]
+	/** Verification results (`**Verified:**`) */
+	verification: VerificationResult[]
+	/** Reasons the task was blocked or stopped (`**Reason:**`) */
+	blockers: string[]
+	/** What the builder tried before giving up (`**Attempted:**`) */
+	attempted?: string
+	/** Suggested prerequisite or alternative (`**Suggestion:**`) */
+	suggestion?: string
+	/** Work that was done in a partial completion (`**Completed:**`) */
+	completed?: string
+	/** Work left over from a partial completion (`**Remaining:**`) */
+	remaining?: string
+	/** Critical note for the orchestrator (`**Note:**`) */
+	note?: string
+	/** Whether the report ended with the `READY_FOR_NEXT_TASK` signal */
+	ready: boolean
+	/** Whether the orchestrator should commit the changes (Decision Matrix) */
+	commit: boolean
+}
+
+/** Report heading: `## Done: [Task Title]` */
+const REPORT_HEADING = /^#{1,3}\s*(Done|Blocked|Partial)\s*:\s*(.*?)\s*$/i
+
+/** Field line: `**Files:** a, b` */
+const FIELD_LINE = /^(?:[-*]\s+)?\*\*([A-Za-z ]+?)(?::\*\*|\*\*:)\s*(.*)$/
+
+/**
+ * Verification check with its trailing status token: `tests ✓`, `lint: passed`,
+ * `types (failed)`. Words earlier in the check name ("error handling tests")
+ * are never status markers.
+ */
+const CHECK_STATUS = /^(.*?)[\s:(]*([✓✔✅✗✘❌]|\b(?:pass(?:ed)?|ok|fail(?:ed)?))\)?$/i
+
+/** Status tokens of passed checks, tested before the failed ones */
+const PASSED_MARKERS = /^(?:[✓✔✅]|pass(?:ed)?|ok)$/i
+const FAILED_MARKERS = /^(?:[✗✘❌]|fail(?:ed)?)$/i
+
+/**
+ * Parses the `**Verified:**` value (`tests ✓, lint ✓, types ✗`).
+ */
+function parseVerification(value: string): VerificationResult[] {
+	return value
+		.split(",")
+		.map((part) => part.trim())
+		.filter(Boolean)
+		.map((part): VerificationResult => {
+			const [, check = "", token = ""] = part.match(CHECK_STATUS) ?? []
+			if (PASSED_MARKERS.test(token)) return { check: check || part, status: "passed" }
+			if (FAILED_MARKERS.test(token)) return { check: check || part, status: "failed" }
+			return { check: part, status: "unknown" }
+		})
+}
+
+/**
+ * Collects `**Field:** value` lines following the report heading.
+ * Keys are lowercased field names.
+ */
+function parseFields(lines: string[]): Map<string, string> {
+	const fields = new Map<string, string>()
+	let current: string | undefined
+	for (const line of lines) {
+		const trimmed = line.trim()
+		if (!trimmed) continue
+		if (/^#{1,6}\s/.test(trimmed) || trimmed.startsWith("<")) break
+
+		const match = trimmed.match(FIELD_LINE)
+		if (match) {
+			current = (match[1] as string).trim().toLowerCase()
+			fields.set(current, (match[2] as string).trim())
+		} else if (current) {
+			fields.set(current, `${fields.get(current)} ${trimmed}`)
+		}
+	}
+	return fields
+}
+
+/**
+ * Parses a builder response into a typed task outcome.
+ *
+ * The last report heading in the response is used, so narration before the
+ * report is ignored. The commit decision follows the orchestrator's
+ * Decision Matrix:
+ *
+ * | Status | Commit? |
+ * |--------|---------|
+ * | done | Yes |
+ * | partial | Yes |
+ * | blocked | No |
+ * | unclear | No |
+ *
+ * A `## Done:` report without the `READY_FOR_NEXT_TASK` signal is treated
+ * as unclear, since the response may have been cut off.
+ *
+ * @param response - The builder's response text
+ * @returns The parsed outcome
+ * @throws {TypeError} If response is not a string
+ *
+ * @example
+ * const outcome = parseBuilderResult(`## Done: Add validation
+ * **Files:** src/api.ts
+ * **Verified:** tests ✓, lint ✓, types ✓
+ * **Status:** READY_FOR_NEXT_TASK`)
+ * // outcome.status === "done", outcome.commit === true
+ */
+export function parseBuilderResult(response: string): TaskOutcome {
+	if (typeof response !== "string") {
+		throw new TypeError(
+			`parseBuilderResult: response must be a string, got ${response === null ? "null" : typeof response}`,
+		)
+	}
+	const lines = response.replace(/\r\n?/g, "\n").split("\n")
+	const ready = response.includes(READY_SIGNAL)
+
+	let headingIndex = -1
+	for (let i = lines.length - 1; i >= 0; i--) {
+		if (REPORT_HEADING.test((lines[i] as string).trim())) {
+			headingIndex = i
+			break
+		}
+	}
+
+	if (headingIndex === -1) {
+		return {
+			status: "unclear",
+			files: [],
+			verification: [],
+			blockers: [],
+			ready,
+			commit: false,
+		}
+	}
+
+	const heading = (lines[headingIndex] as string).trim().match(REPORT_HEADING) as RegExpMatchArray
+	const kind = (heading[1] as string).toLowerCase() as "done" | "blocked" | "partial"
+	const title = (heading[2] as string).replace(/^\[|\]$/g, "").trim() || undefined
+	const fields = parseFields(lines.slice(headingIndex + 1))
+
+	const files = (fields.get("files") ?? "")
+		.split(",")
+		.map((file) => file.replace(/`/g, "").trim())
+		.filter(Boolean)
+	const reason = fields.get("reason")
+	const status: TaskOutcomeStatus = kind === "done" && !ready ? "unclear" : kind
+
+	return {
+		status,
+		...(title ? { title } : {}),
+		files,
+		verification: parseVerification(fields.get("verified") ?? ""),
+		blockers: reason ? [reason] : [],
+		...(fields.has("attempted") ? { attempted: fields.get("attempted") } : {}),
+		...(fields.has("suggestion") ? { suggestion: fields.get("suggestion") } : {}),
+		...(fields.has("completed") ? { completed: fields.get("completed") } : {}),
+		...(fields.has("remaining") ? { remaining: fields.get("remaining") } : {}),
+		...(fields.has("note") ? { note: fields.get("note") } : {}),
+		ready,
+		commit: status === "done" || status === "partial",
+	}
+}
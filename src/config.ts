@@ -0,0 +1,288 @@
+/**
+ * Project configuration for the OpenCoder plugin.
+ *
+ * Settings are read from `.opencode/opencoder.json` in the project
+ * directory, next to OpenCode's own project configuration, so they can be
+ * committed and shared with the team.
+ */
+
+import { existsSync, readFileSync } from "node:fs"
+import { join } from "node:path"
+
+/** Path of the configuration file, relative to the project root */
+export const CONFIG_FILE = join(".opencode", "opencoder.json")
+
+/**
+ * Glob allow/deny lists for paths the loop may modify.
+ */
+export interface PathRules {
+	/** Paths that may be modified even if they match a deny pattern */
+	allow?: string[]
+	/** Paths that may not be modified */
+	deny?: string[]
+}
+
+/**
+ * Protected-paths policy as written in the configuration file.
+ */
+export interface PathPolicyConfig extends PathRules {
+	/** Rules per agent name, taking precedence over the project-wide rules */
+	agents?: Record<string, PathRules>
+}
+
+/**
+ * A user-defined shell command rule.
+ */
+export interface CommandRuleConfig {
+	/** Unique identifier shown in messages */
+	id: string
+	/** Regular expression matched against the whole command */
+	pattern: string
+	action: "block" | "rewrite" | "allow"
+	/** Why the rule exists and what to do instead */
+	reason: string
+	/** Replacement for `rewrite` rules */
+	replacement?: string
+	/** Only apply when the repository is on one of these branches */
+	branches?: string[]
+}
+
+/**
+ * Shell command firewall settings.
+ */
+export interface FirewallConfig {
+	/** Rules evaluated before the built-in rules */
+	rules?: CommandRuleConfig[]
+	/** IDs of built-in rules to turn off */
+	disable?: string[]
+}
+
+/**
+ * Limits for a single run of the loop. Unset budgets are unlimited.
+ */
+export interface BudgetConfig {
+	/** Wall-clock minutes since the loop started */
+	maxMinutes?: number
+	/** Completed cycles */
+	maxCycles?: number
+	/** Tool calls by the orchestrator and its subagents */
+	maxToolCalls?: number
+	/** Input, output and reasoning tokens of assistant messages */
+	maxTokens?: number
+}
+
+/**
+ * Contents of `.opencode/opencoder.json`.
+ *
+ * @example
+ * {
+ *   "protectedPaths": {
+ *     "deny": ["*.lock", ".github/**", "db/migrations/**"],
+ *     "allow": [".env.example"],
+ *     "agents": { "opencoder-builder": { "allow": ["bun.lock"] } }
+ *   },
+ *   "firewall": {
+ *     "rules": [{ "id": "no-publish", "pattern": "\\bnpm\\s+publish\\b", "action": "block", "reason": "CI publishes releases" }]
+ *   },
+ *   "budget": { "maxMinutes": 120, "maxCycles": 5 },
+ *   "maxFileEdits": 5
+ * }
+ */
+export interface OpenCoderConfig {
+	protectedPaths?: PathPolicyConfig
+	firewall?: FirewallConfig
+	budget?: BudgetConfig
+	/** Modifications allowed per file and cycle (0 disables the guard) */
+	maxFileEdits?: number
+}
+
+/** Allowed firewall rule actions */
+const COMMAND_ACTIONS = ["block", "rewrite", "allow"]
+
+/** Budget keys; `maxMinutes` may be fractional, the others are counts */
+const BUDGET_KEYS = ["maxMinutes", "maxCycles", "maxToolCalls", "maxTokens"]
+
+/**
+ * Checks that a value is an array of strings.
+ */
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((item) => typeof item === "string")
+}
+
+/**
+ * Collects problems with allow/deny lists.
+ */
+function validatePathRules(value: unknown, key: string, errors: string[]): void {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		errors.push(`${key} must be an object`)
+		return
+	}
+	const rules = value as Record<string, unknown>
+	for (const list of ["allow", "deny"]) {
+		if (rules[list] !== undefined && !isStringArray(rules[list])) {
+			errors.push(`${key}.${list} must be an array of glob strings`)
+		}
+	}
+}
+
+/**
+ * Collects problems with the firewall settings.
+ */
+function validateFirewall(value: unknown, errors: string[]): void {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		errors.push("firewall must be an object")
+		return
+	}
+	const { rules, disable } = value as Record<string, unknown>
+	if (disable !== undefined && !isStringArray(disable)) {
+		errors.push("firewall.disable must be an array of rule IDs")
+	}
+	if (rules === undefined) return
+	if (!Array.isArray(rules)) {
+		errors.push("firewall.rules must be an array")
+		return
+	}
+	rules.forEach((rule: unknown, index) => {
+		const key = `firewall.rules[${index}]`
+		if (typeof rule !== "object" || rule === null || Array.isArray(rule)) {
+			errors.push(`${key} must be an object`)
+			return
+		}
+		const { id, pattern, action, reason, replacement, branches } = rule as Record<string, unknown>
+		for (const [field, fieldValue] of Object.entries({ id, pattern, reason })) {
+			if (typeof fieldValue !== "string" || !fieldValue) {
+				errors.push(`${key}.${field} must be a non-empty string`)
+			}
+		}
+		if (typeof pattern === "string" && pattern) {
+			try {
+				new RegExp(pattern)
+			} catch (err) {
+				errors.push(`${key}.pattern is not a valid regular expression: ${(err as Error).message}`)
+			}
+		}
+		if (typeof action !== "string" || !COMMAND_ACTIONS.includes(action)) {
+			errors.push(`${key}.action must be one of ${COMMAND_ACTIONS.join(", ")}`)
+		}
+		if (action === "rewrite" && typeof replacement !== "string") {
+			errors.push(`${key}.replacement must be a string for rewrite rules`)
+		}
+		if (branches !== undefined && !isStringArray(branches)) {
+			errors.push(`${key}.branches must be an array of branch names`)
+		}
+	})
+}
+
+/**
+ * Collects problems with the budget settings.
+ */
+function validateBudget(value: unknown, errors: string[]): void {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		errors.push("budget must be an object")
+		return
+	}
+	for (const [key, limit] of Object.entries(value as Record<string, unknown>)) {
+		if (!BUDGET_KEYS.includes(key)) {
+			errors.push(`budget.${key} is not a known budget (expected ${BUDGET_KEYS.join(", ")})`)
+			continue
+		}
+		const fractional = key === "maxMinutes"
+		const valid =
+			typeof limit === "number" &&
+			limit > 0 &&
+			(fractional ? Number.isFinite(limit) : Number.isInteger(limit))
+		if (!valid) {
+			errors.push(`budget.${key} must be a positive ${fractional ? "number" : "integer"}`)
+		}
+	}
+}
+
+/**
+ * Validates parsed configuration.
+ *
+ * @param value - The parsed JSON
+ * @returns Problems found, empty if the configuration is valid
+ *
+ * @example
+ * validateConfig({ protectedPaths: { deny: ".env" } })
+ * // ["protectedPaths.deny must be an array of glob strings"]
+ */
+export function validateConfig(value: unknown): string[] {
+	const errors: string[] = []
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return ["configuration must be a JSON object"]
+	}
+	const { protectedPaths, firewall, budget, maxFileEdits } = value as Record<string, unknown>
+	if (protectedPaths !== undefined) {
+		validatePathRules(protectedPaths, "protectedPaths", errors)
+		const agents = (protectedPaths as Record<string, unknown> | null)?.agents
+		if (agents !== undefined) {
+			if (typeof agents !== "object" || agents === null || Array.isArray(agents)) {
+				errors.push("protectedPaths.agents must be an object keyed by agent name")
+			} else {
+				for (const [agent, rules] of Object.entries(agents)) {
+					validatePathRules(rules, `protectedPaths.agents.${agent}`, errors)
+				}
+			}
+		}
+	}
+	if (firewall !== undefined) {
+		validateFirewall(firewall, errors)
+	}
+	if (budget !== undefined) {
+		validateBudget(budget, errors)
+	}
+	if (
+		maxFileEdits !== undefined &&
+		!(Number.isInteger(maxFileEdits) && Number(maxFileEdits) >= 0)
+	) {
+		errors.push("maxFileEdits must be a non-negative integer")
+	}
+	return errors
+}
+
+/**
+ * Loads the project configuration.
+ *
+ * @param directory - The project root directory
+ * @returns The configuration, or an empty object if no configuration file exists
+ * @throws {Error} If the file is not valid JSON or does not match the expected shape
+ *
+ * @example
+ * const config = loadConfig(ctx.directory)
+ * console.log(config.protectedPaths?.deny)
+ */
+export function loadConfig(directory: string): OpenCoderConfig {
+	const path = join(directory, CONFIG_FILE)
+	if (!existsSync(path)) return {}
+
+	let value: unknown
+	try {
+		value = JSON.parse(readFileSync(path, "utf-8"))
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err)
+		throw new Error(`Invalid JSON in ${path}: ${message}`)
+	}
+
+	const errors = validateConfig(value)
+	if (errors.length > 0) {
+		throw new Error(`Invalid configuration in ${path}:\n${errors.map((e) => `- ${e}`).join("\n")}`)
+	}
+	return value as OpenCoderConfig
+}
+
+/**
+ * Formats the error shown when a tool call is rejected because the
+ * configuration file is invalid.
+ *
+ * @param error - The error thrown by {@link loadConfig}
+ * @returns The rejection message
+ */
+export function formatConfigRejection(error: string): string {
+	return [
+		error,
+		"",
+		"OpenCoder rejects tool calls until the configuration is fixed, so that the project's protected paths, firewall rules and budgets are not silently ignored.",
+		`Stop and ask the user to fix ${CONFIG_FILE}; do not try to work around the rejection.`,
+	].join("\n")
+}
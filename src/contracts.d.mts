@@ -0,0 +1,79 @@
+/**
+ * Type declarations for contracts.mjs
+ */
+
+import type { AgentDiagnostic } from "./agent-schema.mjs"
+
+/**
+ * One side of a contract.
+ */
+export interface ContractSide {
+	/** The agent name */
+	agent: string
+	/** The `## ` sections showing the format, or the whole file if not set */
+	sections?: readonly string[]
+}
+
+/**
+ * A format one agent outputs and another agent parses.
+ */
+export interface AgentContract {
+	/** Names the contract in messages */
+	id: string
+	/** The agent writing the output */
+	producer: Readonly<ContractSide>
+	/** The agent parsing it */
+	consumer: Readonly<ContractSide>
+	/**
+	 * Matches the heading starting a report, up to its title; group 1 is the `#`s and
+	 * group 2 the kind of report
+	 */
+	heading: RegExp
+	/** Whether the producer may only use fields the consumer parses */
+	strict?: boolean
+}
+
+/** Rule id of contract diagnostics */
+export const CONTRACT_RULE: "agent-contract"
+
+/**
+ * Contracts between the packaged agents:
+ *
+ * - `plan`: the tasks the planner returns, as shown in its "Output Format"
+ *   section, match the format in the orchestrator's "Plan Parsing" section
+ * - `builder-report`: every report the builder shows (`## Done:`,
+ *   `## Blocked:`, `## Partial:`) matches the one for its kind in the
+ *   orchestrator's "Handling Builder Results" section, and the orchestrator
+ *   handles no kind of report the builder never returns
+ */
+export const AGENT_CONTRACTS: readonly Readonly<AgentContract>[]
+
+/**
+ * Checks the agents keep their contracts with each other.
+ *
+ * A contract is checked only when both of its agents are given. The
+ * producer gets an error for each report format that the consumer does not
+ * handle, whose heading differs from the consumer's in level, numbering or
+ * separator (e.g. `### Task 1 -` for `### Task N:`), that lacks a field the
+ * consumer parses, or that has another value for a signal field such as
+ * `**Status:** READY_FOR_NEXT_TASK`; in `strict` contracts also for fields
+ * the consumer does not parse. The consumer gets an error for each kind of
+ * report it handles that the producer never shows, and a side that shows no
+ * format at all gets one too.
+ *
+ * @param agents - Agent content by agent name
+ * @param contracts - The contracts (defaults to {@link AGENT_CONTRACTS})
+ * @returns The diagnostics of each given agent, sorted by line
+ *
+ * @example
+ * const result = verifyAgentContracts({
+ *   opencoder: readFileSync("agents/opencoder.md", "utf-8"),
+ *   "opencoder-builder": forkedBuilder,
+ * })
+ * // { opencoder: [], "opencoder-builder": [{ rule: "agent-contract", severity: "error",
+ * //   message: '"## Done:" output is missing fields opencoder parses: Verified', ... }] }
+ */
+export function verifyAgentContracts(
+	agents: Record<string, string>,
+	contracts?: readonly Readonly<AgentContract>[],
+): Record<string, AgentDiagnostic[]>
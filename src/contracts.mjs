@@ -0,0 +1,314 @@
+/**
+ * Contracts between the OpenCoder agents.
+ *
+ * The orchestrator parses what the planner and the builder return, so the
+ * output format one prompt declares must match the input format another
+ * prompt expects: a builder that reports `## Finished:` instead of
+ * `## Done:`, or drops the `READY_FOR_NEXT_TASK` status, silently breaks the
+ * loop. Each contract names the agent producing the output, the agent
+ * consuming it, and the heading that starts each report; both sides show
+ * their formats in fenced code blocks, which are extracted and compared.
+ * postinstall.mjs refuses to install agents that break a contract.
+ */
+
+import { findSection, outlineMarkdown } from "./markdown.mjs"
+
+/** @typedef {import("./agent-schema.mjs").AgentDiagnostic} AgentDiagnostic */
+/** @typedef {import("./markdown.mjs").MarkdownOutline} MarkdownOutline */
+
+/**
+ * One side of a contract.
+ * @typedef {Object} ContractSide
+ * @property {string} agent - The agent name
+ * @property {readonly string[]} [sections] - The `## ` sections showing the format, or the
+ *   whole file if not set
+ */
+
+/**
+ * A format one agent outputs and another agent parses.
+ * @typedef {Object} AgentContract
+ * @property {string} id - Names the contract in messages
+ * @property {Readonly<ContractSide>} producer - The agent writing the output
+ * @property {Readonly<ContractSide>} consumer - The agent parsing it
+ * @property {RegExp} heading - Matches the heading starting a report, up to its title;
+ *   group 1 is the `#`s and group 2 the kind of report
+ * @property {boolean} [strict] - Whether the producer may only use fields the consumer
+ *   parses
+ */
+
+/**
+ * A report format shown in a code block.
+ * @typedef {Object} ReportFormat
+ * @property {string} kind - The kind of report, e.g. "Done"
+ * @property {string} heading - The heading as written up to the title, e.g. "## Done:"
+ * @property {number} level - The heading level
+ * @property {number} line - 1-based line number of the heading in the agent file
+ * @property {{ name: string, value: string }[]} fields - The `**Field:** value` lines
+ *   below the heading
+ */
+
+/** Rule id of contract diagnostics */
+export const CONTRACT_RULE = "agent-contract"
+
+/**
+ * Contracts between the packaged agents:
+ *
+ * - `plan`: the tasks the planner returns, as shown in its "Output Format"
+ *   section, match the format in the orchestrator's "Plan Parsing" section
+ * - `builder-report`: every report the builder shows (`## Done:`,
+ *   `## Blocked:`, `## Partial:`) matches the one for its kind in the
+ *   orchestrator's "Handling Builder Results" section, and the orchestrator
+ *   handles no kind of report the builder never returns
+ *
+ * @type {readonly Readonly<AgentContract>[]}
+ */
+export const AGENT_CONTRACTS = Object.freeze([
+	Object.freeze({
+		id: "plan",
+		producer: Object.freeze({
+			agent: "opencoder-planner",
+			sections: Object.freeze(["Output Format"]),
+		}),
+		consumer: Object.freeze({ agent: "opencoder", sections: Object.freeze(["Plan Parsing"]) }),
+		// The task number (or its placeholder) and the separator, e.g. "### Task 1:"
+		heading: /^(#{1,6})\s+(Task)\b(?:\s*(?:\d+|N|\[N\]))?(?:\s*[:\-–])?/,
+		strict: true,
+	}),
+	Object.freeze({
+		id: "builder-report",
+		producer: Object.freeze({ agent: "opencoder-builder" }),
+		consumer: Object.freeze({
+			agent: "opencoder",
+			sections: Object.freeze(["Handling Builder Results"]),
+		}),
+		// Any `## Kind:` heading, so that a renamed report is unhandled rather than unnoticed
+		heading: /^(#{2,6})\s+(\w+):/,
+	}),
+])
+
+/** Numbers in headings and their placeholders, which compare equal: "Task 1:", "Task N:" */
+const HEADING_NUMBER = /\[N\]|\b(?:\d+|N)\b/g
+
+/** Field values that are signals the consumer matches exactly, e.g. READY_FOR_NEXT_TASK */
+const SIGNAL = /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+$/
+
+/**
+ * Extracts the report formats shown in code blocks: from each block, the
+ * first heading the contract matches and the fields up to the next heading.
+ *
+ * @param {MarkdownOutline} doc - The agent's outline
+ * @param {Readonly<ContractSide>} side - Where to look
+ * @param {RegExp} pattern - The contract's heading pattern
+ * @returns {ReportFormat[]} The formats in file order
+ */
+function extractFormats(doc, side, pattern) {
+	const ranges = side.sections
+		? side.sections.map((title) => findSection(doc, title)).filter((section) => section !== null)
+		: [{ heading: { line: 0 }, end: doc.lines.length + 1 }]
+	const formats = []
+	for (const block of doc.blocks) {
+		if (!ranges.some(({ heading, end }) => block.line > heading.line && block.line < end)) continue
+		const index = block.lines.findIndex((line) => pattern.test(line))
+		if (index === -1) continue
+		const match = /** @type {RegExpExecArray} */ (pattern.exec(block.lines[index]))
+		const next = block.lines.findIndex((line, i) => i > index && /^#{1,6}\s/.test(line))
+		const fields = block.lines
+			.slice(index + 1, next === -1 ? undefined : next)
+			.map((line) => /^\*\*(.+?):\*\*\s*(.*)$/.exec(line))
+			.filter((field) => field !== null)
+			.map(([, name, value]) => ({ name, value: value.trim() }))
+		formats.push({
+			kind: match[2],
+			heading: match[0].trim(),
+			level: match[1].length,
+			line: block.line + index + 1,
+			fields,
+		})
+	}
+	return formats
+}
+
+/**
+ * Describes where a side of a contract shows its format, for messages.
+ *
+ * @param {Readonly<ContractSide>} side - The side
+ * @returns {string} E.g. `the "## Plan Parsing" section of opencoder.md`
+ */
+function describeSide(side) {
+	if (!side.sections) return `${side.agent}.md`
+	const sections = side.sections.map((title) => `"## ${title}"`).join(" or ")
+	return `the ${sections} section of ${side.agent}.md`
+}
+
+/**
+ * Creates a contract error.
+ *
+ * @param {string} message - What is wrong
+ * @param {string} fix - How to fix it
+ * @param {number} line - 1-based line number
+ * @returns {AgentDiagnostic} The diagnostic
+ */
+function contractDiagnostic(message, fix, line) {
+	return { rule: CONTRACT_RULE, severity: "error", message, line, column: 1, fix }
+}
+
+/**
+ * Compares one report format of the producer with the format the consumer
+ * expects for that kind of report.
+ *
+ * @param {Readonly<AgentContract>} contract - The contract
+ * @param {ReportFormat} actual - The producer's format
+ * @param {ReportFormat | undefined} expected - The consumer's format, if it has one
+ * @param {string[]} handled - The headings the consumer handles
+ * @returns {AgentDiagnostic[]} Errors on the producer
+ */
+function compareFormat(contract, actual, expected, handled) {
+	const { producer, consumer } = contract
+	if (!expected) {
+		const headings = handled.map((heading) => `"${heading}"`).join(", ")
+		return [
+			contractDiagnostic(
+				`"${actual.heading}" output of ${producer.agent} is not handled by ${consumer.agent}`,
+				`Use ${headings}, or handle it in ${describeSide(consumer)}`,
+				actual.line,
+			),
+		]
+	}
+
+	const diagnostics = []
+	const form = (/** @type {string} */ heading) => heading.replace(HEADING_NUMBER, "N")
+	if (actual.level !== expected.level || form(actual.heading) !== form(expected.heading)) {
+		diagnostics.push(
+			contractDiagnostic(
+				`"${actual.heading}" headings don't match the "${expected.heading}" headings ` +
+					`${consumer.agent} parses`,
+				`Change the heading to "${expected.heading}"`,
+				actual.line,
+			),
+		)
+	}
+	const names = actual.fields.map(({ name }) => name)
+	const missing = expected.fields.filter(({ name }) => !names.includes(name))
+	if (missing.length > 0) {
+		const list = missing.map(({ name }) => name).join(", ")
+		diagnostics.push(
+			contractDiagnostic(
+				`"${actual.heading}" output is missing fields ${consumer.agent} parses: ${list}`,
+				`Add ${missing.map(({ name, value }) => `**${name}:** ${value}`).join(", ")}`,
+				actual.line,
+			),
+		)
+	}
+	for (const { name, value } of expected.fields) {
+		const field = actual.fields.find((field) => field.name === name)
+		if (!SIGNAL.test(value) || !field || field.value === value) continue
+		diagnostics.push(
+			contractDiagnostic(
+				`"${actual.heading}" output has **${name}:** ${field.value || "(empty)"}, ` +
+					`but ${consumer.agent} expects ${value}`,
+				`Set **${name}:** to ${value}`,
+				actual.line,
+			),
+		)
+	}
+	if (contract.strict) {
+		const parsed = expected.fields.map(({ name }) => name)
+		const extra = names.filter((name) => !parsed.includes(name))
+		if (extra.length > 0) {
+			const list = extra.join(", ")
+			diagnostics.push(
+				contractDiagnostic(
+					`"${actual.heading}" output has fields ${consumer.agent} does not parse: ${list}`,
+					`Remove them, or add them to the format in ${describeSide(consumer)}`,
+					actual.line,
+				),
+			)
+		}
+	}
+	return diagnostics
+}
+
+/**
+ * Checks the agents keep their contracts with each other.
+ *
+ * A contract is checked only when both of its agents are given. The
+ * producer gets an error for each report format that the consumer does not
+ * handle, whose heading differs from the consumer's in level, numbering or
+ * separator (e.g. `### Task 1 -` for `### Task N:`), that lacks a field the
+ * consumer parses, or that has another value for a signal field such as
+ * `**Status:** READY_FOR_NEXT_TASK`; in `strict` contracts also for fields
+ * the consumer does not parse. The consumer gets an error for each kind of
+ * report it handles that the producer never shows, and a side that shows no
+ * format at all gets one too.
+ *
+ * @param {Record<string, string>} agents - Agent content by agent name
+ * @param {readonly Readonly<AgentContract>[]} [contracts] - The contracts (defaults to
+ *   {@link AGENT_CONTRACTS})
+ * @returns {Record<string, AgentDiagnostic[]>} The diagnostics of each given agent, sorted by
+ *   line
+ *
+ * @example
+ * const result = verifyAgentContracts({
+ *   opencoder: readFileSync("agents/opencoder.md", "utf-8"),
+ *   "opencoder-builder": forkedBuilder,
+ * })
+ * // { opencoder: [], "opencoder-builder": [{ rule: "agent-contract", severity: "error",
+ * //   message: '"## Done:" output is missing fields opencoder parses: Verified', ... }] }
+ */
+export function verifyAgentContracts(agents, contracts = AGENT_CONTRACTS) {
+	/** @type {Record<string, AgentDiagnostic[]>} */
+	const result = Object.fromEntries(Object.keys(agents).map((name) => [name, []]))
+	/** @type {Map<string, MarkdownOutline>} */
+	const outlines = new Map()
+	const outline = (/** @type {string} */ name) => {
+		if (!outlines.has(name)) outlines.set(name, outlineMarkdown(agents[name]))
+		return /** @type {MarkdownOutline} */ (outlines.get(name))
+	}
+
+	for (const contract of contracts) {
+		const { producer, consumer } = contract
+		if (!Object.hasOwn(agents, producer.agent) || !Object.hasOwn(agents, consumer.agent)) continue
+		const expected = extractFormats(outline(consumer.agent), consumer, contract.heading)
+		const actual = extractFormats(outline(producer.agent), producer, contract.heading)
+		for (const [side, formats] of [
+			[consumer, expected],
+			[producer, actual],
+		]) {
+			if (formats.length > 0) continue
+			const doc = outline(side.agent)
+			const section = side.sections?.map((title) => findSection(doc, title)).find(Boolean)
+			result[side.agent].push(
+				contractDiagnostic(
+					`No ${contract.id} format found in ${describeSide(side)}`,
+					`Show the format in a fenced code block in ${describeSide(side)}`,
+					section?.heading.line ?? 1,
+				),
+			)
+		}
+		if (expected.length === 0 || actual.length === 0) continue
+
+		/** @type {Map<string, ReportFormat>} */
+		const byKind = new Map()
+		for (const format of expected) if (!byKind.has(format.kind)) byKind.set(format.kind, format)
+		const handled = [...byKind.values()].map(({ heading }) => heading)
+		for (const format of actual) {
+			result[producer.agent].push(
+				...compareFormat(contract, format, byKind.get(format.kind), handled),
+			)
+		}
+		for (const format of byKind.values()) {
+			if (actual.some(({ kind }) => kind === format.kind)) continue
+			result[consumer.agent].push(
+				contractDiagnostic(
+					`${consumer.agent} handles "${format.heading}" output, ` +
+						`but ${producer.agent} never returns it`,
+					`Document the format in ${describeSide(producer)}, or stop handling it`,
+					format.line,
+				),
+			)
+		}
+	}
+
+	for (const diagnostics of Object.values(result)) diagnostics.sort((a, b) => a.line - b.line)
+	return result
+}
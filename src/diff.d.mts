@@ -0,0 +1,34 @@
+/**
+ * Type declarations for diff.mjs
+ */
+
+/**
+ * Options for {@link createUnifiedDiff}.
+ */
+export interface UnifiedDiffOptions {
+	/** Name of the old file in the header (default "a") */
+	oldLabel?: string
+	/** Name of the new file in the header (default "b") */
+	newLabel?: string
+	/** Unchanged lines shown around changes (default 3) */
+	context?: number
+}
+
+/**
+ * Creates a unified diff between two versions of a file.
+ *
+ * @param oldContent - The old content
+ * @param newContent - The new content
+ * @param options - Labels and context size
+ * @returns The diff, or an empty string if the contents have the same lines
+ * @throws {TypeError} If either content is not a string
+ *
+ * @example
+ * createUnifiedDiff("a\nb\n", "a\nc\n", { oldLabel: "installed", newLabel: "packaged" })
+ * // "--- installed\n+++ packaged\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n"
+ */
+export function createUnifiedDiff(
+	oldContent: string,
+	newContent: string,
+	options?: UnifiedDiffOptions,
+): string
@@ -0,0 +1,131 @@
+/**
+ * Line-based unified diffs for agent files.
+ *
+ * Used by the `opencoder diff` command to show how installed agents differ
+ * from the packaged ones. Agent files are a few hundred lines at most, so a
+ * plain longest-common-subsequence table is fast enough.
+ */
+
+/**
+ * Options for {@link createUnifiedDiff}.
+ * @typedef {Object} UnifiedDiffOptions
+ * @property {string} [oldLabel] - Name of the old file in the header (default "a")
+ * @property {string} [newLabel] - Name of the new file in the header (default "b")
+ * @property {number} [context] - Unchanged lines shown around changes (default 3)
+ */
+
+/**
+ * Splits content into lines, without a trailing empty line for the final newline.
+ *
+ * @param {string} content - The content
+ * @returns {string[]} The lines
+ */
+function splitLines(content) {
+	if (content === "") return []
+	const lines = content.split("\n")
+	if (lines[lines.length - 1] === "") lines.pop()
+	return lines
+}
+
+/**
+ * Computes the line operations turning one list of lines into another.
+ *
+ * @param {string[]} a - Old lines
+ * @param {string[]} b - New lines
+ * @returns {{ type: " " | "-" | "+", line: string }[]} The operations in order
+ */
+function diffLines(a, b) {
+	const width = b.length + 1
+	// lcs[i * width + j]: length of the longest common subsequence of a[i..] and b[j..]
+	const lcs = new Uint32Array((a.length + 1) * width)
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i * width + j] =
+				a[i] === b[j]
+					? lcs[(i + 1) * width + j + 1] + 1
+					: Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+		}
+	}
+
+	const ops = []
+	let i = 0
+	let j = 0
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			ops.push({ type: " ", line: a[i++] })
+			j++
+		} else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+			ops.push({ type: "-", line: a[i++] })
+		} else {
+			ops.push({ type: "+", line: b[j++] })
+		}
+	}
+	while (i < a.length) ops.push({ type: "-", line: a[i++] })
+	while (j < b.length) ops.push({ type: "+", line: b[j++] })
+	return ops
+}
+
+/**
+ * Formats a hunk range: `start,count`, with `,count` omitted for one line.
+ */
+function formatRange(start, count) {
+	if (count === 0) return `${start - 1},0`
+	return count === 1 ? `${start}` : `${start},${count}`
+}
+
+/**
+ * Creates a unified diff between two versions of a file.
+ *
+ * @param {string} oldContent - The old content
+ * @param {string} newContent - The new content
+ * @param {UnifiedDiffOptions} [options] - Labels and context size
+ * @returns {string} The diff, or an empty string if the contents have the same lines
+ * @throws {TypeError} If either content is not a string
+ *
+ * @example
+ * createUnifiedDiff("a\nb\n", "a\nc\n", { oldLabel: "installed", newLabel: "packaged" })
+ * // "--- installed\n+++ packaged\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n"
+ */
+export function createUnifiedDiff(oldContent, newContent, options = {}) {
+	for (const [name, value] of Object.entries({ oldContent, newContent })) {
+		if (typeof value !== "string") {
+			throw new TypeError(
+				`createUnifiedDiff: ${name} must be a string, got ${value === null ? "null" : typeof value}`,
+			)
+		}
+	}
+	const { oldLabel = "a", newLabel = "b", context = 3 } = options
+	const ops = diffLines(splitLines(oldContent), splitLines(newContent))
+	const changes = ops.flatMap((op, index) => (op.type === " " ? [] : [index]))
+	if (changes.length === 0) return ""
+
+	// Group changes whose context overlaps into hunks
+	const groups = []
+	let start = changes[0]
+	let end = changes[0]
+	for (const index of changes.slice(1)) {
+		if (index - end > 2 * context) {
+			groups.push([start, end])
+			start = index
+		}
+		end = index
+	}
+	groups.push([start, end])
+
+	let output = `--- ${oldLabel}\n+++ ${newLabel}\n`
+	for (const [first, last] of groups) {
+		const from = Math.max(0, first - context)
+		const to = Math.min(ops.length, last + context + 1)
+		const before = ops.slice(0, from)
+		const hunk = ops.slice(from, to)
+		const oldStart = before.filter((op) => op.type !== "+").length + 1
+		const newStart = before.filter((op) => op.type !== "-").length + 1
+		const oldCount = hunk.filter((op) => op.type !== "+").length
+		const newCount = hunk.filter((op) => op.type !== "-").length
+		output += `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@\n`
+		for (const op of hunk) {
+			output += `${op.type}${op.line}\n`
+		}
+	}
+	return output
+}
@@ -0,0 +1,73 @@
+/**
+ * Type declarations for doctor.mjs
+ */
+
+/** Name the plugin is referenced by in the `plugin` list of opencode.json */
+export const PLUGIN_NAME: "opencode-plugin-opencoder"
+
+/** Config file names OpenCode reads, in a config directory or project root */
+export const CONFIG_FILE_NAMES: readonly ["opencode.json", "opencode.jsonc"]
+
+/** Outcome of a diagnostic check */
+export type DiagnosticStatus = "pass" | "warn" | "fail"
+
+/**
+ * Result of a single diagnostic check.
+ */
+export interface DiagnosticCheck {
+	/** Identifier of the check, e.g. "target-writable" */
+	name: string
+	/** Outcome of the check */
+	status: DiagnosticStatus
+	/** What was checked and found */
+	message: string
+	/** How to fix a warning or failure */
+	hint?: string
+}
+
+/**
+ * Result of {@link runDiagnostics}.
+ */
+export interface DiagnosticReport {
+	/** The checks in the order they ran */
+	checks: DiagnosticCheck[]
+	/** Number of checks per status */
+	counts: Record<DiagnosticStatus, number>
+}
+
+/**
+ * Options for {@link runDiagnostics}.
+ */
+export interface DiagnosticOptions {
+	/** The package's agents directory */
+	sourceDir: string
+	/** The agents directory to check */
+	targetDir: string
+	/** OpenCode version to check `requires` against (detected if not given) */
+	opencodeVersion?: string
+	/** Environment variables (defaults to `process.env`) */
+	env?: Record<string, string | undefined>
+	/** Working directory, used to find the project (defaults to `process.cwd()`) */
+	cwd?: string
+}
+
+/**
+ * Runs all diagnostics for an agents directory: the directory exists and is
+ * writable, the OpenCode version was detected, the installed agents are valid
+ * and their `requires` ranges match it, an opencode.json references the
+ * plugin, and no other agent directory or config defines the same agent names.
+ *
+ * @param options - The directories, OpenCode version and environment
+ * @returns The checks and the number of checks per status
+ * @throws {TypeError} If sourceDir or targetDir is not a non-empty string
+ */
+export function runDiagnostics(options: DiagnosticOptions): DiagnosticReport
+
+/**
+ * Formats a diagnostic report for the terminal, one line per check with
+ * hints indented below warnings and failures.
+ *
+ * @param report - The report
+ * @returns The formatted report
+ */
+export function formatDiagnostics(report: DiagnosticReport): string
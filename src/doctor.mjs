@@ -0,0 +1,459 @@
+/**
+ * Environment diagnostics for the `opencoder doctor` command.
+ *
+ * Checks the things that make agents silently fail to show up in OpenCode:
+ * an unwritable or missing agents directory, invalid or incompatible agent
+ * files, a config that doesn't load the plugin, and other agent definitions
+ * with the same names. Each check passes, warns or fails, and non-passing
+ * checks carry a hint on how to fix them.
+ */
+
+import { accessSync, constants, existsSync, readFileSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { describeOpenCodeVersion, detectOpenCodeVersion } from "./opencode-version.mjs"
+import {
+	AGENT_NAMES,
+	checkVersionCompatibility,
+	getErrorMessage,
+	getGlobalAgentsDir,
+	getProjectRoot,
+	parseFrontmatter,
+	validateAgentFile,
+} from "./paths.mjs"
+import { getAgentStatuses } from "./status.mjs"
+
+/** Name the plugin is referenced by in the `plugin` list of opencode.json */
+export const PLUGIN_NAME = "opencode-plugin-opencoder"
+
+/** Config file names OpenCode reads, in a config directory or project root */
+export const CONFIG_FILE_NAMES = Object.freeze(["opencode.json", "opencode.jsonc"])
+
+/**
+ * Result of a single diagnostic check.
+ * @typedef {Object} DiagnosticCheck
+ * @property {string} name - Identifier of the check, e.g. "target-writable"
+ * @property {"pass" | "warn" | "fail"} status - Outcome of the check
+ * @property {string} message - What was checked and found
+ * @property {string} [hint] - How to fix a warning or failure
+ */
+
+/**
+ * Result of {@link runDiagnostics}.
+ * @typedef {Object} DiagnosticReport
+ * @property {DiagnosticCheck[]} checks - The checks in the order they ran
+ * @property {{ pass: number, warn: number, fail: number }} counts - Number of checks per status
+ */
+
+/**
+ * Options for {@link runDiagnostics}.
+ * @typedef {Object} DiagnosticOptions
+ * @property {string} sourceDir - The package's agents directory
+ * @property {string} targetDir - The agents directory to check
+ * @property {string} [opencodeVersion] - OpenCode version to check `requires` against (detected if not given)
+ * @property {Record<string, string | undefined>} [env] - Environment variables (defaults to `process.env`)
+ * @property {string} [cwd] - Working directory, used to find the project (defaults to `process.cwd()`)
+ */
+
+/**
+ * Returns the first character at or after a position that is not whitespace
+ * or part of a comment.
+ *
+ * @param {string} content - The JSONC content
+ * @param {number} start - The position to start at
+ * @returns {string} The character, or an empty string at the end of the content
+ */
+function nextSignificantChar(content, start) {
+	for (let i = start; i < content.length; i++) {
+		if (/\s/.test(content[i])) continue
+		if (content.startsWith("//", i)) {
+			const end = content.indexOf("\n", i)
+			if (end === -1) return ""
+			i = end
+		} else if (content.startsWith("/*", i)) {
+			const end = content.indexOf("*/", i + 2)
+			if (end === -1) return ""
+			i = end + 1
+		} else {
+			return content[i]
+		}
+	}
+	return ""
+}
+
+/**
+ * Removes comments and trailing commas from JSONC so it can be parsed as JSON.
+ * String values are left untouched.
+ *
+ * @param {string} content - The JSONC content
+ * @returns {string} The equivalent JSON
+ */
+function stripJsonComments(content) {
+	let output = ""
+	let inString = false
+	for (let i = 0; i < content.length; i++) {
+		const char = content[i]
+		if (inString) {
+			output += char
+			if (char === "\\") output += content[++i] ?? ""
+			else if (char === '"') inString = false
+		} else if (char === '"') {
+			inString = true
+			output += char
+		} else if (char === "/" && content[i + 1] === "/") {
+			while (i < content.length && content[i] !== "\n") i++
+			output += "\n"
+		} else if (char === "/" && content[i + 1] === "*") {
+			const end = content.indexOf("*/", i + 2)
+			i = end === -1 ? content.length : end + 1
+		} else if (char !== "," || !/^[}\]]$/.test(nextSignificantChar(content, i + 1))) {
+			// Everything else is kept, except trailing commas
+			output += char
+		}
+	}
+	return output
+}
+
+/**
+ * Returns the OpenCode config files that exist: the file named by
+ * `OPENCODE_CONFIG`, the global config and the project config.
+ *
+ * @param {Record<string, string | undefined>} env - Environment variables
+ * @param {string} projectRoot - The project root
+ * @returns {string[]} Paths of the existing config files
+ */
+function findConfigFiles(env, projectRoot) {
+	const globalDir = dirname(getGlobalAgentsDir(env))
+	const candidates = [
+		...(env.OPENCODE_CONFIG ? [env.OPENCODE_CONFIG] : []),
+		...CONFIG_FILE_NAMES.map((name) => join(globalDir, name)),
+		...CONFIG_FILE_NAMES.map((name) => join(projectRoot, name)),
+	]
+	return [...new Set(candidates)].filter((path) => existsSync(path))
+}
+
+/**
+ * Checks whether a `plugin` list entry refers to this plugin, with or
+ * without a version (`opencode-plugin-opencoder@1.0.0`).
+ *
+ * @param {unknown} entry - The plugin list entry
+ * @returns {boolean} True if the entry loads this plugin
+ */
+function isPluginEntry(entry) {
+	return typeof entry === "string" && (entry === PLUGIN_NAME || entry.startsWith(`${PLUGIN_NAME}@`))
+}
+
+/**
+ * Checks the agents directory exists and can be written to.
+ *
+ * @param {string} targetDir - The agents directory
+ * @returns {DiagnosticCheck[]} The checks
+ */
+function checkTargetDir(targetDir) {
+	if (!existsSync(targetDir)) {
+		return [
+			{
+				name: "target-exists",
+				status: "fail",
+				message: `Agents directory does not exist: ${targetDir}`,
+				hint: "Run: opencoder install",
+			},
+		]
+	}
+	const checks = [
+		{ name: "target-exists", status: "pass", message: `Agents directory exists: ${targetDir}` },
+	]
+	try {
+		accessSync(targetDir, constants.W_OK)
+		checks.push({ name: "target-writable", status: "pass", message: "Agents directory is writable" })
+	} catch (err) {
+		checks.push({
+			name: "target-writable",
+			status: "fail",
+			message: "Agents directory is not writable",
+			hint: getErrorMessage(err, "agents", join(targetDir, "agent.md")),
+		})
+	}
+	return checks
+}
+
+/**
+ * Checks the OpenCode version could be detected rather than assumed.
+ *
+ * @param {import("./opencode-version.mjs").OpenCodeVersion} detected - The detected version
+ * @returns {DiagnosticCheck} The check
+ */
+function checkOpenCodeVersion(detected) {
+	const description = describeOpenCodeVersion(detected)
+	if (detected.source === "node_modules" || detected.source === "binary") {
+		return { name: "opencode-version", status: "pass", message: `OpenCode ${description}` }
+	}
+	return {
+		name: "opencode-version",
+		status: "warn",
+		message: `OpenCode not detected, assuming ${description}`,
+		hint: "Install OpenCode, or set OPENCODE_BIN to the opencode binary, so requires ranges are checked against the real version",
+	}
+}
+
+/**
+ * Checks each packaged agent is installed, valid and compatible with the
+ * OpenCode version.
+ *
+ * @param {string} sourceDir - The package's agents directory
+ * @param {string} targetDir - The agents directory
+ * @param {string} opencodeVersion - The OpenCode version
+ * @returns {DiagnosticCheck[]} The checks
+ */
+function checkAgents(sourceDir, targetDir, opencodeVersion) {
+	const checks = []
+	for (const { file, state, installed } of getAgentStatuses(sourceDir, targetDir)) {
+		const name = file.replace(/\.md$/, "")
+		if (state === "missing") {
+			checks.push({
+				name: "agent-installed",
+				status: "fail",
+				message: `${file} is not installed`,
+				hint: "Run: opencoder install",
+			})
+			continue
+		}
+		if (state === "obsolete") {
+			checks.push({
+				name: "agent-installed",
+				status: "warn",
+				message: `${file} is no longer packaged with ${PLUGIN_NAME}`,
+				hint: `Delete ${join(targetDir, file)} if you no longer use it`,
+			})
+			continue
+		}
+
+		const targetPath = join(targetDir, file)
+		let content
+		let validation
+		try {
+			content = readFileSync(targetPath, "utf-8")
+			// Skip the version check here: `requires` gets its own check below
+			validation = validateAgentFile(targetPath, opencodeVersion, true)
+		} catch (err) {
+			checks.push({
+				name: "agent-valid",
+				status: "fail",
+				message: `${file} cannot be read`,
+				hint: getErrorMessage(err, file, targetPath),
+			})
+			continue
+		}
+		checks.push(
+			validation.valid
+				? { name: "agent-valid", status: "pass", message: `${file} is valid` }
+				: {
+						name: "agent-valid",
+						status: "fail",
+						message: `${file}: ${validation.error}`,
+						hint: `Run: opencoder diff ${name} to inspect it, or opencoder install --force to replace it`,
+					},
+		)
+
+		// An invalid requires range already failed validation above
+		const { requires } = parseFrontmatter(content).fields
+		if (requires && validation.valid) {
+			const compatible = checkVersionCompatibility(requires, opencodeVersion, {
+				includePrerelease: true,
+			})
+			checks.push(
+				compatible
+					? {
+							name: "agent-requires",
+							status: "pass",
+							message: `${file} requires OpenCode ${requires} (found ${opencodeVersion})`,
+						}
+					: {
+							name: "agent-requires",
+							status: "fail",
+							message: `${file} requires OpenCode ${requires}, but the current version is ${opencodeVersion}`,
+							hint: `Upgrade OpenCode to a version matching ${requires}, or set OPENCODE_BIN to the opencode binary if the detected version is wrong`,
+						},
+			)
+		}
+
+		if (state === "outdated") {
+			checks.push({
+				name: "agent-current",
+				status: "warn",
+				message: `${file} was installed by ${installed?.installedBy ?? "another version"} and differs from the packaged version`,
+				hint: "Run: opencoder install",
+			})
+		}
+	}
+	return checks
+}
+
+/**
+ * Checks an OpenCode config file loads the plugin.
+ *
+ * @param {string[]} configFiles - The existing config files
+ * @returns {{ checks: DiagnosticCheck[], configs: { path: string, config: Record<string, unknown> }[] }} The checks and the parsed configs
+ */
+function checkPluginReferenced(configFiles) {
+	const checks = []
+	const configs = []
+	for (const path of configFiles) {
+		try {
+			configs.push({ path, config: JSON.parse(stripJsonComments(readFileSync(path, "utf-8"))) })
+		} catch (err) {
+			checks.push({
+				name: "config-valid",
+				status: "fail",
+				message: `${path} cannot be parsed: ${err.message}`,
+				hint: "Fix the syntax error; OpenCode cannot load this config",
+			})
+		}
+	}
+
+	const referencing = configs.find(
+		({ config }) => Array.isArray(config.plugin) && config.plugin.some(isPluginEntry),
+	)
+	if (referencing) {
+		checks.push({
+			name: "plugin-referenced",
+			status: "pass",
+			message: `Plugin is referenced in ${referencing.path}`,
+		})
+	} else {
+		checks.push({
+			name: "plugin-referenced",
+			status: "warn",
+			message:
+				configFiles.length === 0
+					? "No opencode.json found"
+					: `${PLUGIN_NAME} is not in the plugin list of ${configFiles.join(", ")}`,
+			hint: `Add "plugin": ["${PLUGIN_NAME}"] to opencode.json so the plugin's hooks and tools are loaded`,
+		})
+	}
+	return { checks, configs }
+}
+
+/**
+ * Checks no other agent directory or config defines the OpenCoder agents,
+ * since OpenCode would use only one of the definitions.
+ *
+ * @param {string} targetDir - The agents directory
+ * @param {Record<string, string | undefined>} env - Environment variables
+ * @param {string} projectRoot - The project root
+ * @param {{ path: string, config: Record<string, unknown> }[]} configs - The parsed configs
+ * @returns {DiagnosticCheck[]} The checks
+ */
+function checkAgentConflicts(targetDir, env, projectRoot, configs) {
+	const globalDir = getGlobalAgentsDir(env)
+	const agentDirs = [
+		globalDir,
+		join(dirname(globalDir), "agent"),
+		join(projectRoot, ".opencode", "agents"),
+		join(projectRoot, ".opencode", "agent"),
+	].filter((dir) => dir !== targetDir)
+
+	const checks = []
+	for (const name of AGENT_NAMES) {
+		const definitions = [
+			...agentDirs.map((dir) => join(dir, `${name}.md`)).filter((path) => existsSync(path)),
+			...configs
+				.filter(({ config }) => {
+					const agents = config.agent
+					return typeof agents === "object" && agents !== null && Object.hasOwn(agents, name)
+				})
+				.map(({ path }) => `${path} (agent.${name})`),
+		]
+		if (definitions.length > 0) {
+			checks.push({
+				name: "agent-conflict",
+				status: "warn",
+				message: `${name} is also defined in ${definitions.join(", ")}`,
+				hint: "OpenCode uses only one definition per agent name; remove the duplicates or run opencoder uninstall for the other install",
+			})
+		}
+	}
+	if (checks.length === 0) {
+		checks.push({ name: "agent-conflict", status: "pass", message: "No conflicting agent names" })
+	}
+	return checks
+}
+
+/**
+ * Runs all diagnostics for an agents directory.
+ *
+ * @param {DiagnosticOptions} options - The directories, OpenCode version and environment
+ * @returns {DiagnosticReport} The checks and the number of checks per status
+ * @throws {TypeError} If sourceDir or targetDir is not a non-empty string
+ *
+ * @example
+ * const report = runDiagnostics({ sourceDir: AGENTS_SOURCE_DIR, targetDir: AGENTS_TARGET_DIR })
+ * console.log(formatDiagnostics(report))
+ * process.exitCode = report.counts.fail > 0 ? 1 : 0
+ */
+export function runDiagnostics(options) {
+	const {
+		sourceDir,
+		targetDir,
+		opencodeVersion,
+		env = process.env,
+		cwd = process.cwd(),
+	} = options
+	for (const [name, value] of Object.entries({ sourceDir, targetDir })) {
+		if (typeof value !== "string" || value.trim() === "") {
+			throw new TypeError(`runDiagnostics: ${name} must be a non-empty string`)
+		}
+	}
+
+	const projectRoot = getProjectRoot(cwd)
+	const checks = checkTargetDir(targetDir)
+	let version = opencodeVersion
+	if (version === undefined) {
+		const detected = detectOpenCodeVersion({ env, cwd })
+		checks.push(checkOpenCodeVersion(detected))
+		version = detected.version
+	}
+	if (existsSync(targetDir)) {
+		try {
+			checks.push(...checkAgents(sourceDir, targetDir, version))
+		} catch (err) {
+			checks.push({
+				name: "manifest-valid",
+				status: "fail",
+				message: err.message,
+				hint: "Run: opencoder install --force",
+			})
+		}
+	}
+	const plugin = checkPluginReferenced(findConfigFiles(env, projectRoot))
+	checks.push(...plugin.checks)
+	checks.push(...checkAgentConflicts(targetDir, env, projectRoot, plugin.configs))
+
+	const counts = { pass: 0, warn: 0, fail: 0 }
+	for (const check of checks) counts[check.status]++
+	return { checks, counts }
+}
+
+/**
+ * Formats a diagnostic report for the terminal, one line per check with
+ * hints indented below warnings and failures.
+ *
+ * @param {DiagnosticReport} report - The report
+ * @returns {string} The formatted report
+ */
+export function formatDiagnostics(report) {
+	const lines = []
+	for (const { status, message, hint } of report.checks) {
+		lines.push(`[${status}] ${message}`)
+		if (hint && status !== "pass") lines.push(`       ${hint}`)
+	}
+	const { pass, warn, fail } = report.counts
+	lines.push("")
+	lines.push(
+		fail > 0
+			? `${fail} check(s) failed, ${warn} warning(s)`
+			: warn > 0
+				? `All checks passed with ${warn} warning(s)`
+				: `All ${pass} checks passed`,
+	)
+	return lines.join("\n")
+}
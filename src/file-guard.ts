@@ -0,0 +1,115 @@
+/**
+ * Thrashing-file guard for the OpenCoder loop.
+ *
+ * The orchestrator's "Recovery Actions" say to stop modifying a file for
+ * the rest of the cycle once it was modified 3+ times. The guard enforces
+ * this: edit tool calls on a file that already reached the limit in the
+ * current cycle are rejected with an explanation, so the builder reports
+ * the problem instead of editing the same file again.
+ */
+
+import { isAbsolute, relative, resolve } from "node:path"
+
+/** Tools that modify files */
+export const FILE_EDIT_TOOLS = Object.freeze(["edit", "write", "multiedit", "patch"] as const)
+
+/** Default number of modifications allowed per file and cycle */
+export const DEFAULT_MAX_FILE_EDITS = 3
+
+/** Environment variable overriding the configured limit (0 disables the guard) */
+export const MAX_FILE_EDITS_ENV = "OPENCODER_MAX_FILE_EDITS"
+
+/** File headers in `patch` tool input: `*** Update File: src/a.ts` */
+const PATCH_FILE_HEADER = /^\*\*\* (?:Add|Update|Delete) File:\s*(.+?)\s*$/gm
+
+/**
+ * Resolves the per-file modification limit: `maxFileEdits` from
+ * `.opencode/opencoder.json`, overridden by {@link MAX_FILE_EDITS_ENV}.
+ *
+ * @param configured - The configured limit (defaults to {@link DEFAULT_MAX_FILE_EDITS})
+ * @param env - Environment variables (defaults to `process.env`)
+ * @returns The limit, or 0 if the guard is disabled
+ *
+ * @example
+ * // OPENCODER_MAX_FILE_EDITS=5 opencode @opencoder
+ * getMaxFileEdits(config.maxFileEdits)  // 5
+ */
+export function getMaxFileEdits(
+	configured = DEFAULT_MAX_FILE_EDITS,
+	env: Record<string, string | undefined> = process.env,
+): number {
+	const value = env[MAX_FILE_EDITS_ENV]?.trim()
+	if (!value || !/^\d+$/.test(value)) return configured
+	return Number.parseInt(value, 10)
+}
+
+/**
+ * Converts a path to a path relative to the project directory, so that
+ * absolute and relative paths to the same file compare equal. Paths outside
+ * the project are returned unchanged.
+ *
+ * @param directory - The project root directory
+ * @param path - An absolute or project-relative path
+ * @returns The normalized path
+ *
+ * @example
+ * toProjectPath("/project", "/project/src/a.ts")  // "src/a.ts"
+ * toProjectPath("/project", "./src/a.ts")  // "src/a.ts"
+ */
+export function toProjectPath(directory: string, path: string): string {
+	const file = relative(directory, resolve(directory, path))
+	return file && !file.startsWith("..") && !isAbsolute(file) ? file : path
+}
+
+/**
+ * Returns the files an edit tool call modifies, relative to the project
+ * directory so that absolute and relative paths are counted together.
+ *
+ * @param tool - The tool name
+ * @param args - The tool arguments
+ * @param directory - The project root directory
+ * @returns The modified files, or an empty array for tools that don't edit files
+ *
+ * @example
+ * getEditedFiles("edit", { filePath: "/project/src/a.ts" }, "/project")  // ["src/a.ts"]
+ */
+export function getEditedFiles(tool: string, args: unknown, directory: string): string[] {
+	if (!(FILE_EDIT_TOOLS as readonly string[]).includes(tool)) return []
+	if (!args || typeof args !== "object") return []
+	const record = args as Record<string, unknown>
+
+	const paths =
+		typeof record.patchText === "string"
+			? [...record.patchText.matchAll(PATCH_FILE_HEADER)].map((match) => match[1] as string)
+			: [record.filePath].filter((path): path is string => typeof path === "string" && !!path)
+
+	return [...new Set(paths.map((path) => toProjectPath(directory, path)))]
+}
+
+/**
+ * Checks edit tool calls against the per-file modification limit.
+ *
+ * @param filesModified - Modifications per file in the current cycle
+ * @param files - Files the pending tool call modifies
+ * @param limit - Modifications allowed per file (0 disables the check)
+ * @returns A message explaining the rejection, or null if the call is allowed
+ *
+ * @example
+ * checkFileEdits({ "src/api.ts": 3 }, ["src/api.ts"], 3)
+ * // "src/api.ts was already modified 3 times this cycle (limit: 3). ..."
+ */
+export function checkFileEdits(
+	filesModified: Record<string, number>,
+	files: string[],
+	limit: number,
+): string | null {
+	if (limit <= 0) return null
+	const file = files.find((path) => (filesModified[path] ?? 0) >= limit)
+	if (!file) return null
+
+	return [
+		`${file} was already modified ${filesModified[file]} times this cycle (limit: ${limit}).`,
+		"Repeated edits to the same file mean the current approach is not resolving the issue, so further changes to it are blocked until the next cycle.",
+		"Take a different approach that does not modify this file, or stop and report the task as Blocked or Partial, naming the file and what the edits tried to fix.",
+	].join(" ")
+}
@@ -0,0 +1,219 @@
+/**
+ * Shell command firewall for autonomous runs.
+ *
+ * The loop runs unattended, so a single destructive `bash` call (deleting
+ * the project, force-pushing, discarding work on the main branch, piping a
+ * download into a shell) is costly. The firewall classifies commands
+ * against built-in and user-configured rules before they run, and either
+ * blocks them with an explanation or rewrites them into a safer form.
+ */
+
+import type { FirewallConfig } from "./config"
+
+/**
+ * What a rule does with a matching command.
+ *
+ * - `block`: reject the command
+ * - `rewrite`: replace the matched text and continue with the result
+ * - `allow`: accept the command without checking further rules
+ */
+export type CommandAction = "block" | "rewrite" | "allow"
+
+/**
+ * A command classification rule.
+ */
+export interface CommandRule {
+	/** Unique identifier, used in messages and to disable built-in rules */
+	id: string
+	/** Pattern matched against the whole command */
+	pattern: RegExp
+	action: CommandAction
+	/** Why the rule exists and what to do instead */
+	reason: string
+	/** Replacement for `rewrite` rules (`$1` etc. refer to capture groups) */
+	replacement?: string
+	/** Only apply when the repository is on one of these branches */
+	branches?: string[]
+}
+
+/**
+ * Result of classifying a command.
+ */
+export type FirewallVerdict =
+	| { action: "allow"; rule?: string }
+	| { action: "block"; rule: string; reason: string }
+	| { action: "rewrite"; command: string; rules: string[]; reasons: string[] }
+
+/**
+ * Information about the environment a command runs in.
+ */
+export interface FirewallContext {
+	/** Returns the current git branch; only called for rules restricted to branches */
+	getBranch?: () => string | undefined
+}
+
+/** Boundary before a command: start of input or a shell separator */
+const COMMAND_START = String.raw`(?:^|[;&|(]\s*|\bsudo\s+)`
+
+/** Boundary after an argument: whitespace, a shell separator or end of input */
+const ARG_END = String.raw`(?=\s|[;&|)]|$)`
+
+/** Rules applied to every command unless disabled in the configuration */
+export const BUILTIN_COMMAND_RULES: readonly CommandRule[] = Object.freeze([
+	{
+		id: "rm-recursive-root",
+		pattern: new RegExp(
+			String.raw`${COMMAND_START}rm\s+(?:-\S+\s+)*(?:-[a-zA-Z]*[rR][a-zA-Z]*|--recursive)\s+(?:-\S+\s+)*(?:\/\*?|~\/?\*?|\$HOME\/?\*?|\.\/?\*?|\.\.\/?|\*|\.git\/?)${ARG_END}`,
+		),
+		action: "block",
+		reason:
+			"Recursively deleting the root, home or project directory destroys work that cannot be recovered. Delete specific build artifacts instead (e.g. rm -rf dist).",
+	},
+	{
+		id: "git-push-force",
+		pattern: new RegExp(String.raw`(\bgit\s+push\b[^;&|\n]*?\s)(?:--force|-f)${ARG_END}`),
+		action: "rewrite",
+		replacement: "$1--force-with-lease",
+		reason:
+			"--force overwrites commits pushed by others; --force-with-lease refuses to push if the remote branch changed.",
+	},
+	{
+		id: "git-push-force-refspec",
+		pattern: /\bgit\s+push\b[^;&|\n]*?\s\+[^\s;&|)]/,
+		action: "block",
+		reason:
+			"A refspec starting with + force-pushes it and overwrites commits pushed by others. Push the plain refspec with --force-with-lease instead (git push --force-with-lease origin main).",
+	},
+	{
+		id: "git-reset-hard",
+		pattern: /\bgit\s+reset\s+(?:\S+\s+)*--hard\b/,
+		action: "block",
+		branches: ["main", "master"],
+		reason:
+			"git reset --hard on the main branch discards commits and uncommitted work. Revert a single commit with git revert, or discard changes to specific files with git restore <file>.",
+	},
+	{
+		id: "pipe-to-shell",
+		pattern: /\b(?:curl|wget)\b[^;&\n]*\|\s*(?:sudo\s+)?(?:ba|z|da|k)?sh\b/,
+		action: "block",
+		reason:
+			"Piping a download into a shell runs unreviewed code. Download the script to a file and inspect it, or install the tool with the project's package manager.",
+	},
+	{
+		id: "write-block-device",
+		pattern: /\b(?:mkfs(?:\.\w+)?\s|dd\s+[^;&|\n]*\bof=\/dev\/)/,
+		action: "block",
+		reason: "Writing to a block device can destroy the file system.",
+	},
+] satisfies CommandRule[])
+
+/**
+ * Builds the rule list from the configuration: user rules first, then the
+ * built-in rules that are not disabled.
+ *
+ * @param config - The `firewall` configuration, if any
+ * @returns The rules in evaluation order
+ * @throws {Error} If a user rule's pattern is not a valid regular expression
+ *
+ * @example
+ * resolveCommandRules({
+ *   disable: ["git-reset-hard"],
+ *   rules: [{ id: "no-publish", pattern: "\\bnpm\\s+publish\\b", action: "block", reason: "CI publishes releases" }],
+ * })
+ */
+export function resolveCommandRules(config: FirewallConfig = {}): CommandRule[] {
+	const userRules = (config.rules ?? []).map((rule) => {
+		let pattern: RegExp
+		try {
+			pattern = new RegExp(rule.pattern)
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err)
+			throw new Error(`Invalid pattern in firewall rule "${rule.id}": ${message}`)
+		}
+		return { ...rule, pattern }
+	})
+	const disabled = new Set(config.disable ?? [])
+	return [...userRules, ...BUILTIN_COMMAND_RULES.filter((rule) => !disabled.has(rule.id))]
+}
+
+/**
+ * Classifies a shell command.
+ *
+ * Rules are evaluated in order. The first matching `block` or `allow` rule
+ * decides; `rewrite` rules transform the command and evaluation continues
+ * with the rewritten command, so a rewritten command can still be blocked.
+ *
+ * @param command - The shell command
+ * @param rules - The rules (see {@link resolveCommandRules})
+ * @param context - Environment information for branch-restricted rules
+ * @returns The verdict
+ *
+ * @example
+ * classifyCommand("git push --force origin feature", BUILTIN_COMMAND_RULES)
+ * // { action: "rewrite", command: "git push --force-with-lease origin feature", ... }
+ */
+export function classifyCommand(
+	command: string,
+	rules: readonly CommandRule[],
+	context: FirewallContext = {},
+): FirewallVerdict {
+	let current = command
+	const applied: CommandRule[] = []
+	let branch: string | undefined
+	let branchLoaded = false
+
+	for (const rule of rules) {
+		if (!rule.pattern.test(current)) continue
+		if (rule.branches) {
+			if (!branchLoaded) {
+				branch = context.getBranch?.()
+				branchLoaded = true
+			}
+			if (!branch || !rule.branches.includes(branch)) continue
+		}
+
+		if (rule.action === "allow") return { action: "allow", rule: rule.id }
+		if (rule.action === "block") return { action: "block", rule: rule.id, reason: rule.reason }
+		const global = new RegExp(rule.pattern.source, `${rule.pattern.flags.replace("g", "")}g`)
+		current = current.replace(global, rule.replacement ?? "")
+		applied.push(rule)
+	}
+
+	if (applied.length === 0) return { action: "allow" }
+	return {
+		action: "rewrite",
+		command: current,
+		rules: applied.map((rule) => rule.id),
+		reasons: applied.map((rule) => rule.reason),
+	}
+}
+
+/**
+ * Formats the error shown to an agent when a command is blocked.
+ *
+ * @param verdict - The block verdict
+ * @returns The message
+ */
+export function formatBlockedCommand(
+	verdict: Extract<FirewallVerdict, { action: "block" }>,
+): string {
+	return `Command blocked by the OpenCoder firewall (rule "${verdict.rule}"): ${verdict.reason}`
+}
+
+/**
+ * Formats the note appended to a rewritten command's output, so the agent
+ * knows which command actually ran.
+ *
+ * @param original - The command as requested
+ * @param verdict - The rewrite verdict
+ * @returns The note
+ */
+export function formatRewrittenCommand(
+	original: string,
+	verdict: Extract<FirewallVerdict, { action: "rewrite" }>,
+): string {
+	return [
+		`[OpenCoder firewall] Ran \`${verdict.command}\` instead of \`${original}\` (${verdict.rules.join(", ")}).`,
+		...verdict.reasons,
+	].join(" ")
+}
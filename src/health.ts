@@ -0,0 +1,235 @@
+/**
+ * Loop health monitor for the OpenCoder loop.
+ *
+ * Computes the orchestrator's "Health Heuristics" (task success rate,
+ * same-file modifications, consecutive failures and identical tasks across
+ * cycles) from the cycle ledger, so stuck loops are detected from recorded
+ * activity instead of the model's recollection. When a threshold is
+ * crossed, the matching recovery prompt template is filled in for the
+ * orchestrator.
+ */
+
+import type { TaskOutcome } from "./builder-result"
+import type { CycleRecord, LedgerSummary } from "./ledger"
+
+/** Overall loop health, from best to worst */
+export const HEALTH_STATUSES = Object.freeze(["Healthy", "Warning", "Critical"] as const)
+
+export type HealthStatus = (typeof HEALTH_STATUSES)[number]
+
+/** Minimum number of finished tasks before the success rate is rated */
+export const MIN_RATED_TASKS = 3
+
+/**
+ * A metric that crossed its Warning or Critical threshold.
+ */
+export interface HealthSignal {
+	metric: "success-rate" | "same-file" | "consecutive-failures" | "identical-tasks"
+	status: Exclude<HealthStatus, "Healthy">
+	/** Short description of the problem */
+	message: string
+	/** Recovery prompt for the next planner invocation */
+	recovery: string
+}
+
+/**
+ * Health metrics of the current cycle.
+ */
+export interface HealthReport {
+	/** The cycle the metrics were computed for, 0 if no cycle has started */
+	cycle: number
+	/** The worst status of all metrics */
+	status: HealthStatus
+	/** Fraction of finished tasks that completed (0-1), undefined before any task finished */
+	successRate?: number
+	/** The most frequently modified file and its modification count */
+	mostModifiedFile?: { path: string; count: number }
+	/** Failed tasks at the end of the cycle, in order */
+	consecutiveFailures: number
+	/** Task titles planned in both this cycle and the previous one */
+	identicalTasks: string[]
+	/** Metrics that crossed a threshold, worst first */
+	signals: HealthSignal[]
+}
+
+/**
+ * Whether a task outcome counts as a failure. Partial completions are
+ * committed by the orchestrator and count as progress.
+ */
+function isFailure(outcome: TaskOutcome): boolean {
+	return outcome.status === "blocked" || outcome.status === "unclear"
+}
+
+/**
+ * Returns the titles planned for a cycle: the submitted plan if any,
+ * otherwise the tasks passed to the builder.
+ */
+function plannedTitles(record: CycleRecord): string[] {
+	return record.plan.length > 0 ? record.plan : record.tasks.map((task) => task.title)
+}
+
+/**
+ * Rates a value against Warning and Critical thresholds.
+ */
+function rate(value: number, warning: number, critical: number): HealthStatus {
+	if (value >= critical) return "Critical"
+	if (value >= warning) return "Warning"
+	return "Healthy"
+}
+
+/**
+ * Computes the health of the current cycle from a ledger summary.
+ *
+ * Thresholds follow the orchestrator's "Health Heuristics" table:
+ *
+ * | Metric | Healthy | Warning | Critical |
+ * |--------|---------|---------|----------|
+ * | Task success rate | >80% | 50-80% | <50% |
+ * | Same file modifications | 1-2x | 3x | 4+x |
+ * | Consecutive failures | 0-1 | 2 | 3+ |
+ * | Identical tasks across cycles | 0 | 1-2 | 3+ |
+ *
+ * The success rate is only rated once {@link MIN_RATED_TASKS} tasks have
+ * finished, so a single early failure is reported by the consecutive
+ * failures metric instead of as a 0% success rate.
+ *
+ * @param summary - The ledger summary
+ * @returns The health report
+ *
+ * @example
+ * const report = assessHealth(ledger.summary)
+ * if (report.status === "Critical") console.warn(report.signals[0]?.message)
+ */
+export function assessHealth(summary: LedgerSummary): HealthReport {
+	const current = summary.cycles.at(-1)
+	if (!current) {
+		return { cycle: 0, status: "Healthy", consecutiveFailures: 0, identicalTasks: [], signals: [] }
+	}
+
+	const signals: HealthSignal[] = []
+	const outcomes = current.tasks.flatMap((task) => (task.outcome ? [task] : []))
+	const failed = outcomes.filter((task) => isFailure(task.outcome as TaskOutcome))
+	const describeFailure = (task: (typeof outcomes)[number]): string =>
+		`${task.title}: ${task.outcome?.blockers.join("; ") || task.outcome?.status}`
+
+	const successRate =
+		outcomes.length > 0 ? (outcomes.length - failed.length) / outcomes.length : undefined
+	if (successRate !== undefined && outcomes.length >= MIN_RATED_TASKS && successRate <= 0.8) {
+		const blockers = [...new Set(failed.flatMap((task) => task.outcome?.blockers ?? []))]
+		signals.push({
+			metric: "success-rate",
+			status: successRate < 0.5 ? "Critical" : "Warning",
+			message: `Task success rate is ${Math.round(successRate * 100)}% (${outcomes.length - failed.length} of ${outcomes.length} tasks completed)`,
+			recovery: [
+				"@opencoder-planner These blockers have persisted across cycles:",
+				...(blockers.length > 0 ? blockers : failed.map(describeFailure)).map((b) => `- ${b}`),
+				"Create a plan that addresses these blockers before attempting other improvements.",
+			].join("\n"),
+		})
+	}
+
+	const [path, count] = Object.entries(current.filesModified).sort((a, b) => b[1] - a[1])[0] ?? []
+	const mostModifiedFile = path && count ? { path, count } : undefined
+	if (mostModifiedFile) {
+		const status = rate(mostModifiedFile.count, 3, 4)
+		if (status !== "Healthy") {
+			signals.push({
+				metric: "same-file",
+				status,
+				message: `${mostModifiedFile.path} was modified ${mostModifiedFile.count} times this cycle`,
+				recovery: [
+					`@opencoder-planner Note: ${mostModifiedFile.path} was modified ${mostModifiedFile.count} times last cycle without success.`,
+					"Create a plan that either fixes the root cause or takes a different approach.",
+				].join("\n"),
+			})
+		}
+	}
+
+	let consecutiveFailures = 0
+	for (const task of [...outcomes].reverse()) {
+		if (!isFailure(task.outcome as TaskOutcome)) break
+		consecutiveFailures++
+	}
+	const failureStatus = rate(consecutiveFailures, 2, 3)
+	if (failureStatus !== "Healthy") {
+		const recent = outcomes.slice(-consecutiveFailures)
+		signals.push({
+			metric: "consecutive-failures",
+			status: failureStatus,
+			message: `${consecutiveFailures} consecutive task failures`,
+			recovery: [
+				`@opencoder-planner Last cycle had ${consecutiveFailures} consecutive failures.`,
+				"Failed tasks and reasons:",
+				...recent.map((task, index) => `${index + 1}. ${describeFailure(task)}`),
+				"Create a smaller, more focused plan that unblocks forward progress.",
+			].join("\n"),
+		})
+	}
+
+	const previous = summary.cycles.at(-2)
+	const previousTitles = new Set(
+		(previous ? plannedTitles(previous) : []).map((title) => title.toLowerCase()),
+	)
+	const identicalTasks = plannedTitles(current).filter((title) =>
+		previousTitles.has(title.toLowerCase()),
+	)
+	const identicalStatus = rate(identicalTasks.length, 1, 3)
+	if (identicalStatus !== "Healthy") {
+		signals.push({
+			metric: "identical-tasks",
+			status: identicalStatus,
+			message: `${identicalTasks.length} task(s) repeated from the previous cycle`,
+			recovery: [
+				`@opencoder-planner Previous cycle attempted these tasks: ${identicalTasks.join(", ")}.`,
+				"They did not resolve the issues. Suggest alternative approaches that focus on root causes, not symptoms.",
+			].join("\n"),
+		})
+	}
+
+	signals.sort((a, b) => HEALTH_STATUSES.indexOf(b.status) - HEALTH_STATUSES.indexOf(a.status))
+
+	return {
+		cycle: current.cycle,
+		status: signals[0]?.status ?? "Healthy",
+		...(successRate !== undefined ? { successRate } : {}),
+		...(mostModifiedFile ? { mostModifiedFile } : {}),
+		consecutiveFailures,
+		identicalTasks,
+		signals,
+	}
+}
+
+/**
+ * Formats a health report as context for the orchestrator.
+ *
+ * @param report - The health report
+ * @returns Markdown with the status and recovery prompts, or an empty string when healthy
+ *
+ * @example
+ * // ## Loop Health: Critical
+ * //
+ * // - Critical: 3 consecutive task failures
+ * //
+ * // Switch to recovery mode: abort the remaining tasks of this cycle, do not
+ * // push, and start the next cycle with these planner prompts:
+ * //
+ * // @opencoder-planner Last cycle had 3 consecutive failures.
+ * // ...
+ */
+export function formatHealthReport(report: HealthReport): string {
+	if (report.status === "Healthy") return ""
+
+	const instruction =
+		report.status === "Critical"
+			? "Switch to recovery mode: abort the remaining tasks of this cycle, do not push, and start the next cycle with these planner prompts:"
+			: "Include these notes in the next planner invocation:"
+	return [
+		`## Loop Health: ${report.status}`,
+		"",
+		...report.signals.map((signal) => `- ${signal.status}: ${signal.message}`),
+		"",
+		instruction,
+		"",
+		report.signals.map((signal) => signal.recovery).join("\n\n"),
+	].join("\n")
+}
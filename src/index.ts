@@ -14,7 +14,33 @@
  * The agents are installed to ~/.config/opencode/agents/ via the postinstall script.
  */
 
+// Session budget types
+export type { BudgetExhaustion, BudgetUsage } from "./budget"
+// Builder outcome types
+export type { TaskOutcome, TaskOutcomeStatus, VerificationResult } from "./builder-result"
+// Project configuration types
+export type {
+	BudgetConfig,
+	CommandRuleConfig,
+	FirewallConfig,
+	OpenCoderConfig,
+	PathPolicyConfig,
+	PathRules,
+} from "./config"
+// Command firewall types
+export type { CommandAction, FirewallVerdict } from "./firewall"
+// Loop health types
+export type { HealthReport, HealthSignal, HealthStatus } from "./health"
 // Metadata exports (backwards compatibility)
 export { agents, description, name, version } from "./metadata"
+// Plan types (shared by the plan tool and the markdown plan parser)
+export type {
+	DevelopmentPlan,
+	PlanTask,
+	TaskCategory,
+	TaskComplexity,
+	TaskPriority,
+} from "./plan"
+export type { ParsePlanResult, PlanIssue } from "./plan-parser"
 // Main plugin export (OpenCode plugin API)
 export { OpenCoderPlugin, OpenCoderPlugin as default } from "./plugin"
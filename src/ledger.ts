@@ -0,0 +1,427 @@
+/**
+ * Persistent cycle ledger for the OpenCoder loop.
+ *
+ * The orchestrator's "Cycle N" tracking otherwise lives only in the model's
+ * context and is lost on `/clear`. The ledger records cycles, subagent
+ * invocations, tool calls and session events as JSON lines under
+ * `.opencoder/` in the project directory, so a restarted session can resume
+ * with real history instead of a one-line summary.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import type { TaskOutcome } from "./builder-result"
+import type { BudgetConfig } from "./config"
+import type { HealthStatus } from "./health"
+
+/** Directory (relative to the project root) holding OpenCoder runtime state */
+export const STATE_DIR = ".opencoder"
+
+/** Ledger filename inside {@link STATE_DIR} */
+export const LEDGER_FILE = "ledger.jsonl"
+
+/**
+ * `.gitignore` written into {@link STATE_DIR}, so the orchestrator's `git add -A`
+ * never commits the ledger into the project's history
+ */
+const STATE_GITIGNORE = "*\n"
+
+/** Maximum length of free-form text (prompts, commands) stored per entry */
+const MAX_TEXT_LENGTH = 200
+
+/** Number of most recent cycles included in {@link formatLedgerSummary} */
+const SUMMARY_CYCLES = 5
+
+/**
+ * A single ledger record.
+ *
+ * Every entry carries an ISO timestamp and the cycle it belongs to
+ * (0 before the first planner invocation).
+ */
+export type LedgerEntry = { time: string; cycle: number } & (
+	| { type: "cycle.started"; sessionID: string; goal?: string }
+	| { type: "plan.submitted"; sessionID: string; tasks: string[] }
+	| { type: "subagent.started"; agent: string; sessionID: string; callID: string; title: string }
+	| {
+			type: "subagent.finished"
+			agent: string
+			sessionID: string
+			callID: string
+			outputLength: number
+	  }
+	| { type: "task.outcome"; callID: string; outcome: TaskOutcome }
+	| { type: "tool.started"; tool: string; sessionID: string; callID: string; target?: string }
+	| {
+			type: "tool.finished"
+			tool: string
+			sessionID: string
+			callID: string
+			title: string
+			outputLength: number
+			/** Files modified by an edit tool call */
+			files?: string[]
+	  }
+	| { type: "tool.blocked"; tool: string; sessionID: string; callID: string; reason: string }
+	| {
+			type: "command.rewritten"
+			sessionID: string
+			callID: string
+			command: string
+			rewritten: string
+			rules: string[]
+	  }
+	| { type: "health.changed"; status: HealthStatus; signals: string[] }
+	| { type: "budget.exhausted"; limit: keyof BudgetConfig; used: number; max: number }
+	| { type: "session.created"; sessionID: string; parentID?: string; title: string }
+	| { type: "session.idle"; sessionID: string }
+	| { type: "session.error"; sessionID?: string; error: string }
+)
+
+/** A ledger entry before the ledger stamps its time and cycle */
+export type LedgerEntryInput = LedgerEntry extends infer E
+	? E extends LedgerEntry
+		? Omit<E, "time" | "cycle">
+		: never
+	: never
+
+/** A builder task recorded within a cycle */
+export interface TaskRecord {
+	/** 1-based position of the task within its cycle */
+	number: number
+	/** Task title as passed to the builder */
+	title: string
+	/** Tool call ID of the `task` invocation that ran the builder */
+	callID: string
+	/** Whether the builder has returned */
+	status: "running" | "finished"
+	/** Parsed builder report, once the builder has returned */
+	outcome?: TaskOutcome
+}
+
+/** Everything recorded for a single cycle */
+export interface CycleRecord {
+	cycle: number
+	/** ISO timestamp of the planner invocation that started the cycle */
+	startedAt: string
+	/** Initial instructions passed to the planner, if any */
+	goal?: string
+	/** Titles of the tasks planned via the plan tool, in order */
+	plan: string[]
+	tasks: TaskRecord[]
+	/** Number of non-subagent tool calls made during the cycle */
+	toolCalls: number
+	/** Completed edit tool calls per file path (relative to the project) during the cycle */
+	filesModified: Record<string, number>
+}
+
+/** Aggregated view of the ledger used for resuming the loop */
+export interface LedgerSummary {
+	/** The current (latest) cycle number, 0 if no cycle has started */
+	cycle: number
+	cycles: CycleRecord[]
+}
+
+/**
+ * Append-only ledger stored at `<directory>/.opencoder/ledger.jsonl`.
+ */
+export interface Ledger {
+	/** Absolute path of the ledger file */
+	readonly path: string
+	/** Summary of all entries recorded so far, including previous sessions */
+	readonly summary: LedgerSummary
+	/**
+	 * Stamps an entry with the current time and cycle, persists it and
+	 * applies it to {@link summary}.
+	 *
+	 * @throws {Error} If the ledger file cannot be written
+	 */
+	append(entry: LedgerEntryInput): LedgerEntry
+	/**
+	 * Starts a new cycle and records a `cycle.started` entry.
+	 *
+	 * @returns The new cycle number
+	 * @throws {Error} If the ledger file cannot be written
+	 */
+	startCycle(sessionID: string, goal?: string): number
+}
+
+/**
+ * Truncates text to {@link MAX_TEXT_LENGTH} characters for storage.
+ */
+function truncate(text: string): string {
+	return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 3)}...` : text
+}
+
+/**
+ * Applies a single entry to a summary in place.
+ *
+ * @param summary - The summary to update
+ * @param entry - The entry to apply
+ */
+function applyEntry(summary: LedgerSummary, entry: LedgerEntry): void {
+	if (entry.type === "cycle.started") {
+		summary.cycle = entry.cycle
+		summary.cycles.push({
+			cycle: entry.cycle,
+			startedAt: entry.time,
+			goal: entry.goal,
+			plan: [],
+			tasks: [],
+			toolCalls: 0,
+			filesModified: {},
+		})
+		return
+	}
+
+	const current = summary.cycles.at(-1)
+	if (!current) return
+
+	switch (entry.type) {
+		case "plan.submitted":
+			current.plan = entry.tasks
+			break
+		case "subagent.started":
+			if (entry.agent === "opencoder-builder") {
+				current.tasks.push({
+					number: current.tasks.length + 1,
+					title: entry.title,
+					callID: entry.callID,
+					status: "running",
+				})
+			}
+			break
+		case "subagent.finished": {
+			const task = current.tasks.find((t) => t.callID === entry.callID)
+			if (task) task.status = "finished"
+			break
+		}
+		case "task.outcome": {
+			const task = current.tasks.find((t) => t.callID === entry.callID)
+			if (task) task.outcome = entry.outcome
+			break
+		}
+		case "tool.started":
+			current.toolCalls++
+			break
+		case "tool.finished":
+			for (const file of entry.files ?? []) {
+				current.filesModified[file] = (current.filesModified[file] ?? 0) + 1
+			}
+			break
+	}
+}
+
+/**
+ * Builds a summary from a list of ledger entries.
+ *
+ * @param entries - Entries in the order they were recorded
+ * @returns The aggregated summary
+ *
+ * @example
+ * const summary = summarizeLedger(readLedger("/path/to/project"))
+ * console.log(`Resuming after cycle ${summary.cycle}`)
+ */
+export function summarizeLedger(entries: LedgerEntry[]): LedgerSummary {
+	const summary: LedgerSummary = { cycle: 0, cycles: [] }
+	for (const entry of entries) {
+		applyEntry(summary, entry)
+	}
+	return summary
+}
+
+/**
+ * Returns the ledger file path for a project directory.
+ *
+ * @param directory - The project root directory
+ */
+export function getLedgerPath(directory: string): string {
+	return join(directory, STATE_DIR, LEDGER_FILE)
+}
+
+/**
+ * Reads all entries from a project's ledger.
+ *
+ * Lines that are not valid JSON (e.g. a partial write from a crashed
+ * session) are skipped.
+ *
+ * @param directory - The project root directory
+ * @returns Recorded entries, or an empty array if no ledger exists
+ */
+export function readLedger(directory: string): LedgerEntry[] {
+	const path = getLedgerPath(directory)
+	if (!existsSync(path)) return []
+
+	const entries: LedgerEntry[] = []
+	for (const line of readFileSync(path, "utf-8").split("\n")) {
+		if (!line.trim()) continue
+		try {
+			entries.push(JSON.parse(line) as LedgerEntry)
+		} catch {
+			// Skip corrupted lines rather than losing the whole history
+		}
+	}
+	return entries
+}
+
+/**
+ * Opens the ledger for a project directory, loading any existing history.
+ *
+ * The `.opencoder/` directory is created lazily on the first write, so
+ * projects where the loop never runs are left untouched. It is created with
+ * a `.gitignore` ignoring everything in it, so the ledger is never committed.
+ *
+ * @param directory - The project root directory (usually `ctx.directory`)
+ * @returns The ledger
+ *
+ * @example
+ * const ledger = createLedger(ctx.directory)
+ * const cycle = ledger.startCycle("ses_123", "create a CLI todo app")
+ * ledger.append({ type: "tool.started", tool: "bash", sessionID: "ses_123", callID: "c1" })
+ */
+export function createLedger(directory: string): Ledger {
+	const path = getLedgerPath(directory)
+	const summary = summarizeLedger(readLedger(directory))
+
+	const write = (entry: LedgerEntry): LedgerEntry => {
+		const stateDir = join(directory, STATE_DIR)
+		if (!existsSync(join(stateDir, ".gitignore"))) {
+			mkdirSync(stateDir, { recursive: true })
+			writeFileSync(join(stateDir, ".gitignore"), STATE_GITIGNORE)
+		}
+		appendFileSync(path, `${JSON.stringify(entry)}\n`)
+		applyEntry(summary, entry)
+		return entry
+	}
+
+	return {
+		path,
+		summary,
+		append: (entry) =>
+			write({ ...entry, time: new Date().toISOString(), cycle: summary.cycle } as LedgerEntry),
+		startCycle: (sessionID, goal) => {
+			const cycle = summary.cycle + 1
+			write({
+				type: "cycle.started",
+				time: new Date().toISOString(),
+				cycle,
+				sessionID,
+				...(goal ? { goal: truncate(goal) } : {}),
+			})
+			return cycle
+		},
+	}
+}
+
+/**
+ * A subagent invocation extracted from the `task` tool's arguments.
+ */
+export interface SubagentInvocation {
+	/** Subagent name (`subagent_type`) */
+	agent: string
+	/** Task title for the builder, or the short description otherwise */
+	title: string
+	/** The full prompt passed to the subagent */
+	prompt: string
+}
+
+/**
+ * Extracts the subagent invocation from `task` tool arguments.
+ *
+ * For the builder, the title is taken from the orchestrator's
+ * `Execute this task: [Title]` line when present.
+ *
+ * @param args - The `task` tool arguments (`subagent_type`, `description`, `prompt`)
+ * @returns The invocation, or null if the arguments don't name a subagent
+ */
+export function parseSubagentInvocation(args: unknown): SubagentInvocation | null {
+	if (!args || typeof args !== "object") return null
+	const { subagent_type, description, prompt } = args as Record<string, unknown>
+	if (typeof subagent_type !== "string" || !subagent_type) return null
+
+	const promptText = typeof prompt === "string" ? prompt : ""
+	const taskLine = promptText.match(/Execute (?:this )?task(?: \d+)?:\s*(.+)/i)
+	const title = taskLine?.[1]?.trim() || (typeof description === "string" ? description : "")
+
+	return { agent: subagent_type, title: truncate(title), prompt: promptText }
+}
+
+/**
+ * Extracts the agent name from the title OpenCode gives subagent sessions
+ * (`[description] (@[agent] subagent)`).
+ *
+ * @param title - The session title
+ * @returns The agent name, or undefined if the title doesn't name one
+ *
+ * @example
+ * parseSessionAgent("Create plan (@opencoder-planner subagent)")  // "opencoder-planner"
+ */
+export function parseSessionAgent(title: string): string | undefined {
+	return title.match(/\(@([\w-]+) subagent\)\s*$/)?.[1]
+}
+
+/**
+ * Extracts the initial instructions from a planner prompt
+ * (`Create a plan to: [USER_INSTRUCTIONS]`).
+ *
+ * @param prompt - The planner prompt
+ * @returns The goal, or undefined in autonomous mode
+ */
+export function parsePlannerGoal(prompt: string): string | undefined {
+	return prompt.match(/Create a plan to:\s*(.+)/i)?.[1]?.trim() || undefined
+}
+
+/**
+ * Returns a short description of what a tool call operates on
+ * (file path, command or pattern) for the ledger.
+ *
+ * @param args - The tool arguments
+ * @returns The target, or undefined if none is recognizable
+ */
+export function describeToolTarget(args: unknown): string | undefined {
+	if (!args || typeof args !== "object") return undefined
+	const record = args as Record<string, unknown>
+	for (const key of ["filePath", "path", "command", "pattern", "url"]) {
+		const value = record[key]
+		if (typeof value === "string" && value) return truncate(value)
+	}
+	return undefined
+}
+
+/**
+ * Formats the most recent cycles of a summary as context for a resumed
+ * orchestrator session.
+ *
+ * @param summary - The ledger summary
+ * @returns Markdown describing recorded history, or an empty string if no cycle was recorded
+ *
+ * @example
+ * // ## OpenCoder Ledger
+ * //
+ * // History recorded in .opencoder/ledger.jsonl. Continue with Cycle 3.
+ * //
+ * // - Cycle 2: Autonomous - 2 task(s)
+ * //   1. Add input validation (done)
+ * //   2. Add Stripe payments (blocked) - STRIPE_SECRET_KEY not configured
+ */
+export function formatLedgerSummary(summary: LedgerSummary): string {
+	if (summary.cycles.length === 0) return ""
+
+	const lines = [
+		"## OpenCoder Ledger",
+		"",
+		`History recorded in ${STATE_DIR}/${LEDGER_FILE}. Continue with Cycle ${summary.cycle + 1}.`,
+		"",
+	]
+	for (const record of summary.cycles.slice(-SUMMARY_CYCLES)) {
+		const mode = record.goal ? `Goal-directed (${record.goal})` : "Autonomous"
+		lines.push(`- Cycle ${record.cycle}: ${mode} - ${record.tasks.length} task(s)`)
+		for (const task of record.tasks) {
+			const blockers = task.outcome?.blockers.length ? ` - ${task.outcome.blockers.join("; ")}` : ""
+			const remaining = task.outcome?.remaining ? ` - remaining: ${task.outcome.remaining}` : ""
+			lines.push(
+				`  ${task.number}. ${task.title} (${task.outcome?.status ?? task.status})${blockers}${remaining}`,
+			)
+		}
+	}
+	return lines.join("\n")
+}
@@ -0,0 +1,122 @@
+/**
+ * Type declarations for lint.mjs
+ */
+
+import type { AgentDiagnostic, DiagnosticSeverity } from "./agent-schema.mjs"
+
+/** Config file with the `lint` section, relative to the project root */
+export const LINT_CONFIG_FILE: string
+
+/**
+ * Lint rules and their default severities:
+ *
+ * - `required-sections`: each agent has the `## ` sections it must have
+ * - `related-agents`: the "Related Agents" table names only known agents
+ * - `agent-contract`: the output formats of the planner and the builder match
+ *   the formats the orchestrator parses (see `verifyAgentContracts`)
+ * - `unique-headings`: no heading repeats among the headings of a section
+ */
+export const LINT_RULES: Readonly<{
+	"required-sections": "error"
+	"related-agents": "error"
+	"agent-contract": "error"
+	"unique-headings": "warning"
+}>
+
+/** Rules of `validateAgentContent`, which lint runs too */
+export const CONTENT_RULES: readonly string[]
+
+/**
+ * Sections (`## ` headings) each agent must have, by agent name; `*` applies
+ * to every agent.
+ */
+export const DEFAULT_REQUIRED_SECTIONS: Readonly<Record<string, readonly string[]>>
+
+/**
+ * Lint settings from the `lint` section of `.opencode/opencoder.json`.
+ *
+ * @example
+ * {
+ *   "lint": {
+ *     "rules": { "unique-headings": "off", "recommended-field": "error" },
+ *     "requiredSections": { "*": ["Your Role"], "opencoder-planner": ["Output Format"] }
+ *   }
+ * }
+ */
+export interface LintConfig {
+	/** Severity of a rule by rule id, or "off" to disable it */
+	rules?: Record<string, "off" | DiagnosticSeverity>
+	/** Required sections by agent name or `*` (replaces {@link DEFAULT_REQUIRED_SECTIONS}) */
+	requiredSections?: Record<string, readonly string[]>
+}
+
+/**
+ * An agent file to lint.
+ */
+export interface LintInput {
+	/** The file path, used to name the agent and in the report */
+	path: string
+	/** The file content */
+	content: string
+}
+
+/**
+ * Result of {@link lintAgents}.
+ */
+export interface LintReport {
+	/** The diagnostics of each file, sorted by position */
+	files: { path: string; diagnostics: AgentDiagnostic[] }[]
+	/** Number of diagnostics per severity */
+	counts: Record<DiagnosticSeverity, number>
+}
+
+/**
+ * Validates the `lint` section of the config file.
+ *
+ * @param value - The parsed `lint` section
+ * @returns Problems found, empty if the settings are valid
+ *
+ * @example
+ * validateLintConfig({ rules: { "unique-headings": "warn" } })
+ * // ['lint.rules.unique-headings must be one of off, error, warning, info']
+ */
+export function validateLintConfig(value: unknown): string[]
+
+/**
+ * Loads the lint settings from the `lint` section of a config file.
+ *
+ * @param path - The config file, usually {@link LINT_CONFIG_FILE} in the project
+ * @returns The settings, or an empty object if the file or section does not exist
+ * @throws {Error} If the file is not valid JSON or the settings are invalid
+ */
+export function loadLintConfig(path: string): LintConfig
+
+/**
+ * Lints agent files.
+ *
+ * Each file gets the diagnostics of `validateAgentContent` plus those of the
+ * lint rules in {@link LINT_RULES}. The agent name, used for agent-specific
+ * checks, is the file name without `.md`; a contract is checked only when
+ * both of its agents are linted. Rules set to "off" in `config.rules` are
+ * skipped and other values replace the rule's severity.
+ *
+ * @param agents - The files to lint
+ * @param config - The lint settings
+ * @returns The diagnostics per file and the number of diagnostics per severity
+ *
+ * @example
+ * const report = lintAgents([{ path: "agents/opencoder.md", content }], {
+ *   rules: { "unique-headings": "off" },
+ * })
+ * console.log(formatLintReport(report))
+ */
+export function lintAgents(agents: LintInput[], config?: LintConfig): LintReport
+
+/**
+ * Formats a lint report for the terminal: each diagnostic as
+ * `file:line:column: severity: message [rule]` with its fix, then a summary.
+ *
+ * @param report - The report
+ * @returns The formatted report
+ */
+export function formatLintReport(report: LintReport): string
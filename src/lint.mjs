@@ -0,0 +1,376 @@
+/**
+ * Linting of agent markdown for the `opencoder lint` command.
+ *
+ * Runs {@link validateAgentContent} and adds structural rules for the
+ * OpenCoder prompts: each agent has its required sections, the "Related
+ * Agents" tables name existing agents, the agents keep their contracts with
+ * each other (see contracts.mjs), and no heading repeats among its siblings.
+ * Every rule, including those of `validateAgentContent`, can be turned off
+ * or given another severity in the `lint` section of `.opencode/opencoder.json`.
+ */
+
+import { existsSync, readFileSync } from "node:fs"
+import { basename, join } from "node:path"
+import { DIAGNOSTIC_SEVERITIES } from "./agent-schema.mjs"
+import { CONTRACT_RULE, verifyAgentContracts } from "./contracts.mjs"
+import { findSection, outlineMarkdown } from "./markdown.mjs"
+import { AGENT_NAMES, formatDiagnostic, validateAgentContent } from "./paths.mjs"
+
+/** @typedef {import("./agent-schema.mjs").AgentDiagnostic} AgentDiagnostic */
+/** @typedef {import("./markdown.mjs").MarkdownOutline} MarkdownOutline */
+
+/** Config file with the `lint` section, relative to the project root */
+export const LINT_CONFIG_FILE = join(".opencode", "opencoder.json")
+
+/**
+ * Lint rules and their default severities:
+ *
+ * - `required-sections`: each agent has the `## ` sections it must have
+ * - `related-agents`: the "Related Agents" table names only known agents
+ * - `agent-contract`: the output formats of the planner and the builder match
+ *   the formats the orchestrator parses (see {@link verifyAgentContracts})
+ * - `unique-headings`: no heading repeats among the headings of a section
+ */
+export const LINT_RULES = Object.freeze({
+	"required-sections": "error",
+	"related-agents": "error",
+	[CONTRACT_RULE]: "error",
+	"unique-headings": "warning",
+})
+
+/** Rules of `validateAgentContent`, which lint runs too */
+export const CONTENT_RULES = Object.freeze([
+	"content-length",
+	"frontmatter-missing",
+	"frontmatter-unclosed",
+	"yaml-syntax",
+	"required-field",
+	"recommended-field",
+	"field-type",
+	"field-enum",
+	"field-pattern",
+	"field-range",
+	"field-format",
+	"read-only-agent",
+	"markdown-header",
+	"required-keywords",
+])
+
+/**
+ * Sections (`## ` headings) each agent must have, by agent name; `*` applies
+ * to every agent.
+ */
+export const DEFAULT_REQUIRED_SECTIONS = Object.freeze({
+	"*": Object.freeze(["Your Role", "Related Agents"]),
+	opencoder: Object.freeze(["Plan Parsing", "Rules"]),
+	"opencoder-planner": Object.freeze(["Output Format"]),
+	"opencoder-builder": Object.freeze(["Output Rules", "Rules"]),
+})
+
+/**
+ * Lint settings from the `lint` section of `.opencode/opencoder.json`.
+ * @typedef {Object} LintConfig
+ * @property {Record<string, "off" | import("./agent-schema.mjs").DiagnosticSeverity>} [rules] -
+ *   Severity of a rule by rule id, or "off" to disable it
+ * @property {Record<string, string[]>} [requiredSections] - Required sections by agent
+ *   name or `*` (replaces {@link DEFAULT_REQUIRED_SECTIONS})
+ */
+
+/**
+ * An agent file to lint.
+ * @typedef {Object} LintInput
+ * @property {string} path - The file path, used to name the agent and in the report
+ * @property {string} content - The file content
+ */
+
+/**
+ * Result of {@link lintAgents}.
+ * @typedef {Object} LintReport
+ * @property {{ path: string, diagnostics: AgentDiagnostic[] }[]} files - The diagnostics of
+ *   each file, sorted by position
+ * @property {{ error: number, warning: number, info: number }} counts - Number of diagnostics
+ *   per severity
+ */
+
+/**
+ * Creates a lint diagnostic with the rule's default severity.
+ *
+ * @param {keyof typeof LINT_RULES} rule - The rule id
+ * @param {string} message - What is wrong
+ * @param {string} fix - How to fix it
+ * @param {number} line - 1-based line number
+ * @param {number} [column] - 1-based column number
+ * @returns {AgentDiagnostic} The diagnostic
+ */
+function lintDiagnostic(rule, message, fix, line, column = 1) {
+	return { rule, severity: LINT_RULES[rule], message, line, column, fix }
+}
+
+/**
+ * Checks an agent has its required sections.
+ *
+ * @param {MarkdownOutline} doc - The agent's outline
+ * @param {string} name - The agent name
+ * @param {Record<string, readonly string[]>} requiredSections - Sections by agent name or `*`
+ * @returns {AgentDiagnostic[]} The diagnostics
+ */
+function checkRequiredSections(doc, name, requiredSections) {
+	const wanted = [...(requiredSections["*"] ?? []), ...(requiredSections[name] ?? [])]
+	const line = doc.headings[0]?.line ?? 1
+	return [...new Set(wanted)]
+		.filter((title) => !findSection(doc, title))
+		.map((title) =>
+			lintDiagnostic(
+				"required-sections",
+				`Missing required section "## ${title}"`,
+				`Add a "## ${title}" section`,
+				line,
+			),
+		)
+}
+
+/**
+ * Checks every agent in the "Related Agents" table is a known agent. Agents
+ * are named by their file in backticks, e.g. `` `opencoder-builder.md` ``.
+ *
+ * @param {MarkdownOutline} doc - The agent's outline
+ * @returns {AgentDiagnostic[]} The diagnostics
+ */
+function checkRelatedAgents(doc) {
+	const section = findSection(doc, "Related Agents")
+	if (!section) return []
+	const known = AGENT_NAMES.map((name) => `${name}.md`).join(", ")
+	const diagnostics = []
+	let header = true
+	for (let line = section.heading.line + 1; line < section.end; line++) {
+		const text = doc.lines[line - 1]
+		if (!text.trimStart().startsWith("|")) {
+			header = true
+			continue
+		}
+		const cells = text.split("|").slice(1, -1)
+		// Skip the header row and the separator row below it
+		if (header || cells.every((cell) => /^\s*:?-+:?\s*$/.test(cell))) {
+			header = false
+			continue
+		}
+		const file = /`([^`]+?)(?:\.md)?`/.exec(text)
+		if (!file) {
+			diagnostics.push(
+				lintDiagnostic(
+					"related-agents",
+					"Related Agents row does not name an agent file",
+					`Name the agent's file in backticks, one of ${known}`,
+					line,
+				),
+			)
+		} else if (!AGENT_NAMES.includes(basename(file[1]))) {
+			diagnostics.push(
+				lintDiagnostic(
+					"related-agents",
+					`Related agent "${file[1]}" is not a known agent`,
+					`Use one of ${known}, or remove the row`,
+					line,
+					file.index + 1,
+				),
+			)
+		}
+	}
+	return diagnostics
+}
+
+/**
+ * Checks no heading repeats among the headings of the same section.
+ *
+ * @param {MarkdownOutline} doc - The agent's outline
+ * @returns {AgentDiagnostic[]} The diagnostics
+ */
+function checkUniqueHeadings(doc) {
+	/** @type {Map<string, import("./markdown.mjs").Heading>} */
+	const seen = new Map()
+	/** @type {import("./markdown.mjs").Heading[]} */
+	const parents = []
+	const diagnostics = []
+	for (const heading of doc.headings) {
+		while (parents.length > 0 && parents[parents.length - 1].level >= heading.level) parents.pop()
+		const parent = parents[parents.length - 1]
+		const key = `${parent?.line ?? 0}:${heading.level}:${heading.text.toLowerCase()}`
+		const first = seen.get(key)
+		if (first) {
+			const title = `${"#".repeat(heading.level)} ${heading.text}`
+			diagnostics.push(
+				lintDiagnostic(
+					"unique-headings",
+					`Duplicate heading "${title}" (first at line ${first.line})`,
+					"Rename the heading or merge the sections",
+					heading.line,
+				),
+			)
+		} else {
+			seen.set(key, heading)
+		}
+		parents.push(heading)
+	}
+	return diagnostics
+}
+
+/**
+ * Checks whether a value is an array of strings.
+ *
+ * @param {unknown} value - The value
+ * @returns {boolean} True for an array of strings
+ */
+function isStringArray(value) {
+	return Array.isArray(value) && value.every((item) => typeof item === "string")
+}
+
+/**
+ * Validates the `lint` section of the config file.
+ *
+ * @param {unknown} value - The parsed `lint` section
+ * @returns {string[]} Problems found, empty if the settings are valid
+ *
+ * @example
+ * validateLintConfig({ rules: { "unique-headings": "warn" } })
+ * // ['lint.rules.unique-headings must be one of off, error, warning, info']
+ */
+export function validateLintConfig(value) {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return ["lint must be an object"]
+	}
+	const errors = []
+	const { rules, requiredSections } = /** @type {Record<string, unknown>} */ (value)
+	if (rules !== undefined) {
+		if (typeof rules !== "object" || rules === null || Array.isArray(rules)) {
+			errors.push("lint.rules must be an object keyed by rule id")
+		} else {
+			const levels = ["off", ...DIAGNOSTIC_SEVERITIES]
+			for (const [rule, level] of Object.entries(rules)) {
+				if (!Object.hasOwn(LINT_RULES, rule) && !CONTENT_RULES.includes(rule)) {
+					errors.push(`lint.rules.${rule} is not a known rule`)
+				} else if (!levels.includes(level)) {
+					errors.push(`lint.rules.${rule} must be one of ${levels.join(", ")}`)
+				}
+			}
+		}
+	}
+	if (requiredSections !== undefined) {
+		if (
+			typeof requiredSections !== "object" ||
+			requiredSections === null ||
+			Array.isArray(requiredSections)
+		) {
+			errors.push('lint.requiredSections must be an object keyed by agent name or "*"')
+		} else {
+			for (const [agent, sections] of Object.entries(requiredSections)) {
+				if (!isStringArray(sections)) {
+					errors.push(`lint.requiredSections.${agent} must be an array of section titles`)
+				}
+			}
+		}
+	}
+	return errors
+}
+
+/**
+ * Loads the lint settings from the `lint` section of a config file.
+ *
+ * @param {string} path - The config file, usually {@link LINT_CONFIG_FILE} in the project
+ * @returns {LintConfig} The settings, or an empty object if the file or section does not exist
+ * @throws {Error} If the file is not valid JSON or the settings are invalid
+ */
+export function loadLintConfig(path) {
+	if (!existsSync(path)) return {}
+	let value
+	try {
+		value = JSON.parse(readFileSync(path, "utf-8"))
+	} catch (err) {
+		throw new Error(`Invalid JSON in ${path}: ${err.message}`)
+	}
+	const lint = value?.lint
+	if (lint === undefined) return {}
+	const errors = validateLintConfig(lint)
+	if (errors.length > 0) {
+		const list = errors.map((e) => `- ${e}`).join("\n")
+		throw new Error(`Invalid lint configuration in ${path}:\n${list}`)
+	}
+	return lint
+}
+
+/**
+ * Lints agent files.
+ *
+ * Each file gets the diagnostics of {@link validateAgentContent} plus those
+ * of the lint rules in {@link LINT_RULES}. The agent name, used for
+ * agent-specific checks, is the file name without `.md`; a contract is
+ * checked only when both of its agents are linted. Rules set to "off" in
+ * `config.rules` are skipped and other values replace the rule's severity.
+ *
+ * @param {LintInput[]} agents - The files to lint
+ * @param {LintConfig} [config] - The lint settings
+ * @returns {LintReport} The diagnostics per file and the number of diagnostics per severity
+ *
+ * @example
+ * const report = lintAgents([{ path: "agents/opencoder.md", content }], {
+ *   rules: { "unique-headings": "off" },
+ * })
+ * console.log(formatLintReport(report))
+ */
+export function lintAgents(agents, config = {}) {
+	const { rules = {}, requiredSections = DEFAULT_REQUIRED_SECTIONS } = config
+	const files = agents.map(({ path, content }) => {
+		const name = basename(path, ".md")
+		const doc = outlineMarkdown(content)
+		const diagnostics = [
+			...validateAgentContent(content, name).diagnostics,
+			...checkRequiredSections(doc, name, requiredSections),
+			...checkRelatedAgents(doc),
+			...checkUniqueHeadings(doc),
+		]
+		return { path, name, content, diagnostics }
+	})
+
+	// A name linted twice (e.g. from two directories) keeps the contracts of its first file
+	const agentsByName = {}
+	for (const { name, content } of files) agentsByName[name] ??= content
+	const contracts = verifyAgentContracts(agentsByName)
+	for (const file of files) {
+		if (agentsByName[file.name] === file.content) file.diagnostics.push(...contracts[file.name])
+	}
+
+	const counts = { error: 0, warning: 0, info: 0 }
+	const report = files.map(({ path, diagnostics }) => {
+		const configured = diagnostics
+			.filter(({ rule }) => rules[rule] !== "off")
+			.map((diagnostic) => {
+				const severity = rules[diagnostic.rule]
+				return severity ? { ...diagnostic, severity } : diagnostic
+			})
+			.sort((a, b) => a.line - b.line || a.column - b.column)
+		for (const { severity } of configured) counts[severity]++
+		return { path, diagnostics: configured }
+	})
+	return { files: report, counts }
+}
+
+/**
+ * Formats a lint report for the terminal: each diagnostic as
+ * `file:line:column: severity: message [rule]` with its fix, then a summary.
+ *
+ * @param {LintReport} report - The report
+ * @returns {string} The formatted report
+ */
+export function formatLintReport(report) {
+	const lines = report.files.flatMap(({ path, diagnostics }) =>
+		diagnostics.map((diagnostic) => formatDiagnostic(diagnostic, path)),
+	)
+	const { error, warning, info } = report.counts
+	const agents = `${report.files.length} agent(s)`
+	if (lines.length > 0) lines.push("")
+	lines.push(
+		error + warning + info === 0
+			? `No problems found in ${agents}`
+			: `${error} error(s), ${warning} warning(s), ${info} info(s) in ${agents}`,
+	)
+	return lines.join("\n")
+}
@@ -0,0 +1,173 @@
+/**
+ * Type declarations for manifest.mjs
+ */
+
+/** File name of the manifest, stored in the agents target directory */
+export const MANIFEST_FILE: ".opencoder-manifest.json"
+
+/**
+ * Directory in the agents target directory holding the merge bases.
+ * Copies use a `.base` extension so OpenCode does not load them as agents.
+ */
+export const BASE_DIR: ".opencoder-base"
+
+/**
+ * A file recorded in the install manifest.
+ */
+export interface ManifestEntry {
+	/** File name relative to the agents directory */
+	file: string
+	/** Hex SHA-256 checksum of the packaged content that was installed */
+	sha256: string
+	/** Package version that installed the file */
+	version: string
+	/** ISO timestamp of the installation */
+	installedAt: string
+}
+
+/**
+ * Contents of the install manifest.
+ */
+export interface InstallManifest {
+	/** Name of the package that installed the files */
+	package: string
+	/** Installed files, sorted by name */
+	files: ManifestEntry[]
+}
+
+/**
+ * Computes the SHA-256 checksum of file content.
+ *
+ * @param content - The content to hash
+ * @returns The checksum as a lowercase hex string
+ */
+export function hashContent(content: string | Buffer): string
+
+/**
+ * Computes the SHA-256 checksum of a file.
+ *
+ * @param filePath - Path to the file
+ * @returns The checksum as a lowercase hex string
+ * @throws {Error} If the file cannot be read
+ */
+export function hashFile(filePath: string): string
+
+/**
+ * Returns the path of the manifest in an agents directory.
+ *
+ * @param targetDir - The agents target directory
+ * @returns The manifest path
+ */
+export function getManifestPath(targetDir: string): string
+
+/**
+ * Reads the package name and version from the package's package.json.
+ *
+ * @param packageRoot - The package root directory
+ * @returns The package name and version
+ * @throws {Error} If package.json cannot be read or parsed
+ */
+export function getPackageInfo(packageRoot: string): { name: string; version: string }
+
+/**
+ * Reads the install manifest from an agents directory.
+ *
+ * @param targetDir - The agents target directory
+ * @returns The manifest, or null if none exists
+ * @throws {Error} If the manifest is not valid JSON or has an unexpected shape
+ */
+export function readManifest(targetDir: string): InstallManifest | null
+
+/**
+ * Writes the install manifest to an agents directory. An empty manifest
+ * is removed instead of written.
+ *
+ * @param targetDir - The agents target directory
+ * @param manifest - The manifest to write
+ */
+export function writeManifest(targetDir: string, manifest: InstallManifest): void
+
+/**
+ * Records installed files in a manifest, replacing earlier entries for the
+ * same files and keeping entries for files that were not reinstalled.
+ *
+ * @param manifest - The existing manifest, if any
+ * @param packageName - Name of the installing package
+ * @param files - The installed files
+ * @param version - Package version that installed the files
+ * @param installedAt - ISO timestamp (defaults to now)
+ * @returns The updated manifest
+ *
+ * @example
+ * const manifest = recordInstalledFiles(readManifest(dir), "opencode-plugin-opencoder", [
+ *   { file: "opencoder.md", sha256: hashFile(join(dir, "opencoder.md")) },
+ * ], "0.1.0")
+ * writeManifest(dir, manifest)
+ */
+export function recordInstalledFiles(
+	manifest: InstallManifest | null,
+	packageName: string,
+	files: { file: string; sha256: string }[],
+	version: string,
+	installedAt?: string,
+): InstallManifest
+
+/**
+ * Checks whether an installed file is unchanged since installation.
+ *
+ * The checksum recorded in the manifest is used when available. Files
+ * installed before manifests existed are compared against the packaged
+ * source file instead.
+ *
+ * @param targetPath - Path to the installed file
+ * @param entry - The file's manifest entry, if any
+ * @param sourcePath - Path to the packaged source file, if any
+ * @returns The file's state; files without a manifest entry or source file count as modified
+ *
+ * @example
+ * const entry = manifest?.files.find((e) => e.file === "opencoder.md")
+ * if (checkInstalledFile(targetPath, entry, sourcePath) === "unmodified") {
+ *   unlinkSync(targetPath)
+ * }
+ */
+export function checkInstalledFile(
+	targetPath: string,
+	entry: ManifestEntry | undefined,
+	sourcePath?: string,
+): "unmodified" | "modified" | "missing"
+
+/**
+ * Returns the path of the merge base copy of an installed file.
+ *
+ * @param targetDir - The agents target directory
+ * @param file - File name relative to the agents directory
+ * @returns The base copy path
+ */
+export function getBasePath(targetDir: string, file: string): string
+
+/**
+ * Reads the merge base of an installed file: the packaged content that was
+ * installed the last time.
+ *
+ * @param targetDir - The agents target directory
+ * @param file - File name relative to the agents directory
+ * @returns The base content, or null if no copy exists
+ */
+export function readBase(targetDir: string, file: string): string | null
+
+/**
+ * Stores the merge base of an installed file.
+ *
+ * @param targetDir - The agents target directory
+ * @param file - File name relative to the agents directory
+ * @param content - The packaged content that was installed
+ */
+export function writeBase(targetDir: string, file: string, content: string): void
+
+/**
+ * Removes the merge base of a file, and the base directory once it is empty.
+ *
+ * @param targetDir - The agents target directory
+ * @param file - File name relative to the agents directory
+ */
+export function removeBase(targetDir: string, file: string): void
@@ -0,0 +1,246 @@
+/**
+ * Install manifest utilities for agent installation/uninstallation scripts.
+ *
+ * postinstall.mjs records every agent file it installs, with its SHA-256
+ * checksum, in a manifest next to the installed agents. preuninstall.mjs
+ * uses the checksums to tell files that are still as installed from files
+ * the user has edited or replaced since, and only removes the former.
+ *
+ * A copy of each installed file is kept as the base for three-way merges,
+ * so an upgrade can carry the user's customizations over to the new version.
+ */
+
+import { createHash } from "node:crypto"
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	rmdirSync,
+	unlinkSync,
+	writeFileSync,
+} from "node:fs"
+import { join } from "node:path"
+
+/** File name of the manifest, stored in the agents target directory */
+export const MANIFEST_FILE = ".opencoder-manifest.json"
+
+/**
+ * Directory in the agents target directory holding the merge bases.
+ * Copies use a `.base` extension so OpenCode does not load them as agents.
+ */
+export const BASE_DIR = ".opencoder-base"
+
+/**
+ * A file recorded in the install manifest.
+ * @typedef {Object} ManifestEntry
+ * @property {string} file - File name relative to the agents directory
+ * @property {string} sha256 - Hex SHA-256 checksum of the packaged content that was installed
+ * @property {string} version - Package version that installed the file
+ * @property {string} installedAt - ISO timestamp of the installation
+ */
+
+/**
+ * Contents of the install manifest.
+ * @typedef {Object} InstallManifest
+ * @property {string} package - Name of the package that installed the files
+ * @property {ManifestEntry[]} files - Installed files, sorted by name
+ */
+
+/**
+ * Computes the SHA-256 checksum of file content.
+ *
+ * @param {string | Buffer} content - The content to hash
+ * @returns {string} The checksum as a lowercase hex string
+ */
+export function hashContent(content) {
+	return createHash("sha256").update(content).digest("hex")
+}
+
+/**
+ * Computes the SHA-256 checksum of a file.
+ *
+ * @param {string} filePath - Path to the file
+ * @returns {string} The checksum as a lowercase hex string
+ * @throws {Error} If the file cannot be read
+ */
+export function hashFile(filePath) {
+	return hashContent(readFileSync(filePath))
+}
+
+/**
+ * Returns the path of the manifest in an agents directory.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @returns {string} The manifest path
+ */
+export function getManifestPath(targetDir) {
+	return join(targetDir, MANIFEST_FILE)
+}
+
+/**
+ * Reads the package name and version from the package's package.json.
+ *
+ * @param {string} packageRoot - The package root directory
+ * @returns {{ name: string, version: string }} The package name and version
+ * @throws {Error} If package.json cannot be read or parsed
+ */
+export function getPackageInfo(packageRoot) {
+	const { name, version } = JSON.parse(readFileSync(join(packageRoot, "package.json"), "utf-8"))
+	return { name, version }
+}
+
+/**
+ * Reads the install manifest from an agents directory.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @returns {InstallManifest | null} The manifest, or null if none exists
+ * @throws {Error} If the manifest is not valid JSON or has an unexpected shape
+ */
+export function readManifest(targetDir) {
+	const manifestPath = getManifestPath(targetDir)
+	if (!existsSync(manifestPath)) return null
+
+	let manifest
+	try {
+		manifest = JSON.parse(readFileSync(manifestPath, "utf-8"))
+	} catch (err) {
+		throw new Error(`Invalid install manifest at ${manifestPath}: ${err.message}`)
+	}
+	const valid =
+		manifest &&
+		typeof manifest === "object" &&
+		Array.isArray(manifest.files) &&
+		manifest.files.every(
+			(entry) => typeof entry?.file === "string" && typeof entry?.sha256 === "string",
+		)
+	if (!valid) {
+		throw new Error(`Invalid install manifest at ${manifestPath}: unexpected format`)
+	}
+	return manifest
+}
+
+/**
+ * Writes the install manifest to an agents directory. An empty manifest
+ * is removed instead of written.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @param {InstallManifest} manifest - The manifest to write
+ */
+export function writeManifest(targetDir, manifest) {
+	const manifestPath = getManifestPath(targetDir)
+	if (manifest.files.length === 0) {
+		if (existsSync(manifestPath)) unlinkSync(manifestPath)
+		return
+	}
+	writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`)
+}
+
+/**
+ * Records installed files in a manifest, replacing earlier entries for the
+ * same files and keeping entries for files that were not reinstalled.
+ *
+ * @param {InstallManifest | null} manifest - The existing manifest, if any
+ * @param {string} packageName - Name of the installing package
+ * @param {{ file: string, sha256: string }[]} files - The installed files
+ * @param {string} version - Package version that installed the files
+ * @param {string} [installedAt] - ISO timestamp (defaults to now)
+ * @returns {InstallManifest} The updated manifest
+ *
+ * @example
+ * const manifest = recordInstalledFiles(readManifest(dir), "opencode-plugin-opencoder", [
+ *   { file: "opencoder.md", sha256: hashFile(join(dir, "opencoder.md")) },
+ * ], "0.1.0")
+ * writeManifest(dir, manifest)
+ */
+export function recordInstalledFiles(
+	manifest,
+	packageName,
+	files,
+	version,
+	installedAt = new Date().toISOString(),
+) {
+	const entries = new Map((manifest?.files ?? []).map((entry) => [entry.file, entry]))
+	for (const { file, sha256 } of files) {
+		entries.set(file, { file, sha256, version, installedAt })
+	}
+	return {
+		package: packageName,
+		files: [...entries.values()].sort((a, b) => a.file.localeCompare(b.file)),
+	}
+}
+
+/**
+ * Checks whether an installed file is unchanged since installation.
+ *
+ * The checksum recorded in the manifest is used when available. Files
+ * installed before manifests existed are compared against the packaged
+ * source file instead.
+ *
+ * @param {string} targetPath - Path to the installed file
+ * @param {ManifestEntry | undefined} entry - The file's manifest entry, if any
+ * @param {string} [sourcePath] - Path to the packaged source file, if any
+ * @returns {"unmodified" | "modified" | "missing"} The file's state; files
+ *   without a manifest entry or source file count as modified
+ *
+ * @example
+ * const entry = manifest?.files.find((e) => e.file === "opencoder.md")
+ * if (checkInstalledFile(targetPath, entry, sourcePath) === "unmodified") {
+ *   unlinkSync(targetPath)
+ * }
+ */
+export function checkInstalledFile(targetPath, entry, sourcePath) {
+	if (!existsSync(targetPath)) return "missing"
+	const expected =
+		entry?.sha256 ?? (sourcePath && existsSync(sourcePath) ? hashFile(sourcePath) : undefined)
+	return expected === hashFile(targetPath) ? "unmodified" : "modified"
+}
+
+/**
+ * Returns the path of the merge base copy of an installed file.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @param {string} file - File name relative to the agents directory
+ * @returns {string} The base copy path
+ */
+export function getBasePath(targetDir, file) {
+	return join(targetDir, BASE_DIR, `${file}.base`)
+}
+
+/**
+ * Reads the merge base of an installed file: the packaged content that was
+ * installed the last time.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @param {string} file - File name relative to the agents directory
+ * @returns {string | null} The base content, or null if no copy exists
+ */
+export function readBase(targetDir, file) {
+	const basePath = getBasePath(targetDir, file)
+	return existsSync(basePath) ? readFileSync(basePath, "utf-8") : null
+}
+
+/**
+ * Stores the merge base of an installed file.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @param {string} file - File name relative to the agents directory
+ * @param {string} content - The packaged content that was installed
+ */
+export function writeBase(targetDir, file, content) {
+	mkdirSync(join(targetDir, BASE_DIR), { recursive: true })
+	writeFileSync(getBasePath(targetDir, file), content)
+}
+
+/**
+ * Removes the merge base of a file, and the base directory once it is empty.
+ *
+ * @param {string} targetDir - The agents target directory
+ * @param {string} file - File name relative to the agents directory
+ */
+export function removeBase(targetDir, file) {
+	const basePath = getBasePath(targetDir, file)
+	if (existsSync(basePath)) unlinkSync(basePath)
+	const baseDir = join(targetDir, BASE_DIR)
+	if (existsSync(baseDir) && readdirSync(baseDir).length === 0) rmdirSync(baseDir)
+}
@@ -0,0 +1,70 @@
+/**
+ * Type declarations for markdown.mjs
+ */
+
+/**
+ * A markdown heading.
+ */
+export interface Heading {
+	/** 1 for `#`, 2 for `##`, ... */
+	level: number
+	/** The heading text */
+	text: string
+	/** 1-based line number */
+	line: number
+}
+
+/**
+ * A fenced code block.
+ */
+export interface CodeBlock {
+	/** 1-based line number of the opening fence */
+	line: number
+	/** The lines inside the fences */
+	lines: string[]
+}
+
+/**
+ * The structure of an agent file outside its frontmatter.
+ */
+export interface MarkdownOutline {
+	/** The lines of the file */
+	lines: string[]
+	/** Headings outside fenced code blocks */
+	headings: Heading[]
+	/** Fenced code blocks */
+	blocks: CodeBlock[]
+}
+
+/**
+ * A `## ` section of an outline.
+ */
+export interface MarkdownSection {
+	/** The section heading */
+	heading: Heading
+	/** The line number the section ends before */
+	end: number
+}
+
+/**
+ * Splits agent markdown into headings and fenced code blocks, skipping the
+ * frontmatter. Lines inside code blocks are never headings; an unclosed code
+ * block is dropped.
+ *
+ * @param content - The file content
+ * @returns The outline
+ *
+ * @example
+ * outlineMarkdown("# Agent\n## Rules\n```\n## Not a heading\n```\n").headings
+ * // [{ level: 1, text: "Agent", line: 1 }, { level: 2, text: "Rules", line: 2 }]
+ */
+export function outlineMarkdown(content: string): MarkdownOutline
+
+/**
+ * Finds a `## ` section by its title.
+ *
+ * @param doc - The outline
+ * @param title - The section title, compared case-insensitively
+ * @returns The section, or null if there is no such section
+ */
+export function findSection(doc: MarkdownOutline, title: string): MarkdownSection | null
@@ -0,0 +1,101 @@
+/**
+ * Outline of agent markdown: headings, sections and fenced code blocks.
+ *
+ * Used by the lint rules, the agent contract checks and the three-way merge
+ * of agent files, which look at the structure of the prompts rather than
+ * their frontmatter.
+ */
+
+import { parseFrontmatter } from "./paths.mjs"
+
+/**
+ * A markdown heading.
+ * @typedef {Object} Heading
+ * @property {number} level - 1 for `#`, 2 for `##`, ...
+ * @property {string} text - The heading text
+ * @property {number} line - 1-based line number
+ */
+
+/**
+ * A fenced code block.
+ * @typedef {Object} CodeBlock
+ * @property {number} line - 1-based line number of the opening fence
+ * @property {string[]} lines - The lines inside the fences
+ */
+
+/**
+ * The structure of an agent file outside its frontmatter.
+ * @typedef {Object} MarkdownOutline
+ * @property {string[]} lines - The lines of the file
+ * @property {Heading[]} headings - Headings outside fenced code blocks
+ * @property {CodeBlock[]} blocks - Fenced code blocks
+ */
+
+/**
+ * A `## ` section of an outline.
+ * @typedef {Object} MarkdownSection
+ * @property {Heading} heading - The section heading
+ * @property {number} end - The line number the section ends before
+ */
+
+/**
+ * Splits agent markdown into headings and fenced code blocks, skipping the
+ * frontmatter. Lines inside code blocks are never headings; an unclosed code
+ * block is dropped.
+ *
+ * @param {string} content - The file content
+ * @returns {MarkdownOutline} The outline
+ *
+ * @example
+ * outlineMarkdown("# Agent\n## Rules\n```\n## Not a heading\n```\n").headings
+ * // [{ level: 1, text: "Agent", line: 1 }, { level: 2, text: "Rules", line: 2 }]
+ */
+export function outlineMarkdown(content) {
+	const lines = content.split(/\r?\n/)
+	const frontmatter = parseFrontmatter(content)
+	const start = frontmatter.found ? content.slice(0, frontmatter.endIndex).split("\n").length - 1 : 0
+	/** @type {MarkdownOutline} */
+	const result = { lines, headings: [], blocks: [] }
+	/** @type {CodeBlock | null} */
+	let block = null
+	let fence = ""
+	for (let index = start; index < lines.length; index++) {
+		const line = lines[index]
+		const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1]
+		if (block) {
+			const closes = marker?.[0] === fence[0] && marker.length >= fence.length
+			if (closes && !line.trim().slice(marker.length)) {
+				result.blocks.push(block)
+				block = null
+			} else {
+				block.lines.push(line)
+			}
+			continue
+		}
+		if (marker) {
+			block = { line: index + 1, lines: [] }
+			fence = marker
+			continue
+		}
+		const heading = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/.exec(line)
+		if (heading) result.headings.push({ level: heading[1].length, text: heading[2], line: index + 1 })
+	}
+	return result
+}
+
+/**
+ * Finds a `## ` section by its title.
+ *
+ * @param {MarkdownOutline} doc - The outline
+ * @param {string} title - The section title, compared case-insensitively
+ * @returns {MarkdownSection | null} The section, or null if there is no such section
+ */
+export function findSection(doc, title) {
+	const index = doc.headings.findIndex(
+		(heading) => heading.level === 2 && heading.text.toLowerCase() === title.toLowerCase(),
+	)
+	if (index === -1) return null
+	const heading = doc.headings[index]
+	const next = doc.headings.slice(index + 1).find(({ level }) => level <= heading.level)
+	return { heading, end: next ? next.line : doc.lines.length + 1 }
+}
@@ -0,0 +1,61 @@
+/**
+ * Type declarations for merge.mjs
+ */
+
+/**
+ * A block of an agent file.
+ */
+export interface MarkdownBlock {
+	/**
+	 * Identifies the block across versions: `frontmatter.<field>`, the heading
+	 * line, or `(preamble)` for content before the first heading
+	 */
+	key: string
+	/** The block's content, including its trailing newline */
+	text: string
+}
+
+/**
+ * Splits an agent file into blocks: the frontmatter delimiters, one block
+ * per top-level frontmatter field (with its nested lines), the content
+ * before the first heading, and one block per markdown section. Joining
+ * the blocks' text reproduces the content.
+ *
+ * Repeated headings get a ` (2)`, ` (3)`... suffix in their key.
+ *
+ * @param content - The file content
+ * @returns The blocks in file order
+ * @throws {TypeError} If content is not a string
+ *
+ * @example
+ * splitMarkdownBlocks("---\nversion: 1.0.0\n---\n# Title\nText\n## Usage\n...")
+ * // [{ key: "---", ... }, { key: "frontmatter.version", ... }, { key: "--- (end)", ... },
+ * //  { key: "# Title", ... }, { key: "## Usage", ... }]
+ */
+export function splitMarkdownBlocks(content: string): MarkdownBlock[]
+
+/**
+ * Merges the local and upstream changes to an agent file.
+ *
+ * For each block: if both sides agree, or only one side changed it, the
+ * result is clear (including additions and deletions). If both sides
+ * changed it differently, it is a conflict and the local content is kept.
+ * Blocks follow the upstream order; blocks only the user added stay after
+ * the block that precedes them in the local file. Trailing whitespace is
+ * ignored when comparing blocks.
+ *
+ * @param base - Content installed by the previous version
+ * @param local - The user's current file
+ * @param upstream - Content of the new version
+ * @returns The merged content and the keys of conflicting blocks (the merge is clean when `conflicts` is empty)
+ * @throws {TypeError} If any argument is not a string
+ *
+ * @example
+ * const { content, conflicts } = mergeMarkdown(base, local, upstream)
+ * if (conflicts.length === 0) writeFileSync(targetPath, content)
+ */
+export function mergeMarkdown(
+	base: string,
+	local: string,
+	upstream: string,
+): { content: string; conflicts: string[] }
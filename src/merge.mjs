@@ -0,0 +1,172 @@
+/**
+ * Three-way merge of agent markdown files.
+ *
+ * Used by postinstall.mjs to upgrade agent files the user has customized:
+ * the content installed by the previous version is the common base, the
+ * user's file is the local side and the new package version is the other
+ * side. Files are merged block by block: frontmatter fields and markdown
+ * sections (a heading and everything up to the next heading). Blocks
+ * changed on only one side take that side's content; blocks changed
+ * differently on both sides are conflicts.
+ */
+
+import { outlineMarkdown } from "./markdown.mjs"
+
+/** Top-level YAML key in frontmatter */
+const FRONTMATTER_KEY = /^([^\s#:][^:]*):/
+
+/**
+ * A block of an agent file.
+ * @typedef {Object} MarkdownBlock
+ * @property {string} key - Identifies the block across versions: `frontmatter.<field>`,
+ *   the heading line, or `(preamble)` for content before the first heading
+ * @property {string} text - The block's content, including its trailing newline
+ */
+
+/**
+ * Splits an agent file into blocks: the frontmatter delimiters, one block
+ * per top-level frontmatter field (with its nested lines), the content
+ * before the first heading, and one block per markdown section. Joining
+ * the blocks' text reproduces the content.
+ *
+ * Sections start at the headings of {@link outlineMarkdown}, so headings in
+ * fenced code blocks don't start sections. Repeated headings get a ` (2)`,
+ * ` (3)`... suffix in their key.
+ *
+ * @param {string} content - The file content
+ * @returns {MarkdownBlock[]} The blocks in file order
+ * @throws {TypeError} If content is not a string
+ *
+ * @example
+ * splitMarkdownBlocks("---\nversion: 1.0.0\n---\n# Title\nText\n## Usage\n...")
+ * // [{ key: "---", ... }, { key: "frontmatter.version", ... }, { key: "--- (end)", ... },
+ * //  { key: "# Title", ... }, { key: "## Usage", ... }]
+ */
+export function splitMarkdownBlocks(content) {
+	if (typeof content !== "string") {
+		throw new TypeError(
+			`splitMarkdownBlocks: content must be a string, got ${content === null ? "null" : typeof content}`,
+		)
+	}
+	const lines = content.split(/(?<=\n)/)
+	const blocks = []
+	const seen = new Map()
+	const start = (key) => {
+		const count = (seen.get(key) ?? 0) + 1
+		seen.set(key, count)
+		blocks.push({ key: count > 1 ? `${key} (${count})` : key, text: "" })
+	}
+
+	let i = 0
+	if (lines[0]?.trimEnd() === "---") {
+		const end = lines.findIndex((line, index) => index > 0 && line.trimEnd() === "---")
+		if (end > 0) {
+			start("---")
+			blocks[0].text = lines[0]
+			for (i = 1; i < end; i++) {
+				const line = lines[i]
+				const field = line.match(FRONTMATTER_KEY)
+				if (field || blocks.length === 1) {
+					start(field ? `frontmatter.${field[1].trim()}` : "frontmatter")
+				}
+				blocks[blocks.length - 1].text += line
+			}
+			start("--- (end)")
+			blocks[blocks.length - 1].text = lines[end]
+			i = end + 1
+		}
+	}
+
+	const headings = new Set(outlineMarkdown(content).headings.map(({ line }) => line - 1))
+	for (; i < lines.length; i++) {
+		const line = lines[i]
+		if (headings.has(i)) {
+			start(line.trim())
+		} else if (blocks.length === 0 || blocks.at(-1).key === "--- (end)") {
+			start("(preamble)")
+		}
+		blocks[blocks.length - 1].text += line
+	}
+	return blocks
+}
+
+/**
+ * Renders a block for the merged file. Trailing blank lines are normalized
+ * so that moved blocks are still separated: frontmatter lines end with a
+ * newline, markdown sections with a blank line.
+ */
+function renderBlock(key, text) {
+	const body = text.trimEnd()
+	if (key === "---" || key === "--- (end)" || key.startsWith("frontmatter")) return `${body}\n`
+	return body ? `${body}\n\n` : "\n"
+}
+
+/**
+ * Merges the local and upstream changes to an agent file.
+ *
+ * For each block: if both sides agree, or only one side changed it, the
+ * result is clear (including additions and deletions). If both sides
+ * changed it differently, it is a conflict and the local content is kept.
+ * Blocks follow the upstream order; blocks only the user added stay after
+ * the block that precedes them in the local file. Trailing whitespace is
+ * ignored when comparing blocks.
+ *
+ * @param {string} base - Content installed by the previous version
+ * @param {string} local - The user's current file
+ * @param {string} upstream - Content of the new version
+ * @returns {{ content: string, conflicts: string[] }} The merged content and the
+ *   keys of conflicting blocks (the merge is clean when `conflicts` is empty)
+ * @throws {TypeError} If any argument is not a string
+ *
+ * @example
+ * const { content, conflicts } = mergeMarkdown(base, local, upstream)
+ * if (conflicts.length === 0) writeFileSync(targetPath, content)
+ */
+export function mergeMarkdown(base, local, upstream) {
+	for (const [name, value] of Object.entries({ base, local, upstream })) {
+		if (typeof value !== "string") {
+			throw new TypeError(
+				`mergeMarkdown: ${name} must be a string, got ${value === null ? "null" : typeof value}`,
+			)
+		}
+	}
+	if (local === base || local === upstream) return { content: upstream, conflicts: [] }
+	if (upstream === base) return { content: local, conflicts: [] }
+
+	const toMap = (content) =>
+		new Map(splitMarkdownBlocks(content).map((block) => [block.key, block.text.trimEnd()]))
+	const baseBlocks = toMap(base)
+	const localBlocks = toMap(local)
+	const upstreamBlocks = toMap(upstream)
+
+	// Upstream order, with blocks only present locally after their local predecessor
+	const order = [...upstreamBlocks.keys()]
+	const localKeys = [...localBlocks.keys()]
+	localKeys.forEach((key, index) => {
+		if (order.includes(key)) return
+		const previous = localKeys
+			.slice(0, index)
+			.reverse()
+			.find((k) => order.includes(k))
+		order.splice(previous === undefined ? 0 : order.indexOf(previous) + 1, 0, key)
+	})
+
+	const conflicts = []
+	let content = ""
+	for (const key of order) {
+		const baseText = baseBlocks.get(key)
+		const localText = localBlocks.get(key)
+		const upstreamText = upstreamBlocks.get(key)
+		let text
+		if (localText === upstreamText || upstreamText === baseText) {
+			text = localText
+		} else if (localText === baseText) {
+			text = upstreamText
+		} else {
+			conflicts.push(key)
+			text = localText
+		}
+		if (text !== undefined) content += renderBlock(key, text)
+	}
+	return { content: `${content.trimEnd()}\n`, conflicts }
+}
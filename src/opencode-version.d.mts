@@ -0,0 +1,75 @@
+/**
+ * Type declarations for opencode-version.mjs
+ */
+
+/** Version assumed when OpenCode cannot be detected and `OPENCODE_VERSION` is not set */
+export const DEFAULT_OPENCODE_VERSION: "0.1.0"
+
+/** npm package names OpenCode is published under, in lookup order */
+export const OPENCODE_PACKAGE_NAMES: readonly ["opencode-ai", "opencode"]
+
+/** Environment variable with the path of the `opencode` binary to probe */
+export const OPENCODE_BIN_ENV: "OPENCODE_BIN"
+
+/** Time the `opencode --version` probe may take, in milliseconds */
+export const PROBE_TIMEOUT_MS: 5000
+
+/**
+ * Where the OpenCode version came from.
+ *
+ * - `node_modules`: the `version` of an installed OpenCode package
+ * - `binary`: the output of `opencode --version`
+ * - `env`: the `OPENCODE_VERSION` environment variable
+ * - `default`: {@link DEFAULT_OPENCODE_VERSION}
+ */
+export type OpenCodeVersionSource = "node_modules" | "binary" | "env" | "default"
+
+/**
+ * A detected OpenCode version.
+ */
+export interface OpenCodeVersion {
+	/** The version, e.g. "1.1.25" */
+	version: string
+	/** Where the version came from */
+	source: OpenCodeVersionSource
+	/** The package.json or binary the version was read from */
+	path?: string
+}
+
+/**
+ * Options for {@link detectOpenCodeVersion}.
+ */
+export interface DetectOpenCodeVersionOptions {
+	/** Environment variables (defaults to `process.env`) */
+	env?: Record<string, string | undefined>
+	/** Directory to start the `node_modules` lookup from (defaults to `INIT_CWD` or `process.cwd()`) */
+	cwd?: string
+}
+
+/**
+ * Detects the installed OpenCode version.
+ *
+ * Tries, in order: an OpenCode package in the `node_modules` directories
+ * above the working directory and above this plugin, then `opencode --version`
+ * (or the binary named by `OPENCODE_BIN`), then the `OPENCODE_VERSION`
+ * environment variable, then {@link DEFAULT_OPENCODE_VERSION}. Results are
+ * cached per process.
+ *
+ * @param options - Environment variables and working directory
+ * @returns The version and where it came from
+ */
+export function detectOpenCodeVersion(options?: DetectOpenCodeVersionOptions): OpenCodeVersion
+
+/**
+ * Clears the cached detection results, so the next
+ * {@link detectOpenCodeVersion} call looks again.
+ */
+export function clearOpenCodeVersionCache(): void
+
+/**
+ * Describes where a detected version came from, for verbose output.
+ *
+ * @param detected - The detected version
+ * @returns E.g. "1.1.25 (from node_modules: /project/node_modules/opencode-ai/package.json)"
+ */
+export function describeOpenCodeVersion(detected: OpenCodeVersion): string
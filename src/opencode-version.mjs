@@ -0,0 +1,179 @@
+/**
+ * Detection of the installed OpenCode version.
+ *
+ * Agents declare the OpenCode versions they support in their `requires`
+ * frontmatter field. To check it against the version that will actually run
+ * them, this module looks for an installed OpenCode package in the nearest
+ * `node_modules` directories, then asks the `opencode` binary for its
+ * version, and only falls back to the `OPENCODE_VERSION` environment
+ * variable (or a default) when neither works.
+ */
+
+import { spawnSync } from "node:child_process"
+import { existsSync, readFileSync } from "node:fs"
+import { dirname, join, resolve } from "node:path"
+import { fileURLToPath } from "node:url"
+import { parseVersion } from "./semver.mjs"
+
+/** Version assumed when OpenCode cannot be detected and `OPENCODE_VERSION` is not set */
+export const DEFAULT_OPENCODE_VERSION = "0.1.0"
+
+/** npm package names OpenCode is published under, in lookup order */
+export const OPENCODE_PACKAGE_NAMES = Object.freeze(["opencode-ai", "opencode"])
+
+/** Environment variable with the path of the `opencode` binary to probe */
+export const OPENCODE_BIN_ENV = "OPENCODE_BIN"
+
+/** Time the `opencode --version` probe may take, in milliseconds */
+export const PROBE_TIMEOUT_MS = 5000
+
+/**
+ * Where the OpenCode version came from.
+ *
+ * - `node_modules`: the `version` of an installed OpenCode package
+ * - `binary`: the output of `opencode --version`
+ * - `env`: the `OPENCODE_VERSION` environment variable
+ * - `default`: {@link DEFAULT_OPENCODE_VERSION}
+ * @typedef {"node_modules" | "binary" | "env" | "default"} OpenCodeVersionSource
+ */
+
+/**
+ * A detected OpenCode version.
+ * @typedef {Object} OpenCodeVersion
+ * @property {string} version - The version, e.g. "1.1.25"
+ * @property {OpenCodeVersionSource} source - Where the version came from
+ * @property {string} [path] - The package.json or binary the version was read from
+ */
+
+/**
+ * Options for {@link detectOpenCodeVersion}.
+ * @typedef {Object} DetectOpenCodeVersionOptions
+ * @property {Record<string, string | undefined>} [env] - Environment variables (defaults to `process.env`)
+ * @property {string} [cwd] - Directory to start the `node_modules` lookup from (defaults to `INIT_CWD` or `process.cwd()`)
+ */
+
+/** Detection results by lookup directories, binary and environment */
+const cache = new Map()
+
+/** Directory of this module, so the lookup also finds OpenCode next to the installed plugin */
+const MODULE_DIR = dirname(fileURLToPath(import.meta.url))
+
+/**
+ * Extracts a version from text such as `opencode 1.2.3` or `0.15.0-beta.2`,
+ * keeping prerelease identifiers and build metadata.
+ *
+ * @param {string} text - The text
+ * @returns {string | null} The version, or null if there is none
+ */
+function extractVersion(text) {
+	const match = text.match(/\b\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?/)
+	return match && parseVersion(match[0]) ? match[0] : null
+}
+
+/**
+ * Looks for an installed OpenCode package in the `node_modules` directories
+ * of a directory and its parents.
+ *
+ * @param {string} startDir - The directory to start from
+ * @returns {{ version: string, path: string } | null} The package version and package.json path
+ */
+function findInstalledPackage(startDir) {
+	let dir = resolve(startDir)
+	while (true) {
+		for (const name of OPENCODE_PACKAGE_NAMES) {
+			const path = join(dir, "node_modules", name, "package.json")
+			if (!existsSync(path)) continue
+			try {
+				const version = extractVersion(String(JSON.parse(readFileSync(path, "utf-8")).version))
+				if (version) return { version, path }
+			} catch {
+				// Unreadable package.json: keep looking
+			}
+		}
+		const parent = dirname(dir)
+		if (parent === dir) return null
+		dir = parent
+	}
+}
+
+/**
+ * Runs `<bin> --version` and reads the version from its output.
+ *
+ * @param {string} bin - The binary name or path
+ * @returns {string | null} The version, or null if the probe failed
+ */
+function probeBinary(bin) {
+	const result = spawnSync(bin, ["--version"], {
+		encoding: "utf-8",
+		timeout: PROBE_TIMEOUT_MS,
+		stdio: ["ignore", "pipe", "pipe"],
+	})
+	if (result.error || result.status !== 0) return null
+	return extractVersion(`${result.stdout}\n${result.stderr}`)
+}
+
+/**
+ * Detects the installed OpenCode version.
+ *
+ * Tries, in order: an OpenCode package (`opencode-ai` or `opencode`) in the
+ * `node_modules` directories above the working directory and above this
+ * plugin, then `opencode --version` (or the binary named by `OPENCODE_BIN`),
+ * then the `OPENCODE_VERSION` environment variable, then
+ * {@link DEFAULT_OPENCODE_VERSION}. Results are cached per process, so
+ * repeated calls do not probe the binary again.
+ *
+ * @param {DetectOpenCodeVersionOptions} [options] - Environment variables and working directory
+ * @returns {OpenCodeVersion} The version and where it came from
+ *
+ * @example
+ * const { version, source, path } = detectOpenCodeVersion()
+ * verbose(`OpenCode version: ${version} (from ${source}${path ? `: ${path}` : ""})`)
+ */
+export function detectOpenCodeVersion(options = {}) {
+	const { env = process.env, cwd = env.INIT_CWD || process.cwd() } = options
+	const bin = env[OPENCODE_BIN_ENV] || "opencode"
+	const key = JSON.stringify([resolve(cwd), bin, env.OPENCODE_VERSION ?? ""])
+	const cached = cache.get(key)
+	if (cached) return cached
+
+	/** @type {OpenCodeVersion} */
+	let detected
+	const installed = findInstalledPackage(cwd) ?? findInstalledPackage(MODULE_DIR)
+	const probed = installed ? null : probeBinary(bin)
+	if (installed) {
+		detected = { version: installed.version, source: "node_modules", path: installed.path }
+	} else if (probed) {
+		detected = { version: probed, source: "binary", path: bin }
+	} else if (env.OPENCODE_VERSION) {
+		detected = { version: env.OPENCODE_VERSION, source: "env" }
+	} else {
+		detected = { version: DEFAULT_OPENCODE_VERSION, source: "default" }
+	}
+	cache.set(key, detected)
+	return detected
+}
+
+/**
+ * Clears the cached detection results, so the next
+ * {@link detectOpenCodeVersion} call looks again.
+ */
+export function clearOpenCodeVersionCache() {
+	cache.clear()
+}
+
+/**
+ * Describes where a detected version came from, for verbose output.
+ *
+ * @param {OpenCodeVersion} detected - The detected version
+ * @returns {string} E.g. "1.1.25 (from node_modules: /project/node_modules/opencode-ai/package.json)"
+ */
+export function describeOpenCodeVersion(detected) {
+	const sources = {
+		node_modules: "node_modules",
+		binary: "--version",
+		env: "OPENCODE_VERSION",
+		default: "default, OpenCode not found",
+	}
+	const from = sources[detected.source] ?? detected.source
+	return `${detected.version} (from ${from}${detected.path ? `: ${detected.path}` : ""})`
+}
@@ -4,34 +4,34 @@
 
 // Re-export semver types for backwards compatibility
 export {
+	type Comparator,
+	type ParsedRange,
 	type ParsedVersion,
+	type RangeOptions,
 	checkVersionCompatibility,
 	compareVersions,
+	parseRange,
 	parseVersion,
+	validateRange,
 } from "./semver.mjs"
+import type { AgentDiagnostic } from "./agent-schema.mjs"
+import type { YamlError, YamlPosition, YamlValue } from "./yaml.mjs"
+
+export type { AgentDiagnostic, DiagnosticSeverity } from "./agent-schema.mjs"
+export type { YamlError, YamlPosition, YamlValue } from "./yaml.mjs"
 
 /**
- * OpenCode version used for compatibility checking.
+ * Fallback OpenCode version for compatibility checking.
  *
- * This version string is used to check agent compatibility requirements
- * during installation. It can be overridden by setting the `OPENCODE_VERSION`
- * environment variable, which is useful for:
- * - Testing agents against different OpenCode versions
- * - Development environments with pre-release OpenCode builds
- * - CI/CD pipelines that need to simulate specific versions
+ * Used when the installed OpenCode version cannot be detected (see
+ * `detectOpenCodeVersion` in opencode-version.mjs): the `OPENCODE_VERSION`
+ * environment variable, or `DEFAULT_OPENCODE_VERSION` if it is not set.
  *
  * Format: Semantic versioning (MAJOR.MINOR.PATCH)
  *
  * @example
- * import { OPENCODE_VERSION, checkVersionCompatibility } from "./paths.mjs"
- *
- * // Check if an agent requiring ">=0.1.0" is compatible
- * const isCompatible = checkVersionCompatibility(">=0.1.0", OPENCODE_VERSION)
- *
- * @example
- * // Override via environment variable
+ * // Set the fallback via environment variable
  * // OPENCODE_VERSION=1.0.0 node postinstall.mjs
- * // Now OPENCODE_VERSION will be "1.0.0" instead of the default
  */
 export declare const OPENCODE_VERSION: string
 
@@ -109,6 +109,21 @@ export declare const REQUIRED_KEYWORDS: readonly ["agent", "task"]
  */
 export declare const REQUIRED_FRONTMATTER_FIELDS: readonly ["version", "requires"]
 
+/**
+ * Agents that analyze the codebase without modifying it.
+ *
+ * Their agent files must disable file-editing tools in frontmatter
+ * (see {@link READ_ONLY_FRONTMATTER}), and the plugin rejects edits and
+ * mutating shell commands from their sessions.
+ */
+export declare const READ_ONLY_AGENTS: readonly ["opencoder-planner"]
+
+/**
+ * Frontmatter settings required in the files of {@link READ_ONLY_AGENTS},
+ * as dotted keys (see {@link parseFrontmatter}).
+ */
+export declare const READ_ONLY_FRONTMATTER: Readonly<Record<string, string>>
+
 /**
  * Get the package root directory from a module's import.meta.url
  *
@@ -126,8 +141,76 @@ export function getPackageRoot(importMetaUrl: string): string
 export function getAgentsSourceDir(packageRoot: string): string
 
 /**
- * The target directory where agents are installed.
- * Located at ~/.config/opencode/agents/
+ * Installation scopes: `global` installs agents for the user, `project`
+ * installs them into a repository so it can pin its own agent versions.
+ */
+export declare const INSTALL_SCOPES: readonly ["global", "project"]
+
+/** Environment variable selecting the installation scope when `--scope` is not given */
+export declare const INSTALL_SCOPE_ENV: "OPENCODER_SCOPE"
+
+/**
+ * Get the global directory agents are installed to.
+ *
+ * Honors `OPENCODE_CONFIG_DIR` (OpenCode's custom config directory) and
+ * `XDG_CONFIG_HOME`, in that order, and defaults to ~/.config/opencode/agents/.
+ *
+ * @param env - Environment variables (defaults to `process.env`)
+ * @returns Path to the global agents directory
+ */
+export function getGlobalAgentsDir(env?: Record<string, string | undefined>): string
+
+/**
+ * Get the root of the project containing a directory: the nearest directory
+ * containing `.git`, or the directory itself outside a repository.
+ *
+ * @param projectDir - A directory inside the project
+ * @returns Absolute path to the project root
+ * @throws {TypeError} If projectDir is not a non-empty string
+ */
+export function getProjectRoot(projectDir: string): string
+
+/**
+ * Get the agents directory of a project: `.opencode/agents/` in the
+ * project root (see {@link getProjectRoot}), or an existing `.opencode/agent/` directory.
+ *
+ * @param projectDir - A directory inside the project
+ * @returns Path to the project's agents directory
+ * @throws {TypeError} If projectDir is not a non-empty string
+ */
+export function getProjectAgentsDir(projectDir: string): string
+
+/**
+ * Options for {@link resolveAgentsTargetDir}.
+ */
+export interface AgentsTargetOptions {
+	/** The `--scope` flag value (null if absent) */
+	scope?: string | null
+	/** The `--target` flag value (null if absent) */
+	target?: string | null
+	/** Environment variables (defaults to `process.env`) */
+	env?: Record<string, string | undefined>
+	/** Working directory (defaults to `process.cwd()`) */
+	cwd?: string
+}
+
+/**
+ * Resolves the directory agents are installed to from the `--scope` and
+ * `--target` flags. `--target` wins over the scope; without `--scope`, the
+ * `OPENCODER_SCOPE` environment variable selects the scope, defaulting to
+ * `global`. The project is the directory the package manager was run in
+ * (`INIT_CWD`), or the current directory.
+ *
+ * @param options - The flags, environment variables and working directory
+ * @returns Absolute path to the agents directory
+ * @throws {Error} If the scope is unknown or `--target` has no value
+ */
+export function resolveAgentsTargetDir(options?: AgentsTargetOptions): string
+
+/**
+ * The global target directory where agents are installed.
+ * Located at ~/.config/opencode/agents/ unless `OPENCODE_CONFIG_DIR` or
+ * `XDG_CONFIG_HOME` is set (see {@link getGlobalAgentsDir}).
  */
 export declare const AGENTS_TARGET_DIR: string
 
@@ -262,8 +345,14 @@ export interface ParseFrontmatterResult {
 	found: boolean
 	/** Reason for failure when found is false: "missing" if content doesn't start with ---, "unclosed" if closing --- not found */
 	reason?: "missing" | "unclosed"
-	/** Parsed key-value pairs from the frontmatter */
+	/** Parsed values as written (nested keys joined with ".", list items by index) */
 	fields: Record<string, string>
+	/** Parsed values with their YAML types, nested maps and lists */
+	data: Record<string, YamlValue>
+	/** Line and column in the content of each value in `fields` */
+	positions: Record<string, YamlPosition>
+	/** YAML syntax errors, with line and column in the content */
+	errors: YamlError[]
 	/** Character index where the frontmatter ends (after closing ---\n) */
 	endIndex: number
 }
@@ -271,10 +360,20 @@ export interface ParseFrontmatterResult {
 /**
  * Parses YAML frontmatter from markdown content.
  *
- * Expects frontmatter to be delimited by --- at the start of the file.
+ * Expects frontmatter to be delimited by --- at the start of the file. The
+ * frontmatter is parsed as YAML: `data` holds the typed values with nested
+ * maps and lists, while `fields` keeps every value as written, with nested
+ * keys joined by dots and list items by index, e.g. `tools:` followed by
+ * `  write: false` yields `data.tools.write === false` and
+ * `fields["tools.write"] === "false"`.
+ *
+ * YAML errors don't make the parse fail: they are listed in `errors` with
+ * their line and column in the file, and the rest of the frontmatter is
+ * still parsed. `positions` has the line and column in the file of each
+ * value in `fields`.
  *
  * @param content - The file content to parse
- * @returns Parse result with found status, fields, and end index
+ * @returns Parse result with found status, fields, data, positions, errors, and end index
  * @throws {TypeError} If content is not a string
  */
 export function parseFrontmatter(content: string): ParseFrontmatterResult
@@ -285,23 +384,54 @@ export function parseFrontmatter(content: string): ParseFrontmatterResult
 export interface ValidateAgentContentResult {
 	/** Whether the content is valid */
 	valid: boolean
-	/** Error message if validation failed */
+	/** Error messages of the error diagnostics, separated by "; ", if validation failed */
 	error?: string
+	/** Every problem found, sorted by position */
+	diagnostics: AgentDiagnostic[]
 }
 
 /**
  * Validates that agent content has a valid structure.
  *
  * Checks that the content:
- * 1. Has YAML frontmatter with required fields (version, requires)
+ * 1. Has YAML frontmatter without syntax errors, with required fields (version, requires)
  * 2. Starts with a markdown header (# ) after frontmatter
  * 3. Contains at least MIN_CONTENT_LENGTH characters
  * 4. Contains at least one of the expected keywords
+ * 5. Has frontmatter matching the agent frontmatter schema (see agent-schema.mjs),
+ *    e.g. a semver `version`, a valid `requires` range and boolean `tools.*`
+ * 6. For {@link READ_ONLY_AGENTS}, sets the {@link READ_ONLY_FRONTMATTER} fields
+ *
+ * Every check runs, and each problem is returned as a diagnostic with its
+ * rule id, severity, line and column and a suggested fix, sorted by position.
+ * Only errors make the content invalid: warnings and infos, such as a missing
+ * `description`, are reported but do not. `error` joins the error messages
+ * with "; ".
  *
  * @param content - The agent file content to validate
- * @returns Validation result with valid status and optional error message
+ * @param agentName - The agent name, enabling agent-specific checks
+ * @returns Validation result with valid status, diagnostics and optional error message
  */
-export function validateAgentContent(content: string): ValidateAgentContentResult
+export function validateAgentContent(
+	content: string,
+	agentName?: string,
+): ValidateAgentContentResult
+
+/**
+ * Formats a diagnostic for display, compiler-style:
+ * `file:line:column: severity: message [rule]`, followed by the suggested fix
+ * on an indented second line.
+ *
+ * @param diagnostic - The diagnostic
+ * @param file - The agent file name or path
+ * @returns The formatted diagnostic
+ *
+ * @example
+ * formatDiagnostic(validateAgentContent(content).diagnostics[0], "opencoder.md")
+ * // 'opencoder.md:4:1: error: Frontmatter field mode must be one of primary, subagent, all,
+ * //  got "main" [field-enum]\n  fix: Set mode to one of primary, subagent, all'
+ */
+export function formatDiagnostic(diagnostic: AgentDiagnostic, file: string): string
 
 /**
  * Parsed command line flags for install/uninstall scripts.
@@ -317,6 +447,15 @@ export interface CliFlags {
 	force: boolean
 	/** Display help information */
 	help: boolean
+	/**
+	 * Restore agents from a backup: the backup id given with `--rollback <id>`,
+	 * true for a bare `--rollback` (the latest backup), or false if absent
+	 */
+	rollback: string | boolean
+	/** Installation scope given with `--scope` ("" if the value is missing), or null if absent */
+	scope: string | null
+	/** Target directory given with `--target` ("" if the value is missing), or null if absent */
+	target: string | null
 }
 
 /**
@@ -328,6 +467,11 @@ export interface CliFlags {
  * - `--quiet`: Suppress non-error output (for CI environments)
  * - `--force`: Overwrite existing files without prompting
  * - `--help`: Display help information
+ * - `--rollback [id]`: Restore agents from a backup (the latest if no id is given)
+ * - `--scope <global|project>`: Install for the user or into the current project
+ * - `--target <dir>`: Install into the given directory
+ *
+ * Flags with values are also accepted as `--flag=value`.
  *
  * @param argv - The command line arguments array (typically process.argv)
  * @returns Parsed flags object
@@ -343,7 +487,8 @@ export interface CliFlags {
  * @example
  * // Parse custom arguments
  * const flags = parseCliFlags(["node", "script.js", "--verbose", "--dry-run"])
- * // flags = { dryRun: true, verbose: true, quiet: false, force: false, help: false }
+ * // flags = { dryRun: true, verbose: true, quiet: false, force: false, help: false,
+ * //           rollback: false, scope: null, target: null }
  */
 export function parseCliFlags(argv: string[]): CliFlags
 
@@ -399,6 +544,8 @@ export interface ValidateAgentFileResult {
 	error?: string
 	/** Whether version compatibility check was skipped (when force=true and version is incompatible) */
 	skippedVersionCheck?: boolean
+	/** Every problem found, including an incompatible OpenCode version */
+	diagnostics: AgentDiagnostic[]
 }
 
 /**
@@ -406,11 +553,17 @@ export interface ValidateAgentFileResult {
  * including version compatibility checking.
  *
  * Performs the following validations:
- * 1. Content structure validation (frontmatter, headers, keywords)
- * 2. Version compatibility checking against current OpenCode version (unless force=true)
+ * 1. Content structure validation (frontmatter, headers, keywords), including
+ *    agent-specific checks for the agent named by the file (e.g. `opencoder-planner.md`)
+ * 2. The `requires` frontmatter field is a valid version range
+ * 3. Version compatibility checking against current OpenCode version (unless force=true)
+ *
+ * Returns the diagnostics of {@link validateAgentContent}; an incompatible
+ * OpenCode version adds an `opencode-version` error, or a warning when force
+ * is true.
  *
  * @param filePath - Path to the agent file to validate
- * @param currentVersion - The current OpenCode version to check against (defaults to OPENCODE_VERSION)
+ * @param currentVersion - The current OpenCode version to check against (defaults to the detected version, see `detectOpenCodeVersion`)
  * @param force - When true, skip version compatibility checks (default: false)
  * @returns Validation result with valid status and optional error message
  * @throws {Error} If the file does not exist (ENOENT)
@@ -5,40 +5,37 @@
  * and preuninstall.mjs to locate agent files.
  */
 
-import { readFileSync } from "node:fs"
+import { existsSync, readFileSync } from "node:fs"
 import { homedir } from "node:os"
-import { dirname, join } from "node:path"
+import { basename, dirname, join, resolve } from "node:path"
 import { fileURLToPath } from "node:url"
 
+import { validateFrontmatter } from "./agent-schema.mjs"
+import { DEFAULT_OPENCODE_VERSION, detectOpenCodeVersion } from "./opencode-version.mjs"
 // Import checkVersionCompatibility for internal use
 import { checkVersionCompatibility as _checkVersionCompatibility } from "./semver.mjs"
+import { parseYaml } from "./yaml.mjs"
 
 // Re-export semver utilities for backwards compatibility
 export {
 	checkVersionCompatibility,
 	compareVersions,
+	parseRange,
 	parseVersion,
+	validateRange,
 } from "./semver.mjs"
 
-/**
- * Default OpenCode version for compatibility checking.
- *
- * This version string is used to check agent compatibility requirements
- * during installation when no override is provided.
- *
- * Format: Semantic versioning (MAJOR.MINOR.PATCH)
- */
-const DEFAULT_OPENCODE_VERSION = "0.1.0"
+/** @typedef {import("./agent-schema.mjs").AgentDiagnostic} AgentDiagnostic */
 
 /**
- * OpenCode version used for compatibility checking.
+ * Fallback OpenCode version for compatibility checking.
  *
- * This version string is used to check agent compatibility requirements
- * during installation. It can be overridden by setting the `OPENCODE_VERSION`
- * environment variable, which is useful for:
- * - Testing agents against different OpenCode versions
+ * Used when the installed OpenCode version cannot be detected (see
+ * {@link detectOpenCodeVersion}): the `OPENCODE_VERSION` environment
+ * variable, or {@link DEFAULT_OPENCODE_VERSION} if it is not set. Setting
+ * the variable is useful for:
+ * - CI/CD pipelines without OpenCode installed
  * - Development environments with pre-release OpenCode builds
- * - CI/CD pipelines that need to simulate specific versions
  *
  * Format: Semantic versioning (MAJOR.MINOR.PATCH)
  *
@@ -49,7 +46,7 @@ const DEFAULT_OPENCODE_VERSION = "0.1.0"
  * const isCompatible = checkVersionCompatibility(">=0.1.0", OPENCODE_VERSION)
  *
  * @example
- * // Override via environment variable
+ * // Set the fallback via environment variable
  * // OPENCODE_VERSION=1.0.0 node postinstall.mjs
  * // Now OPENCODE_VERSION will be "1.0.0" instead of the default
  */
@@ -86,6 +83,30 @@ export const OPENCODE_VERSION = process.env.OPENCODE_VERSION || DEFAULT_OPENCODE
  */
 export const AGENT_NAMES = Object.freeze(["opencoder", "opencoder-planner", "opencoder-builder"])
 
+/**
+ * Agents that analyze the codebase without modifying it.
+ *
+ * Their agent files must disable file-editing tools in frontmatter
+ * (see {@link READ_ONLY_FRONTMATTER}), and the plugin rejects edits and
+ * mutating shell commands from their sessions.
+ */
+export const READ_ONLY_AGENTS = Object.freeze(["opencoder-planner"])
+
+/**
+ * Frontmatter settings required in the files of {@link READ_ONLY_AGENTS},
+ * as dotted keys (see {@link parseFrontmatter}).
+ *
+ * `tools` disables the file-editing tools and `permission.edit` denies any
+ * remaining edit operations. Shell access stays available for analysis and
+ * is restricted to read-only commands by the plugin.
+ */
+export const READ_ONLY_FRONTMATTER = Object.freeze({
+	"tools.write": "false",
+	"tools.edit": "false",
+	"tools.patch": "false",
+	"permission.edit": "deny",
+})
+
 /** Minimum character count for valid agent files */
 export const MIN_CONTENT_LENGTH = 100
 
@@ -124,7 +145,8 @@ export const MIN_CONTENT_LENGTH = 100
 export const REQUIRED_KEYWORDS = ["agent", "task"]
 
 /**
- * Required fields in YAML frontmatter.
+ * Required fields in YAML frontmatter (the `required` fields of
+ * `AGENT_FRONTMATTER_SCHEMA` in agent-schema.mjs).
  * Frozen to prevent accidental mutation.
  */
 export const REQUIRED_FRONTMATTER_FIELDS = Object.freeze(["version", "requires"])
@@ -169,10 +191,124 @@ export function getAgentsSourceDir(packageRoot) {
 }
 
 /**
- * The target directory where agents are installed.
- * Located at ~/.config/opencode/agents/
+ * Installation scopes: `global` installs agents for the user, `project`
+ * installs them into a repository so it can pin its own agent versions.
+ */
+export const INSTALL_SCOPES = Object.freeze(["global", "project"])
+
+/** Environment variable selecting the installation scope when `--scope` is not given */
+export const INSTALL_SCOPE_ENV = "OPENCODER_SCOPE"
+
+/**
+ * Get the global directory agents are installed to.
+ *
+ * Honors `OPENCODE_CONFIG_DIR` (OpenCode's custom config directory) and
+ * `XDG_CONFIG_HOME`, in that order, and defaults to ~/.config/opencode/agents/.
+ *
+ * @param {Record<string, string | undefined>} [env] - Environment variables (defaults to `process.env`)
+ * @returns {string} Path to the global agents directory
+ *
+ * @example
+ * getGlobalAgentsDir({ XDG_CONFIG_HOME: "/home/user/.xdg" })
+ * // "/home/user/.xdg/opencode/agents"
  */
-export const AGENTS_TARGET_DIR = join(homedir(), ".config", "opencode", "agents")
+export function getGlobalAgentsDir(env = process.env) {
+	if (env.OPENCODE_CONFIG_DIR) return join(resolve(env.OPENCODE_CONFIG_DIR), "agents")
+	const configHome = env.XDG_CONFIG_HOME ? resolve(env.XDG_CONFIG_HOME) : join(homedir(), ".config")
+	return join(configHome, "opencode", "agents")
+}
+
+/**
+ * Get the root of the project containing a directory: the nearest directory
+ * containing `.git`, or the directory itself outside a repository.
+ *
+ * @param {string} projectDir - A directory inside the project
+ * @returns {string} Absolute path to the project root
+ * @throws {TypeError} If projectDir is not a non-empty string
+ */
+export function getProjectRoot(projectDir) {
+	if (typeof projectDir !== "string") {
+		throw new TypeError(
+			`getProjectRoot: projectDir must be a string, got ${projectDir === null ? "null" : typeof projectDir}`,
+		)
+	}
+	if (projectDir.trim() === "") {
+		throw new TypeError("getProjectRoot: projectDir must not be empty")
+	}
+	const start = resolve(projectDir)
+	let root = start
+	while (!existsSync(join(root, ".git"))) {
+		const parent = dirname(root)
+		if (parent === root) return start
+		root = parent
+	}
+	return root
+}
+
+/**
+ * Get the agents directory of a project: `.opencode/agents/` in the
+ * project root (see {@link getProjectRoot}). An existing `.opencode/agent/`
+ * directory is used when there is no `.opencode/agents/`, as OpenCode reads both.
+ *
+ * @param {string} projectDir - A directory inside the project
+ * @returns {string} Path to the project's agents directory
+ * @throws {TypeError} If projectDir is not a non-empty string
+ */
+export function getProjectAgentsDir(projectDir) {
+	if (typeof projectDir !== "string") {
+		throw new TypeError(
+			`getProjectAgentsDir: projectDir must be a string, got ${projectDir === null ? "null" : typeof projectDir}`,
+		)
+	}
+	if (projectDir.trim() === "") {
+		throw new TypeError("getProjectAgentsDir: projectDir must not be empty")
+	}
+	const configDir = join(getProjectRoot(projectDir), ".opencode")
+	const legacyDir = join(configDir, "agent")
+	return existsSync(legacyDir) && !existsSync(join(configDir, "agents"))
+		? legacyDir
+		: join(configDir, "agents")
+}
+
+/**
+ * Resolves the directory agents are installed to from the `--scope` and
+ * `--target` flags.
+ *
+ * `--target` wins over the scope. Without `--scope`, the `OPENCODER_SCOPE`
+ * environment variable selects the scope (so `npm install` can install
+ * into the project), defaulting to `global`. The project is the directory
+ * the package manager was run in (`INIT_CWD`), or the current directory.
+ *
+ * @param {{ scope?: string | null, target?: string | null, env?: Record<string, string | undefined>, cwd?: string }} [options] - The flags, environment variables and working directory
+ * @returns {string} Absolute path to the agents directory
+ * @throws {Error} If the scope is unknown or `--target` has no value
+ *
+ * @example
+ * const flags = parseCliFlags(process.argv)
+ * const targetDir = resolveAgentsTargetDir({ scope: flags.scope, target: flags.target })
+ */
+export function resolveAgentsTargetDir(options = {}) {
+	const { scope, target, env = process.env, cwd = process.cwd() } = options
+	if (target !== undefined && target !== null) {
+		if (target.trim() === "") throw new Error("--target requires a directory")
+		return resolve(cwd, target)
+	}
+	const selected = scope ?? env[INSTALL_SCOPE_ENV] ?? "global"
+	if (!INSTALL_SCOPES.includes(selected)) {
+		const source = scope === undefined || scope === null ? INSTALL_SCOPE_ENV : "--scope"
+		throw new Error(
+			`Invalid ${source} "${selected}": expected ${INSTALL_SCOPES.map((s) => `"${s}"`).join(" or ")}`,
+		)
+	}
+	return selected === "project" ? getProjectAgentsDir(env.INIT_CWD || cwd) : getGlobalAgentsDir(env)
+}
+
+/**
+ * The global target directory where agents are installed.
+ * Located at ~/.config/opencode/agents/ unless `OPENCODE_CONFIG_DIR` or
+ * `XDG_CONFIG_HOME` is set (see {@link getGlobalAgentsDir}).
+ */
+export const AGENTS_TARGET_DIR = getGlobalAgentsDir()
 
 /**
  * Returns a user-friendly error message based on the error code.
@@ -327,10 +463,20 @@ export async function retryOnTransientError(fn, options = {}) {
 /**
  * Parses YAML frontmatter from markdown content.
  *
- * Expects frontmatter to be delimited by --- at the start of the file.
+ * Expects frontmatter to be delimited by --- at the start of the file. The
+ * frontmatter is parsed as YAML (see {@link parseYaml}): `data` holds the
+ * typed values with nested maps and lists, while `fields` keeps every value
+ * as written, with nested keys joined by dots and list items by index, e.g.
+ * `tools:` followed by `  write: false` yields `data.tools.write === false`
+ * and `fields["tools.write"] === "false"`.
+ *
+ * YAML errors don't make the parse fail: they are listed in `errors` with
+ * their line and column in the file, and the rest of the frontmatter is
+ * still parsed. `positions` has the line and column in the file of each
+ * value in `fields`.
  *
  * @param {string} content - The file content to parse
- * @returns {{ found: boolean, reason?: "missing" | "unclosed", fields: Record<string, string>, endIndex: number }} Parse result
+ * @returns {{ found: boolean, reason?: "missing" | "unclosed", fields: Record<string, string>, data: Record<string, import("./yaml.mjs").YamlValue>, positions: Record<string, import("./yaml.mjs").YamlPosition>, errors: import("./yaml.mjs").YamlError[], endIndex: number }} Parse result
  * @throws {TypeError} If content is not a string
  */
 export function parseFrontmatter(content) {
@@ -341,104 +487,173 @@ export function parseFrontmatter(content) {
 	}
 	// Frontmatter must start at the beginning of the file
 	if (!content.startsWith("---")) {
-		return { found: false, reason: "missing", fields: {}, endIndex: 0 }
+		const reason = "missing"
+		return { found: false, reason, fields: {}, data: {}, positions: {}, errors: [], endIndex: 0 }
 	}
 
 	// Find the closing ---
 	const endMatch = content.indexOf("\n---", 3)
 	if (endMatch === -1) {
-		return { found: false, reason: "unclosed", fields: {}, endIndex: 0 }
+		const reason = "unclosed"
+		return { found: false, reason, fields: {}, data: {}, positions: {}, errors: [], endIndex: 0 }
 	}
 
-	// Extract frontmatter content (between the --- delimiters)
-	const frontmatterContent = content.slice(4, endMatch)
-	const fields = {}
-
-	// Parse simple key: value pairs
-	for (const line of frontmatterContent.split("\n")) {
-		const trimmed = line.trim()
-		if (!trimmed || trimmed.startsWith("#")) continue
-
-		const colonIndex = trimmed.indexOf(":")
-		if (colonIndex === -1) continue
-
-		const key = trimmed.slice(0, colonIndex).trim()
-		let value = trimmed.slice(colonIndex + 1).trim()
-
-		// Remove surrounding quotes if present
-		if (
-			(value.startsWith('"') && value.endsWith('"')) ||
-			(value.startsWith("'") && value.endsWith("'"))
-		) {
-			value = value.slice(1, -1)
-		}
-
-		fields[key] = value
+	// Extract frontmatter content (between the --- delimiters), which starts on line 2
+	const start = content.startsWith("---\r\n") ? 5 : 4
+	const yaml = parseYaml(content.slice(start, endMatch))
+	const errors = yaml.errors.map((error) => ({ ...error, line: error.line + 1 }))
+	const positions = Object.fromEntries(
+		Object.entries(yaml.positions).map(([path, { line, column }]) => [
+			path,
+			{ line: line + 1, column },
+		]),
+	)
+	const isMap = typeof yaml.value === "object" && yaml.value !== null && !Array.isArray(yaml.value)
+	if (!isMap && yaml.value !== null) {
+		errors.unshift({ message: "frontmatter must be a map of key: value pairs", line: 2, column: 1 })
 	}
 
 	// endIndex points to the character after the closing ---\n
 	const endIndex = endMatch + 4
 
-	return { found: true, fields, endIndex }
+	const data = isMap ? yaml.value : {}
+	return { found: true, fields: yaml.flat, data, positions, errors, endIndex }
+}
+
+/**
+ * Creates an error diagnostic.
+ *
+ * @param {string} rule - Id of the check, e.g. "markdown-header"
+ * @param {string} message - What is wrong
+ * @param {string} fix - How to fix it
+ * @param {{ line: number, column: number }} [position] - Where it is (defaults to 1:1)
+ * @returns {AgentDiagnostic} The diagnostic
+ */
+function errorDiagnostic(rule, message, fix, position = { line: 1, column: 1 }) {
+	return { rule, severity: "error", message, line: position.line, column: position.column, fix }
+}
+
+/**
+ * Joins the messages of error diagnostics into one message.
+ *
+ * @param {AgentDiagnostic[]} diagnostics - The diagnostics
+ * @returns {string | undefined} The error messages separated by "; ", or undefined if
+ *   there are no errors
+ */
+function joinErrors(diagnostics) {
+	const errors = diagnostics.filter((diagnostic) => diagnostic.severity === "error")
+	return errors.length > 0 ? errors.map((diagnostic) => diagnostic.message).join("; ") : undefined
 }
 
 /**
  * Validates that agent content has a valid structure.
  *
  * Checks that the content:
- * 1. Has YAML frontmatter with required fields (version, requires)
+ * 1. Has YAML frontmatter without syntax errors, with required fields (version, requires)
  * 2. Starts with a markdown header (# ) after frontmatter
  * 3. Contains at least MIN_CONTENT_LENGTH characters
  * 4. Contains at least one of the expected keywords
+ * 5. Has frontmatter matching the agent frontmatter schema (see agent-schema.mjs),
+ *    e.g. a semver `version`, a valid `requires` range and boolean `tools.*`
+ * 6. For {@link READ_ONLY_AGENTS}, sets the {@link READ_ONLY_FRONTMATTER} fields
+ *
+ * Every check runs, and each problem is returned as a diagnostic with its
+ * rule id, severity, line and column and a suggested fix, sorted by position.
+ * Only errors make the content invalid: warnings and infos, such as a missing
+ * `description`, are reported but do not. `error` joins the error messages
+ * with "; ".
  *
  * @param {string} content - The agent file content to validate
- * @returns {{ valid: boolean, error?: string }} Validation result with optional error message
+ * @param {string} [agentName] - The agent name, enabling agent-specific checks
+ * @returns {{ valid: boolean, error?: string, diagnostics: AgentDiagnostic[] }} Validation
+ *   result with the diagnostics and the error message if invalid
  * @throws {TypeError} If content is not a string
  */
-export function validateAgentContent(content) {
+export function validateAgentContent(content, agentName) {
 	if (typeof content !== "string") {
 		throw new TypeError(
 			`validateAgentContent: content must be a string, got ${content === null ? "null" : typeof content}`,
 		)
 	}
+	/** @type {AgentDiagnostic[]} */
+	const diagnostics = []
+
 	// Check minimum length
 	if (content.length < MIN_CONTENT_LENGTH) {
-		return {
-			valid: false,
-			error: `File too short: ${content.length} characters (minimum ${MIN_CONTENT_LENGTH})`,
-		}
+		diagnostics.push(
+			errorDiagnostic(
+				"content-length",
+				`File too short: ${content.length} characters (minimum ${MIN_CONTENT_LENGTH})`,
+				"Write the agent's instructions below the frontmatter",
+			),
+		)
 	}
 
 	// Check for YAML frontmatter
 	const frontmatter = parseFrontmatter(content)
-	if (!frontmatter.found) {
-		const errorMessage =
-			frontmatter.reason === "unclosed"
-				? "Unclosed YAML frontmatter (missing closing ---)"
-				: "File missing YAML frontmatter (must start with ---)"
-		return {
-			valid: false,
-			error: errorMessage,
-		}
+	if (frontmatter.reason === "unclosed") {
+		diagnostics.push(
+			errorDiagnostic(
+				"frontmatter-unclosed",
+				"Unclosed YAML frontmatter (missing closing ---)",
+				"Add a --- line after the last frontmatter field",
+			),
+		)
+	} else if (!frontmatter.found) {
+		diagnostics.push(
+			errorDiagnostic(
+				"frontmatter-missing",
+				"File missing YAML frontmatter (must start with ---)",
+				`Start the file with a --- line, the ${REQUIRED_FRONTMATTER_FIELDS.join(" and ")} fields and another --- line`,
+			),
+		)
 	}
 
-	// Check for required frontmatter fields
-	const missingFields = REQUIRED_FRONTMATTER_FIELDS.filter((field) => !frontmatter.fields[field])
-	if (missingFields.length > 0) {
-		return {
-			valid: false,
-			error: `Frontmatter missing required fields: ${missingFields.join(", ")}`,
+	if (frontmatter.found) {
+		for (const { message, line, column } of frontmatter.errors) {
+			diagnostics.push(
+				errorDiagnostic(
+					"yaml-syntax",
+					`Invalid YAML frontmatter: ${message}`,
+					"Fix the YAML syntax (quote values containing special characters)",
+					{ line, column },
+				),
+			)
 		}
-	}
 
-	// Get content after frontmatter
-	const contentAfterFrontmatter = content.slice(frontmatter.endIndex).trimStart()
+		// Check the frontmatter fields, reporting every violation at once
+		diagnostics.push(...validateFrontmatter(frontmatter))
+		if (agentName && READ_ONLY_AGENTS.includes(agentName)) {
+			const missing = Object.entries(READ_ONLY_FRONTMATTER).filter(
+				([key, value]) => frontmatter.fields[key] !== value,
+			)
+			if (missing.length > 0) {
+				const [first] = missing.map(([key]) => key.split(".")[0])
+				diagnostics.push(
+					errorDiagnostic(
+						"read-only-agent",
+						`Read-only agent ${agentName} must set ${missing.map(([key, value]) => `${key}: ${value}`).join(", ")} in frontmatter`,
+						`Set ${missing.map(([key, value]) => `${key} to ${value}`).join(", ")}`,
+						frontmatter.positions[first],
+					),
+				)
+			}
+		}
 
-	// Check for markdown header after frontmatter
-	if (!contentAfterFrontmatter.startsWith("# ")) {
-		return {
-			valid: false,
-			error: "File does not have a markdown header (# ) after frontmatter",
+		// Check for markdown header after frontmatter
+		const body = content.slice(frontmatter.endIndex)
+		const contentAfterFrontmatter = body.trimStart()
+		if (!contentAfterFrontmatter.startsWith("# ")) {
+			const start = frontmatter.endIndex + body.length - contentAfterFrontmatter.length
+			const line = content.slice(0, start).split("\n").length
+			diagnostics.push(
+				errorDiagnostic(
+					"markdown-header",
+					"File does not have a markdown header (# ) after frontmatter",
+					'Start the agent\'s instructions with a "# " header, e.g. "# My Agent"',
+					{ line, column: 1 },
+				),
+			)
 		}
 	}
 
@@ -446,13 +661,38 @@ export function validateAgentContent(content) {
 	const lowerContent = content.toLowerCase()
 	const hasKeyword = REQUIRED_KEYWORDS.some((keyword) => lowerContent.includes(keyword))
 	if (!hasKeyword) {
-		return {
-			valid: false,
-			error: `File missing required keywords: ${REQUIRED_KEYWORDS.join(", ")}`,
-		}
+		diagnostics.push(
+			errorDiagnostic(
+				"required-keywords",
+				`File missing required keywords: ${REQUIRED_KEYWORDS.join(", ")}`,
+				`Describe what the agent does using at least one of: ${REQUIRED_KEYWORDS.join(", ")}`,
+			),
+		)
 	}
 
-	return { valid: true }
+	diagnostics.sort((a, b) => a.line - b.line || a.column - b.column)
+	const error = joinErrors(diagnostics)
+	return error === undefined ? { valid: true, diagnostics } : { valid: false, error, diagnostics }
+}
+
+/**
+ * Formats a diagnostic for display, compiler-style:
+ * `file:line:column: severity: message [rule]`, followed by the suggested fix
+ * on an indented second line.
+ *
+ * @param {AgentDiagnostic} diagnostic - The diagnostic
+ * @param {string} file - The agent file name or path
+ * @returns {string} The formatted diagnostic
+ *
+ * @example
+ * formatDiagnostic(validateAgentContent(content).diagnostics[0], "opencoder.md")
+ * // 'opencoder.md:4:1: error: Frontmatter field mode must be one of primary, subagent, all,
+ * //  got "main" [field-enum]\n  fix: Set mode to one of primary, subagent, all'
+ */
+export function formatDiagnostic(diagnostic, file) {
+	const { rule, severity, message, line, column, fix } = diagnostic
+	const text = `${file}:${line}:${column}: ${severity}: ${message} [${rule}]`
+	return fix ? `${text}\n  fix: ${fix}` : text
 }
 
 /**
@@ -464,9 +704,14 @@ export function validateAgentContent(content) {
  * - `--quiet`: Suppress non-error output (for CI environments)
  * - `--force`: Overwrite existing files without prompting
  * - `--help`: Display help information
+ * - `--rollback [id]`: Restore agents from a backup (the latest if no id is given)
+ * - `--scope <global|project>`: Install for the user or into the current project
+ * - `--target <dir>`: Install into the given directory
+ *
+ * Flags with values are also accepted as `--flag=value`.
  *
  * @param {string[]} argv - The command line arguments array (typically process.argv)
- * @returns {{ dryRun: boolean, verbose: boolean, quiet: boolean, force: boolean, help: boolean }} Parsed flags
+ * @returns {{ dryRun: boolean, verbose: boolean, quiet: boolean, force: boolean, help: boolean, rollback: string | boolean, scope: string | null, target: string | null }} Parsed flags
  *
  * @example
  * // Parse process.argv
@@ -479,7 +724,12 @@ export function validateAgentContent(content) {
  * @example
  * // Parse custom arguments
  * const flags = parseCliFlags(["node", "script.js", "--verbose", "--dry-run"])
- * // flags = { dryRun: true, verbose: true, quiet: false, force: false, help: false }
+ * // flags = { dryRun: true, verbose: true, quiet: false, force: false, help: false,
+ * //           rollback: false, scope: null, target: null }
+ *
+ * @example
+ * parseCliFlags(["node", "postinstall.mjs", "--rollback", "2026-01-19T12-00-00-000Z"]).rollback
+ * // "2026-01-19T12-00-00-000Z"
  * @throws {TypeError} If argv is not an array
  */
 export function parseCliFlags(argv) {
@@ -494,9 +744,43 @@ export function parseCliFlags(argv) {
 		quiet: argv.includes("--quiet"),
 		force: argv.includes("--force"),
 		help: argv.includes("--help"),
+		rollback: getFlagValue(argv, "--rollback") ?? false,
+		scope: toOptionValue(getFlagValue(argv, "--scope")),
+		target: toOptionValue(getFlagValue(argv, "--target")),
 	}
 }
 
+/**
+ * Gets the value of a flag given as `--flag value` or `--flag=value`.
+ *
+ * @param {string[]} argv - The command line arguments array
+ * @param {string} flag - The flag, e.g. `--rollback`
+ * @returns {string | true | undefined} The value, true if the flag has no value, or undefined if absent
+ */
+function getFlagValue(argv, flag) {
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i]
+		if (arg.startsWith(`${flag}=`)) return arg.slice(flag.length + 1) || true
+		if (arg === flag) {
+			const next = argv[i + 1]
+			return next !== undefined && !next.startsWith("-") ? next : true
+		}
+	}
+	return undefined
+}
+
+/**
+ * Converts a flag value for options that require a value: an empty string
+ * when the value is missing, null when the flag is absent.
+ *
+ * @param {string | true | undefined} value - The flag value
+ * @returns {string | null} The option value
+ */
+function toOptionValue(value) {
+	if (value === undefined) return null
+	return value === true ? "" : value
+}
+
 /**
  * Creates a logger object with standard and verbose logging methods.
  *
@@ -556,13 +840,19 @@ export function createLogger(verbose, quiet = false) {
  * including version compatibility checking.
  *
  * Performs the following validations:
- * 1. Content structure validation (frontmatter, headers, keywords)
- * 2. Version compatibility checking against current OpenCode version (unless force=true)
+ * 1. Content structure validation (frontmatter, headers, keywords), including
+ *    agent-specific checks for the agent named by the file (e.g. `opencoder-planner.md`)
+ * 2. The `requires` frontmatter field is a valid version range
+ * 3. Version compatibility checking against current OpenCode version (unless force=true)
+ *
+ * Returns the diagnostics of {@link validateAgentContent}; an incompatible
+ * OpenCode version adds an `opencode-version` error, or a warning when force
+ * is true.
  *
  * @param {string} filePath - Path to the agent file to validate
- * @param {string} [currentVersion] - The current OpenCode version to check against (defaults to OPENCODE_VERSION)
+ * @param {string} [currentVersion] - The current OpenCode version to check against (defaults to the detected version)
  * @param {boolean} [force=false] - When true, skip version compatibility checks
- * @returns {{ valid: boolean, error?: string, skippedVersionCheck?: boolean }} Validation result with optional error message
+ * @returns {{ valid: boolean, error?: string, skippedVersionCheck?: boolean, diagnostics: AgentDiagnostic[] }} Validation result with the diagnostics and optional error message
  * @throws {Error} If the file does not exist (ENOENT)
  * @throws {Error} If permission is denied reading the file (EACCES)
  * @throws {Error} If the file is a directory (EISDIR)
@@ -595,7 +885,11 @@ export function createLogger(verbose, quiet = false) {
  *   console.warn('Warning: Version compatibility check was skipped')
  * }
  */
-export function validateAgentFile(filePath, currentVersion = OPENCODE_VERSION, force = false) {
+export function validateAgentFile(
+	filePath,
+	currentVersion = detectOpenCodeVersion().version,
+	force = false,
+) {
 	if (typeof filePath !== "string") {
 		throw new TypeError(
 			`validateAgentFile: filePath must be a string, got ${filePath === null ? "null" : typeof filePath}`,
@@ -606,27 +900,37 @@ export function validateAgentFile(filePath, currentVersion = OPENCODE_VERSION, f
 	}
 
 	const content = readFileSync(filePath, "utf-8")
-	const contentValidation = validateAgentContent(content)
+	const contentValidation = validateAgentContent(content, basename(filePath, ".md"))
 	if (!contentValidation.valid) {
 		return contentValidation
 	}
+	const { diagnostics } = contentValidation
 
 	// Check version compatibility from frontmatter (unless force is true)
 	const frontmatter = parseFrontmatter(content)
 	if (frontmatter.found && frontmatter.fields.requires) {
+		// The range is valid: validateAgentContent checked it against the schema
 		const requiresVersion = frontmatter.fields.requires
-		const isCompatible = _checkVersionCompatibility(requiresVersion, currentVersion)
+		// A nightly OpenCode (e.g. 0.15.0-beta.2) satisfies any range covering its version
+		const isCompatible = _checkVersionCompatibility(requiresVersion, currentVersion, {
+			includePrerelease: true,
+		})
 		if (!isCompatible) {
+			const diagnostic = errorDiagnostic(
+				"opencode-version",
+				`Incompatible OpenCode version: requires ${requiresVersion}, but current version is ${currentVersion}`,
+				`Upgrade OpenCode to a version matching ${requiresVersion}`,
+				frontmatter.positions.requires,
+			)
 			if (force) {
 				// Skip version check when force is enabled, but indicate it was skipped
-				return { valid: true, skippedVersionCheck: true }
-			}
-			return {
-				valid: false,
-				error: `Incompatible OpenCode version: requires ${requiresVersion}, but current version is ${currentVersion}`,
+				diagnostics.push({ ...diagnostic, severity: "warning" })
+				return { valid: true, skippedVersionCheck: true, diagnostics }
 			}
+			diagnostics.push(diagnostic)
+			return { valid: false, error: joinErrors(diagnostics), diagnostics }
 		}
 	}
 
-	return { valid: true }
+	return { valid: true, diagnostics }
 }
@@ -0,0 +1,352 @@
+/**
+ * Parser for the planner's markdown plan format.
+ *
+ * Turns `### Task N: Title` blocks with `**Priority:**`, `**Complexity:**`,
+ * `**Description:**`, `**Files:**` and `**Done when:**` fields into a typed
+ * {@link DevelopmentPlan}, applying the graceful-degradation rules from the
+ * orchestrator's "Handling Malformed Plans" section: unnumbered tasks,
+ * non-standard headings, missing fields and unparseable responses.
+ */
+
+import {
+	type DevelopmentPlan,
+	matchOption,
+	type PlanTask,
+	TASK_CATEGORIES,
+	TASK_COMPLEXITIES,
+	TASK_PRIORITIES,
+	type TaskComplexity,
+	type TaskPriority,
+} from "./plan"
+
+/** Value used in builder prompts when a task has no `**Files:**` field */
+export const DEFAULT_FILES = "unknown"
+
+/** Value used when a task has no `**Done when:**` field */
+export const DEFAULT_DONE_WHEN = "task description completed"
+
+/** Priority assumed when a task has no valid `**Priority:**` field */
+export const DEFAULT_PRIORITY: TaskPriority = "Medium"
+
+/** Complexity assumed when a task has no valid `**Complexity:**` field */
+export const DEFAULT_COMPLEXITY: TaskComplexity = "Medium"
+
+/**
+ * A problem found while parsing a plan.
+ *
+ * Warnings mean the plan was usable after applying a default; errors mean
+ * no actionable task could be extracted and the planner should be re-invoked.
+ */
+export interface PlanIssue {
+	level: "warning" | "error"
+	message: string
+}
+
+/**
+ * Result of parsing a planner response.
+ */
+export interface ParsePlanResult {
+	/** The extracted plan; empty when an error issue is reported */
+	plan: DevelopmentPlan
+	/** Degradations applied while parsing, in the order they were found */
+	issues: PlanIssue[]
+}
+
+/** Standard heading: `### Task 1: Title` */
+const STANDARD_HEADING = /^###\s+Task\s+(\d+)\s*:\s*(.+?)\s*$/
+
+/**
+ * Flexible heading: any heading level or bold text, optional number and `:`
+ * or `-` separator (`## Task 1: X`, `**Task 2: X**`, `### Task 3 - X`, `### Task: X`).
+ */
+const FLEXIBLE_HEADING =
+	/^(?:#{1,6}\s+(?:\*\*)?|\*\*)Task\s*(\d*)\s*(?:\*\*)?\s*[:\-–]\s*(.+?)\s*(?:\*\*)?\s*$/i
+
+/**
+ * Plain text heading: a numbered task with a dash separator (`Task 3 - X`).
+ * The number is required, so body text like "Task - note: ..." does not
+ * start a task.
+ */
+const PLAIN_HEADING = /^Task\s+(\d+)\s*[-–]\s*(.+?)\s*$/i
+
+/** Fenced code block delimiter (headings inside code blocks are examples, not tasks) */
+const FENCE = /^(`{3,}|~{3,})/
+
+/** Field line: `**Files:** a, b` (also `- **Files:** ...` and `**Files**: ...`) */
+const FIELD_LINE = /^(?:[-*]\s+)?\*\*([A-Za-z ]+?)(?::\*\*|\*\*:)\s*(.*)$/
+
+/** Field names as they appear in the plan, mapped to their keys */
+const FIELD_NAMES: Record<string, keyof RawFields> = {
+	priority: "priority",
+	complexity: "complexity",
+	category: "category",
+	description: "description",
+	files: "files",
+	"done when": "doneWhen",
+}
+
+/** Field values collected for a task block before defaults are applied */
+interface RawFields {
+	priority?: string
+	complexity?: string
+	category?: string
+	description?: string
+	files?: string
+	doneWhen?: string
+}
+
+/** A task heading found in the plan */
+interface Heading {
+	line: number
+	number?: number
+	title: string
+	standard: boolean
+}
+
+/**
+ * Removes inline markdown (bold, code, links) from a field value.
+ */
+function stripMarkdown(value: string | undefined): string | undefined {
+	return value?.replace(/[`*_[\]]/g, "").trim()
+}
+
+/**
+ * Recognizes a task heading on a single line.
+ */
+function matchHeading(line: string, index: number): Heading | null {
+	const standard = line.match(STANDARD_HEADING)
+	if (standard) {
+		return {
+			line: index,
+			number: Number.parseInt(standard[1] as string, 10),
+			title: (standard[2] as string).trim(),
+			standard: true,
+		}
+	}
+	const flexible = line.match(FLEXIBLE_HEADING) ?? line.match(PLAIN_HEADING)
+	if (flexible?.[2]) {
+		const title = flexible[2].replace(/\*\*/g, "").trim()
+		if (!title) return null
+		return {
+			line: index,
+			number: flexible[1] ? Number.parseInt(flexible[1], 10) : undefined,
+			title,
+			standard: false,
+		}
+	}
+	return null
+}
+
+/**
+ * Collects the fields of a task block. Lines that are not field lines
+ * continue the previous field, or form the description if no field came yet.
+ */
+function parseFields(lines: string[]): RawFields {
+	const fields: RawFields = {}
+	let current: keyof RawFields | undefined
+
+	for (const line of lines) {
+		const trimmed = line.trim()
+		if (!trimmed || trimmed === "...") continue
+
+		const match = trimmed.match(FIELD_LINE)
+		const key = match ? FIELD_NAMES[(match[1] as string).trim().toLowerCase()] : undefined
+		if (match && key) {
+			fields[key] = (match[2] as string).trim()
+			current = key
+			continue
+		}
+
+		const target = current ?? "description"
+		fields[target] = fields[target] ? `${fields[target]} ${trimmed}` : trimmed
+		current = target
+	}
+	return fields
+}
+
+/**
+ * Splits a `**Files:**` value into paths, removing backticks.
+ */
+function parseFiles(value: string): string[] {
+	return value
+		.split(",")
+		.map((file) => file.replace(/`/g, "").trim())
+		.filter(Boolean)
+}
+
+/**
+ * Builds a task from a heading and its block, applying defaults for
+ * missing or invalid fields.
+ */
+function buildTask(
+	number: number,
+	title: string,
+	fields: RawFields,
+	issues: PlanIssue[],
+): PlanTask {
+	const priority = matchOption(TASK_PRIORITIES, stripMarkdown(fields.priority))
+	const complexity = matchOption(TASK_COMPLEXITIES, stripMarkdown(fields.complexity))
+	const category = matchOption(TASK_CATEGORIES, stripMarkdown(fields.category))
+	const files = fields.files ? parseFiles(fields.files) : []
+
+	const missing = [
+		...(files.length === 0 ? ["Files"] : []),
+		...(!fields.doneWhen ? ["Done when"] : []),
+	]
+	if (missing.length > 0) {
+		issues.push({
+			level: "warning",
+			message: `Task ${number} missing ${missing.join(" and ")} field${missing.length > 1 ? "s" : ""}, using defaults`,
+		})
+	}
+	if (!priority) {
+		issues.push({
+			level: "warning",
+			message: `Task ${number} has ${fields.priority ? `invalid priority "${fields.priority}"` : "no priority"}, using ${DEFAULT_PRIORITY}`,
+		})
+	}
+	if (!complexity) {
+		issues.push({
+			level: "warning",
+			message: `Task ${number} has ${fields.complexity ? `invalid complexity "${fields.complexity}"` : "no complexity"}, using ${DEFAULT_COMPLEXITY}`,
+		})
+	}
+
+	return {
+		number,
+		title,
+		priority: priority ?? DEFAULT_PRIORITY,
+		complexity: complexity ?? DEFAULT_COMPLEXITY,
+		description: fields.description ?? "",
+		files,
+		doneWhen: fields.doneWhen || DEFAULT_DONE_WHEN,
+		...(category ? { category } : {}),
+	}
+}
+
+/**
+ * Parses a planner response into a typed development plan.
+ *
+ * Applies the orchestrator's graceful-degradation rules:
+ *
+ * | Issue | Behavior | Level |
+ * |-------|----------|-------|
+ * | Missing `Files:` | Empty file list (`unknown` in builder prompts) | warning |
+ * | Missing `Done when:` | `task description completed` | warning |
+ * | Missing/invalid priority or complexity | `Medium` | warning |
+ * | No task numbers | Sequential numbers in document order | warning |
+ * | Non-standard headings | Flexible matching | warning |
+ * | Unparseable format | Whole response as a single task | warning |
+ * | Empty response | No tasks | error |
+ *
+ * Numbered tasks are returned in numbered order.
+ *
+ * @param markdown - The planner's response
+ * @returns The plan and the issues found while parsing
+ * @throws {TypeError} If markdown is not a string
+ *
+ * @example
+ * const { plan, issues } = parsePlan(plannerResponse)
+ * for (const issue of issues) console.warn(`${issue.level}: ${issue.message}`)
+ * for (const task of plan.tasks) invokeBuilder(formatBuilderPrompt(task))
+ */
+export function parsePlan(markdown: string): ParsePlanResult {
+	if (typeof markdown !== "string") {
+		throw new TypeError(
+			`parsePlan: markdown must be a string, got ${markdown === null ? "null" : typeof markdown}`,
+		)
+	}
+	const issues: PlanIssue[] = []
+	const text = markdown.replace(/\r\n?/g, "\n").trim()
+	if (!text) {
+		issues.push({
+			level: "error",
+			message: "Planner returned an empty response, re-invoke the planner",
+		})
+		return { plan: { tasks: [] }, issues }
+	}
+
+	const lines = text.split("\n")
+	const headings: Heading[] = []
+	let fence = ""
+	for (const [index, line] of lines.entries()) {
+		const marker = line.trim().match(FENCE)?.[1]
+		if (fence) {
+			if (marker && marker[0] === fence[0] && marker.length >= fence.length) fence = ""
+			continue
+		}
+		if (marker) {
+			fence = marker
+			continue
+		}
+		const heading = matchHeading(line.trim(), index)
+		if (heading) headings.push(heading)
+	}
+
+	if (headings.length === 0) {
+		issues.push({
+			level: "warning",
+			message: "Unparseable plan format, treating response as a single task",
+		})
+		const title =
+			lines
+				.map((line) =>
+					line
+						.replace(/^#+\s*/, "")
+						.replace(/\*\*/g, "")
+						.trim(),
+				)
+				.find(Boolean) ?? ""
+		return { plan: { tasks: [buildTask(1, title, { description: text }, issues)] }, issues }
+	}
+
+	if (headings.some((heading) => !heading.standard)) {
+		issues.push({
+			level: "warning",
+			message: "Non-standard task format, attempting flexible parsing",
+		})
+	}
+
+	const numbers = headings.map((heading) => heading.number)
+	const numbered = numbers.every((n) => n !== undefined) && new Set(numbers).size === numbers.length
+	if (!numbered) {
+		issues.push({
+			level: "warning",
+			message: "Tasks missing numbers, processing in document order",
+		})
+	}
+
+	const tasks = headings.map((heading, index) => {
+		const end = headings[index + 1]?.line ?? lines.length
+		const fields = parseFields(lines.slice(heading.line + 1, end))
+		const number = numbered ? (heading.number as number) : index + 1
+		return buildTask(number, heading.title, fields, issues)
+	})
+	tasks.sort((a, b) => a.number - b.number)
+
+	return { plan: { tasks }, issues }
+}
+
+/**
+ * Formats a task as the orchestrator's builder invocation
+ * (see "Passing to Builder" in the orchestrator prompt).
+ *
+ * @param task - The task to format
+ * @returns The builder prompt
+ *
+ * @example
+ * // @opencoder-builder Execute this task: Add input validation
+ * //
+ * // API endpoints accept invalid data. Add zod schemas.
+ * // Files: src/api/users.ts, src/schemas/user.ts
+ * // Done when: Invalid requests return 400 with error details
+ */
+export function formatBuilderPrompt(task: PlanTask): string {
+	return [
+		`@opencoder-builder Execute this task: ${task.title}`,
+		"",
+		...(task.description ? [task.description] : []),
+		`Files: ${task.files.length > 0 ? task.files.join(", ") : DEFAULT_FILES}`,
+		`Done when: ${task.doneWhen}`,
+	].join("\n")
+}
@@ -0,0 +1,294 @@
+/**
+ * Development plan types and the `opencoder_plan` tool.
+ *
+ * The planner submits its tasks through the `opencoder_plan` tool as typed
+ * data instead of free-form markdown. The tool validates the plan (3-7 tasks,
+ * every field present and within its allowed values) and returns the
+ * canonical markdown the orchestrator expects, or an error listing every
+ * problem so the planner can fix and resubmit.
+ */
+
+import { type ToolContext, type ToolDefinition, tool } from "@opencode-ai/plugin"
+
+/** Name under which the plan tool is registered */
+export const PLAN_TOOL_NAME = "opencoder_plan"
+
+/** Minimum number of tasks in a plan */
+export const MIN_PLAN_TASKS = 3
+
+/** Maximum number of tasks in a plan */
+export const MAX_PLAN_TASKS = 7
+
+/** Allowed task priorities, highest first */
+export const TASK_PRIORITIES = Object.freeze(["Critical", "High", "Medium", "Low"] as const)
+
+/** Allowed task complexities */
+export const TASK_COMPLEXITIES = Object.freeze(["Small", "Medium", "Large"] as const)
+
+/** Improvement categories from the planner's "Task Category Diversity" section */
+export const TASK_CATEGORIES = Object.freeze([
+	"bugfix",
+	"test",
+	"docs",
+	"refactor",
+	"perf",
+	"security",
+	"dx",
+] as const)
+
+export type TaskPriority = (typeof TASK_PRIORITIES)[number]
+export type TaskComplexity = (typeof TASK_COMPLEXITIES)[number]
+export type TaskCategory = (typeof TASK_CATEGORIES)[number]
+
+/**
+ * A single task of a development plan.
+ */
+export interface PlanTask {
+	/** 1-based task number, determines execution order */
+	number: number
+	title: string
+	priority: TaskPriority
+	complexity: TaskComplexity
+	/** What needs to be done and why */
+	description: string
+	/** Paths the task is expected to modify */
+	files: string[]
+	/** Acceptance criteria */
+	doneWhen: string
+	/** Improvement category, if known */
+	category?: TaskCategory
+}
+
+/**
+ * A development plan produced by the planner.
+ */
+export interface DevelopmentPlan {
+	tasks: PlanTask[]
+}
+
+/**
+ * A task as submitted to the plan tool, before validation.
+ */
+export interface PlanTaskInput {
+	title?: string
+	priority?: string
+	complexity?: string
+	description?: string
+	files?: string[]
+	doneWhen?: string
+	category?: string
+}
+
+/**
+ * Result of validating submitted plan tasks.
+ */
+export type ValidatePlanResult =
+	| { valid: true; plan: DevelopmentPlan }
+	| { valid: false; errors: string[] }
+
+/**
+ * Matches a value case-insensitively against a list of allowed values.
+ *
+ * @param options - The allowed values (e.g. {@link TASK_PRIORITIES})
+ * @param value - The value to match
+ * @returns The canonical spelling, or undefined if the value is not allowed
+ *
+ * @example
+ * matchOption(TASK_PRIORITIES, "high")  // "High"
+ * matchOption(TASK_PRIORITIES, "urgent")  // undefined
+ */
+export function matchOption<T extends string>(
+	options: readonly T[],
+	value: string | undefined,
+): T | undefined {
+	const normalized = value?.trim().toLowerCase()
+	return options.find((option) => option.toLowerCase() === normalized)
+}
+
+/**
+ * Validates tasks submitted by the planner.
+ *
+ * Every problem is collected so the planner can fix them all in one
+ * resubmission. Priority, complexity and category are matched
+ * case-insensitively and normalized to their canonical spelling.
+ *
+ * @param tasks - The submitted tasks, in execution order
+ * @returns The validated plan, or the list of problems found
+ *
+ * @example
+ * const result = validatePlanTasks([{ title: "Fix bug", priority: "high", ... }])
+ * if (!result.valid) {
+ *   console.error(result.errors.join("\n"))
+ * }
+ */
+export function validatePlanTasks(tasks: PlanTaskInput[]): ValidatePlanResult {
+	const errors: string[] = []
+
+	if (tasks.length < MIN_PLAN_TASKS || tasks.length > MAX_PLAN_TASKS) {
+		errors.push(
+			`Plan has ${tasks.length} task(s); submit between ${MIN_PLAN_TASKS} and ${MAX_PLAN_TASKS} tasks.` +
+				(tasks.length < MIN_PLAN_TASKS
+					? " Look deeper for improvements (error messages, edge cases, tests, docs, performance)."
+					: " Keep the most valuable tasks and leave the rest for the next cycle."),
+		)
+	}
+
+	const planTasks: PlanTask[] = []
+	tasks.forEach((input, index) => {
+		const title = input.title?.trim() ?? ""
+		const label = title ? `Task ${index + 1} ("${title}")` : `Task ${index + 1}`
+		const priority = matchOption(TASK_PRIORITIES, input.priority)
+		const complexity = matchOption(TASK_COMPLEXITIES, input.complexity)
+		const category = matchOption(TASK_CATEGORIES, input.category)
+		const description = input.description?.trim() ?? ""
+		const files = (input.files ?? []).map((file) => file.trim()).filter(Boolean)
+		const doneWhen = input.doneWhen?.trim() ?? ""
+
+		if (!title) {
+			errors.push(
+				`${label}: title is missing. Use a short imperative title like "Add input validation".`,
+			)
+		}
+		if (!priority) {
+			errors.push(
+				`${label}: priority ${input.priority ? `"${input.priority}" is invalid` : "is missing"}. Use one of: ${TASK_PRIORITIES.join(", ")}.`,
+			)
+		}
+		if (!complexity) {
+			errors.push(
+				`${label}: complexity ${input.complexity ? `"${input.complexity}" is invalid` : "is missing"}. Use one of: ${TASK_COMPLEXITIES.join(", ")}.`,
+			)
+		}
+		if (!category) {
+			errors.push(
+				`${label}: category ${input.category ? `"${input.category}" is invalid` : "is missing"}. Use one of: ${TASK_CATEGORIES.join(", ")}.`,
+			)
+		}
+		if (!description) {
+			errors.push(`${label}: description is missing. Explain what to do and why.`)
+		}
+		if (files.length === 0) {
+			errors.push(`${label}: files is empty. List the paths the task will modify.`)
+		}
+		if (!doneWhen) {
+			errors.push(`${label}: doneWhen is missing. State a verifiable completion criterion.`)
+		}
+
+		if (
+			title &&
+			priority &&
+			complexity &&
+			category &&
+			description &&
+			files.length > 0 &&
+			doneWhen
+		) {
+			planTasks.push({
+				number: index + 1,
+				title,
+				priority,
+				complexity,
+				description,
+				files,
+				doneWhen,
+				category,
+			})
+		}
+	})
+
+	const titles = planTasks.map((task) => task.title.toLowerCase())
+	const duplicates = planTasks.filter(
+		(task, index) => titles.indexOf(task.title.toLowerCase()) !== index,
+	)
+	for (const task of duplicates) {
+		errors.push(
+			`Task ${task.number} ("${task.title}"): duplicate title. Merge or rename the tasks.`,
+		)
+	}
+
+	if (errors.length > 0) {
+		return { valid: false, errors }
+	}
+	return { valid: true, plan: { tasks: planTasks } }
+}
+
+/**
+ * Formats a plan in the markdown format the orchestrator parses.
+ *
+ * @param plan - The plan to format
+ * @returns The plan as `## Development Plan` markdown
+ *
+ * @example
+ * // ## Development Plan
+ * //
+ * // ### Task 1: Add input validation
+ * // **Priority:** High
+ * // **Complexity:** Medium
+ * // **Category:** security
+ * // **Description:** API endpoints accept invalid data. Add zod schemas.
+ * // **Files:** src/api/users.ts, src/schemas/user.ts
+ * // **Done when:** Invalid requests return 400 with error details
+ */
+export function formatPlan(plan: DevelopmentPlan): string {
+	const sections = plan.tasks.map((task) =>
+		[
+			`### Task ${task.number}: ${task.title}`,
+			`**Priority:** ${task.priority}`,
+			`**Complexity:** ${task.complexity}`,
+			...(task.category ? [`**Category:** ${task.category}`] : []),
+			`**Description:** ${task.description}`,
+			`**Files:** ${task.files.join(", ")}`,
+			`**Done when:** ${task.doneWhen}`,
+		].join("\n"),
+	)
+	return ["## Development Plan", ...sections].join("\n\n")
+}
+
+/**
+ * Creates the `opencoder_plan` tool.
+ *
+ * The tool schema keeps every task field optional so that incomplete
+ * submissions reach {@link validatePlanTasks}, which reports all problems
+ * with actionable messages instead of a generic schema error.
+ *
+ * @param onPlan - Called with each validated plan (e.g. to record it in the ledger)
+ * @returns The tool definition to register under {@link PLAN_TOOL_NAME}
+ *
+ * @example
+ * const hooks = {
+ *   tool: { [PLAN_TOOL_NAME]: createPlanTool((plan) => console.log(plan.tasks.length)) },
+ * }
+ */
+export function createPlanTool(
+	onPlan?: (plan: DevelopmentPlan, context: ToolContext) => void,
+): ToolDefinition {
+	const z = tool.schema
+	return tool({
+		description: `Submit the development plan for this cycle. Call this once with ${MIN_PLAN_TASKS}-${MAX_PLAN_TASKS} tasks in execution order. The plan is validated and returned as the markdown to use as your final response; if validation fails, fix every listed problem and call the tool again.`,
+		args: {
+			tasks: z
+				.array(
+					z.object({
+						title: z.string().optional().describe("Short imperative title"),
+						priority: z.string().optional().describe(TASK_PRIORITIES.join(" | ")),
+						complexity: z.string().optional().describe(TASK_COMPLEXITIES.join(" | ")),
+						description: z.string().optional().describe("What to do and why - be specific"),
+						files: z.array(z.string()).optional().describe("Paths the task will modify"),
+						doneWhen: z.string().optional().describe("Clear completion criteria"),
+						category: z.string().optional().describe(TASK_CATEGORIES.join(" | ")),
+					}),
+				)
+				.describe(`${MIN_PLAN_TASKS}-${MAX_PLAN_TASKS} tasks in execution order`),
+		},
+		async execute(args, context) {
+			const result = validatePlanTasks(args.tasks)
+			if (!result.valid) {
+				throw new Error(
+					`Plan rejected with ${result.errors.length} problem(s):\n${result.errors.map((e) => `- ${e}`).join("\n")}\n\nFix these problems and call ${PLAN_TOOL_NAME} again with the complete plan.`,
+				)
+			}
+			onPlan?.(result.plan, context)
+			return formatPlan(result.plan)
+		},
+	})
+}
@@ -8,19 +8,102 @@
  * does not currently support dynamic agent registration.
  */
 
+import { execFileSync } from "node:child_process"
 import type { Hooks, Plugin, PluginInput } from "@opencode-ai/plugin"
+import {
+	type BudgetExhaustion,
+	type BudgetUsage,
+	checkBudget,
+	countTokens,
+	formatBudgetRejection,
+	formatBudgetStop,
+} from "./budget"
+import { parseBuilderResult } from "./builder-result"
+import { formatConfigRejection, loadConfig, type OpenCoderConfig } from "./config"
+import { checkFileEdits, getEditedFiles, getMaxFileEdits, toProjectPath } from "./file-guard"
+import {
+	type CommandRule,
+	classifyCommand,
+	type FirewallVerdict,
+	formatBlockedCommand,
+	formatRewrittenCommand,
+	resolveCommandRules,
+} from "./firewall"
+import { assessHealth, formatHealthReport } from "./health"
+import {
+	createLedger,
+	describeToolTarget,
+	formatLedgerSummary,
+	type LedgerEntryInput,
+	parsePlannerGoal,
+	parseSessionAgent,
+	parseSubagentInvocation,
+} from "./ledger"
+import { AGENT_NAMES, READ_ONLY_AGENTS } from "./paths.mjs"
+import { createPlanTool, PLAN_TOOL_NAME } from "./plan"
+import {
+	checkPath,
+	formatPathDenial,
+	getShellWriteTargets,
+	type PathPolicy,
+	resolvePathPolicy,
+} from "./policy"
+import { checkReadOnly } from "./read-only"
 
 /** Plugin metadata for logging */
 const PLUGIN_NAME = "opencoder"
 
+/** Budget state of one run of the loop, from its root orchestrator session */
+interface BudgetRun {
+	/** Resources consumed by the run; the clock starts with its root session */
+	usage: Omit<BudgetUsage, "minutes"> & { startedAt: number }
+	/** Cycles recorded before the run started, which don't count towards its budget */
+	cyclesAtStart: number
+	/** The exhausted budget, once the run is over budget */
+	exhausted: BudgetExhaustion | null
+}
+
 /**
- * Creates lifecycle hooks for debugging and visibility.
+ * Creates lifecycle hooks for debugging, visibility and cycle tracking.
  *
  * These hooks provide optional logging points for plugin activity.
  * Set OPENCODER_DEBUG=1 environment variable to enable debug logging.
  *
+ * Activity of OpenCoder sessions (the orchestrator and the subagent sessions
+ * it spawns) is recorded in the cycle ledger at `.opencoder/ledger.jsonl`,
+ * and the recorded history is injected into the orchestrator's system
+ * prompt so a restarted session can resume where the last one stopped.
+ *
+ * The `opencoder_plan` tool lets the planner submit its tasks as validated,
+ * typed data; accepted plans are recorded in the ledger, as are the parsed
+ * outcomes of builder reports.
+ *
+ * Loop health is computed from the recorded edits and builder outcomes.
+ * Status changes are recorded in the ledger, and while the loop is not
+ * healthy the recovery prompts are injected into the orchestrator's system
+ * prompt.
+ *
+ * Edits to a file that was already modified `maxFileEdits` times (default
+ * 3, overridden by `OPENCODER_MAX_FILE_EDITS`) in the current cycle are
+ * rejected, as are edits and shell commands targeting paths protected by
+ * the project's path policy. Both are set in `.opencode/opencoder.json`.
+ * Sessions of read-only agents (the planner) may not use edit tools or run
+ * mutating shell commands. Shell commands pass through the command
+ * firewall, which blocks destructive commands and rewrites risky ones
+ * (e.g. `git push --force` to `--force-with-lease`).
+ *
+ * When a configured session budget (time, cycles, tool calls or tokens) is
+ * exhausted, new planner and builder invocations are rejected and the
+ * orchestrator is told to commit, push and summarize before stopping.
+ * Budgets apply per run: each new root session (and the subagent sessions
+ * it spawns) starts with fresh usage and its own clock.
+ *
+ * While `.opencode/opencoder.json` is invalid, every tool call of an
+ * OpenCoder session is rejected with the configuration error; the file is
+ * read again on each call, so fixing it resumes the loop.
+ *
  * @param ctx - Plugin context from OpenCode containing session information
- * @returns Hooks object with lifecycle callbacks for `event`, `tool.execute.before`, and `tool.execute.after`
+ * @returns Hooks object with the `opencoder_plan` tool and lifecycle callbacks for `event`, `chat.message`, `tool.execute.before`, `tool.execute.after`, and `experimental.chat.system.transform`
  *
  * @example
  * // Enable debug logging by setting environment variable:
@@ -64,7 +147,197 @@ function createLifecycleHooks(ctx: PluginInput): Hooks {
 		}
 	}
 
+	const ledger = createLedger(ctx.directory)
+
+	let config: OpenCoderConfig = {}
+
+	/** Why the configuration file can't be used, while it is invalid */
+	let configError: string | null = null
+
+	let pathPolicy: PathPolicy
+	let commandRules: CommandRule[]
+
+	/** Modifications allowed per file and cycle */
+	let maxFileEdits: number
+
+	/**
+	 * Loads the project configuration. While the file is invalid the built-in
+	 * settings stay in effect and tool calls of OpenCoder sessions are rejected.
+	 */
+	const reloadConfig = (): void => {
+		try {
+			config = loadConfig(ctx.directory)
+			configError = null
+		} catch (err) {
+			config = {}
+			configError = err instanceof Error ? err.message : String(err)
+		}
+		pathPolicy = resolvePathPolicy(config.protectedPaths)
+		commandRules = resolveCommandRules(config.firewall)
+		maxFileEdits = getMaxFileEdits(config.maxFileEdits)
+	}
+
+	reloadConfig()
+	if (configError) {
+		console.warn(
+			`[${PLUGIN_NAME}] ${configError}\nOpenCoder tool calls are rejected until the file is fixed.`,
+		)
+	}
+
+	/** Returns the current git branch of the project, if it is a repository */
+	const getBranch = (): string | undefined => {
+		try {
+			return execFileSync("git", ["rev-parse", "--abbrev-ref", "HEAD"], {
+				cwd: ctx.directory,
+				encoding: "utf-8",
+				stdio: ["ignore", "pipe", "ignore"],
+				timeout: 5000,
+			}).trim()
+		} catch {
+			return undefined
+		}
+	}
+
+	/** Budget state per root session */
+	const runs = new Map<string, BudgetRun>()
+
+	/** Root session of each loop session (root sessions map to themselves) */
+	const sessionRoots = new Map<string, string>()
+
+	/** Tokens counted per assistant message, which is updated while it streams */
+	const messageTokens = new Map<string, number>()
+
+	/** Agent name per session, learned from `chat.message` and subagent session titles */
+	const sessionAgents = new Map<string, string>()
+
+	/** Sessions belonging to the OpenCoder loop (agent sessions and their children) */
+	const loopSessions = new Set<string>()
+
+	/** Subagent name per pending `task` tool call */
+	const pendingSubagents = new Map<string, string>()
+
+	/** Firewall note per pending rewritten shell command */
+	const pendingRewrites = new Map<string, string>()
+
+	/** Files modified by each pending edit tool call */
+	const pendingEdits = new Map<string, string[]>()
+
+	/** Last recorded loop health status */
+	let healthStatus = assessHealth(ledger.summary).status
+
+	/**
+	 * Runs a ledger write. Failures are logged but never interrupt the session.
+	 */
+	const persist = (write: () => void): void => {
+		try {
+			write()
+		} catch (err) {
+			log("Ledger write failed", { error: err instanceof Error ? err.message : String(err) })
+		}
+	}
+
+	/** Appends an entry to the ledger */
+	const record = (entry: LedgerEntryInput): void => persist(() => ledger.append(entry))
+
+	/**
+	 * Runs a shell command through the firewall, or returns null for other tools.
+	 */
+	const classifyShellCommand = (
+		tool: string,
+		args: Record<string, unknown>,
+	): FirewallVerdict | null =>
+		tool === "bash" && typeof args.command === "string"
+			? classifyCommand(args.command, commandRules, { getBranch })
+			: null
+
+	/**
+	 * Applies a firewall rewrite to the tool arguments and records it. Only
+	 * called once every check passed, so rejected calls leave no rewrite behind.
+	 */
+	const applyRewrite = (
+		verdict: Extract<FirewallVerdict, { action: "rewrite" }>,
+		args: Record<string, unknown>,
+		sessionID: string,
+		callID: string,
+	): void => {
+		const command = String(args.command)
+		args.command = verdict.command
+		pendingRewrites.set(callID, formatRewrittenCommand(command, verdict))
+		log("Command rewritten", { command, rewritten: verdict.command })
+		record({
+			type: "command.rewritten",
+			sessionID,
+			callID,
+			command,
+			rewritten: verdict.command,
+			rules: verdict.rules,
+		})
+	}
+
+	/**
+	 * Returns the denial message if a tool call modifies a protected path.
+	 */
+	const checkProtectedPaths = (
+		tool: string,
+		args: Record<string, unknown>,
+		files: string[],
+		agent: string | undefined,
+	): string | null => {
+		const targets =
+			tool === "bash" && typeof args.command === "string"
+				? getShellWriteTargets(args.command).map((path) => toProjectPath(ctx.directory, path))
+				: files
+		for (const path of targets) {
+			const decision = checkPath(pathPolicy, path, agent)
+			if (!decision.allowed) return formatPathDenial(path, decision.pattern, agent)
+		}
+		return null
+	}
+
+	/** Returns the budget state of the run a loop session belongs to */
+	const getRun = (sessionID: string): BudgetRun | undefined =>
+		runs.get(sessionRoots.get(sessionID) ?? sessionID)
+
+	/**
+	 * Checks the budgets of a session's run and records a `budget.exhausted`
+	 * entry the first time one runs out.
+	 */
+	const checkBudgets = (sessionID: string): BudgetExhaustion | null => {
+		const run = getRun(sessionID)
+		if (!run || run.exhausted) return run?.exhausted ?? null
+		const minutes = (Date.now() - run.usage.startedAt) / 60_000
+		run.exhausted = checkBudget(config.budget ?? {}, { ...run.usage, minutes })
+		if (run.exhausted) {
+			log("Session budget exhausted", { sessionID, ...run.exhausted })
+			record({ type: "budget.exhausted", ...run.exhausted })
+		}
+		return run.exhausted
+	}
+
+	/** Records a `health.changed` entry when the loop health status changes */
+	const checkHealth = (): void => {
+		const report = assessHealth(ledger.summary)
+		if (report.status === healthStatus) return
+		healthStatus = report.status
+		log("Loop health changed", { status: report.status })
+		record({
+			type: "health.changed",
+			status: report.status,
+			signals: report.signals.map((signal) => signal.message),
+		})
+	}
+
 	return {
+		tool: {
+			[PLAN_TOOL_NAME]: createPlanTool((plan, { sessionID }) =>
+				record({
+					type: "plan.submitted",
+					sessionID,
+					tasks: plan.tasks.map((task) => task.title),
+				}),
+			),
+		},
+
 		/**
 		 * Called on OpenCode events (sessions, messages, etc.)
 		 */
@@ -73,6 +346,63 @@ function createLifecycleHooks(ctx: PluginInput): Hooks {
 				type: event.type,
 				properties: Object.keys(event.properties),
 			})
+
+			switch (event.type) {
+				case "session.created": {
+					const { id, parentID, title } = event.properties.info
+					if (parentID && loopSessions.has(parentID)) {
+						const agent = parseSessionAgent(title)
+						if (agent && !sessionAgents.has(id)) sessionAgents.set(id, agent)
+						loopSessions.add(id)
+						// Subagent sessions count towards the budget of their root session
+						sessionRoots.set(id, sessionRoots.get(parentID) ?? parentID)
+						runs.delete(id)
+						record({ type: "session.created", sessionID: id, parentID, title })
+					}
+					break
+				}
+				case "session.idle":
+					if (loopSessions.has(event.properties.sessionID)) {
+						record({ type: "session.idle", sessionID: event.properties.sessionID })
+					}
+					break
+				case "session.error": {
+					const { sessionID, error } = event.properties
+					if (sessionID && loopSessions.has(sessionID)) {
+						record({ type: "session.error", sessionID, error: error?.name ?? "UnknownError" })
+					}
+					break
+				}
+				case "message.updated": {
+					const message = event.properties.info
+					if (message.role !== "assistant" || !loopSessions.has(message.sessionID)) break
+					const run = getRun(message.sessionID)
+					if (!run) break
+					const tokens = countTokens(message.tokens)
+					run.usage.tokens += tokens - (messageTokens.get(message.id) ?? 0)
+					messageTokens.set(message.id, tokens)
+					checkBudgets(message.sessionID)
+					break
+				}
+			}
+		},
+
+		/**
+		 * Called when a message is received; identifies OpenCoder sessions.
+		 * A new root session starts a new run with fresh budgets.
+		 */
+		"chat.message": async ({ sessionID, agent }) => {
+			if (!agent) return
+			sessionAgents.set(sessionID, agent)
+			if ((AGENT_NAMES as readonly string[]).includes(agent) && !loopSessions.has(sessionID)) {
+				loopSessions.add(sessionID)
+				sessionRoots.set(sessionID, sessionID)
+				runs.set(sessionID, {
+					usage: { cycles: 0, toolCalls: 0, tokens: 0, startedAt: Date.now() },
+					cyclesAtStart: ledger.summary.cycles.length,
+					exhausted: null,
+				})
+			}
 		},
 
 		/**
@@ -85,6 +415,75 @@ function createLifecycleHooks(ctx: PluginInput): Hooks {
 				callID,
 				argsKeys: Object.keys(output.args || {}),
 			})
+			if (!loopSessions.has(sessionID)) return
+			const run = getRun(sessionID)
+			if (run) run.usage.toolCalls++
+
+			// Re-read an invalid configuration, so that fixing it resumes the loop
+			if (configError) reloadConfig()
+			if (configError) {
+				const reason = formatConfigRejection(configError)
+				record({ type: "tool.blocked", tool, sessionID, callID, reason })
+				throw new Error(reason)
+			}
+
+			const invocation = tool === "task" ? parseSubagentInvocation(output.args) : null
+			if (!invocation) {
+				checkBudgets(sessionID)
+				const agent = sessionAgents.get(sessionID)
+				const files = getEditedFiles(tool, output.args, ctx.directory)
+				const current = ledger.summary.cycles.at(-1)
+				const args = output.args ?? {}
+				const verdict = classifyShellCommand(tool, args)
+				const rejection =
+					(agent && (READ_ONLY_AGENTS as readonly string[]).includes(agent)
+						? checkReadOnly(agent, tool, output.args)
+						: null) ??
+					(verdict?.action === "block" ? formatBlockedCommand(verdict) : null) ??
+					checkProtectedPaths(tool, args, files, agent) ??
+					(current ? checkFileEdits(current.filesModified, files, maxFileEdits) : null)
+				if (rejection) {
+					record({ type: "tool.blocked", tool, sessionID, callID, reason: rejection })
+					throw new Error(rejection)
+				}
+				if (verdict?.action === "rewrite") applyRewrite(verdict, args, sessionID, callID)
+				if (files.length > 0) pendingEdits.set(callID, files)
+				record({
+					type: "tool.started",
+					tool,
+					sessionID,
+					callID,
+					target: describeToolTarget(output.args),
+				})
+				return
+			}
+
+			// A planner invocation starts a new cycle, unless the current cycle has
+			// not run any task yet (the orchestrator is re-invoking the planner).
+			// Starting a cycle completes the previous one.
+			const current = ledger.summary.cycles.at(-1)
+			const startsCycle =
+				invocation.agent === "opencoder-planner" && (!current || current.tasks.length > 0)
+			if (run && startsCycle && ledger.summary.cycles.length > run.cyclesAtStart) {
+				run.usage.cycles++
+			}
+			const overBudget = checkBudgets(sessionID)
+			if (overBudget) {
+				const reason = formatBudgetRejection(overBudget)
+				record({ type: "tool.blocked", tool, sessionID, callID, reason })
+				throw new Error(reason)
+			}
+			if (startsCycle) {
+				persist(() => ledger.startCycle(sessionID, parsePlannerGoal(invocation.prompt)))
+			}
+			pendingSubagents.set(callID, invocation.agent)
+			record({
+				type: "subagent.started",
+				agent: invocation.agent,
+				sessionID,
+				callID,
+				title: invocation.title,
+			})
 		},
 
 		/**
@@ -98,6 +497,59 @@ function createLifecycleHooks(ctx: PluginInput): Hooks {
 				title: output.title,
 				outputLength: output.output?.length ?? 0,
 			})
+			if (!loopSessions.has(sessionID)) return
+
+			const outputLength = output.output?.length ?? 0
+			const agent = pendingSubagents.get(callID)
+			if (agent) {
+				pendingSubagents.delete(callID)
+				record({ type: "subagent.finished", agent, sessionID, callID, outputLength })
+				if (agent === "opencoder-builder") {
+					record({
+						type: "task.outcome",
+						callID,
+						outcome: parseBuilderResult(output.output ?? ""),
+					})
+					checkHealth()
+				}
+				return
+			}
+			const rewrite = pendingRewrites.get(callID)
+			if (rewrite) {
+				pendingRewrites.delete(callID)
+				output.output = `${output.output ?? ""}\n\n${rewrite}`
+			}
+			const files = pendingEdits.get(callID)
+			pendingEdits.delete(callID)
+			record({
+				type: "tool.finished",
+				tool,
+				sessionID,
+				callID,
+				title: output.title,
+				outputLength,
+				...(files ? { files } : {}),
+			})
+			checkHealth()
+		},
+
+		/**
+		 * Injects the budget stop sequence, cycle history and loop health into the orchestrator's system prompt
+		 */
+		"experimental.chat.system.transform": async ({ sessionID }, output) => {
+			if (sessionAgents.get(sessionID) !== "opencoder") return
+			const overBudget = checkBudgets(sessionID)
+			if (overBudget) {
+				output.system.push(formatBudgetStop(overBudget))
+			}
+			const history = formatLedgerSummary(ledger.summary)
+			if (history) {
+				output.system.push(history)
+			}
+			const health = formatHealthReport(assessHealth(ledger.summary))
+			if (health) {
+				output.system.push(health)
+			}
 		},
 	}
 }
@@ -114,7 +566,7 @@ function createLifecycleHooks(ctx: PluginInput): Hooks {
  *   opencode @opencoder
  *
  * @param ctx - Plugin context provided by OpenCode
- * @returns Hooks object with lifecycle callbacks for debugging visibility
+ * @returns Hooks object with lifecycle callbacks for debugging visibility and cycle tracking
  */
 export const OpenCoderPlugin: Plugin = async (ctx) => {
 	return createLifecycleHooks(ctx)
@@ -0,0 +1,213 @@
+/**
+ * Protected-paths policy for the OpenCoder loop.
+ *
+ * Declares which paths the loop's agents may modify using glob allow/deny
+ * lists. The plugin checks the files targeted by edit tools and the write
+ * targets of shell commands against the policy before the tool runs, and
+ * rejects calls on protected paths.
+ */
+
+import { basename } from "node:path"
+import { CONFIG_FILE, type PathPolicyConfig, type PathRules } from "./config"
+
+/**
+ * Paths protected when the configuration doesn't declare a deny list:
+ * lockfiles, CI configuration, database migrations and environment files.
+ */
+export const DEFAULT_PROTECTED_PATHS = Object.freeze([
+	"*.lock",
+	"*.lockb",
+	"package-lock.json",
+	"npm-shrinkwrap.json",
+	"pnpm-lock.yaml",
+	"go.sum",
+	".github/**",
+	".gitlab-ci.yml",
+	".circleci/**",
+	"**/migrations/**",
+	".env",
+	".env.*",
+] as const)
+
+/** Paths allowed when the configuration doesn't declare an allow list */
+export const DEFAULT_ALLOWED_PATHS = Object.freeze([".env.example"] as const)
+
+/** Per-agent rules applied unless the configuration overrides them */
+export const DEFAULT_AGENT_RULES: Readonly<Record<string, PathRules>> = Object.freeze({
+	// The planner analyzes the codebase and must not modify it
+	"opencoder-planner": { deny: ["**"] },
+})
+
+/**
+ * Resolved policy with defaults applied.
+ */
+export interface PathPolicy {
+	allow: string[]
+	deny: string[]
+	agents: Record<string, PathRules>
+}
+
+/**
+ * Result of checking a path against the policy.
+ */
+export type PathDecision = { allowed: true } | { allowed: false; pattern: string }
+
+/** Commands whose non-option arguments are all written or removed */
+const WRITE_COMMANDS = new Set([
+	"rm",
+	"rmdir",
+	"unlink",
+	"shred",
+	"mv",
+	"touch",
+	"truncate",
+	"mkdir",
+	"tee",
+])
+
+/** Commands whose first non-option argument is a mode or owner, followed by files */
+const ATTRIBUTE_COMMANDS = new Set(["chmod", "chown"])
+
+/** Commands whose last argument is the destination */
+const COPY_COMMANDS = new Set(["cp", "ln", "install", "rsync"])
+
+/** Shell tokens: quoted strings or runs of non-space characters */
+const SHELL_TOKEN = /'[^']*'|"(?:[^"\\]|\\.)*"|[^\s'"]+/g
+
+/**
+ * Applies the defaults to a policy configuration.
+ *
+ * Project-wide `deny` and `allow` lists replace the defaults; agent rules
+ * replace the default rules of the same agent.
+ *
+ * @param config - The `protectedPaths` configuration, if any
+ * @returns The resolved policy
+ *
+ * @example
+ * resolvePathPolicy({ deny: ["secrets/**"] })
+ * // { deny: ["secrets/**"], allow: [".env.example"], agents: { "opencoder-planner": { deny: ["**"] } } }
+ */
+export function resolvePathPolicy(config: PathPolicyConfig = {}): PathPolicy {
+	return {
+		allow: config.allow ?? [...DEFAULT_ALLOWED_PATHS],
+		deny: config.deny ?? [...DEFAULT_PROTECTED_PATHS],
+		agents: { ...DEFAULT_AGENT_RULES, ...config.agents },
+	}
+}
+
+/**
+ * Finds the first pattern matching a path. Patterns without a `/` match
+ * the file name at any depth, like `.gitignore` patterns.
+ */
+function findMatch(patterns: string[] | undefined, path: string): string | undefined {
+	const name = basename(path)
+	return patterns?.find((pattern) => {
+		const glob = new Bun.Glob(pattern)
+		return glob.match(path) || (!pattern.includes("/") && glob.match(name))
+	})
+}
+
+/**
+ * Checks whether an agent may modify a path.
+ *
+ * Rules are evaluated from most to least specific: the agent's allow list,
+ * the agent's deny list, the project-wide allow list and the project-wide
+ * deny list. The first matching list decides; unmatched paths are allowed.
+ *
+ * @param policy - The resolved policy
+ * @param path - Path relative to the project root
+ * @param agent - The agent making the change, if known
+ * @returns Whether the change is allowed, and the deny pattern if not
+ *
+ * @example
+ * checkPath(resolvePathPolicy(), "bun.lock", "opencoder-builder")
+ * // { allowed: false, pattern: "*.lock" }
+ */
+export function checkPath(policy: PathPolicy, path: string, agent?: string): PathDecision {
+	const rules = agent ? policy.agents[agent] : undefined
+	if (findMatch(rules?.allow, path)) return { allowed: true }
+	const agentDeny = findMatch(rules?.deny, path)
+	if (agentDeny) return { allowed: false, pattern: agentDeny }
+	if (findMatch(policy.allow, path)) return { allowed: true }
+	const deny = findMatch(policy.deny, path)
+	return deny ? { allowed: false, pattern: deny } : { allowed: true }
+}
+
+/**
+ * Formats the error shown to an agent when a protected path is targeted.
+ *
+ * @param path - The protected path
+ * @param pattern - The deny pattern that matched
+ * @param agent - The agent making the change, if known
+ * @returns The denial message
+ */
+export function formatPathDenial(path: string, pattern: string, agent?: string): string {
+	return [
+		`${agent ?? "This agent"} may not modify ${path}: it is protected by "${pattern}" in the OpenCoder path policy (${CONFIG_FILE}).`,
+		"Leave the file unchanged. If the task cannot be completed without changing it, report the task as Blocked and name the file.",
+	].join(" ")
+}
+
+/**
+ * Removes surrounding quotes from a shell token.
+ */
+function unquote(token: string): string {
+	return token.replace(/^(['"])(.*)\1$/, "$2")
+}
+
+/**
+ * Extracts the paths a shell command writes to, on a best-effort basis:
+ * redirection targets, arguments of file-modifying commands (`rm`, `mv`,
+ * `touch`, `tee`, ...), files passed to `chmod` and `chown` after the mode
+ * or owner, copy destinations, files edited in place with
+ * `sed -i`, and `git rm` / `git mv` arguments.
+ *
+ * @param command - The shell command
+ * @returns The write targets as written in the command
+ *
+ * @example
+ * getShellWriteTargets("echo KEY=1 >> .env && rm -f bun.lock")  // [".env", "bun.lock"]
+ */
+export function getShellWriteTargets(command: string): string[] {
+	const targets: string[] = []
+
+	for (const segment of command.split(/&&|\|\||[;|\n]/)) {
+		const tokens = (segment.match(SHELL_TOKEN) ?? []).map(unquote)
+		const words: string[] = []
+
+		for (let i = 0; i < tokens.length; i++) {
+			const token = tokens[i] as string
+			const redirect = token.match(/^\d?>>?(.*)$/)
+			if (redirect) {
+				const target = redirect[1] || tokens[++i]
+				if (target && !target.startsWith("&") && target !== "/dev/null") targets.push(target)
+				continue
+			}
+			words.push(token)
+		}
+
+		while (words[0] && (/^\w+=/.test(words[0]) || words[0] === "sudo")) words.shift()
+		const [program, ...args] = words
+		if (!program) continue
+		const operands = args.filter((arg) => !arg.startsWith("-"))
+
+		if (WRITE_COMMANDS.has(program)) {
+			targets.push(...operands)
+		} else if (ATTRIBUTE_COMMANDS.has(program)) {
+			// No mode operand with `--reference=file` or an option-like mode (`chmod -x file`)
+			const modeless = args.some(
+				(arg) =>
+					arg.startsWith("--reference=") || (program === "chmod" && /^-[rwxXst]+$/.test(arg)),
+			)
+			targets.push(...(modeless ? operands : operands.slice(1)))
+		} else if (COPY_COMMANDS.has(program) && operands.length > 1) {
+			targets.push(operands.at(-1) as string)
+		} else if (program === "sed" && args.some((arg) => /^(?:-[a-zA-Z]*i|--in-place)/.test(arg))) {
+			// The first operand is the sed script
+			targets.push(...operands.slice(1))
+		} else if (program === "git" && (operands[0] === "rm" || operands[0] === "mv")) {
+			targets.push(...operands.slice(1))
+		}
+	}
+	return [...new Set(targets)]
+}
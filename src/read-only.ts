@@ -0,0 +1,238 @@
+/**
+ * Read-only enforcement for analysis agents.
+ *
+ * The planner's role is pure analysis. Its agent file disables the
+ * file-editing tools, and the plugin additionally rejects edit tool calls
+ * and mutating shell commands from its sessions, so a misbehaving planner
+ * cannot change the codebase it is analyzing.
+ */
+
+import { FILE_EDIT_TOOLS } from "./file-guard"
+import { getShellWriteTargets } from "./policy"
+
+/** `git` subcommands that change the repository, index or working tree */
+const MUTATING_GIT_COMMANDS = new Set([
+	"add",
+	"am",
+	"apply",
+	"branch",
+	"checkout",
+	"cherry-pick",
+	"clean",
+	"commit",
+	"merge",
+	"mv",
+	"pull",
+	"push",
+	"rebase",
+	"reset",
+	"restore",
+	"revert",
+	"rm",
+	"stash",
+	"switch",
+	"tag",
+])
+
+/** Options that put `git branch` and `git tag` in list (or verify) mode */
+const GIT_LISTING_OPTIONS: Record<string, Set<string>> = {
+	branch: new Set([
+		"-a",
+		"--all",
+		"-r",
+		"--remotes",
+		"-l",
+		"--list",
+		"--show-current",
+		"-v",
+		"-vv",
+		"--verbose",
+		"--contains",
+		"--no-contains",
+		"--merged",
+		"--no-merged",
+		"--points-at",
+	]),
+	tag: new Set([
+		"-l",
+		"--list",
+		"-v",
+		"--verify",
+		"--contains",
+		"--no-contains",
+		"--merged",
+		"--no-merged",
+		"--points-at",
+	]),
+}
+
+/** Options that make `git branch` and `git tag` create, delete, rename or edit refs */
+const GIT_MUTATING_OPTIONS: Record<string, Set<string>> = {
+	branch: new Set([
+		"-d",
+		"-D",
+		"--delete",
+		"-m",
+		"-M",
+		"--move",
+		"-c",
+		"-C",
+		"--copy",
+		"-f",
+		"--force",
+		"-u",
+		"--set-upstream-to",
+		"--unset-upstream",
+		"--edit-description",
+	]),
+	tag: new Set(["-d", "--delete", "-a", "-s", "-u", "-f", "-m", "-F"]),
+}
+
+/** Listing options whose value is the next argument when not given with `=` */
+const GIT_LISTING_VALUE_OPTIONS = new Set([
+	"--contains",
+	"--no-contains",
+	"--merged",
+	"--no-merged",
+	"--points-at",
+	"--sort",
+	"--format",
+])
+
+/** Options after which positional arguments are name patterns to list */
+const GIT_PATTERN_OPTIONS = new Set(["-l", "--list"])
+
+/** `git stash` subcommands that only show stashes */
+const READ_ONLY_STASH_COMMANDS = new Set(["list", "show"])
+
+/** Package manager subcommands that change dependencies or lockfiles */
+const MUTATING_PACKAGE_COMMANDS = new Set([
+	"add",
+	"ci",
+	"i",
+	"install",
+	"link",
+	"remove",
+	"rm",
+	"uninstall",
+	"update",
+	"upgrade",
+])
+
+/** Package managers whose subcommands are checked */
+const PACKAGE_MANAGERS = new Set(["npm", "pnpm", "yarn", "bun", "pip", "pip3", "cargo", "go"])
+
+/**
+ * Checks whether a mutating `git` subcommand only reads: `git branch` and
+ * `git tag` without arguments or with a listing option, and `git stash list`
+ * or `git stash show`.
+ *
+ * A listing option does not make the command read-only on its own: any
+ * mutating option (including one inside a cluster like `-vD`) or a
+ * positional name that is neither an option value nor a `--list` pattern
+ * makes git change refs instead.
+ *
+ * @param subcommand - The git subcommand
+ * @param args - The arguments after the subcommand
+ * @returns Whether the command leaves the repository unchanged
+ */
+function isGitListing(subcommand: string, args: string[]): boolean {
+	if (subcommand === "stash") {
+		return READ_ONLY_STASH_COMMANDS.has(args.find((arg) => !arg.startsWith("-")) ?? "")
+	}
+	const listing = GIT_LISTING_OPTIONS[subcommand]
+	const mutating = GIT_MUTATING_OPTIONS[subcommand]
+	if (!listing || !mutating) return false
+
+	let listed = args.length === 0
+	let patterns = false
+	for (let index = 0; index < args.length; index++) {
+		const arg = args[index] ?? ""
+		if (!arg.startsWith("-")) {
+			if (!patterns) return false
+			continue
+		}
+		const name = arg.split("=")[0] ?? arg
+		// Expand short option clusters: `-vD` is `-v -D`
+		const flags = /^-[a-zA-Z]{2,}$/.test(name)
+			? [...name.slice(1)].map((flag) => `-${flag}`)
+			: [name]
+		if (flags.some((flag) => mutating.has(flag))) return false
+		if (flags.some((flag) => listing.has(flag))) listed = true
+		if (flags.some((flag) => GIT_PATTERN_OPTIONS.has(flag))) patterns = true
+		const next = args[index + 1]
+		const takesNext = GIT_LISTING_VALUE_OPTIONS.has(name) && !arg.includes("=")
+		if (takesNext && next && !next.startsWith("-")) index++
+	}
+	return listed
+}
+
+/**
+ * Explains why a shell command is not read-only.
+ *
+ * Detects commands that write files (see {@link getShellWriteTargets}),
+ * mutating `git` subcommands and package manager installs.
+ *
+ * @param command - The shell command
+ * @returns The reason, or null if the command appears read-only
+ *
+ * @example
+ * describeMutation("git log --oneline")  // null
+ * describeMutation("git commit -am wip")  // "`git commit` changes the repository"
+ */
+export function describeMutation(command: string): string | null {
+	const targets = getShellWriteTargets(command)
+	if (targets.length > 0) return `the command writes to ${targets.join(", ")}`
+
+	for (const segment of command.split(/&&|\|\||[;|\n]/)) {
+		const words = segment.trim().split(/\s+/)
+		while (words[0] && (/^\w+=/.test(words[0]) || words[0] === "sudo")) words.shift()
+		const [program, ...args] = words
+		// Skip options taking a value (`git -C dir`, `git -c key=value`)
+		const position = args.findIndex(
+			(arg, index) => !arg.startsWith("-") && !["-C", "-c"].includes(args[index - 1] ?? ""),
+		)
+		const subcommand = args[position]
+		if (!program || !subcommand) continue
+
+		if (
+			program === "git" &&
+			MUTATING_GIT_COMMANDS.has(subcommand) &&
+			!isGitListing(subcommand, args.slice(position + 1))
+		) {
+			return `\`git ${subcommand}\` changes the repository`
+		}
+		if (PACKAGE_MANAGERS.has(program) && MUTATING_PACKAGE_COMMANDS.has(subcommand)) {
+			return `\`${program} ${subcommand}\` changes dependencies`
+		}
+	}
+	return null
+}
+
+/**
+ * Checks whether a tool call is allowed for a read-only agent.
+ *
+ * @param agent - The read-only agent's name
+ * @param tool - The tool name
+ * @param args - The tool arguments
+ * @returns A message explaining the rejection, or null if the call is read-only
+ *
+ * @example
+ * checkReadOnly("opencoder-planner", "edit", { filePath: "src/a.ts" })
+ * // "opencoder-planner is read-only: the edit tool modifies files. ..."
+ */
+export function checkReadOnly(agent: string, tool: string, args: unknown): string | null {
+	let reason: string | null = null
+	if ((FILE_EDIT_TOOLS as readonly string[]).includes(tool)) {
+		reason = `the ${tool} tool modifies files`
+	} else if (tool === "bash" && args && typeof args === "object") {
+		const { command } = args as Record<string, unknown>
+		reason = typeof command === "string" ? describeMutation(command) : null
+	}
+	if (!reason) return null
+
+	return [
+		`${agent} is read-only: ${reason}.`,
+		"Analyze the codebase with read-only tools and commands (read, grep, glob, git log, git diff) and describe the changes as plan tasks for the builder instead.",
+	].join(" ")
+}
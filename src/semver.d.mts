@@ -9,52 +9,137 @@ export interface ParsedVersion {
 	major: number
 	minor: number
 	patch: number
+	/**
+	 * Prerelease identifiers, numeric ones as numbers (e.g. `["beta", 2]` for
+	 * `1.0.0-beta.2`); absent for release versions
+	 */
+	prerelease?: (string | number)[]
+	/**
+	 * Build metadata identifiers (e.g. `["build", "5"]` for `1.0.0+build.5`);
+	 * absent without build metadata, and ignored when comparing
+	 */
+	build?: string[]
 }
 
 /**
  * Parses a semver version string into its numeric components.
  *
- * @param version - The version string (e.g., "1.2.3")
+ * @param version - The version string (e.g., "1.2.3", "0.15.0-beta.2", "1.0.0+build.5")
  * @returns Parsed version object or null if invalid
  * @throws {TypeError} If version is not a string
  *
  * @example
  * parseVersion("1.2.3")  // { major: 1, minor: 2, patch: 3 }
+ * parseVersion("0.15.0-beta.2")  // { major: 0, minor: 15, patch: 0, prerelease: ["beta", 2] }
  * parseVersion("invalid")  // null
  * parseVersion(null)  // throws TypeError
  */
 export function parseVersion(version: string): ParsedVersion | null
 
 /**
- * Compares two parsed version objects.
+ * Compares two parsed version objects by semver 2.0 precedence:
+ * MAJOR.MINOR.PATCH first, then prerelease identifiers (`1.0.0-beta` <
+ * `1.0.0`). Build metadata is ignored.
  *
  * @param a - First version
  * @param b - Second version
  * @returns -1 if a < b, 0 if a == b, 1 if a > b
  * @throws {TypeError} If a or b is not a valid ParsedVersion object with numeric major, minor, and patch properties
+ * @throws {TypeError} If a or b has a prerelease property that is not an array
  *
  * @example
  * compareVersions({ major: 1, minor: 0, patch: 0 }, { major: 2, minor: 0, patch: 0 })  // -1
  * compareVersions({ major: 1, minor: 0, patch: 0 }, { major: 1, minor: 0, patch: 0 })  // 0
  * compareVersions({ major: 2, minor: 0, patch: 0 }, { major: 1, minor: 0, patch: 0 })  // 1
+ * compareVersions(parseVersion("1.0.0-beta.2"), parseVersion("1.0.0"))  // -1
  * compareVersions({}, {})  // throws TypeError
  */
 export function compareVersions(a: ParsedVersion, b: ParsedVersion): -1 | 0 | 1
 
+/**
+ * A single comparison against a version, e.g. `>=1.2.0`.
+ */
+export interface Comparator {
+	/** The comparison */
+	operator: "<" | "<=" | ">" | ">=" | "="
+	/** The version compared against */
+	version: ParsedVersion
+}
+
+/**
+ * A parsed range: a union (`||`) of comparator sets, each satisfied when all
+ * of its comparators are. An empty comparator set matches any version.
+ */
+export type ParsedRange = Comparator[][]
+
+/**
+ * Options for range matching.
+ */
+export interface RangeOptions {
+	/**
+	 * Let prerelease versions match any range covering them, instead of only
+	 * ranges naming a prerelease of the same MAJOR.MINOR.PATCH (npm's
+	 * `includePrerelease`)
+	 */
+	includePrerelease?: boolean
+}
+
+/**
+ * Parses an npm-style version range.
+ *
+ * Supports comparator sets (`>=0.2.0 <1.0.0`), `||` unions, hyphen ranges
+ * (`1.2.3 - 1.4.0`), X-ranges and partial versions (`1.x`, `1.2`, `*`), and
+ * the `^`, `~`, `>=`, `>`, `<=`, `<` and `=` operators, on versions that may
+ * have prerelease identifiers (`>=1.0.0-beta.2`).
+ *
+ * @param range - The range
+ * @param options - Range matching options
+ * @returns The comparator sets
+ * @throws {TypeError} If range is not a string
+ * @throws {Error} If the range is malformed, with a message naming the problem
+ *
+ * @example
+ * parseRange(">=0.2.0 <1.0.0")
+ * // [[{ operator: ">=", version: { major: 0, minor: 2, patch: 0 } },
+ * //   { operator: "<", version: { major: 1, minor: 0, patch: 0 } }]]
+ */
+export function parseRange(range: string, options?: RangeOptions): ParsedRange
+
+/**
+ * Checks that a range can be parsed.
+ *
+ * @param range - The range
+ * @returns Validation result with the parse error
+ * @throws {TypeError} If range is not a string
+ *
+ * @example
+ * validateRange(">=0.2.0 <1.0.0")  // { valid: true }
+ * validateRange(">>1.0.0")  // { valid: false, error: 'invalid version ">1.0.0" in ">>1.0.0"' }
+ */
+export function validateRange(range: string): { valid: boolean; error?: string }
+
 /**
  * Checks if a version satisfies a semver range requirement.
  *
- * Supports common semver range patterns:
+ * Supports npm range syntax (see {@link parseRange}):
  * - Exact version: "1.0.0" (must match exactly)
- * - Greater than or equal: ">=1.0.0"
- * - Greater than: ">1.0.0"
- * - Less than or equal: "<=1.0.0"
- * - Less than: "<1.0.0"
+ * - Comparators: ">=1.0.0", ">1.0.0", "<=1.0.0", "<1.0.0"
  * - Caret (compatible with): "^1.0.0" (>=1.0.0 and <2.0.0)
  * - Tilde (approximately): "~1.2.0" (>=1.2.0 and <1.3.0)
+ * - Comparator sets: ">=0.2.0 <1.0.0" (all must match)
+ * - Unions: "^0.3 || ^1.0" (any may match)
+ * - Hyphen ranges: "1.2.3 - 1.4.0" (inclusive)
+ * - X-ranges and partial versions: "1.x", "1.2", "*"
+ * - Prereleases: "0.15.0-beta.2" satisfies ">=0.15.0-beta.1 <0.16.0" but not
+ *   ">=0.1.0", unless `options.includePrerelease` is set
+ *
+ * Build metadata ("1.0.0+build.5") is ignored. A malformed range is not
+ * satisfied by any version; use {@link validateRange} to find out what is
+ * wrong with it.
  *
  * @param required - The required version range (e.g., ">=0.1.0", "^1.0.0")
- * @param current - The current version to check (e.g., "1.2.3")
+ * @param current - The current version to check (e.g., "1.2.3", "0.15.0-beta.2")
+ * @param options - Range matching options
  * @returns True if current version satisfies the required range
  *
  * @example
@@ -63,5 +148,13 @@ export function compareVersions(a: ParsedVersion, b: ParsedVersion): -1 | 0 | 1
  * checkVersionCompatibility("^1.0.0", "2.0.0")  // false
  * checkVersionCompatibility("~1.2.0", "1.2.5")  // true
  * checkVersionCompatibility("~1.2.0", "1.3.0")  // false
+ * checkVersionCompatibility(">=0.2.0 <1.0.0", "0.9.0")  // true
+ * checkVersionCompatibility("^0.3 || ^1.0", "1.4.0")  // true
+ * checkVersionCompatibility(">=0.1.0", "0.15.0-beta.2")  // false
+ * checkVersionCompatibility(">=0.1.0", "0.15.0-beta.2", { includePrerelease: true })  // true
  */
-export function checkVersionCompatibility(required: string, current: string): boolean
+export function checkVersionCompatibility(
+	required: string,
+	current: string,
+	options?: RangeOptions,
+): boolean
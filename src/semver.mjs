@@ -1,8 +1,11 @@
 /**
  * Semver version comparison utilities.
  *
- * This module provides functions for parsing and comparing semantic versions,
- * supporting common range patterns like ^, ~, >=, >, <=, <, and exact matching.
+ * This module provides functions for parsing and comparing semantic versions
+ * and checking them against npm-style ranges: ^, ~, >=, >, <=, <, exact
+ * versions, comparator sets, `||` unions, hyphen ranges and X-ranges.
+ * Prerelease versions (`1.0.0-beta.2`) and build metadata (`1.0.0+build.5`)
+ * follow semver 2.0 precedence and npm's prerelease range rules.
  */
 
 /**
@@ -11,14 +14,51 @@
  * @property {number} major - The major version number (breaking changes)
  * @property {number} minor - The minor version number (new features, backwards compatible)
  * @property {number} patch - The patch version number (bug fixes, backwards compatible)
+ * @property {(string | number)[]} [prerelease] - Prerelease identifiers, numeric ones as
+ *   numbers (e.g. `["beta", 2]` for `1.0.0-beta.2`); absent for release versions
+ * @property {string[]} [build] - Build metadata identifiers (e.g. `["build", "5"]` for
+ *   `1.0.0+build.5`); absent without build metadata, and ignored when comparing
  */
 
+/** Dot-separated identifiers of a prerelease or build metadata suffix */
+const IDENTIFIERS = "[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*"
+
+/** A numeric identifier; semver 2.0 forbids leading zeros */
+const NUMERIC = "0|[1-9]\\d*"
+
+/** A MAJOR.MINOR.PATCH version with optional prerelease and build metadata */
+const VERSION_PATTERN = new RegExp(
+	`^(${NUMERIC})\\.(${NUMERIC})\\.(${NUMERIC})(?:-(${IDENTIFIERS}))?(?:\\+(${IDENTIFIERS}))?$`,
+)
+
+/** A partial version whose missing or wildcard components are `x`, `X` or `*` */
+const PARTIAL_VERSION_PATTERN = new RegExp(
+	`^(${NUMERIC}|[xX*])(?:\\.(${NUMERIC}|[xX*])(?:\\.(${NUMERIC}|[xX*]))?)?$`,
+)
+
+/**
+ * Parses prerelease identifiers, turning numeric identifiers into numbers.
+ *
+ * @param {string} text - The identifiers after the `-`, e.g. "beta.2"
+ * @returns {(string | number)[] | null} The identifiers, or null if a numeric
+ *   identifier has a leading zero (not allowed by semver 2.0)
+ */
+function parsePrerelease(text) {
+	const identifiers = text.split(".")
+	if (identifiers.some((id) => /^0\d+$/.test(id))) return null
+	return identifiers.map((id) => (/^\d+$/.test(id) ? Number.parseInt(id, 10) : id))
+}
+
 /**
  * Parses a semver version string into its numeric components.
  *
- * @param {string} version - The version string (e.g., "1.2.3")
+ * @param {string} version - The version string (e.g., "1.2.3", "0.15.0-beta.2", "1.0.0+build.5")
  * @returns {ParsedVersion | null} Parsed version or null if invalid
  * @throws {TypeError} If version is not a string
+ *
+ * @example
+ * parseVersion("1.2.3")  // { major: 1, minor: 2, patch: 3 }
+ * parseVersion("0.15.0-beta.2")  // { major: 0, minor: 15, patch: 0, prerelease: ["beta", 2] }
  */
 export function parseVersion(version) {
 	if (typeof version !== "string") {
@@ -26,12 +66,16 @@ export function parseVersion(version) {
 			`parseVersion: version must be a string, got ${version === null ? "null" : typeof version}`,
 		)
 	}
-	const match = version.match(/^(\d+)\.(\d+)\.(\d+)$/)
+	const match = version.match(VERSION_PATTERN)
 	if (!match) return null
+	const prerelease = match[4] === undefined ? undefined : parsePrerelease(match[4])
+	if (prerelease === null) return null
 	return {
 		major: Number.parseInt(match[1], 10),
 		minor: Number.parseInt(match[2], 10),
 		patch: Number.parseInt(match[3], 10),
+		...(prerelease ? { prerelease } : {}),
+		...(match[5] === undefined ? {} : { build: match[5].split(".") }),
 	}
 }
 
@@ -48,6 +92,7 @@ export function parseVersion(version) {
  * @throws {TypeError} If value is null or undefined
  * @throws {TypeError} If value is not an object
  * @throws {TypeError} If value lacks numeric major, minor, or patch properties
+ * @throws {TypeError} If value has a prerelease property that is not an array
  *
  * @example
  * // Valid ParsedVersion - passes silently
@@ -80,10 +125,40 @@ function validateParsedVersion(value, paramName) {
 			`compareVersions: ${paramName} must have numeric major, minor, and patch properties`,
 		)
 	}
+	if (v.prerelease !== undefined && !Array.isArray(v.prerelease)) {
+		throw new TypeError(`compareVersions: ${paramName} must have an array prerelease property`)
+	}
+}
+
+/**
+ * Compares prerelease identifiers by semver 2.0 precedence: a release ranks
+ * above its prereleases, numeric identifiers rank below alphanumeric ones,
+ * and a longer list ranks above its prefix.
+ *
+ * @param {(string | number)[]} a - First prerelease identifiers (empty for a release)
+ * @param {(string | number)[]} b - Second prerelease identifiers (empty for a release)
+ * @returns {-1 | 0 | 1} -1 if a < b, 0 if a == b, 1 if a > b
+ */
+function comparePrerelease(a, b) {
+	if (a.length === 0 || b.length === 0) {
+		return a.length === b.length ? 0 : a.length === 0 ? 1 : -1
+	}
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		const x = a[i]
+		const y = b[i]
+		if (x === y) continue
+		if (typeof x === "number" && typeof y === "number") return x < y ? -1 : 1
+		if (typeof x === "number") return -1
+		if (typeof y === "number") return 1
+		return x < y ? -1 : 1
+	}
+	return a.length === b.length ? 0 : a.length < b.length ? -1 : 1
 }
 
 /**
- * Compares two parsed version objects.
+ * Compares two parsed version objects by semver 2.0 precedence:
+ * MAJOR.MINOR.PATCH first, then prerelease identifiers (`1.0.0-beta` <
+ * `1.0.0`). Build metadata is ignored.
  *
  * @param {ParsedVersion} a - First version
  * @param {ParsedVersion} b - Second version
@@ -96,23 +171,346 @@ export function compareVersions(a, b) {
 	if (a.major !== b.major) return a.major < b.major ? -1 : 1
 	if (a.minor !== b.minor) return a.minor < b.minor ? -1 : 1
 	if (a.patch !== b.patch) return a.patch < b.patch ? -1 : 1
-	return 0
+	return comparePrerelease(a.prerelease ?? [], b.prerelease ?? [])
+}
+
+/**
+ * A single comparison against a version, e.g. `>=1.2.0`.
+ * @typedef {Object} Comparator
+ * @property {"<" | "<=" | ">" | ">=" | "="} operator - The comparison
+ * @property {ParsedVersion} version - The version compared against
+ */
+
+/**
+ * A parsed range: a union (`||`) of comparator sets, each satisfied when all
+ * of its comparators are. An empty comparator set matches any version.
+ * @typedef {Comparator[][]} ParsedRange
+ */
+
+/**
+ * Options for range matching.
+ * @typedef {Object} RangeOptions
+ * @property {boolean} [includePrerelease] - Let prerelease versions match any range
+ *   covering them, instead of only ranges naming a prerelease of the same
+ *   MAJOR.MINOR.PATCH (npm's `includePrerelease`)
+ */
+
+/**
+ * A version with missing or wildcard (`x`, `X`, `*`) components as null,
+ * e.g. `1.x` is `{ major: 1, minor: null, patch: null }`. Only full
+ * versions can have prerelease identifiers.
+ * @typedef {Object} PartialVersion
+ * @property {number | null} major - Major version, or null for a wildcard
+ * @property {number | null} minor - Minor version, or null if missing or a wildcard
+ * @property {number | null} patch - Patch version, or null if missing or a wildcard
+ * @property {(string | number)[]} [prerelease] - Prerelease identifiers of a full version
+ */
+
+/** Operators that may prefix a version in a range, longest first */
+const RANGE_OPERATORS = ["<=", ">=", "~>", "<", ">", "=", "~", "^"]
+
+/**
+ * Parses a possibly partial version such as `1`, `1.2`, `1.x`, `v1.2.3` or
+ * `1.2.3-beta.1` (build metadata is dropped, as it never affects matching).
+ *
+ * @param {string} text - The version text
+ * @returns {PartialVersion | null} The version, or null if invalid
+ */
+function parsePartialVersion(text) {
+	const version = text.replace(/^v/, "")
+	const full = parseVersion(version)
+	if (full) {
+		const { major, minor, patch, prerelease } = full
+		return { major, minor, patch, ...(prerelease ? { prerelease } : {}) }
+	}
+	const match = version.match(PARTIAL_VERSION_PATTERN)
+	if (!match) return null
+	/** @type {(number | null)[]} */
+	const parts = []
+	for (const part of match.slice(1, 4)) {
+		// Everything after a wildcard is a wildcard too: 1.x.3 is 1.x
+		const wildcard = part === undefined || /^[xX*]$/.test(part) || parts.includes(null)
+		parts.push(wildcard ? null : Number.parseInt(part, 10))
+	}
+	return { major: parts[0], minor: parts[1], patch: parts[2] }
+}
+
+/**
+ * Creates a comparator.
+ *
+ * @param {Comparator["operator"]} operator - The comparison
+ * @param {number} major - Major version
+ * @param {number} minor - Minor version
+ * @param {number} patch - Patch version
+ * @param {(string | number)[]} [prerelease] - Prerelease identifiers
+ * @returns {Comparator} The comparator
+ */
+function comparator(operator, major, minor, patch, prerelease) {
+	return { operator, version: { major, minor, patch, ...(prerelease ? { prerelease } : {}) } }
+}
+
+/**
+ * The lowest prerelease, for bounds that must exclude every prerelease of a
+ * version: `<2.0.0-0` is below `2.0.0-alpha`, while `<2.0.0` is not.
+ */
+const LOWEST = [0]
+
+/** A comparator no version satisfies, for ranges like `<0.0.0` or `>*` */
+const NOTHING = comparator("<", 0, 0, 0)
+
+/**
+ * Turns an operator and a partial version into plain comparators, following
+ * npm's rules for X-ranges, tilde and caret ranges. Upper bounds created for
+ * X-ranges, tilde and caret ranges exclude the prereleases of the bound
+ * (`^1.2.3` is `>=1.2.3 <2.0.0-0`), and with `includePrerelease` the lower
+ * bounds of X-ranges include the prereleases of the bound.
+ *
+ * @param {string} operator - The operator ("" for none)
+ * @param {PartialVersion} partial - The version
+ * @param {boolean} includePrerelease - Whether prereleases match any covering range
+ * @returns {Comparator[]} The comparators (none for a range matching anything)
+ */
+function toComparators(operator, partial, includePrerelease) {
+	const { major, minor, patch, prerelease } = partial
+	if (major === null) {
+		return operator === "<" || operator === ">" ? [NOTHING] : []
+	}
+	const lowest = includePrerelease ? LOWEST : undefined
+	if (minor === null || patch === null) {
+		// Next version past the X-range: 1 -> 2.0.0, 1.2 -> 1.3.0
+		const [nextMajor, nextMinor] = minor === null ? [major + 1, 0] : [major, minor + 1]
+		const lower = comparator(">=", major, minor ?? 0, 0, lowest)
+		const upper = comparator("<", nextMajor, nextMinor, 0, LOWEST)
+		switch (operator) {
+			case ">":
+				return [comparator(">=", nextMajor, nextMinor, 0, lowest)]
+			case ">=":
+				return [lower]
+			case "<":
+				return [comparator("<", major, minor ?? 0, 0, LOWEST)]
+			case "<=":
+				return [upper]
+			case "^":
+				// ^0.2 -> <0.3.0, ^0 and ^1.2 -> <next major
+				return major === 0 && minor !== null
+					? [lower, upper]
+					: [lower, comparator("<", major + 1, 0, 0, LOWEST)]
+			default:
+				// "", "=", "~" and "~>": ~1 -> <2.0.0, ~1.2 -> <1.3.0
+				return [lower, upper]
+		}
+	}
+	switch (operator) {
+		case "":
+		case "=":
+			return [comparator("=", major, minor, patch, prerelease)]
+		case "~":
+		case "~>":
+			return [
+				comparator(">=", major, minor, patch, prerelease),
+				comparator("<", major, minor + 1, 0, LOWEST),
+			]
+		case "^": {
+			const upper =
+				major > 0
+					? comparator("<", major + 1, 0, 0, LOWEST)
+					: minor > 0
+						? comparator("<", 0, minor + 1, 0, LOWEST)
+						: comparator("<", 0, 0, patch + 1, LOWEST)
+			return [comparator(">=", major, minor, patch, prerelease), upper]
+		}
+		default:
+			return [
+				comparator(
+					/** @type {Comparator["operator"]} */ (operator),
+					major,
+					minor,
+					patch,
+					prerelease,
+				),
+			]
+	}
+}
+
+/**
+ * Parses a hyphen range such as `1.2.3 - 1.4`: inclusive of both ends, with
+ * a partial upper end covering its whole X-range. With `includePrerelease`,
+ * a full lower end also covers its own prereleases (`>=1.2.3-0`), as in npm.
+ *
+ * @param {string} from - The lower end
+ * @param {string} to - The upper end
+ * @param {boolean} includePrerelease - Whether prereleases match any covering range
+ * @returns {Comparator[]} The comparators
+ * @throws {Error} If either end is not a version
+ */
+function parseHyphenRange(from, to, includePrerelease) {
+	const lower = parsePartialVersion(from)
+	if (!lower) throw new Error(`invalid version "${from}" in hyphen range`)
+	const upper = parsePartialVersion(to)
+	if (!upper) throw new Error(`invalid version "${to}" in hyphen range`)
+	const full = lower.patch !== null && !lower.prerelease
+	return [
+		...toComparators(
+			">=",
+			includePrerelease && full ? { ...lower, prerelease: LOWEST } : lower,
+			includePrerelease,
+		),
+		...toComparators("<=", upper, includePrerelease),
+	]
+}
+
+/**
+ * Parses an npm-style version range.
+ *
+ * Supports comparator sets (`>=0.2.0 <1.0.0`), `||` unions, hyphen ranges
+ * (`1.2.3 - 1.4.0`), X-ranges and partial versions (`1.x`, `1.2`, `*`), and
+ * the `^`, `~`, `>=`, `>`, `<=`, `<` and `=` operators, on versions that may
+ * have prerelease identifiers (`>=1.0.0-beta.2`).
+ *
+ * @param {string} range - The range
+ * @param {RangeOptions} [options] - Range matching options
+ * @returns {ParsedRange} The comparator sets
+ * @throws {TypeError} If range is not a string
+ * @throws {Error} If the range is malformed, with a message naming the problem
+ *
+ * @example
+ * parseRange(">=0.2.0 <1.0.0")
+ * // [[{ operator: ">=", version: { major: 0, minor: 2, patch: 0 } },
+ * //   { operator: "<", version: { major: 1, minor: 0, patch: 0 } }]]
+ */
+export function parseRange(range, options = {}) {
+	if (typeof range !== "string") {
+		throw new TypeError(
+			`parseRange: range must be a string, got ${range === null ? "null" : typeof range}`,
+		)
+	}
+	if (range.trim() === "") throw new Error("range is empty")
+	const { includePrerelease = false } = options
+
+	return range.split("||").map((alternative) => {
+		const text = alternative.trim()
+		if (text === "") throw new Error('empty range next to "||"')
+
+		const hyphen = text.match(/^(\S+)\s+-\s+(\S+)$/)
+		if (hyphen) return parseHyphenRange(hyphen[1], hyphen[2], includePrerelease)
+
+		// Allow whitespace between an operator and its version: ">= 1.2.3"
+		const tokens = text.replace(/(<=|>=|~>|<|>|=|~|\^)\s+/g, "$1").split(/\s+/)
+		return tokens.flatMap((token) => {
+			const operator = RANGE_OPERATORS.find((op) => token.startsWith(op)) ?? ""
+			const versionText = token.slice(operator.length)
+			if (versionText === "") {
+				throw new Error(
+					operator ? `expected a version after "${operator}"` : `unexpected "${token}"`,
+				)
+			}
+			const partial = parsePartialVersion(versionText)
+			if (!partial) {
+				throw new Error(
+					operator
+						? `invalid version "${versionText}" in "${token}"`
+						: `invalid version "${token}"`,
+				)
+			}
+			return toComparators(operator, partial, includePrerelease)
+		})
+	})
+}
+
+/**
+ * Checks that a range can be parsed.
+ *
+ * @param {string} range - The range
+ * @returns {{ valid: boolean, error?: string }} Validation result with the parse error
+ * @throws {TypeError} If range is not a string
+ *
+ * @example
+ * validateRange(">=0.2.0 <1.0.0")  // { valid: true }
+ * validateRange(">>1.0.0")  // { valid: false, error: 'invalid version ">1.0.0" in ">>1.0.0"' }
+ */
+export function validateRange(range) {
+	if (typeof range !== "string") {
+		throw new TypeError(
+			`validateRange: range must be a string, got ${range === null ? "null" : typeof range}`,
+		)
+	}
+	try {
+		parseRange(range)
+		return { valid: true }
+	} catch (err) {
+		return { valid: false, error: err.message }
+	}
+}
+
+/**
+ * Checks if a version satisfies a comparator.
+ *
+ * @param {ParsedVersion} version - The version
+ * @param {Comparator} comp - The comparator
+ * @returns {boolean} True if the comparison holds
+ */
+function satisfiesComparator(version, { operator, version: target }) {
+	const order = compareVersions(version, target)
+	switch (operator) {
+		case "<":
+			return order < 0
+		case "<=":
+			return order <= 0
+		case ">":
+			return order > 0
+		case ">=":
+			return order >= 0
+		default:
+			return order === 0
+	}
+}
+
+/**
+ * Checks if a version satisfies every comparator of a set.
+ *
+ * Like npm, a prerelease version only satisfies a set that names a
+ * prerelease of the same MAJOR.MINOR.PATCH (`1.0.0-beta.3` satisfies
+ * `>=1.0.0-beta.1` but not `>=0.9.0`), unless `includePrerelease` is set.
+ *
+ * @param {ParsedVersion} version - The version
+ * @param {Comparator[]} set - The comparator set
+ * @param {boolean} includePrerelease - Whether prereleases match any covering range
+ * @returns {boolean} True if the version satisfies the set
+ */
+function satisfiesSet(version, set, includePrerelease) {
+	if (!set.every((comp) => satisfiesComparator(version, comp))) return false
+	if (includePrerelease || !version.prerelease) return true
+	return set.some(
+		({ version: bound }) =>
+			bound.prerelease !== undefined &&
+			bound.major === version.major &&
+			bound.minor === version.minor &&
+			bound.patch === version.patch,
+	)
 }
 
 /**
  * Checks if a version satisfies a semver range requirement.
  *
- * Supports common semver range patterns:
+ * Supports npm range syntax (see {@link parseRange}):
  * - Exact version: "1.0.0" (must match exactly)
- * - Greater than or equal: ">=1.0.0"
- * - Greater than: ">1.0.0"
- * - Less than or equal: "<=1.0.0"
- * - Less than: "<1.0.0"
+ * - Comparators: ">=1.0.0", ">1.0.0", "<=1.0.0", "<1.0.0"
  * - Caret (compatible with): "^1.0.0" (>=1.0.0 and <2.0.0)
  * - Tilde (approximately): "~1.2.0" (>=1.2.0 and <1.3.0)
+ * - Comparator sets: ">=0.2.0 <1.0.0" (all must match)
+ * - Unions: "^0.3 || ^1.0" (any may match)
+ * - Hyphen ranges: "1.2.3 - 1.4.0" (inclusive)
+ * - X-ranges and partial versions: "1.x", "1.2", "*"
+ * - Prereleases: "0.15.0-beta.2" satisfies ">=0.15.0-beta.1 <0.16.0" but not
+ *   ">=0.1.0", unless `options.includePrerelease` is set
+ *
+ * Build metadata ("1.0.0+build.5") is ignored. A malformed range is not
+ * satisfied by any version; use {@link validateRange} to find out what is
+ * wrong with it.
  *
  * @param {string} required - The required version range (e.g., ">=0.1.0", "^1.0.0")
- * @param {string} current - The current version to check (e.g., "1.2.3")
+ * @param {string} current - The current version to check (e.g., "1.2.3", "0.15.0-beta.2")
+ * @param {RangeOptions} [options] - Range matching options
  * @returns {boolean} True if current version satisfies the required range
  *
  * @example
@@ -121,9 +519,13 @@ export function compareVersions(a, b) {
  * checkVersionCompatibility("^1.0.0", "2.0.0")  // false
  * checkVersionCompatibility("~1.2.0", "1.2.5")  // true
  * checkVersionCompatibility("~1.2.0", "1.3.0")  // false
+ * checkVersionCompatibility(">=0.2.0 <1.0.0", "0.9.0")  // true
+ * checkVersionCompatibility("^0.3 || ^1.0", "1.4.0")  // true
+ * checkVersionCompatibility(">=0.1.0", "0.15.0-beta.2")  // false
+ * checkVersionCompatibility(">=0.1.0", "0.15.0-beta.2", { includePrerelease: true })  // true
  * @throws {TypeError} If required or current is not a non-empty string
  */
-export function checkVersionCompatibility(required, current) {
+export function checkVersionCompatibility(required, current, options = {}) {
 	if (typeof required !== "string") {
 		throw new TypeError(
 			`checkVersionCompatibility: required must be a string, got ${required === null ? "null" : typeof required}`,
@@ -143,68 +545,12 @@ export function checkVersionCompatibility(required, current) {
 	const currentVersion = parseVersion(current)
 	if (!currentVersion) return false
 
-	// Handle caret range: ^1.0.0 means >=1.0.0 and <2.0.0 (for major >= 1)
-	// For ^0.x.y, it means >=0.x.y and <0.(x+1).0
-	if (required.startsWith("^")) {
-		const rangeVersion = parseVersion(required.slice(1))
-		if (!rangeVersion) return false
-
-		// Must be >= the specified version
-		if (compareVersions(currentVersion, rangeVersion) < 0) return false
-
-		// For major version 0, only minor version must match
-		if (rangeVersion.major === 0) {
-			return currentVersion.major === 0 && currentVersion.minor === rangeVersion.minor
-		}
-
-		// Major version must match
-		return currentVersion.major === rangeVersion.major
-	}
-
-	// Handle tilde range: ~1.2.0 means >=1.2.0 and <1.3.0
-	if (required.startsWith("~")) {
-		const rangeVersion = parseVersion(required.slice(1))
-		if (!rangeVersion) return false
-
-		// Must be >= the specified version
-		if (compareVersions(currentVersion, rangeVersion) < 0) return false
-
-		// Major and minor must match
-		return (
-			currentVersion.major === rangeVersion.major && currentVersion.minor === rangeVersion.minor
-		)
-	}
-
-	// Handle >= operator
-	if (required.startsWith(">=")) {
-		const rangeVersion = parseVersion(required.slice(2))
-		if (!rangeVersion) return false
-		return compareVersions(currentVersion, rangeVersion) >= 0
+	const { includePrerelease = false } = options
+	let range
+	try {
+		range = parseRange(required, { includePrerelease })
+	} catch {
+		return false
 	}
-
-	// Handle > operator
-	if (required.startsWith(">")) {
-		const rangeVersion = parseVersion(required.slice(1))
-		if (!rangeVersion) return false
-		return compareVersions(currentVersion, rangeVersion) > 0
-	}
-
-	// Handle <= operator
-	if (required.startsWith("<=")) {
-		const rangeVersion = parseVersion(required.slice(2))
-		if (!rangeVersion) return false
-		return compareVersions(currentVersion, rangeVersion) <= 0
-	}
-
-	// Handle < operator
-	if (required.startsWith("<")) {
-		const rangeVersion = parseVersion(required.slice(1))
-		if (!rangeVersion) return false
-		return compareVersions(currentVersion, rangeVersion) < 0
-	}
-
-	// Handle exact version match
-	const rangeVersion = parseVersion(required)
-	if (!rangeVersion) return false
-	return compareVersions(currentVersion, rangeVersion) === 0
+	return range.some((set) => satisfiesSet(currentVersion, set, includePrerelease))
 }
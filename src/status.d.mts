@@ -0,0 +1,41 @@
+/**
+ * Type declarations for status.mjs
+ */
+
+/**
+ * State of an agent file.
+ *
+ * - `current`: installed and identical to the packaged agent
+ * - `outdated`: installed by another version and not edited since
+ * - `modified`: edited since it was installed (or installed without a manifest)
+ * - `missing`: packaged but not installed
+ * - `obsolete`: installed by this plugin but no longer packaged
+ */
+export type AgentState = "current" | "outdated" | "modified" | "missing" | "obsolete"
+
+/**
+ * Installed and packaged versions of an agent file.
+ */
+export interface AgentStatus {
+	/** File name relative to the agents directory */
+	file: string
+	/** How the installed file relates to the packaged one */
+	state: AgentState
+	/** The packaged file's frontmatter version and checksum, or null if not packaged */
+	packaged: { version?: string; sha256: string } | null
+	/**
+	 * The installed file's frontmatter version and checksum, and the package
+	 * version recorded in the manifest, or null if not installed
+	 */
+	installed: { version?: string; sha256: string; installedBy?: string } | null
+}
+
+/**
+ * Compares the installed agents with the packaged agents.
+ *
+ * @param sourceDir - The package's agents directory
+ * @param targetDir - The agents target directory
+ * @returns One status per packaged or recorded agent, sorted by file name
+ * @throws {Error} If the install manifest is invalid or an agent file cannot be read
+ */
+export function getAgentStatuses(sourceDir: string, targetDir: string): AgentStatus[]
@@ -0,0 +1,94 @@
+/**
+ * Installed agent status for the `opencoder` CLI.
+ *
+ * Compares the agents installed in a target directory with the agents
+ * packaged with this version of the plugin, using the install manifest to
+ * tell files the user has edited from files installed by another version.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "node:fs"
+import { join } from "node:path"
+import { checkInstalledFile, hashContent, readManifest } from "./manifest.mjs"
+import { parseFrontmatter } from "./paths.mjs"
+
+/**
+ * State of an agent file.
+ *
+ * - `current`: installed and identical to the packaged agent
+ * - `outdated`: installed by another version and not edited since
+ * - `modified`: edited since it was installed (or installed without a manifest)
+ * - `missing`: packaged but not installed
+ * - `obsolete`: installed by this plugin but no longer packaged
+ * @typedef {"current" | "outdated" | "modified" | "missing" | "obsolete"} AgentState
+ */
+
+/**
+ * Installed and packaged versions of an agent file.
+ * @typedef {Object} AgentStatus
+ * @property {string} file - File name relative to the agents directory
+ * @property {AgentState} state - How the installed file relates to the packaged one
+ * @property {{ version?: string, sha256: string } | null} packaged - The packaged
+ *   file's frontmatter version and checksum, or null if not packaged
+ * @property {{ version?: string, sha256: string, installedBy?: string } | null} installed -
+ *   The installed file's frontmatter version and checksum, and the package version
+ *   recorded in the manifest, or null if not installed
+ */
+
+/**
+ * Reads an agent file's frontmatter version and checksum.
+ *
+ * @param {string} filePath - Path to the agent file
+ * @returns {{ version?: string, sha256: string }} The version and checksum
+ */
+function describeFile(filePath) {
+	const content = readFileSync(filePath, "utf-8")
+	const { version } = parseFrontmatter(content).fields
+	return { ...(version ? { version } : {}), sha256: hashContent(content) }
+}
+
+/**
+ * Compares the installed agents with the packaged agents.
+ *
+ * @param {string} sourceDir - The package's agents directory
+ * @param {string} targetDir - The agents target directory
+ * @returns {AgentStatus[]} One status per packaged or recorded agent, sorted by file name
+ * @throws {Error} If the install manifest is invalid or an agent file cannot be read
+ *
+ * @example
+ * for (const { file, state } of getAgentStatuses(AGENTS_SOURCE_DIR, AGENTS_TARGET_DIR)) {
+ *   console.log(`${file}: ${state}`)
+ * }
+ */
+export function getAgentStatuses(sourceDir, targetDir) {
+	const manifest = existsSync(targetDir) ? readManifest(targetDir) : null
+	const packagedFiles = existsSync(sourceDir)
+		? readdirSync(sourceDir).filter((file) => file.endsWith(".md"))
+		: []
+	const files = [
+		...new Set([...packagedFiles, ...(manifest?.files.map((entry) => entry.file) ?? [])]),
+	].sort((a, b) => a.localeCompare(b))
+
+	return files.map((file) => {
+		const sourcePath = join(sourceDir, file)
+		const targetPath = join(targetDir, file)
+		const entry = manifest?.files.find((e) => e.file === file)
+		const packaged = packagedFiles.includes(file) ? describeFile(sourcePath) : null
+		const installed = existsSync(targetPath)
+			? { ...describeFile(targetPath), ...(entry?.version ? { installedBy: entry.version } : {}) }
+			: null
+
+		/** @type {AgentState} */
+		let state
+		if (!installed) {
+			state = "missing"
+		} else if (!packaged) {
+			state = "obsolete"
+		} else if (installed.sha256 === packaged.sha256) {
+			state = "current"
+		} else {
+			state =
+				checkInstalledFile(targetPath, entry, sourcePath) === "unmodified" ? "outdated" : "modified"
+		}
+		return { file, state, packaged, installed }
+	})
+}
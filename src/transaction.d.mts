@@ -0,0 +1,70 @@
+/**
+ * Type declarations for transaction.mjs
+ */
+
+/** Prefix of the staging directory, created next to the agents directory */
+export const STAGING_PREFIX: ".opencoder-install-"
+
+/**
+ * A set of file changes applied to a directory all at once.
+ */
+export interface InstallTransaction {
+	/** The temporary directory holding the staged files */
+	stagingDir: string
+	/**
+	 * Stages a file's new content.
+	 *
+	 * @param path - Path relative to the target directory
+	 * @param content - The new content
+	 * @returns The staged file's path (same file name as the destination)
+	 */
+	stage(path: string, content: string | Buffer): string
+	/**
+	 * Stages the removal of a file.
+	 *
+	 * @param path - Path relative to the target directory
+	 */
+	remove(path: string): void
+	/**
+	 * Applies the staged changes. If a change fails, the changes already
+	 * applied are reverted before the error is rethrown. If some of them
+	 * cannot be reverted, the thrown error lists them in its message and in
+	 * `unrestored`, and the staging directory is kept with their previous
+	 * copies.
+	 *
+	 * @returns The changed paths
+	 * @throws {Error & { unrestored?: UnrestoredFile[] }} If a change fails
+	 */
+	commit(): string[]
+	/** Discards the staged changes */
+	abort(): void
+}
+
+/**
+ * A file a failed commit could not put back.
+ */
+export interface UnrestoredFile {
+	/** Path relative to the target directory */
+	path: string
+	/** Where the previous copy is kept, if the file existed */
+	previousPath?: string
+}
+
+/**
+ * Creates an install transaction for a directory. Files are staged in a
+ * temporary directory next to it, on the same filesystem, and moved into
+ * place together on commit.
+ *
+ * @param targetDir - The directory to change (must exist)
+ * @returns The transaction
+ *
+ * @example
+ * const transaction = createInstallTransaction(AGENTS_TARGET_DIR)
+ * const stagedPath = transaction.stage("opencoder.md", content)
+ * if (validateAgentFile(stagedPath).valid) {
+ *   transaction.commit()
+ * } else {
+ *   transaction.abort()
+ * }
+ */
+export function createInstallTransaction(targetDir: string): InstallTransaction
@@ -0,0 +1,157 @@
+/**
+ * Install transactions for agent installation scripts.
+ *
+ * Copying agent files one by one can leave a half-upgraded set behind when
+ * a copy fails (e.g. a new orchestrator with an old builder). A transaction
+ * stages every file in a temporary directory on the same filesystem as the
+ * agents directory, and only moves them into place once all of them were
+ * staged. If moving a file fails, the files already moved are put back, so
+ * the agents directory holds either the complete old or the complete new set.
+ * Files that cannot be put back are reported, and their previous copies are
+ * left in the staging directory.
+ */
+
+import {
+	existsSync,
+	mkdirSync,
+	mkdtempSync,
+	readdirSync,
+	renameSync,
+	rmdirSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs"
+import { dirname, join } from "node:path"
+
+/** Prefix of the staging directory, created next to the agents directory */
+export const STAGING_PREFIX = ".opencoder-install-"
+
+/**
+ * A set of file changes applied to a directory all at once.
+ * @typedef {Object} InstallTransaction
+ * @property {string} stagingDir - The temporary directory holding the staged files
+ * @property {(path: string, content: string | Buffer) => string} stage - Stages a
+ *   file's new content and returns the staged file's path
+ * @property {(path: string) => void} remove - Stages the removal of a file
+ * @property {() => string[]} commit - Applies the staged changes and returns the changed paths
+ * @property {() => void} abort - Discards the staged changes
+ */
+
+/**
+ * A file a failed commit could not put back.
+ * @typedef {Object} UnrestoredFile
+ * @property {string} path - Path relative to the target directory
+ * @property {string} [previousPath] - Where the previous copy is kept, if the file existed
+ */
+
+/**
+ * Creates an install transaction for a directory.
+ *
+ * Paths are relative to the directory and may include subdirectories (such
+ * as the merge bases in `.opencoder-base/`). Staged files keep their file
+ * name, so they can be validated in the staging directory before commit.
+ *
+ * @param {string} targetDir - The directory to change (must exist)
+ * @returns {InstallTransaction} The transaction
+ *
+ * @example
+ * const transaction = createInstallTransaction(AGENTS_TARGET_DIR)
+ * try {
+ *   for (const file of files) {
+ *     const stagedPath = transaction.stage(file, readFileSync(join(sourceDir, file)))
+ *     if (!validateAgentFile(stagedPath).valid) throw new Error(`Invalid agent file: ${file}`)
+ *   }
+ * } catch (err) {
+ *   transaction.abort()
+ *   throw err
+ * }
+ * transaction.commit()
+ */
+export function createInstallTransaction(targetDir) {
+	const stagingDir = mkdtempSync(join(dirname(targetDir), STAGING_PREFIX))
+	/** @type {Map<string, string | null>} Staged paths, or null for removals */
+	const changes = new Map()
+
+	const cleanup = () => rmSync(stagingDir, { recursive: true, force: true })
+
+	return {
+		stagingDir,
+
+		stage(path, content) {
+			const stagedPath = join(stagingDir, "new", path)
+			mkdirSync(dirname(stagedPath), { recursive: true })
+			writeFileSync(stagedPath, content)
+			changes.set(path, stagedPath)
+			return stagedPath
+		},
+
+		remove(path) {
+			changes.set(path, null)
+		},
+
+		commit() {
+			/** Changes applied so far, with whether the path existed before */
+			const applied = []
+			try {
+				for (const [path, stagedPath] of changes) {
+					const targetPath = join(targetDir, path)
+					const previousPath = join(stagingDir, "previous", path)
+					const existed = existsSync(targetPath)
+					if (existed) {
+						mkdirSync(dirname(previousPath), { recursive: true })
+						renameSync(targetPath, previousPath)
+					}
+					applied.push({ path, targetPath, previousPath, existed })
+					if (stagedPath !== null) {
+						mkdirSync(dirname(targetPath), { recursive: true })
+						renameSync(stagedPath, targetPath)
+					}
+				}
+			} catch (err) {
+				/** @type {UnrestoredFile[]} */
+				const unrestored = []
+				for (const { path, targetPath, previousPath, existed } of applied.reverse()) {
+					try {
+						if (existed) {
+							renameSync(previousPath, targetPath)
+						} else if (existsSync(targetPath)) {
+							rmSync(targetPath)
+						}
+					} catch {
+						unrestored.push(existed ? { path, previousPath } : { path })
+					}
+				}
+				if (unrestored.length === 0) {
+					cleanup()
+					throw err
+				}
+				// Keep the staging directory, which holds the previous copies
+				const files = unrestored.map(({ path, previousPath }) =>
+					previousPath
+						? `${path} (previous copy kept at ${previousPath})`
+						: `${path} (new file left in place)`,
+				)
+				const message = err instanceof Error ? err.message : String(err)
+				throw Object.assign(
+					new Error(`${message}; could not restore ${files.join(", ")}`, { cause: err }),
+					{ unrestored },
+				)
+			}
+			cleanup()
+
+			// Remove subdirectories emptied by removals
+			for (const [path, stagedPath] of changes) {
+				const dir = dirname(join(targetDir, path))
+				if (stagedPath === null && dir !== targetDir && existsSync(dir)) {
+					if (readdirSync(dir).length === 0) rmdirSync(dir)
+				}
+			}
+			return [...changes.keys()]
+		},
+
+		abort() {
+			changes.clear()
+			cleanup()
+		},
+	}
+}
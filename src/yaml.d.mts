@@ -0,0 +1,80 @@
+/**
+ * Type declarations for yaml.mjs
+ */
+
+/** A parsed YAML value */
+export type YamlValue =
+	| null
+	| boolean
+	| number
+	| string
+	| YamlValue[]
+	| { [key: string]: YamlValue }
+
+/**
+ * A problem found while parsing.
+ */
+export interface YamlError {
+	/** What is wrong, e.g. `duplicate key "version"` */
+	message: string
+	/** 1-based line number */
+	line: number
+	/** 1-based column number */
+	column: number
+}
+
+/**
+ * A location in the source.
+ */
+export interface YamlPosition {
+	/** 1-based line number */
+	line: number
+	/** 1-based column number */
+	column: number
+}
+
+/**
+ * Result of {@link parseYaml}.
+ */
+export interface YamlDocument {
+	/** The parsed value (null for an empty document) */
+	value: YamlValue
+	/**
+	 * Every value below the root by dotted path (sequence items by index),
+	 * scalars as written without quotes and collections as ""
+	 */
+	flat: Record<string, string>
+	/**
+	 * Where each value of `flat` is written: the key of a map entry or the dash
+	 * of a sequence item (values inside a flow collection share the collection's
+	 * position)
+	 */
+	positions: Record<string, YamlPosition>
+	/** The problems found, in document order */
+	errors: YamlError[]
+}
+
+/**
+ * Parses a YAML document.
+ *
+ * Supports block maps and sequences, single-line flow collections, plain and
+ * quoted scalars, literal (`|`) and folded (`>`) block scalars, comments and
+ * CRLF line endings, with plain scalars resolved by the YAML 1.2 core schema.
+ * Errors do not throw: each problem is recorded in `errors` and the parser
+ * continues with the next line, so `value` holds everything that could be
+ * parsed.
+ *
+ * @param source - The YAML text
+ * @returns The parsed value, its values and their positions by dotted path, and the errors
+ * @throws {TypeError} If source is not a string
+ *
+ * @example
+ * parseYaml("tools:\n  write: false\ntags: [a, b]")
+ * // {
+ * //   value: { tools: { write: false }, tags: ["a", "b"] },
+ * //   flat: { tools: "", "tools.write": "false", tags: "", "tags.0": "a", "tags.1": "b" },
+ * //   positions: { tools: { line: 1, column: 1 }, "tools.write": { line: 2, column: 3 }, ... },
+ * //   errors: [],
+ * // }
+ */
+export function parseYaml(source: string): YamlDocument
@@ -0,0 +1,691 @@
+/**
+ * YAML parsing for agent frontmatter.
+ *
+ * Parses the subset of YAML that OpenCode agent files use: block maps and
+ * sequences, single-line flow collections (`[a, b]`, `{ write: false }`),
+ * plain, single- and double-quoted scalars, literal (`|`) and folded (`>`)
+ * block scalars, comments and CRLF line endings. Plain scalars are resolved
+ * with the YAML 1.2 core schema (null, booleans, integers and floats, anything
+ * else is a string). Anchors, aliases, tags and multiple documents are not
+ * supported. Unlike strict YAML, a plain scalar may start with `>` or `|` when
+ * it is not a block scalar header, so `requires: >=1.0.0` needs no quotes.
+ *
+ * The parser does not stop at the first problem: it records an error with its
+ * line and column, skips the offending line and keeps going, so one typo does
+ * not hide the rest of the document.
+ */
+
+/**
+ * A parsed YAML value.
+ * @typedef {null | boolean | number | string | YamlValue[] | { [key: string]: YamlValue }}
+ *   YamlValue
+ */
+
+/**
+ * A problem found while parsing.
+ * @typedef {Object} YamlError
+ * @property {string} message - What is wrong, e.g. `duplicate key "version"`
+ * @property {number} line - 1-based line number
+ * @property {number} column - 1-based column number
+ */
+
+/**
+ * Result of {@link parseYaml}.
+ * @typedef {Object} YamlDocument
+ * @property {YamlValue} value - The parsed value (null for an empty document)
+ * @property {Record<string, string>} flat - Every value below the root by dotted path
+ *   (sequence items by index), scalars as written without quotes and collections as ""
+ * @property {Record<string, YamlPosition>} positions - Where each value of `flat` is
+ *   written: the key of a map entry or the dash of a sequence item (values inside a
+ *   flow collection share the collection's position)
+ * @property {YamlError[]} errors - The problems found, in document order
+ */
+
+/**
+ * A location in the source.
+ * @typedef {Object} YamlPosition
+ * @property {number} line - 1-based line number
+ * @property {number} column - 1-based column number
+ */
+
+/**
+ * A parsed node, keeping the text of scalars for {@link YamlDocument.flat} and
+ * where block map entries and sequence items are written for
+ * {@link YamlDocument.positions}.
+ * @typedef {({ kind: "scalar", value: YamlValue, text: string }
+ *   | { kind: "map", entries: Map<string, Node> }
+ *   | { kind: "seq", items: Node[] }) & Partial<YamlPosition>} Node
+ */
+
+/**
+ * A source line split into its indentation and content.
+ * @typedef {Object} Line
+ * @property {number} number - 1-based line number
+ * @property {number} indent - Number of leading spaces
+ * @property {string} text - The content after the indentation, without trailing whitespace
+ * @property {string} raw - The whole line, for block scalars
+ */
+
+/**
+ * Parser state shared by the parse functions.
+ * @typedef {Object} State
+ * @property {Line[]} lines - The source lines
+ * @property {number} pos - Index of the next unread line
+ * @property {YamlError[]} errors - The problems found so far
+ */
+
+/** Escape sequences of double-quoted strings, except `\x`, `\u` and `\U` */
+const ESCAPES = {
+	0: "\0",
+	a: "\x07",
+	b: "\b",
+	t: "\t",
+	"\t": "\t",
+	n: "\n",
+	v: "\v",
+	f: "\f",
+	r: "\r",
+	e: "\x1b",
+	" ": " ",
+	'"': '"',
+	"/": "/",
+	"\\": "\\",
+	N: "\u0085",
+	_: "\u00a0",
+	L: "\u2028",
+	P: "\u2029",
+}
+
+/** Number of hex digits after `\x`, `\u` and `\U` */
+const HEX_ESCAPES = { x: 2, u: 4, U: 8 }
+
+/** Header of a block scalar: style, then chomping and indentation indicators in any order */
+const BLOCK_SCALAR_HEADER = /^([|>])(?:([+-])([1-9])?|([1-9])([+-])?)?(?:\s+#.*)?$/
+
+/**
+ * Records a parse error.
+ *
+ * @param {State} state - The parser state
+ * @param {string} message - What is wrong
+ * @param {number} line - 1-based line number
+ * @param {number} column - 1-based column number
+ */
+function addError(state, message, line, column) {
+	state.errors.push({ message, line, column })
+}
+
+/**
+ * Returns the next line with content, skipping blank and comment-only lines.
+ *
+ * @param {State} state - The parser state
+ * @returns {Line | undefined} The line, or undefined at the end of the document
+ */
+function peek(state) {
+	while (state.pos < state.lines.length) {
+		const line = state.lines[state.pos]
+		if (line.text.startsWith("\t")) {
+			addError(state, "tabs are not allowed in indentation", line.number, line.indent + 1)
+			line.text = line.text.trimStart()
+		}
+		if (line.text !== "" && !line.text.startsWith("#")) return line
+		state.pos++
+	}
+	return undefined
+}
+
+/**
+ * Whether text is a block sequence entry (`- item` or a lone `-`).
+ *
+ * @param {string} text - Line content after the indentation
+ * @returns {boolean} True for a sequence entry
+ */
+function isSeqEntry(text) {
+	return text === "-" || text.startsWith("- ")
+}
+
+/**
+ * Removes a trailing ` # comment` from plain text.
+ *
+ * @param {string} text - The text
+ * @returns {string} The text before the comment, without trailing whitespace
+ */
+function stripComment(text) {
+	if (text.startsWith("#")) return ""
+	const index = text.search(/\s#/)
+	return (index === -1 ? text : text.slice(0, index)).trimEnd()
+}
+
+/**
+ * Reads a single- or double-quoted string.
+ *
+ * @param {string} text - The text containing the string
+ * @param {number} start - Index of the opening quote
+ * @returns {{ value: string, end: number } | { error: string, offset: number }} The
+ *   unescaped string and the index after the closing quote, or what is wrong and where
+ */
+function readQuoted(text, start) {
+	const quote = text[start]
+	let value = ""
+	for (let i = start + 1; i < text.length; i++) {
+		const char = text[i]
+		if (quote === "'") {
+			if (char !== "'") value += char
+			else if (text[i + 1] === "'") value += text[i++]
+			else return { value, end: i + 1 }
+			continue
+		}
+		if (char === '"') return { value, end: i + 1 }
+		if (char !== "\\") {
+			value += char
+			continue
+		}
+		const escape = text[++i] ?? ""
+		if (Object.hasOwn(ESCAPES, escape)) {
+			value += ESCAPES[escape]
+			continue
+		}
+		const length = Object.hasOwn(HEX_ESCAPES, escape) ? HEX_ESCAPES[escape] : 0
+		const hex = text.slice(i + 1, i + 1 + length)
+		const code = Number.parseInt(hex, 16)
+		if (!length || !/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length || code > 0x10ffff) {
+			return { error: `invalid escape sequence "\\${escape}${hex}"`, offset: i - 1 }
+		}
+		value += String.fromCodePoint(code)
+		i += length
+	}
+	const style = quote === '"' ? "double" : "single"
+	return { error: `unterminated ${style}-quoted string`, offset: start }
+}
+
+/**
+ * Splits `key: value` text into the key and the offset of the value.
+ *
+ * @param {string} text - Line content after the indentation
+ * @returns {{ key: string, valueOffset: number } | null} The key and the index after
+ *   its colon, or null if the text is not a map entry
+ */
+function splitKey(text) {
+	if (isSeqEntry(text) || /^[[\]{}#|>!&*%@`]/.test(text)) return null
+	if (text.startsWith('"') || text.startsWith("'")) {
+		const quoted = readQuoted(text, 0)
+		if ("error" in quoted) return null
+		const colon = /^[ \t]*:(?=\s|$)/.exec(text.slice(quoted.end))
+		return colon ? { key: quoted.value, valueOffset: quoted.end + colon[0].length } : null
+	}
+	const colon = /:(?=\s|$)/.exec(text)
+	if (!colon) return null
+	const comment = text.search(/\s#/)
+	if (comment !== -1 && comment < colon.index) return null
+	const key = text.slice(0, colon.index).trim()
+	return key ? { key, valueOffset: colon.index + 1 } : null
+}
+
+/**
+ * Resolves a plain scalar with the YAML 1.2 core schema.
+ *
+ * @param {string} text - The scalar as written
+ * @returns {YamlValue} null, a boolean, a number, or the text itself
+ */
+function resolveScalar(text) {
+	if (/^(?:~|null|Null|NULL)?$/.test(text)) return null
+	if (/^(?:true|True|TRUE)$/.test(text)) return true
+	if (/^(?:false|False|FALSE)$/.test(text)) return false
+	if (/^0o[0-7]+$/.test(text)) return Number.parseInt(text.slice(2), 8)
+	if (/^0x[0-9a-fA-F]+$/.test(text)) return Number.parseInt(text.slice(2), 16)
+	if (/^[-+]?(?:\.\d+|\d+(?:\.\d*)?)(?:[eE][-+]?\d+)?$/.test(text)) return Number(text)
+	if (/^[-+]?\.(?:inf|Inf|INF)$/.test(text)) return text.startsWith("-") ? -Infinity : Infinity
+	if (/^\.(?:nan|NaN|NAN)$/.test(text)) return Number.NaN
+	return text
+}
+
+/**
+ * Creates a scalar node.
+ *
+ * @param {YamlValue} value - The value
+ * @param {string} text - The text for {@link YamlDocument.flat}
+ * @returns {Node} The node
+ */
+function scalar(value, text) {
+	return { kind: "scalar", value, text }
+}
+
+/**
+ * Records where a node is written.
+ *
+ * @param {Node} node - The node
+ * @param {number} line - 1-based line number of its key or dash
+ * @param {number} column - 1-based column of its key or dash
+ * @returns {Node} The node
+ */
+function at(node, line, column) {
+	node.line = line
+	node.column = column
+	return node
+}
+
+/**
+ * Parses the block at the next line: a map, a sequence or a scalar.
+ *
+ * @param {State} state - The parser state, at a line with content
+ * @param {number} parentIndent - Indentation of the enclosing node (-1 at the root)
+ * @returns {Node} The parsed node
+ */
+function parseBlock(state, parentIndent) {
+	const line = /** @type {Line} */ (peek(state))
+	if (isSeqEntry(line.text)) return parseSeq(state, line.indent)
+	if (splitKey(line.text)) return parseMap(state, line.indent)
+	state.pos++
+	return parseValue(state, line, line.text, line.indent + 1, parentIndent, false)
+}
+
+/**
+ * Parses a block map whose keys are indented by `indent` spaces.
+ *
+ * @param {State} state - The parser state, at the first entry
+ * @param {number} indent - Indentation of the keys
+ * @returns {Node} The map node
+ */
+function parseMap(state, indent) {
+	/** @type {Map<string, Node>} */
+	const entries = new Map()
+	for (let line = peek(state); line && line.indent >= indent; line = peek(state)) {
+		state.pos++
+		if (line.indent > indent) {
+			addError(state, "unexpected indentation", line.number, line.indent + 1)
+		}
+		const entry = splitKey(line.text)
+		if (!entry) {
+			const message = isSeqEntry(line.text)
+				? "expected a key: value pair, not a sequence entry"
+				: "expected a key: value pair"
+			addError(state, message, line.number, line.indent + 1)
+			continue
+		}
+		if (entries.has(entry.key)) {
+			addError(state, `duplicate key "${entry.key}"`, line.number, line.indent + 1)
+		}
+		const rest = line.text.slice(entry.valueOffset)
+		const text = rest.trimStart()
+		const column = line.indent + entry.valueOffset + rest.length - text.length + 1
+		const value = parseValue(state, line, text, column, indent, true)
+		entries.set(entry.key, at(value, line.number, line.indent + 1))
+	}
+	return { kind: "map", entries }
+}
+
+/**
+ * Parses a block sequence whose dashes are indented by `indent` spaces.
+ *
+ * @param {State} state - The parser state, at the first entry
+ * @param {number} indent - Indentation of the dashes
+ * @returns {Node} The sequence node
+ */
+function parseSeq(state, indent) {
+	/** @type {Node[]} */
+	const items = []
+	for (let line = peek(state); line && line.indent >= indent; line = peek(state)) {
+		if (line.indent === indent && !isSeqEntry(line.text)) break
+		if (line.indent > indent) {
+			addError(state, "unexpected indentation", line.number, line.indent + 1)
+			state.pos++
+			continue
+		}
+		const rest = line.text.slice(1)
+		const text = rest.trimStart()
+		const offset = line.text.length - text.length
+		if (isSeqEntry(text) || splitKey(text)) {
+			// A map or sequence starting on the dash line: parse it as if it started on its own line
+			state.lines[state.pos] = { ...line, indent: indent + offset, text }
+			items.push(at(parseBlock(state, indent), line.number, indent + 1))
+			continue
+		}
+		state.pos++
+		const value = parseValue(state, line, text, indent + offset + 1, indent, false)
+		items.push(at(value, line.number, indent + 1))
+	}
+	return { kind: "seq", items }
+}
+
+/**
+ * Parses the value of a map entry or sequence item.
+ *
+ * @param {State} state - The parser state, after the line with the value
+ * @param {Line} line - The line with the value
+ * @param {string} text - The value text on that line ("" if it is on the next lines)
+ * @param {number} column - 1-based column of the value text
+ * @param {number} indent - Indentation of the key or dash owning the value
+ * @param {boolean} sameIndentSeq - Whether a sequence at `indent` belongs to the value
+ *   (true for map values: `key:` followed by `- item` at the key's indentation)
+ * @returns {Node} The parsed node
+ */
+function parseValue(state, line, text, column, indent, sameIndentSeq) {
+	if (text === "" || text.startsWith("#")) {
+		const next = peek(state)
+		if (next && next.indent > indent) return parseBlock(state, indent)
+		if (next && sameIndentSeq && next.indent === indent && isSeqEntry(next.text)) {
+			return parseSeq(state, indent)
+		}
+		return scalar(null, "")
+	}
+	// Anything else starting with | or > is plain text, as in unquoted ranges like >=1.0.0
+	if (BLOCK_SCALAR_HEADER.test(text)) return parseBlockScalar(state, text, indent)
+	if (text.startsWith("[") || text.startsWith("{")) {
+		return parseFlowValue(state, line, text, column)
+	}
+	if (text.startsWith('"') || text.startsWith("'")) {
+		const quoted = readQuoted(text, 0)
+		if ("error" in quoted) {
+			addError(state, quoted.error, line.number, column + quoted.offset)
+			const raw = stripComment(text)
+			return scalar(raw, raw)
+		}
+		const after = text.slice(quoted.end)
+		const rest = stripComment(after).trimStart()
+		if (rest) {
+			const offset = quoted.end + after.indexOf(rest)
+			addError(state, "unexpected text after quoted string", line.number, column + offset)
+		}
+		return scalar(quoted.value, quoted.value)
+	}
+	if (/^[&*!]/.test(text)) {
+		addError(state, "anchors, aliases and tags are not supported", line.number, column)
+	}
+	return parsePlain(state, text, indent)
+}
+
+/**
+ * Parses a plain scalar, folding continuation lines indented below its key.
+ *
+ * @param {State} state - The parser state, after the first line of the scalar
+ * @param {string} text - The scalar text on its first line
+ * @param {number} indent - Indentation of the key or dash owning the scalar
+ * @returns {Node} The scalar node
+ */
+function parsePlain(state, text, indent) {
+	let value = stripComment(text)
+	let breaks = 0
+	for (let i = state.pos; i < state.lines.length; i++) {
+		const next = state.lines[i]
+		if (next.text === "") {
+			breaks++
+			continue
+		}
+		const isStructure = isSeqEntry(next.text) || splitKey(next.text)
+		if (next.indent <= indent || next.text.startsWith("#") || isStructure) break
+		value += breaks > 0 ? "\n".repeat(breaks) : " "
+		value += stripComment(next.text)
+		breaks = 0
+		state.pos = i + 1
+	}
+	return scalar(resolveScalar(value), value)
+}
+
+/**
+ * Parses a literal (`|`) or folded (`>`) block scalar.
+ *
+ * @param {State} state - The parser state, after the header line
+ * @param {string} text - The header, e.g. "|-" or ">2"
+ * @param {number} indent - Indentation of the key or dash owning the scalar
+ * @returns {Node} The scalar node
+ */
+function parseBlockScalar(state, text, indent) {
+	const header = /** @type {RegExpExecArray} */ (BLOCK_SCALAR_HEADER.exec(text))
+	const chomping = header[2] ?? header[5] ?? ""
+	const explicitIndent = header[3] ?? header[4]
+	let contentIndent = explicitIndent ? Math.max(indent, 0) + Number(explicitIndent) : undefined
+	/** @type {string[]} */
+	const lines = []
+	for (; state.pos < state.lines.length; state.pos++) {
+		const next = state.lines[state.pos]
+		const blank = next.raw.trim() === ""
+		if (!blank) {
+			contentIndent ??= next.indent
+			if (next.indent <= indent || next.indent < contentIndent) break
+		}
+		lines.push(blank ? "" : next.raw.slice(contentIndent))
+	}
+
+	let end = lines.length
+	while (end > 0 && lines[end - 1] === "") end--
+	const content = lines.slice(0, end)
+	let value = header[1] === "|" ? content.join("\n") : foldLines(content)
+	if (content.length > 0 && chomping !== "-") value += "\n"
+	if (chomping === "+") value += "\n".repeat(lines.length - end)
+	return scalar(value, value)
+}
+
+/**
+ * Folds the lines of a folded block scalar: line breaks between lines become
+ * spaces, except around blank and more-indented lines.
+ *
+ * @param {string[]} lines - The lines without the content indentation
+ * @returns {string} The folded text
+ */
+function foldLines(lines) {
+	let value = ""
+	let breaks = 0
+	/** @type {string | undefined} */
+	let previous
+	for (const line of lines) {
+		if (line === "") {
+			breaks++
+			continue
+		}
+		if (previous === undefined) value += "\n".repeat(breaks)
+		else if (previous.startsWith(" ") || line.startsWith(" ")) value += "\n".repeat(breaks + 1)
+		else value += breaks > 0 ? "\n".repeat(breaks) : " "
+		value += line
+		previous = line
+		breaks = 0
+	}
+	return value
+}
+
+/**
+ * Parses a flow collection written on a single line.
+ *
+ * @param {State} state - The parser state, after the line with the collection
+ * @param {Line} line - The line with the collection
+ * @param {string} text - The collection text, starting with `[` or `{`
+ * @param {number} column - 1-based column of the collection
+ * @returns {Node} The collection node, or the text as a string if it is malformed
+ */
+function parseFlowValue(state, line, text, column) {
+	const reader = { text, pos: 0 }
+	try {
+		const node = readFlowNode(reader)
+		if (stripComment(text.slice(reader.pos))) {
+			reader.pos += text.slice(reader.pos).search(/\S/)
+			throw new SyntaxError("unexpected text after flow collection")
+		}
+		return node
+	} catch (err) {
+		if (!(err instanceof SyntaxError)) throw err
+		addError(state, err.message, line.number, column + reader.pos)
+		const raw = stripComment(text)
+		return scalar(raw, raw)
+	}
+}
+
+/**
+ * Skips spaces in a flow collection.
+ *
+ * @param {{ text: string, pos: number }} reader - The text and current position
+ */
+function skipSpaces(reader) {
+	while (reader.text[reader.pos] === " " || reader.text[reader.pos] === "\t") reader.pos++
+}
+
+/**
+ * Reads a flow collection or scalar.
+ *
+ * @param {{ text: string, pos: number }} reader - The text and current position
+ * @returns {Node} The parsed node
+ * @throws {SyntaxError} If the text is malformed, with `reader.pos` at the problem
+ */
+function readFlowNode(reader) {
+	skipSpaces(reader)
+	const open = reader.text[reader.pos]
+	if (open !== "[" && open !== "{") return readFlowScalar(reader)
+
+	const close = open === "[" ? "]" : "}"
+	const name = open === "[" ? "flow sequence" : "flow map"
+	/** @type {Node[]} */
+	const items = []
+	/** @type {Map<string, Node>} */
+	const entries = new Map()
+	reader.pos++
+	while (true) {
+		skipSpaces(reader)
+		if (reader.text[reader.pos] === close) {
+			reader.pos++
+			return open === "[" ? { kind: "seq", items } : { kind: "map", entries }
+		}
+		if (open === "[") {
+			items.push(readFlowNode(reader))
+		} else {
+			const key = readFlowScalar(reader)
+			skipSpaces(reader)
+			let value = scalar(null, "")
+			if (reader.text[reader.pos] === ":") {
+				reader.pos++
+				skipSpaces(reader)
+				const next = reader.text[reader.pos]
+				if (next !== "," && next !== "}") value = readFlowNode(reader)
+			}
+			entries.set(key.kind === "scalar" ? key.text : "", value)
+		}
+		skipSpaces(reader)
+		const next = reader.text[reader.pos]
+		if (next === ",") reader.pos++
+		else if (next === undefined) throw new SyntaxError(`unterminated ${name}`)
+		else if (next !== close) throw new SyntaxError(`expected "," or "${close}" in ${name}`)
+	}
+}
+
+/**
+ * Reads a quoted or plain scalar in a flow collection.
+ *
+ * @param {{ text: string, pos: number }} reader - The text and current position
+ * @returns {Node} The scalar node
+ * @throws {SyntaxError} If the scalar is missing or its quotes are malformed
+ */
+function readFlowScalar(reader) {
+	const { text } = reader
+	if (text[reader.pos] === '"' || text[reader.pos] === "'") {
+		const quoted = readQuoted(text, reader.pos)
+		if ("error" in quoted) {
+			reader.pos = quoted.offset
+			throw new SyntaxError(quoted.error)
+		}
+		reader.pos = quoted.end
+		return scalar(quoted.value, quoted.value)
+	}
+	let end = reader.pos
+	for (; end < text.length; end++) {
+		const char = text[end]
+		if (",[]{}".includes(char)) break
+		if (char === ":" && /^[\s,[\]{}]?$/.test(text[end + 1] ?? "")) break
+		if (char === "#" && /\s/.test(text[end - 1] ?? "")) break
+	}
+	const value = text.slice(reader.pos, end).trimEnd()
+	if (!value) throw new SyntaxError("expected a value")
+	reader.pos += value.length
+	return scalar(resolveScalar(value), value)
+}
+
+/**
+ * Converts a node into a plain value.
+ *
+ * @param {Node} node - The node
+ * @returns {YamlValue} Maps as objects, sequences as arrays and scalars as their value
+ */
+function toValue(node) {
+	if (node.kind === "scalar") return node.value
+	if (node.kind === "seq") return node.items.map(toValue)
+	return Object.fromEntries([...node.entries].map(([key, child]) => [key, toValue(child)]))
+}
+
+/**
+ * Collects the values below a node, and where they are written, by dotted path.
+ *
+ * @param {Node} node - The node
+ * @param {string} prefix - Path of the node ("" at the root)
+ * @param {Pick<YamlDocument, "flat" | "positions">} document - The paths collected so far
+ * @returns {Pick<YamlDocument, "flat" | "positions">} `document`, with the node's
+ *   descendants added
+ */
+function flatten(node, prefix, document) {
+	/** @type {[string, Node][]} */
+	const children =
+		node.kind === "map"
+			? [...node.entries]
+			: node.kind === "seq"
+				? node.items.map((item, index) => [String(index), item])
+				: []
+	for (const [key, child] of children) {
+		const path = prefix ? `${prefix}.${key}` : key
+		document.flat[path] = child.kind === "scalar" ? child.text : ""
+		// Values inside flow collections have no position of their own
+		const { line = node.line ?? 1, column = node.column ?? 1 } = child
+		document.positions[path] = { line, column }
+		flatten(at(child, line, column), path, document)
+	}
+	return document
+}
+
+/**
+ * Parses a YAML document.
+ *
+ * Errors do not throw: each problem is recorded in `errors` and the parser
+ * continues with the next line, so `value` holds everything that could be
+ * parsed. A malformed quoted string or flow collection is kept as a plain
+ * string with its text as written.
+ *
+ * @param {string} source - The YAML text
+ * @returns {YamlDocument} The parsed value, its values and their positions by dotted
+ *   path, and the errors
+ * @throws {TypeError} If source is not a string
+ *
+ * @example
+ * parseYaml("tools:\n  write: false\ntags: [a, b]")
+ * // {
+ * //   value: { tools: { write: false }, tags: ["a", "b"] },
+ * //   flat: { tools: "", "tools.write": "false", tags: "", "tags.0": "a", "tags.1": "b" },
+ * //   positions: { tools: { line: 1, column: 1 }, "tools.write": { line: 2, column: 3 }, ... },
+ * //   errors: [],
+ * // }
+ */
+export function parseYaml(source) {
+	if (typeof source !== "string") {
+		throw new TypeError(
+			`parseYaml: source must be a string, got ${source === null ? "null" : typeof source}`,
+		)
+	}
+	/** @type {State} */
+	const state = {
+		lines: source.split(/\r\n|\r|\n/).map((raw, index) => {
+			const indent = raw.length - raw.replace(/^ +/, "").length
+			return { number: index + 1, indent, text: raw.slice(indent).trimEnd(), raw }
+		}),
+		pos: 0,
+		errors: [],
+	}
+	const first = peek(state)
+	if (!first) return { value: null, flat: {}, positions: {}, errors: state.errors }
+
+	const root = parseBlock(state, -1)
+	for (let line = peek(state); line; line = peek(state)) {
+		const message =
+			line.indent < first.indent
+				? "inconsistent indentation"
+				: `unexpected content after the top-level ${root.kind === "seq" ? "sequence" : "value"}`
+		addError(state, message, line.number, line.indent + 1)
+		const rest = parseBlock(state, -1)
+		if (root.kind === "map" && rest.kind === "map") {
+			for (const [key, child] of rest.entries) root.entries.set(key, child)
+		}
+	}
+	const { flat, positions } = flatten(root, "", { flat: {}, positions: {} })
+	return { value: toValue(root), flat, positions, errors: state.errors }
+}
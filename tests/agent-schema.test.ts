@@ -0,0 +1,213 @@
+import { describe, expect, it } from "bun:test"
+import {
+	AGENT_FRONTMATTER_SCHEMA,
+	type AgentDiagnostic,
+	DIAGNOSTIC_SEVERITIES,
+	PERMISSION_VALUES,
+	validateFrontmatter,
+} from "../src/agent-schema.mjs"
+import { parseFrontmatter, REQUIRED_FRONTMATTER_FIELDS } from "../src/paths.mjs"
+
+/** Messages of the error diagnostics */
+const errorsOf = (diagnostics: AgentDiagnostic[]) =>
+	diagnostics.filter(({ severity }) => severity === "error").map(({ message }) => message)
+
+/** Validates frontmatter lines below a valid version and requires, returning error messages */
+const validate = (extra: string) =>
+	errorsOf(
+		validateFrontmatter(
+			parseFrontmatter(`---\nversion: 1.0.0\nrequires: ">=0.1.0"\n${extra}\n---\n`),
+		),
+	)
+
+describe("agent-schema.mjs exports", () => {
+	describe("AGENT_FRONTMATTER_SCHEMA", () => {
+		it("should require exactly the REQUIRED_FRONTMATTER_FIELDS", () => {
+			const required = Object.entries(AGENT_FRONTMATTER_SCHEMA)
+				.filter(([, rule]) => rule.required)
+				.map(([name]) => name)
+			expect(required).toEqual([...REQUIRED_FRONTMATTER_FIELDS])
+		})
+
+		it("should be frozen", () => {
+			expect(Object.isFrozen(AGENT_FRONTMATTER_SCHEMA)).toBe(true)
+			expect(Object.isFrozen(AGENT_FRONTMATTER_SCHEMA.mode)).toBe(true)
+			expect(Object.isFrozen(PERMISSION_VALUES)).toBe(true)
+			expect(Object.isFrozen(DIAGNOSTIC_SEVERITIES)).toBe(true)
+		})
+	})
+
+	describe("validateFrontmatter", () => {
+		it("should accept valid frontmatter with every schema field", () => {
+			const errors = validate(`description: Plans the next tasks
+mode: subagent
+model: anthropic/claude-sonnet-4
+temperature: 0.2
+tools:
+  write: false
+permission:
+  edit: deny
+  bash:
+    "*": ask
+    "git log*": allow
+updated: 2026-01-18
+color: blue`)
+			expect(errors).toEqual([])
+		})
+
+		it("should accept the packaged agents' frontmatter", () => {
+			const frontmatter = `---
+version: 0.1.0
+description: Plans the next tasks
+requires: ">=0.1.0"
+updated: 2026-01-18
+tools:
+  write: false
+---
+`
+			expect(validateFrontmatter(parseFrontmatter(frontmatter))).toEqual([])
+		})
+
+		it("should report missing required fields in one message", () => {
+			const diagnostics = validateFrontmatter(
+				parseFrontmatter("---\nmode: primary\nrequires:\n---\n"),
+			)
+			expect(diagnostics[0]).toEqual({
+				rule: "required-field",
+				severity: "error",
+				message: "Frontmatter missing required fields: version, requires",
+				line: 1,
+				column: 1,
+				fix: 'Add to the frontmatter: version: 1.0.0, requires: ">=0.1.0"',
+			})
+			expect(errorsOf(diagnostics)).toHaveLength(1)
+		})
+
+		it("should check version, requires and updated formats as written", () => {
+			const frontmatter = `---
+version: 1.0
+requires: opencode
+updated: 2026-02-30
+---
+`
+			expect(errorsOf(validateFrontmatter(parseFrontmatter(frontmatter)))).toEqual([
+				'Frontmatter field version must be a semver version (e.g. 1.0.0), got "1.0"',
+				'Frontmatter field requires must be a version range (e.g. >=0.1.0), got "opencode": invalid version "opencode"',
+				'Frontmatter field updated must be an ISO date (e.g. 2026-01-18), got "2026-02-30"',
+			])
+		})
+
+		it("should accept prerelease versions and ISO date-times", () => {
+			expect(validate("updated: 2026-01-18T10:30:00Z")).toEqual([])
+			const frontmatter = '---\nversion: 1.0.0-beta.2\nrequires: "^1.0 || 2.x"\n---\n'
+			expect(errorsOf(validateFrontmatter(parseFrontmatter(frontmatter)))).toEqual([])
+		})
+
+		it("should collect every violation", () => {
+			expect(
+				validate(`description: [not, a, string]
+mode: main
+model: gpt
+temperature: hot
+tools:
+  write: no
+  edit: 1
+permission:
+  edit: never
+  bash:
+    "*": sometimes`),
+			).toEqual([
+				"Frontmatter field description must be a string, got a list",
+				'Frontmatter field mode must be one of primary, subagent, all, got "main"',
+				'Frontmatter field model must be provider/model (e.g. anthropic/claude-sonnet-4), got "gpt"',
+				'Frontmatter field temperature must be a number, got "hot"',
+				'Frontmatter field tools.write must be true or false, got "no"',
+				'Frontmatter field tools.edit must be true or false, got "1"',
+				'Frontmatter field permission.edit must be one of allow, ask, deny, got "never"',
+				'Frontmatter field permission.bash.* must be one of allow, ask, deny, got "sometimes"',
+			])
+		})
+
+		it("should check number ranges", () => {
+			expect(validate("temperature: 2.5")).toEqual([
+				'Frontmatter field temperature must be between 0 and 2, got "2.5"',
+			])
+			expect(validate("temperature: 0")).toEqual([])
+		})
+
+		it("should ignore empty optional fields and fields not in the schema", () => {
+			expect(validate("description:\nhidden: true\nprompt: { file: prompt.md }")).toEqual([])
+		})
+
+		it("should validate against a custom schema", () => {
+			const schema = { maxSteps: { type: "number" as const, required: true, min: 1 } }
+			expect(validateFrontmatter(parseFrontmatter("---\nmaxSteps: 0\n---\n"), schema)).toEqual([
+				{
+					rule: "field-range",
+					severity: "error",
+					message: 'Frontmatter field maxSteps must be at least 1, got "0"',
+					line: 2,
+					column: 1,
+					fix: "Set maxSteps to at least 1",
+				},
+			])
+		})
+
+		it("should report missing recommended fields with their severity", () => {
+			const diagnostics = validateFrontmatter(
+				parseFrontmatter('---\nversion: 1.0.0\nrequires: ">=0.1.0"\n---\n'),
+			)
+			expect(diagnostics.map(({ rule, severity, message }) => [rule, severity, message])).toEqual([
+				["recommended-field", "warning", "Frontmatter missing recommended field: description"],
+				["recommended-field", "info", "Frontmatter missing recommended field: updated"],
+			])
+		})
+
+		it("should locate violations at their field, with rule ids and fixes", () => {
+			const frontmatter = parseFrontmatter(`---
+version: 1.0.0
+requires: ">=0.1.0"
+model: gpt
+permission:
+  bash:
+    "*": sometimes
+tools: { write: no }
+---
+`)
+			expect(
+				validateFrontmatter(frontmatter)
+					.filter(({ severity }) => severity === "error")
+					.map(({ rule, line, column, fix }) => ({ rule, line, column, fix })),
+			).toEqual([
+				{
+					rule: "field-pattern",
+					line: 4,
+					column: 1,
+					fix: "Set model to provider/model (e.g. anthropic/claude-sonnet-4)",
+				},
+				{ rule: "field-type", line: 8, column: 1, fix: "Set tools.write to true or false" },
+				{
+					rule: "field-enum",
+					line: 7,
+					column: 5,
+					fix: "Set permission.bash.* to one of allow, ask, deny",
+				},
+			])
+		})
+
+		it("should report at 1:1 without positions", () => {
+			const schema = { mode: { type: "string" as const, enum: ["primary"] } }
+			const [diagnostic] = validateFrontmatter(
+				{ data: { mode: "main" }, fields: { mode: "main" } },
+				schema,
+			)
+			expect(diagnostic).toMatchObject({ rule: "field-enum", line: 1, column: 1 })
+		})
+
+		it("should throw TypeError without data and fields", () => {
+			expect(() =>
+				validateFrontmatter(null as unknown as Parameters<typeof validateFrontmatter>[0]),
+			).toThrow("validateFrontmatter: frontmatter must have data and fields objects")
+		})
+	})
+})
@@ -3,7 +3,13 @@ import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync
 import { tmpdir } from "node:os"
 import { join } from "node:path"
 import { agents } from "../src/metadata"
-import { AGENT_NAMES, parseFrontmatter } from "../src/paths.mjs"
+import {
+	AGENT_NAMES,
+	parseFrontmatter,
+	READ_ONLY_AGENTS,
+	READ_ONLY_FRONTMATTER,
+	validateAgentFile,
+} from "../src/paths.mjs"
 
 describe("postinstall.mjs", () => {
 	const testDir = join(tmpdir(), `opencoder-test-${Date.now()}`)
@@ -124,3 +130,24 @@ describe("agent files YAML frontmatter", () => {
 		})
 	}
 })
+
+describe("read-only agent files", () => {
+	const agentsDir = join(import.meta.dir, "..", "agents")
+
+	for (const agentName of READ_ONLY_AGENTS) {
+		it(`${agentName}.md should disable file-editing tools`, () => {
+			const content = readFileSync(join(agentsDir, `${agentName}.md`), "utf-8")
+			const { fields } = parseFrontmatter(content)
+			for (const [key, value] of Object.entries(READ_ONLY_FRONTMATTER)) {
+				expect(fields[key]).toBe(value)
+			}
+		})
+
+		it(`${agentName}.md should pass agent-specific validation`, () => {
+			expect(validateAgentFile(join(agentsDir, `${agentName}.md`))).toEqual({
+				valid: true,
+				diagnostics: [],
+			})
+		})
+	}
+})
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { homedir, tmpdir } from "node:os"
+import { join } from "node:path"
+import {
+	BACKUP_INFO_FILE,
+	BACKUPS_DIR,
+	createBackup,
+	DEFAULT_MAX_BACKUPS,
+	findBackup,
+	getBackupsDir,
+	getMaxBackups,
+	listBackups,
+	pruneBackups,
+	restoreBackup,
+} from "../src/backup.mjs"
+import { BASE_DIR, MANIFEST_FILE } from "../src/manifest.mjs"
+
+describe("backup.mjs exports", () => {
+	const testDir = join(tmpdir(), `opencoder-backup-test-${Date.now()}`)
+	const agentsDir = join(testDir, "opencode", "agents")
+	const at = (minute: number) => new Date(Date.UTC(2026, 0, 19, 12, minute))
+
+	const write = (path: string, content: string) => {
+		mkdirSync(join(agentsDir, path, ".."), { recursive: true })
+		writeFileSync(join(agentsDir, path), content)
+	}
+	const read = (path: string) => readFileSync(join(agentsDir, path), "utf-8")
+
+	const stateHome = join(testDir, "state")
+	let originalStateHome: string | undefined
+
+	beforeEach(() => {
+		mkdirSync(agentsDir, { recursive: true })
+		originalStateHome = process.env.XDG_STATE_HOME
+		process.env.XDG_STATE_HOME = stateHome
+	})
+
+	afterEach(() => {
+		if (originalStateHome === undefined) {
+			delete process.env.XDG_STATE_HOME
+		} else {
+			process.env.XDG_STATE_HOME = originalStateHome
+		}
+		rmSync(testDir, { recursive: true, force: true })
+	})
+
+	describe("getBackupsDir", () => {
+		it("should place backups in the user's state directory, per agents directory", () => {
+			const backupsDir = getBackupsDir(agentsDir)
+			expect(backupsDir).toStartWith(join(stateHome, BACKUPS_DIR))
+			expect(getBackupsDir(join(agentsDir, "..", "agents"))).toBe(backupsDir)
+			expect(getBackupsDir(join(testDir, "project", ".opencode", "agents"))).not.toBe(backupsDir)
+			expect(getBackupsDir(agentsDir, {})).toStartWith(
+				join(homedir(), ".local", "state", BACKUPS_DIR),
+			)
+		})
+	})
+
+	describe("getMaxBackups", () => {
+		it("should read the limit from OPENCODER_MAX_BACKUPS", () => {
+			expect(getMaxBackups({})).toBe(DEFAULT_MAX_BACKUPS)
+			expect(getMaxBackups({ OPENCODER_MAX_BACKUPS: "10" })).toBe(10)
+			expect(getMaxBackups({ OPENCODER_MAX_BACKUPS: "0" })).toBe(DEFAULT_MAX_BACKUPS)
+			expect(getMaxBackups({ OPENCODER_MAX_BACKUPS: "many" })).toBe(DEFAULT_MAX_BACKUPS)
+		})
+	})
+
+	describe("createBackup", () => {
+		it("should copy the agents, their merge bases and the manifest", () => {
+			write("opencoder.md", "# v1")
+			write(`${BASE_DIR}/opencoder.md.base`, "# v1 base")
+			write(MANIFEST_FILE, "{}")
+
+			const backup = createBackup(agentsDir, ["opencoder.md", "opencoder-planner.md"], at(0))
+			expect(backup).toEqual({
+				id: "2026-01-19T12-00-00-000Z",
+				createdAt: "2026-01-19T12:00:00.000Z",
+				files: ["opencoder.md", `${BASE_DIR}/opencoder.md.base`, MANIFEST_FILE],
+			})
+			const backupDir = join(getBackupsDir(agentsDir), "2026-01-19T12-00-00-000Z")
+			expect(readFileSync(join(backupDir, "opencoder.md"), "utf-8")).toBe("# v1")
+			expect(readFileSync(join(backupDir, BASE_DIR, "opencoder.md.base"), "utf-8")).toBe(
+				"# v1 base",
+			)
+			expect(JSON.parse(readFileSync(join(backupDir, BACKUP_INFO_FILE), "utf-8"))).toEqual(backup)
+		})
+
+		it("should return null when no agent files exist", () => {
+			write(MANIFEST_FILE, "{}")
+			expect(createBackup(agentsDir, ["opencoder.md"])).toBeNull()
+			expect(existsSync(getBackupsDir(agentsDir))).toBe(false)
+		})
+
+		it("should not reuse the id of an existing backup", () => {
+			write("opencoder.md", "# v1")
+			createBackup(agentsDir, ["opencoder.md"], at(0))
+			const second = createBackup(agentsDir, ["opencoder.md"], at(0))
+			expect(second?.id).toBe("2026-01-19T12-00-00-000Z-2")
+		})
+	})
+
+	describe("listBackups and pruneBackups", () => {
+		it("should list backups oldest first and ignore unfinished ones", () => {
+			write("opencoder.md", "# v1")
+			createBackup(agentsDir, ["opencoder.md"], at(5))
+			createBackup(agentsDir, ["opencoder.md"], at(1))
+			mkdirSync(join(getBackupsDir(agentsDir), "2026-01-19T12-09-00-000Z.tmp"))
+
+			expect(listBackups(agentsDir).map((b) => b.id)).toEqual([
+				"2026-01-19T12-01-00-000Z",
+				"2026-01-19T12-05-00-000Z",
+			])
+		})
+
+		it("should return an empty list when there are no backups", () => {
+			expect(listBackups(agentsDir)).toEqual([])
+		})
+
+		it("should delete the oldest backups beyond the limit", () => {
+			write("opencoder.md", "# v1")
+			for (const minute of [1, 2, 3]) createBackup(agentsDir, ["opencoder.md"], at(minute))
+
+			expect(pruneBackups(agentsDir, 2)).toEqual(["2026-01-19T12-01-00-000Z"])
+			expect(readdirSync(getBackupsDir(agentsDir)).sort()).toEqual([
+				"2026-01-19T12-02-00-000Z",
+				"2026-01-19T12-03-00-000Z",
+			])
+			expect(pruneBackups(agentsDir, 2)).toEqual([])
+		})
+
+		it("should order backups of the same millisecond by their numeric suffix", () => {
+			write("opencoder.md", "# v1")
+			for (let n = 0; n < 10; n++) createBackup(agentsDir, ["opencoder.md"], at(1))
+			const ids = [
+				"2026-01-19T12-01-00-000Z",
+				...[2, 3, 4, 5, 6, 7, 8, 9, 10].map((n) => `2026-01-19T12-01-00-000Z-${n}`),
+			]
+
+			expect(listBackups(agentsDir).map((b) => b.id)).toEqual(ids)
+			expect(pruneBackups(agentsDir, 2)).toEqual(ids.slice(0, 8))
+			expect(listBackups(agentsDir).map((b) => b.id)).toEqual(ids.slice(8))
+		})
+
+		it("should never delete preserved backups", () => {
+			write("opencoder.md", "# v1")
+			for (const minute of [1, 2, 3]) createBackup(agentsDir, ["opencoder.md"], at(minute))
+
+			expect(pruneBackups(agentsDir, 1, ["2026-01-19T12-01-00-000Z"])).toEqual([
+				"2026-01-19T12-02-00-000Z",
+			])
+			expect(listBackups(agentsDir).map((b) => b.id)).toEqual([
+				"2026-01-19T12-01-00-000Z",
+				"2026-01-19T12-03-00-000Z",
+			])
+		})
+	})
+
+	describe("findBackup", () => {
+		it("should find the latest backup or a backup by id", () => {
+			write("opencoder.md", "# v1")
+			createBackup(agentsDir, ["opencoder.md"], at(1))
+			createBackup(agentsDir, ["opencoder.md"], at(2))
+
+			expect(findBackup(agentsDir).id).toBe("2026-01-19T12-02-00-000Z")
+			expect(findBackup(agentsDir, "2026-01-19T12-01-00-000Z").id).toBe("2026-01-19T12-01-00-000Z")
+			expect(() => findBackup(agentsDir, "nope")).toThrow(
+				'Backup "nope" not found. Available backups: 2026-01-19T12-01-00-000Z, 2026-01-19T12-02-00-000Z',
+			)
+		})
+
+		it("should throw when there are no backups", () => {
+			expect(() => findBackup(agentsDir)).toThrow("No backups found in")
+		})
+	})
+
+	describe("restoreBackup", () => {
+		it("should restore the backed up files", () => {
+			write("opencoder.md", "# v1")
+			write(`${BASE_DIR}/opencoder.md.base`, "# v1")
+			write(MANIFEST_FILE, JSON.stringify({ files: [{ file: "opencoder.md", sha256: "a" }] }))
+			createBackup(agentsDir, ["opencoder.md"], at(0))
+
+			write("opencoder.md", "# v2")
+			write(`${BASE_DIR}/opencoder.md.base`, "# v2")
+			write(MANIFEST_FILE, JSON.stringify({ files: [{ file: "opencoder.md", sha256: "b" }] }))
+
+			const { backup, removed } = restoreBackup(agentsDir)
+			expect(backup.id).toBe("2026-01-19T12-00-00-000Z")
+			expect(removed).toEqual([])
+			expect(read("opencoder.md")).toBe("# v1")
+			expect(read(`${BASE_DIR}/opencoder.md.base`)).toBe("# v1")
+			expect(JSON.parse(read(MANIFEST_FILE)).files[0].sha256).toBe("a")
+			expect(readdirSync(join(testDir, "opencode"))).toEqual(["agents"])
+		})
+
+		it("should remove installed agents the backup does not contain", () => {
+			write("opencoder.md", "# v1")
+			createBackup(agentsDir, ["opencoder.md"], at(0))
+
+			write("opencoder-reviewer.md", "# new agent")
+			write(`${BASE_DIR}/opencoder-reviewer.md.base`, "# new agent")
+			write(
+				MANIFEST_FILE,
+				JSON.stringify({ files: [{ file: "opencoder-reviewer.md", sha256: "c" }] }),
+			)
+
+			const { removed } = restoreBackup(agentsDir)
+			expect(removed).toEqual([
+				"opencoder-reviewer.md",
+				`${BASE_DIR}/opencoder-reviewer.md.base`,
+				MANIFEST_FILE,
+			])
+			expect(readdirSync(agentsDir)).toEqual(["opencoder.md"])
+		})
+
+		it("should leave the current files untouched when the backup is incomplete", () => {
+			write("opencoder.md", "# v1")
+			write("opencoder-planner.md", "# planner v1")
+			createBackup(agentsDir, ["opencoder.md", "opencoder-planner.md"], at(0))
+			rmSync(join(getBackupsDir(agentsDir), "2026-01-19T12-00-00-000Z", "opencoder-planner.md"))
+			write("opencoder.md", "# v2")
+
+			expect(() => restoreBackup(agentsDir)).toThrow()
+			expect(read("opencoder.md")).toBe("# v2")
+			expect(readdirSync(agentsDir).sort()).toEqual(["opencoder-planner.md", "opencoder.md"])
+		})
+	})
+})
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "bun:test"
+import {
+	checkBudget,
+	countTokens,
+	describeExhaustion,
+	formatBudgetRejection,
+	formatBudgetStop,
+} from "../src/budget"
+
+describe("budget.ts", () => {
+	const usage = { minutes: 30.5, cycles: 2, toolCalls: 150, tokens: 80000 }
+
+	describe("checkBudget", () => {
+		it("should return null without budgets or while every budget has room left", () => {
+			expect(checkBudget({}, usage)).toBeNull()
+			expect(
+				checkBudget({ maxMinutes: 60, maxCycles: 3, maxToolCalls: 200, maxTokens: 100000 }, usage),
+			).toBeNull()
+		})
+
+		it("should report a budget once usage reaches it", () => {
+			expect(checkBudget({ maxCycles: 2 }, usage)).toEqual({
+				limit: "maxCycles",
+				used: 2,
+				max: 2,
+			})
+			expect(checkBudget({ maxTokens: 50000 }, usage)).toEqual({
+				limit: "maxTokens",
+				used: 80000,
+				max: 50000,
+			})
+		})
+
+		it("should check budgets in a fixed order", () => {
+			expect(checkBudget({ maxTokens: 1, maxMinutes: 30 }, usage)?.limit).toBe("maxMinutes")
+		})
+	})
+
+	describe("countTokens", () => {
+		it("should count input, output and reasoning tokens but not cache tokens", () => {
+			expect(
+				countTokens({ input: 100, output: 50, reasoning: 10, cache: { read: 900, write: 0 } } as {
+					input: number
+					output: number
+					reasoning: number
+				}),
+			).toBe(160)
+		})
+	})
+
+	describe("formatting", () => {
+		const exhaustion = { limit: "maxMinutes" as const, used: 61.7, max: 60 }
+
+		it("should describe the exhausted budget with its configuration key", () => {
+			expect(describeExhaustion(exhaustion)).toBe("61 of 60 minutes (budget.maxMinutes)")
+			expect(describeExhaustion({ limit: "maxToolCalls", used: 500, max: 500 })).toBe(
+				"500 of 500 tool calls (budget.maxToolCalls)",
+			)
+		})
+
+		it("should list the stop sequence", () => {
+			const stop = formatBudgetStop(exhaustion)
+			expect(stop).toStartWith("## Session Budget Exhausted")
+			expect(stop).toContain("Let the task in progress finish")
+			expect(stop).toContain("Commit any completed changes")
+			expect(stop).toContain("Push all commits")
+			expect(stop).toContain("Write a final summary")
+		})
+
+		it("should tell the orchestrator to stop when rejecting new tasks", () => {
+			expect(formatBudgetRejection(exhaustion)).toStartWith(
+				"The session budget is exhausted: 61 of 60 minutes (budget.maxMinutes). Do not start new tasks.",
+			)
+		})
+	})
+})
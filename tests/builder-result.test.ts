@@ -0,0 +1,135 @@
+import { describe, expect, it } from "bun:test"
+import { parseBuilderResult } from "../src/builder-result"
+
+describe("builder-result.ts", () => {
+	describe("parseBuilderResult", () => {
+		it("should parse a Done report", () => {
+			const outcome = parseBuilderResult(`## Done: Fix TypeScript strict mode errors
+**Files:** tsconfig.json, src/utils.ts
+**Verified:** tests ✓, lint ✓, types ✓
+**Status:** READY_FOR_NEXT_TASK
+**Note:** Enabled strict mode globally`)
+
+			expect(outcome).toEqual({
+				status: "done",
+				title: "Fix TypeScript strict mode errors",
+				files: ["tsconfig.json", "src/utils.ts"],
+				verification: [
+					{ check: "tests", status: "passed" },
+					{ check: "lint", status: "passed" },
+					{ check: "types", status: "passed" },
+				],
+				blockers: [],
+				note: "Enabled strict mode globally",
+				ready: true,
+				commit: true,
+			})
+		})
+
+		it("should parse a Blocked report", () => {
+			const outcome = parseBuilderResult(`## Blocked: Integrate Stripe payments
+**Reason:** STRIPE_SECRET_KEY environment variable not configured
+**Attempted:** Searched for .env.example, checked config files
+**Suggestion:** Add STRIPE_SECRET_KEY to environment before retrying
+**Status:** READY_FOR_NEXT_TASK`)
+
+			expect(outcome).toMatchObject({
+				status: "blocked",
+				title: "Integrate Stripe payments",
+				blockers: ["STRIPE_SECRET_KEY environment variable not configured"],
+				attempted: "Searched for .env.example, checked config files",
+				suggestion: "Add STRIPE_SECRET_KEY to environment before retrying",
+				commit: false,
+			})
+		})
+
+		it("should treat a Blocked report without status line as blocked", () => {
+			const outcome = parseBuilderResult("## Blocked: Add tests\n**Reason:** No test runner")
+			expect(outcome.status).toBe("blocked")
+			expect(outcome.ready).toBe(false)
+		})
+
+		it("should parse a Partial report", () => {
+			const outcome = parseBuilderResult(`## Partial: Add validation
+**Completed:** Create endpoint validation
+**Remaining:** Update endpoint validation
+**Reason:** Context limits reached
+**Status:** READY_FOR_NEXT_TASK`)
+
+			expect(outcome).toMatchObject({
+				status: "partial",
+				completed: "Create endpoint validation",
+				remaining: "Update endpoint validation",
+				blockers: ["Context limits reached"],
+				commit: true,
+			})
+		})
+
+		it("should record failed and unknown verification checks", () => {
+			const outcome = parseBuilderResult(`## Done: Refactor
+**Verified:** tests ✗, lint passed, manual
+**Status:** READY_FOR_NEXT_TASK`)
+			expect(outcome.verification).toEqual([
+				{ check: "tests", status: "failed" },
+				{ check: "lint", status: "passed" },
+				{ check: "manual", status: "unknown" },
+			])
+		})
+
+		it("should read the status only from the token ending each check", () => {
+			const outcome = parseBuilderResult(`## Done: Harden errors
+**Verified:** tests ✓, error handling tests ✓, lint: ok, types (failed), fail-safe checks
+**Status:** READY_FOR_NEXT_TASK`)
+			expect(outcome.verification).toEqual([
+				{ check: "tests", status: "passed" },
+				{ check: "error handling tests", status: "passed" },
+				{ check: "lint", status: "passed" },
+				{ check: "types", status: "failed" },
+				{ check: "fail-safe checks", status: "unknown" },
+			])
+		})
+
+		it("should use the last report and ignore narration and task metadata", () => {
+			const outcome = parseBuilderResult(`I looked at the code.
+
+## Done: Add tests
+**Files:** \`src/auth.test.ts\`
+**Verified:** tests ✓
+**Status:** READY_FOR_NEXT_TASK
+
+<task_metadata>
+session_id: ses_123
+</task_metadata>`)
+			expect(outcome.status).toBe("done")
+			expect(outcome.files).toEqual(["src/auth.test.ts"])
+		})
+
+		it("should treat a Done report without continuation signal as unclear", () => {
+			const outcome = parseBuilderResult("## Done: Add tests\n**Files:** a.ts\n**Verified:** tests")
+			expect(outcome.status).toBe("unclear")
+			expect(outcome.commit).toBe(false)
+		})
+
+		it("should treat a response without report as unclear", () => {
+			expect(parseBuilderResult("I made some changes.")).toEqual({
+				status: "unclear",
+				files: [],
+				verification: [],
+				blockers: [],
+				ready: false,
+				commit: false,
+			})
+		})
+
+		it("should strip brackets from the title", () => {
+			const outcome = parseBuilderResult("## Done: [Add tests]\n**Status:** READY_FOR_NEXT_TASK")
+			expect(outcome.title).toBe("Add tests")
+		})
+
+		it("should throw TypeError for non-string input", () => {
+			expect(() => parseBuilderResult(undefined as unknown as string)).toThrow(
+				"parseBuilderResult: response must be a string, got undefined",
+			)
+		})
+	})
+})
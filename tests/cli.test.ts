@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+describe("opencoder CLI", () => {
+	const testDir = join(tmpdir(), `opencoder-cli-test-${Date.now()}`)
+	const mockHomeDir = join(testDir, "home")
+	const agentsTargetDir = join(mockHomeDir, ".config", "opencode", "agents")
+
+	/** Runs the CLI with the mock home directory */
+	const runCli = async (...args: string[]) => {
+		const proc = Bun.spawn(["node", "cli.mjs", ...args], {
+			cwd: process.cwd(),
+			env: { ...process.env, HOME: mockHomeDir },
+			stdout: "pipe",
+			stderr: "pipe",
+		})
+		const exitCode = await proc.exited
+		return {
+			exitCode,
+			stdout: await new Response(proc.stdout).text(),
+			stderr: await new Response(proc.stderr).text(),
+		}
+	}
+
+	beforeEach(() => {
+		mkdirSync(mockHomeDir, { recursive: true })
+	})
+
+	afterEach(() => {
+		rmSync(testDir, { recursive: true, force: true })
+	})
+
+	it("should print usage and exit 1 without a command", async () => {
+		const { exitCode, stdout } = await runCli()
+		expect(exitCode).toBe(1)
+		expect(stdout).toContain("Usage: opencoder <command> [options]")
+	})
+
+	it("should exit 0 for --help", async () => {
+		const { exitCode, stdout } = await runCli("--help")
+		expect(exitCode).toBe(0)
+		expect(stdout).toContain("status")
+		expect(stdout).toContain("doctor")
+	})
+
+	it("should reject unknown commands", async () => {
+		const { exitCode, stderr } = await runCli("upgrade")
+		expect(exitCode).toBe(1)
+		expect(stderr).toContain('Unknown command "upgrade"')
+	})
+
+	it("should install and uninstall the agents", async () => {
+		const install = await runCli("install")
+		expect(install.exitCode).toBe(0)
+		expect(install.stdout).toContain("Successfully installed 3 agent(s)")
+		expect(existsSync(join(agentsTargetDir, "opencoder.md"))).toBe(true)
+
+		const uninstall = await runCli("uninstall")
+		expect(uninstall.exitCode).toBe(0)
+		expect(existsSync(join(agentsTargetDir, "opencoder.md"))).toBe(false)
+	})
+
+	it("should report missing agents before install and current agents after", async () => {
+		const before = await runCli("status")
+		expect(before.exitCode).toBe(0)
+		expect(before.stdout).toContain(`Agents directory: ${agentsTargetDir}`)
+		expect(before.stdout).toMatch(/opencoder\.md\s+missing/)
+		expect(before.stdout).toContain("3 agent(s) differ from the packaged version")
+
+		await runCli("install")
+		const after = await runCli("status", "--json")
+		expect(after.exitCode).toBe(0)
+		const { targetDir, agents } = JSON.parse(after.stdout)
+		expect(targetDir).toBe(agentsTargetDir)
+		expect(agents.map((agent: { state: string }) => agent.state)).toEqual([
+			"current",
+			"current",
+			"current",
+		])
+		expect(agents[2].installed.sha256).toBe(agents[2].packaged.sha256)
+	})
+
+	it("should diff modified agents against the packaged version", async () => {
+		await runCli("install")
+		const targetPath = join(agentsTargetDir, "opencoder.md")
+		writeFileSync(targetPath, `${readFileSync(targetPath, "utf-8")}\nOur team notes\n`)
+
+		const { exitCode, stdout } = await runCli("diff", "opencoder")
+		expect(exitCode).toBe(0)
+		expect(stdout).toContain(`--- ${targetPath}`)
+		expect(stdout).toContain("-Our team notes")
+
+		const unchanged = await runCli("diff", "opencoder-planner")
+		expect(unchanged.stdout).toBe("")
+	})
+
+	it("should reject unknown agents in diff", async () => {
+		const { exitCode, stderr } = await runCli("diff", "nonexistent")
+		expect(exitCode).toBe(1)
+		expect(stderr).toContain("Unknown agent(s): nonexistent.md")
+	})
+
+	it("should fail doctor until the agents are installed", async () => {
+		const before = await runCli("doctor")
+		expect(before.exitCode).toBe(1)
+		expect(before.stdout).toContain("[fail] Agents directory does not exist")
+		expect(before.stdout).toContain("Run: opencoder install")
+
+		await runCli("install")
+		const after = await runCli("doctor")
+		expect(after.exitCode).toBe(0)
+		expect(after.stdout).toContain("All checks passed")
+	})
+
+	it("should lint agent files and fail on errors", async () => {
+		const clean = await runCli("lint", "agents")
+		expect(clean.exitCode).toBe(0)
+		expect(clean.stdout).toContain("No problems found in 3 agent(s)")
+
+		const agentsDir = join(testDir, "forked")
+		mkdirSync(agentsDir, { recursive: true })
+		const content = readFileSync(join("agents", "opencoder-builder.md"), "utf-8")
+		writeFileSync(
+			join(agentsDir, "opencoder-builder.md"),
+			content.replace("## Related Agents", "## See Also"),
+		)
+		const broken = await runCli("lint", agentsDir)
+		expect(broken.exitCode).toBe(1)
+		expect(broken.stdout).toContain('error: Missing required section "## Related Agents"')
+
+		const configPath = join(testDir, "opencoder.json")
+		writeFileSync(configPath, JSON.stringify({ lint: { rules: { "required-sections": "off" } } }))
+		const configured = await runCli("lint", agentsDir, "--config", configPath, "--json")
+		expect(configured.exitCode).toBe(0)
+		expect(JSON.parse(configured.stdout).counts).toEqual({ error: 0, warning: 0, info: 0 })
+	})
+
+	it("should ask to install the agents before linting them", async () => {
+		const { exitCode, stderr } = await runCli("lint")
+		expect(exitCode).toBe(1)
+		expect(stderr).toContain(`No agents installed in ${agentsTargetDir}. Run: opencoder install`)
+
+		const missing = await runCli("lint", join(testDir, "nope.md"))
+		expect(missing.exitCode).toBe(1)
+		expect(missing.stderr).toContain(`No such file or directory: ${join(testDir, "nope.md")}`)
+	})
+
+	it("should use the directory given by --target", async () => {
+		const targetDir = join(testDir, "custom-agents")
+		await runCli("install", "--target", targetDir)
+		expect(existsSync(join(targetDir, "opencoder.md"))).toBe(true)
+
+		const { stdout } = await runCli("status", "--target", targetDir)
+		expect(stdout).toContain(`Agents directory: ${targetDir}`)
+		expect(stdout).not.toContain("differ from the packaged version")
+	})
+})
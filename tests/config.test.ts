@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { CONFIG_FILE, formatConfigRejection, loadConfig, validateConfig } from "../src/config"
+
+describe("config.ts", () => {
+	const testDir = join(tmpdir(), `opencoder-config-test-${Date.now()}`)
+
+	const writeConfig = (content: string) => {
+		mkdirSync(join(testDir, ".opencode"), { recursive: true })
+		writeFileSync(join(testDir, CONFIG_FILE), content)
+	}
+
+	beforeEach(() => {
+		mkdirSync(testDir, { recursive: true })
+	})
+
+	afterEach(() => {
+		if (existsSync(testDir)) {
+			rmSync(testDir, { recursive: true, force: true })
+		}
+	})
+
+	describe("loadConfig", () => {
+		it("should return an empty config without a config file", () => {
+			expect(loadConfig(testDir)).toEqual({})
+		})
+
+		it("should load the protected-paths policy", () => {
+			const config = {
+				protectedPaths: {
+					deny: ["secrets/**"],
+					agents: { "opencoder-builder": { allow: ["secrets/README.md"] } },
+				},
+			}
+			writeConfig(JSON.stringify(config))
+			expect(loadConfig(testDir)).toEqual(config)
+		})
+
+		it("should throw on invalid JSON", () => {
+			writeConfig("{ protectedPaths: }")
+			expect(() => loadConfig(testDir)).toThrow("Invalid JSON in")
+		})
+
+		it("should throw listing every invalid setting", () => {
+			writeConfig(JSON.stringify({ protectedPaths: { deny: ".env", allow: [1] } }))
+			expect(() => loadConfig(testDir)).toThrow(
+				"- protectedPaths.allow must be an array of glob strings\n- protectedPaths.deny must be an array of glob strings",
+			)
+		})
+	})
+
+	describe("validateConfig", () => {
+		it("should accept an empty object", () => {
+			expect(validateConfig({})).toEqual([])
+		})
+
+		it("should reject non-objects", () => {
+			expect(validateConfig([])).toEqual(["configuration must be a JSON object"])
+			expect(validateConfig(null)).toEqual(["configuration must be a JSON object"])
+		})
+
+		it("should validate per-agent rules", () => {
+			expect(validateConfig({ protectedPaths: { agents: [] } })).toEqual([
+				"protectedPaths.agents must be an object keyed by agent name",
+			])
+			expect(
+				validateConfig({ protectedPaths: { agents: { "opencoder-builder": { deny: "**" } } } }),
+			).toEqual(["protectedPaths.agents.opencoder-builder.deny must be an array of glob strings"])
+		})
+
+		it("should validate budgets", () => {
+			expect(validateConfig({ budget: { maxMinutes: 90.5, maxCycles: 3 } })).toEqual([])
+			expect(
+				validateConfig({
+					budget: { maxCycles: 1.5, maxTokens: "1000", maxToolCalls: 0, cycles: 3 },
+				}),
+			).toEqual([
+				"budget.maxCycles must be a positive integer",
+				"budget.maxTokens must be a positive integer",
+				"budget.maxToolCalls must be a positive integer",
+				"budget.cycles is not a known budget (expected maxMinutes, maxCycles, maxToolCalls, maxTokens)",
+			])
+			expect(validateConfig({ budget: 60 })).toEqual(["budget must be an object"])
+		})
+
+		it("should validate the file edit limit", () => {
+			expect(validateConfig({ maxFileEdits: 5 })).toEqual([])
+			expect(validateConfig({ maxFileEdits: 0 })).toEqual([])
+			for (const maxFileEdits of [-1, 2.5, "5"]) {
+				expect(validateConfig({ maxFileEdits })).toEqual([
+					"maxFileEdits must be a non-negative integer",
+				])
+			}
+		})
+
+		it("should validate firewall rules", () => {
+			expect(
+				validateConfig({
+					firewall: {
+						rules: [{ id: "no-publish", pattern: "npm publish", action: "block", reason: "CI" }],
+						disable: ["git-reset-hard"],
+					},
+				}),
+			).toEqual([])
+			expect(
+				validateConfig({
+					firewall: {
+						rules: [{ id: "", pattern: "(", action: "rewrite", reason: "x" }],
+						disable: "git-reset-hard",
+					},
+				}),
+			).toEqual([
+				"firewall.disable must be an array of rule IDs",
+				"firewall.rules[0].id must be a non-empty string",
+				expect.stringContaining("firewall.rules[0].pattern is not a valid regular expression"),
+				"firewall.rules[0].replacement must be a string for rewrite rules",
+			])
+			expect(validateConfig({ firewall: { rules: [{ action: "deny" }] } })).toContain(
+				"firewall.rules[0].action must be one of block, rewrite, allow",
+			)
+		})
+	})
+
+	describe("formatConfigRejection", () => {
+		it("should show the error and ask for the file to be fixed", () => {
+			const message = formatConfigRejection("Invalid JSON in /project/.opencode/opencoder.json")
+			expect(message).toStartWith("Invalid JSON in /project/.opencode/opencoder.json\n")
+			expect(message).toContain(`Stop and ask the user to fix ${CONFIG_FILE}`)
+		})
+	})
+})
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "bun:test"
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import {
+	AGENT_CONTRACTS,
+	type AgentContract,
+	CONTRACT_RULE,
+	verifyAgentContracts,
+} from "../src/contracts.mjs"
+import { AGENT_NAMES } from "../src/paths.mjs"
+
+/** The packaged agents by name */
+const packaged = (): Record<string, string> =>
+	Object.fromEntries(
+		AGENT_NAMES.map((name) => [name, readFileSync(join("agents", `${name}.md`), "utf-8")]),
+	)
+
+/** Verifies the packaged agents with one agent changed, returning each agent's messages */
+const verifyWith = (name: string, change: (content: string) => string) => {
+	const agents = packaged()
+	agents[name] = change(agents[name] ?? "")
+	return Object.fromEntries(
+		Object.entries(verifyAgentContracts(agents)).map(([agent, diagnostics]) => [
+			agent,
+			diagnostics.map(({ message }) => message),
+		]),
+	)
+}
+
+describe("contracts.mjs exports", () => {
+	describe("AGENT_CONTRACTS", () => {
+		it("should be frozen and name only packaged agents", () => {
+			expect(Object.isFrozen(AGENT_CONTRACTS)).toBe(true)
+			for (const contract of AGENT_CONTRACTS) {
+				expect(Object.isFrozen(contract)).toBe(true)
+				expect(AGENT_NAMES as readonly string[]).toContain(contract.producer.agent)
+				expect(AGENT_NAMES as readonly string[]).toContain(contract.consumer.agent)
+			}
+		})
+	})
+
+	describe("verifyAgentContracts", () => {
+		it("should find the packaged agents keep their contracts", () => {
+			expect(verifyAgentContracts(packaged())).toEqual({
+				opencoder: [],
+				"opencoder-planner": [],
+				"opencoder-builder": [],
+			})
+		})
+
+		it("should skip contracts whose agents are not both given", () => {
+			const { opencoder = "" } = packaged()
+			const result = verifyAgentContracts({ opencoder, "opencoder-builder": "# Builder" })
+			expect(result.opencoder).toEqual([])
+			expect(result["opencoder-builder"]?.map(({ message }) => message)).toEqual([
+				"No builder-report format found in opencoder-builder.md",
+			])
+			expect(verifyAgentContracts({ "opencoder-planner": "# Planner" })).toEqual({
+				"opencoder-planner": [],
+			})
+		})
+
+		it("should report a builder report the orchestrator doesn't handle", () => {
+			const result = verifyWith("opencoder-builder", (content) =>
+				content.replaceAll("## Done:", "## Finished:"),
+			)
+			expect(result["opencoder-builder"]).toEqual([
+				'"## Finished:" output of opencoder-builder is not handled by opencoder',
+				'"## Finished:" output of opencoder-builder is not handled by opencoder',
+				'"## Finished:" output of opencoder-builder is not handled by opencoder',
+			])
+			expect(result.opencoder).toEqual([
+				'opencoder handles "## Done:" output, but opencoder-builder never returns it',
+			])
+		})
+
+		it("should report missing fields and changed signals at the report heading", () => {
+			const agents = packaged()
+			const builder = (agents["opencoder-builder"] ?? "")
+				.replace("**Verified:** tests ✓, lint ✓, types ✓\n", "")
+				.replace("**Status:** READY_FOR_NEXT_TASK\n", "**Status:** DONE\n")
+			const diagnostics = verifyAgentContracts({ ...agents, "opencoder-builder": builder })[
+				"opencoder-builder"
+			]
+			const line = builder.split("\n").indexOf("## Done: [Task Title]") + 1
+			expect(diagnostics).toEqual([
+				{
+					rule: CONTRACT_RULE,
+					severity: "error",
+					message: '"## Done:" output is missing fields opencoder parses: Verified',
+					line,
+					column: 1,
+					fix: "Add **Verified:** tests ✓, lint ✓, types ✓",
+				},
+				{
+					rule: CONTRACT_RULE,
+					severity: "error",
+					message:
+						'"## Done:" output has **Status:** DONE, but opencoder expects READY_FOR_NEXT_TASK',
+					line,
+					column: 1,
+					fix: "Set **Status:** to READY_FOR_NEXT_TASK",
+				},
+			])
+		})
+
+		it("should allow extra report fields but not extra task fields", () => {
+			const builder = verifyWith("opencoder-builder", (content) =>
+				content.replace("**Files:** path/to/file1.ts", "**Commit:** abc123\n**Files:** path"),
+			)
+			expect(builder["opencoder-builder"]).toEqual([])
+
+			const planner = verifyWith("opencoder-planner", (content) =>
+				content.replace("**Files:** [Paths to modify]", "**Owner:** [Who does it]"),
+			)
+			expect(planner["opencoder-planner"]).toEqual([
+				'"### Task 1:" output is missing fields opencoder parses: Files',
+				'"### Task 1:" output has fields opencoder does not parse: Owner',
+			])
+		})
+
+		it("should report task headings at another level", () => {
+			const result = verifyWith("opencoder-planner", (content) =>
+				content.replace("### Task 1: [Short Title]", "## Task 1: [Short Title]"),
+			)
+			expect(result["opencoder-planner"]).toEqual([
+				`"## Task 1:" headings don't match the "### Task N:" headings opencoder parses`,
+			])
+		})
+
+		it("should report task headings with another separator or without a number", () => {
+			const dash = verifyWith("opencoder-planner", (content) =>
+				content.replace("### Task 1: [Short Title]", "### Task 1 - [Short Title]"),
+			)
+			expect(dash["opencoder-planner"]).toEqual([
+				`"### Task 1 -" headings don't match the "### Task N:" headings opencoder parses`,
+			])
+			const unnumbered = verifyWith("opencoder-planner", (content) =>
+				content.replace("### Task 1: [Short Title]", "### Task: [Short Title]"),
+			)
+			expect(unnumbered["opencoder-planner"]).toEqual([
+				`"### Task:" headings don't match the "### Task N:" headings opencoder parses`,
+			])
+		})
+
+		it("should report a side that shows no format", () => {
+			const result = verifyWith("opencoder", (content) => content.replaceAll("### Task", "Task"))
+			expect(result.opencoder).toEqual([
+				'No plan format found in the "## Plan Parsing" section of opencoder.md',
+			])
+			expect(result["opencoder-planner"]).toEqual([])
+		})
+
+		it("should ignore formats outside the contract's sections", () => {
+			const result = verifyWith("opencoder", (content) =>
+				content.replace(
+					"## Handling Malformed Plans",
+					"## Handling Malformed Plans\n\n```\n### Task 1: X\n**Owner:** Y\n```",
+				),
+			)
+			expect(result.opencoder).toEqual([])
+			expect(result["opencoder-planner"]).toEqual([])
+		})
+
+		it("should check custom contracts", () => {
+			const contract: AgentContract = {
+				id: "review",
+				producer: { agent: "reviewer", sections: ["Output"] },
+				consumer: { agent: "lead" },
+				heading: /^(#{2,6})\s+(Approved|Rejected):/,
+			}
+			const lead = "# Lead\n\n```\n## Approved: [Title]\n**Verdict:** SHIP_IT\n```\n"
+			const reviewer =
+				"# Reviewer\n\n## Output\n\n```\n## Approved: [Title]\n**Verdict:** LGTM\n```\n"
+			expect(verifyAgentContracts({ lead, reviewer }, [contract])).toEqual({
+				lead: [],
+				reviewer: [
+					{
+						rule: CONTRACT_RULE,
+						severity: "error",
+						message: '"## Approved:" output has **Verdict:** LGTM, but lead expects SHIP_IT',
+						line: 6,
+						column: 1,
+						fix: "Set **Verdict:** to SHIP_IT",
+					},
+				],
+			})
+		})
+	})
+})
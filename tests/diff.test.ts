@@ -0,0 +1,44 @@
+import { describe, expect, it } from "bun:test"
+import { createUnifiedDiff } from "../src/diff.mjs"
+
+describe("diff.mjs exports", () => {
+	describe("createUnifiedDiff", () => {
+		it("should return an empty string for identical content", () => {
+			expect(createUnifiedDiff("a\nb\n", "a\nb\n")).toBe("")
+			expect(createUnifiedDiff("", "")).toBe("")
+		})
+
+		it("should show changed lines with context", () => {
+			expect(
+				createUnifiedDiff("a\nb\nc\n", "a\nB\nc\n", {
+					oldLabel: "installed",
+					newLabel: "packaged",
+				}),
+			).toBe("--- installed\n+++ packaged\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n")
+		})
+
+		it("should split distant changes into separate hunks", () => {
+			const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+			const changed = [...lines]
+			changed[1] = "changed 2"
+			changed[17] = "changed 18"
+
+			const diff = createUnifiedDiff(`${lines.join("\n")}\n`, `${changed.join("\n")}\n`, {
+				context: 2,
+			})
+			expect(diff.match(/^@@.*@@$/gm)).toEqual(["@@ -1,4 +1,4 @@", "@@ -16,5 +16,5 @@"])
+		})
+
+		it("should diff against empty content", () => {
+			expect(createUnifiedDiff("", "a\nb\n")).toBe("--- a\n+++ b\n@@ -0,0 +1,2 @@\n+a\n+b\n")
+			expect(createUnifiedDiff("a\n", "")).toBe("--- a\n+++ b\n@@ -1 +0,0 @@\n-a\n")
+		})
+
+		it("should throw TypeError for non-string content", () => {
+			// @ts-expect-error - testing invalid input
+			expect(() => createUnifiedDiff(null, "")).toThrow(
+				"createUnifiedDiff: oldContent must be a string, got null",
+			)
+		})
+	})
+})
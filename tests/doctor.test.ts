@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+import { chmodSync, cpSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { formatDiagnostics, PLUGIN_NAME, runDiagnostics } from "../src/doctor.mjs"
+
+describe("doctor.mjs exports", () => {
+	const testDir = join(tmpdir(), `opencoder-doctor-test-${Date.now()}`)
+	const sourceDir = join(process.cwd(), "agents")
+	const configDir = join(testDir, "config")
+	const targetDir = join(configDir, "agents")
+	const projectDir = join(testDir, "project")
+	const env = { OPENCODE_CONFIG_DIR: configDir }
+
+	const diagnose = (opencodeVersion?: string) =>
+		runDiagnostics({ sourceDir, targetDir, opencodeVersion, env, cwd: projectDir })
+	const find = (report: ReturnType<typeof diagnose>, name: string) =>
+		report.checks.filter((check) => check.name === name)
+
+	beforeEach(() => {
+		mkdirSync(join(projectDir, ".git"), { recursive: true })
+		cpSync(sourceDir, targetDir, { recursive: true })
+		writeFileSync(
+			join(configDir, "opencode.json"),
+			JSON.stringify({ plugin: [`${PLUGIN_NAME}@1.0.0`] }),
+		)
+	})
+
+	afterEach(() => {
+		rmSync(testDir, { recursive: true, force: true })
+	})
+
+	describe("runDiagnostics", () => {
+		it("should pass a complete installation", () => {
+			const report = diagnose("1.0.0")
+			expect(report.counts).toEqual({ pass: report.checks.length, warn: 0, fail: 0 })
+			expect(find(report, "plugin-referenced")[0]?.message).toBe(
+				`Plugin is referenced in ${join(configDir, "opencode.json")}`,
+			)
+		})
+
+		it("should fail when the agents directory is missing", () => {
+			rmSync(targetDir, { recursive: true })
+			const [check] = find(diagnose(), "target-exists")
+			expect(check).toEqual({
+				name: "target-exists",
+				status: "fail",
+				message: `Agents directory does not exist: ${targetDir}`,
+				hint: "Run: opencoder install",
+			})
+		})
+
+		it.skipIf(process.getuid?.() === 0)(
+			"should fail when the agents directory is read-only",
+			() => {
+				chmodSync(targetDir, 0o555)
+				const [check] = find(diagnose(), "target-writable")
+				expect(check?.status).toBe("fail")
+				expect(check?.hint).toContain("Permission denied")
+			},
+		)
+
+		it("should fail missing and invalid agents", () => {
+			rmSync(join(targetDir, "opencoder-builder.md"))
+			writeFileSync(join(targetDir, "opencoder-planner.md"), "# Planner")
+
+			const report = diagnose()
+			expect(find(report, "agent-installed")).toEqual([
+				{
+					name: "agent-installed",
+					status: "fail",
+					message: "opencoder-builder.md is not installed",
+					hint: "Run: opencoder install",
+				},
+			])
+			const invalid = find(report, "agent-valid").find((check) => check.status === "fail")
+			expect(invalid?.message).toStartWith("opencoder-planner.md: ")
+			expect(invalid?.hint).toContain("opencoder diff opencoder-planner")
+		})
+
+		it("should fail agents whose requires range excludes the OpenCode version", () => {
+			const path = join(targetDir, "opencoder.md")
+			writeFileSync(
+				path,
+				readFileSync(path, "utf-8").replace(/^requires: .*$/m, "requires: >=9.0.0"),
+			)
+
+			const failed = find(diagnose("1.0.0"), "agent-requires").filter((c) => c.status === "fail")
+			expect(failed).toEqual([
+				{
+					name: "agent-requires",
+					status: "fail",
+					message: "opencoder.md requires OpenCode >=9.0.0, but the current version is 1.0.0",
+					hint: "Upgrade OpenCode to a version matching >=9.0.0, or set OPENCODE_BIN to the opencode binary if the detected version is wrong",
+				},
+			])
+		})
+
+		it("should report malformed requires ranges once, as invalid agents", () => {
+			const path = join(targetDir, "opencoder.md")
+			writeFileSync(
+				path,
+				readFileSync(path, "utf-8").replace(/^requires: .*$/m, "requires: >>1.0.0"),
+			)
+
+			const report = diagnose("1.0.0")
+			const invalid = find(report, "agent-valid").filter((c) => c.status === "fail")
+			expect(invalid.map((c) => c.message)).toEqual([
+				'opencoder.md: Frontmatter field requires must be a version range (e.g. >=0.1.0), got ">>1.0.0": invalid version ">1.0.0" in ">>1.0.0"',
+			])
+			expect(find(report, "agent-requires").every((c) => c.status === "pass")).toBe(true)
+		})
+
+		it("should warn when no config references the plugin", () => {
+			writeFileSync(join(configDir, "opencode.json"), JSON.stringify({ plugin: ["other-plugin"] }))
+			const [check] = find(diagnose(), "plugin-referenced")
+			expect(check?.status).toBe("warn")
+			expect(check?.hint).toContain(`"plugin": ["${PLUGIN_NAME}"]`)
+		})
+
+		it("should read JSONC project configs", () => {
+			rmSync(join(configDir, "opencode.json"))
+			writeFileSync(
+				join(projectDir, "opencode.jsonc"),
+				`{\n  // Load OpenCoder\n  "plugin": ["${PLUGIN_NAME}",], /* trailing */\n}\n`,
+			)
+			expect(find(diagnose(), "plugin-referenced")[0]?.status).toBe("pass")
+		})
+
+		it("should drop trailing commas after comments but not inside strings", () => {
+			rmSync(join(configDir, "opencode.json"))
+			writeFileSync(
+				join(projectDir, "opencode.jsonc"),
+				`{\n  "theme": "a, }",\n  "plugin": ["${PLUGIN_NAME}", // OpenCoder\n  ],\n}\n`,
+			)
+			const report = diagnose()
+			expect(find(report, "config-valid")).toEqual([])
+			expect(find(report, "plugin-referenced")[0]?.status).toBe("pass")
+		})
+
+		it("should fail configs that cannot be parsed", () => {
+			writeFileSync(join(configDir, "opencode.json"), "{ plugin: ")
+			const report = diagnose()
+			expect(find(report, "config-valid")[0]?.status).toBe("fail")
+			expect(find(report, "plugin-referenced")[0]?.status).toBe("warn")
+		})
+
+		it("should warn about agents defined in other locations", () => {
+			mkdirSync(join(projectDir, ".opencode", "agent"), { recursive: true })
+			writeFileSync(join(projectDir, ".opencode", "agent", "opencoder-builder.md"), "# Builder")
+			writeFileSync(
+				join(configDir, "opencode.json"),
+				JSON.stringify({ plugin: [PLUGIN_NAME], agent: { opencoder: { model: "x" } } }),
+			)
+
+			expect(find(diagnose(), "agent-conflict")).toEqual([
+				expect.objectContaining({
+					status: "warn",
+					message: `opencoder is also defined in ${join(configDir, "opencode.json")} (agent.opencoder)`,
+				}),
+				expect.objectContaining({
+					status: "warn",
+					message: `opencoder-builder is also defined in ${join(projectDir, ".opencode", "agent", "opencoder-builder.md")}`,
+				}),
+			])
+		})
+
+		it("should throw TypeError for a missing directory option", () => {
+			// @ts-expect-error - testing invalid input
+			expect(() => runDiagnostics({ sourceDir })).toThrow(
+				"runDiagnostics: targetDir must be a non-empty string",
+			)
+		})
+	})
+
+	describe("formatDiagnostics", () => {
+		it("should print one line per check with hints and a summary", () => {
+			expect(
+				formatDiagnostics({
+					checks: [
+						{ name: "a", status: "pass", message: "A is fine" },
+						{ name: "b", status: "warn", message: "B looks odd", hint: "Fix B" },
+						{ name: "c", status: "fail", message: "C is broken", hint: "Fix C" },
+					],
+					counts: { pass: 1, warn: 1, fail: 1 },
+				}),
+			).toBe(
+				"[pass] A is fine\n[warn] B looks odd\n       Fix B\n[fail] C is broken\n       Fix C\n\n1 check(s) failed, 1 warning(s)",
+			)
+		})
+	})
+})
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "bun:test"
+import {
+	checkFileEdits,
+	DEFAULT_MAX_FILE_EDITS,
+	getEditedFiles,
+	getMaxFileEdits,
+	toProjectPath,
+} from "../src/file-guard"
+
+describe("file-guard.ts", () => {
+	describe("getMaxFileEdits", () => {
+		it("should default to 3", () => {
+			expect(getMaxFileEdits(undefined, {})).toBe(DEFAULT_MAX_FILE_EDITS)
+			expect(DEFAULT_MAX_FILE_EDITS).toBe(3)
+		})
+
+		it("should use the configured limit", () => {
+			expect(getMaxFileEdits(5, {})).toBe(5)
+			expect(getMaxFileEdits(0, {})).toBe(0)
+		})
+
+		it("should let OPENCODER_MAX_FILE_EDITS override the configured limit", () => {
+			expect(getMaxFileEdits(undefined, { OPENCODER_MAX_FILE_EDITS: "5" })).toBe(5)
+			expect(getMaxFileEdits(5, { OPENCODER_MAX_FILE_EDITS: "0" })).toBe(0)
+		})
+
+		it("should ignore invalid values", () => {
+			expect(getMaxFileEdits(undefined, { OPENCODER_MAX_FILE_EDITS: "many" })).toBe(3)
+			expect(getMaxFileEdits(4, { OPENCODER_MAX_FILE_EDITS: "-1" })).toBe(4)
+		})
+	})
+
+	describe("toProjectPath", () => {
+		it("should make paths relative to the project", () => {
+			expect(toProjectPath("/project", "/project/src/a.ts")).toBe("src/a.ts")
+			expect(toProjectPath("/project", "./src/../src/a.ts")).toBe("src/a.ts")
+			expect(toProjectPath("/project", "/tmp/a.ts")).toBe("/tmp/a.ts")
+		})
+	})
+
+	describe("getEditedFiles", () => {
+		it("should return project-relative paths for edit and write calls", () => {
+			expect(getEditedFiles("edit", { filePath: "/project/src/a.ts" }, "/project")).toEqual([
+				"src/a.ts",
+			])
+			expect(getEditedFiles("write", { filePath: "src/b.ts", content: "" }, "/project")).toEqual([
+				"src/b.ts",
+			])
+		})
+
+		it("should keep paths outside the project unchanged", () => {
+			expect(getEditedFiles("edit", { filePath: "/etc/hosts" }, "/project")).toEqual(["/etc/hosts"])
+		})
+
+		it("should extract every file from patch text", () => {
+			const patchText = [
+				"*** Begin Patch",
+				"*** Update File: src/a.ts",
+				"@@",
+				"-old",
+				"+new",
+				"*** Add File: src/b.ts",
+				"+content",
+				"*** Update File: src/a.ts",
+				"*** End Patch",
+			].join("\n")
+			expect(getEditedFiles("patch", { patchText }, "/project")).toEqual(["src/a.ts", "src/b.ts"])
+		})
+
+		it("should ignore tools that don't edit files", () => {
+			expect(getEditedFiles("read", { filePath: "src/a.ts" }, "/project")).toEqual([])
+			expect(getEditedFiles("edit", undefined, "/project")).toEqual([])
+		})
+	})
+
+	describe("checkFileEdits", () => {
+		it("should allow edits below the limit", () => {
+			expect(checkFileEdits({ "src/a.ts": 2 }, ["src/a.ts"], 3)).toBeNull()
+			expect(checkFileEdits({}, ["src/a.ts"], 3)).toBeNull()
+		})
+
+		it("should reject edits to a file at the limit", () => {
+			const message = checkFileEdits({ "src/a.ts": 3 }, ["src/b.ts", "src/a.ts"], 3)
+			expect(message).toStartWith("src/a.ts was already modified 3 times this cycle (limit: 3).")
+			expect(message).toContain("Take a different approach")
+		})
+
+		it("should allow everything when disabled", () => {
+			expect(checkFileEdits({ "src/a.ts": 10 }, ["src/a.ts"], 0)).toBeNull()
+		})
+	})
+})
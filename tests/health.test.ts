@@ -0,0 +1,164 @@
+import { describe, expect, it } from "bun:test"
+import type { TaskOutcome, TaskOutcomeStatus } from "../src/builder-result"
+import { assessHealth, formatHealthReport } from "../src/health"
+import type { CycleRecord, LedgerSummary, TaskRecord } from "../src/ledger"
+
+/** Creates a finished task with a builder outcome */
+const createTask = (
+	number: number,
+	status: TaskOutcomeStatus,
+	blockers: string[] = [],
+): TaskRecord => {
+	const outcome: TaskOutcome = {
+		status,
+		files: [],
+		verification: [],
+		blockers,
+		ready: true,
+		commit: status === "done" || status === "partial",
+	}
+	return { number, title: `Task ${number}`, callID: `b${number}`, status: "finished", outcome }
+}
+
+/** Creates a cycle record */
+const createCycle = (cycle: number, overrides: Partial<CycleRecord> = {}): CycleRecord => ({
+	cycle,
+	startedAt: "",
+	plan: [],
+	tasks: [],
+	toolCalls: 0,
+	filesModified: {},
+	...overrides,
+})
+
+const summarize = (...cycles: CycleRecord[]): LedgerSummary => ({
+	cycle: cycles.at(-1)?.cycle ?? 0,
+	cycles,
+})
+
+describe("health.ts", () => {
+	describe("assessHealth", () => {
+		it("should be healthy without history", () => {
+			expect(assessHealth(summarize())).toEqual({
+				cycle: 0,
+				status: "Healthy",
+				consecutiveFailures: 0,
+				identicalTasks: [],
+				signals: [],
+			})
+		})
+
+		it("should be healthy when tasks succeed", () => {
+			const report = assessHealth(
+				summarize(
+					createCycle(1, {
+						tasks: [createTask(1, "done"), createTask(2, "partial"), createTask(3, "done")],
+						filesModified: { "src/a.ts": 2 },
+					}),
+				),
+			)
+			expect(report.status).toBe("Healthy")
+			expect(report.successRate).toBe(1)
+			expect(report.mostModifiedFile).toEqual({ path: "src/a.ts", count: 2 })
+		})
+
+		it("should rate same-file modifications", () => {
+			const warning = assessHealth(summarize(createCycle(1, { filesModified: { "a.ts": 3 } })))
+			expect(warning.status).toBe("Warning")
+			expect(warning.signals[0]?.metric).toBe("same-file")
+
+			const critical = assessHealth(
+				summarize(createCycle(1, { filesModified: { "a.ts": 1, "b.ts": 4 } })),
+			)
+			expect(critical.status).toBe("Critical")
+			expect(critical.signals[0]?.recovery).toContain("b.ts was modified 4 times")
+		})
+
+		it("should count consecutive failures at the end of the cycle", () => {
+			const report = assessHealth(
+				summarize(
+					createCycle(1, {
+						tasks: [
+							createTask(1, "blocked"),
+							createTask(2, "done"),
+							createTask(3, "blocked", ["Missing STRIPE_KEY"]),
+							createTask(4, "unclear"),
+						],
+					}),
+				),
+			)
+			expect(report.consecutiveFailures).toBe(2)
+			const signal = report.signals.find((s) => s.metric === "consecutive-failures")
+			expect(signal?.status).toBe("Warning")
+			expect(signal?.recovery).toContain("1. Task 3: Missing STRIPE_KEY\n2. Task 4: unclear")
+		})
+
+		it("should rate the success rate once enough tasks finished", () => {
+			const early = assessHealth(summarize(createCycle(1, { tasks: [createTask(1, "blocked")] })))
+			expect(early.successRate).toBe(0)
+			expect(early.status).toBe("Healthy")
+
+			const report = assessHealth(
+				summarize(
+					createCycle(1, {
+						tasks: [
+							createTask(1, "blocked", ["No API key"]),
+							createTask(2, "done"),
+							createTask(3, "blocked", ["No API key"]),
+							createTask(4, "done"),
+						],
+					}),
+				),
+			)
+			expect(report.status).toBe("Warning")
+			expect(report.signals[0]).toMatchObject({
+				metric: "success-rate",
+				message: "Task success rate is 50% (2 of 4 tasks completed)",
+			})
+			expect(report.signals[0]?.recovery).toContain("- No API key\nCreate a plan")
+		})
+
+		it("should detect tasks repeated from the previous cycle", () => {
+			const report = assessHealth(
+				summarize(
+					createCycle(1, { plan: ["Add tests", "Fix types", "Update docs"] }),
+					createCycle(2, { plan: ["add tests", "Fix types", "Update docs", "Add CI"] }),
+				),
+			)
+			expect(report.identicalTasks).toEqual(["add tests", "Fix types", "Update docs"])
+			expect(report.status).toBe("Critical")
+		})
+
+		it("should order signals worst first", () => {
+			const report = assessHealth(
+				summarize(
+					createCycle(1, {
+						filesModified: { "a.ts": 3 },
+						tasks: [createTask(1, "blocked"), createTask(2, "blocked"), createTask(3, "blocked")],
+					}),
+				),
+			)
+			expect(report.signals.map((s) => [s.metric, s.status])).toEqual([
+				["success-rate", "Critical"],
+				["consecutive-failures", "Critical"],
+				["same-file", "Warning"],
+			])
+		})
+	})
+
+	describe("formatHealthReport", () => {
+		it("should return an empty string when healthy", () => {
+			expect(formatHealthReport(assessHealth(summarize(createCycle(1))))).toBe("")
+		})
+
+		it("should include status, signals and recovery prompts", () => {
+			const text = formatHealthReport(
+				assessHealth(summarize(createCycle(1, { filesModified: { "src/api.ts": 4 } }))),
+			)
+			expect(text).toStartWith("## Loop Health: Critical")
+			expect(text).toContain("- Critical: src/api.ts was modified 4 times this cycle")
+			expect(text).toContain("Switch to recovery mode")
+			expect(text).toContain("@opencoder-planner Note: src/api.ts was modified 4 times")
+		})
+	})
+})
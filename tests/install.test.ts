@@ -1,5 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from "bun:test"
 import {
+	chmodSync,
+	copyFileSync,
+	cpSync,
 	existsSync,
 	mkdirSync,
 	readdirSync,
@@ -10,6 +13,7 @@ import {
 } from "node:fs"
 import { tmpdir } from "node:os"
 import { join } from "node:path"
+import { getBackupsDir } from "../src/backup.mjs"
 
 describe("install scripts integration", () => {
 	const testDir = join(tmpdir(), `opencoder-install-test-${Date.now()}`)
@@ -2184,6 +2188,26 @@ The agent handles various tasks and operations in the system.
 			expect(stdout).toContain("Dry run:")
 		})
 
+		it("postinstall --verbose shows where the OpenCode version came from", async () => {
+			mkdirSync(testDir, { recursive: true })
+			const bin = join(testDir, "opencode")
+			writeFileSync(bin, '#!/bin/sh\necho "opencode 1.4.2"\n')
+			chmodSync(bin, 0o755)
+
+			const proc = Bun.spawn(["node", "postinstall.mjs", "--dry-run", "--verbose"], {
+				cwd: process.cwd(),
+				env: { ...process.env, OPENCODE_BIN: bin, OPENCODE_VERSION: "0.1.0" },
+				stdout: "pipe",
+				stderr: "pipe",
+			})
+
+			const exitCode = await proc.exited
+			const stdout = await new Response(proc.stdout).text()
+
+			expect(exitCode).toBe(0)
+			expect(stdout).toContain(`OpenCode version: 1.4.2 (from --version: ${bin})`)
+		})
+
 		it("preuninstall --verbose shows detailed output", async () => {
 			const { AGENTS_TARGET_DIR } = await import("../src/paths.mjs")
 			const agentFiles = ["opencoder.md", "opencoder-planner.md", "opencoder-builder.md"]
@@ -2400,6 +2424,7 @@ The agent handles various tasks and operations in the system.
 
 			const proc = Bun.spawn(["node", "postinstall.mjs", "--verbose"], {
 				cwd: process.cwd(),
+				env: { ...process.env, XDG_STATE_HOME: join(testDir, "state") },
 				stdout: "pipe",
 				stderr: "pipe",
 			})
@@ -2419,13 +2444,15 @@ The agent handles various tasks and operations in the system.
 				"[VERBOSE] Overwriting existing file: opencoder-builder.md (content differs)",
 			)
 
-			// Clean up
+			// Clean up, including the install manifest and merge bases
 			for (const file of agentFiles) {
 				const targetPath = join(AGENTS_TARGET_DIR, file)
 				if (existsSync(targetPath)) {
 					rmSync(targetPath)
 				}
 			}
+			rmSync(join(AGENTS_TARGET_DIR, ".opencoder-manifest.json"), { force: true })
+			rmSync(join(AGENTS_TARGET_DIR, ".opencoder-base"), { recursive: true, force: true })
 		})
 	})
 
@@ -2610,13 +2637,15 @@ The agent handles various tasks and operations in the system.
 				expect(existsSync(join(AGENTS_TARGET_DIR, file))).toBe(true)
 			}
 
-			// Clean up
+			// Clean up, including the install manifest and merge bases
 			for (const file of agentFiles) {
 				const targetPath = join(AGENTS_TARGET_DIR, file)
 				if (existsSync(targetPath)) {
 					rmSync(targetPath)
 				}
 			}
+			rmSync(join(AGENTS_TARGET_DIR, ".opencoder-manifest.json"), { force: true })
+			rmSync(join(AGENTS_TARGET_DIR, ".opencoder-base"), { recursive: true, force: true })
 		})
 
 		it("postinstall main() handles partial failures gracefully with --dry-run", async () => {
@@ -2939,6 +2968,392 @@ rmSync(testDir, { recursive: true, force: true })
 		})
 	})
 
+	describe("install manifest", () => {
+		/** Runs an actual install script with the mock home directory */
+		const runScript = async (script: string, ...args: string[]) => {
+			const proc = Bun.spawn(["node", script, ...args], {
+				cwd: process.cwd(),
+				env: { ...process.env, HOME: mockHomeDir },
+				stdout: "pipe",
+				stderr: "pipe",
+			})
+			const exitCode = await proc.exited
+			const stderr = await new Response(proc.stderr).text()
+			return { exitCode, stdout: await new Response(proc.stdout).text(), stderr }
+		}
+		const manifestPath = () => join(agentsTargetDir, ".opencoder-manifest.json")
+		/** Copies the install script, its modules and the agents into a package directory */
+		const copyPackage = () => {
+			const packageDir = join(testDir, "package")
+			mkdirSync(join(packageDir, "src"), { recursive: true })
+			for (const file of ["postinstall.mjs", "package.json"]) {
+				copyFileSync(join(process.cwd(), file), join(packageDir, file))
+			}
+			for (const file of readdirSync(join(process.cwd(), "src")).filter((f) =>
+				f.endsWith(".mjs"),
+			)) {
+				copyFileSync(join(process.cwd(), "src", file), join(packageDir, "src", file))
+			}
+			cpSync(join(process.cwd(), "agents"), join(packageDir, "agents"), { recursive: true })
+			return packageDir
+		}
+
+		it("should record installed files with their checksums", async () => {
+			const { exitCode } = await runScript("postinstall.mjs")
+			expect(exitCode).toBe(0)
+
+			const manifest = JSON.parse(readFileSync(manifestPath(), "utf-8"))
+			expect(manifest.package).toBe("opencode-plugin-opencoder")
+			expect(manifest.files.map((entry: { file: string }) => entry.file)).toEqual([
+				"opencoder-builder.md",
+				"opencoder-planner.md",
+				"opencoder.md",
+			])
+			const { createHash } = await import("node:crypto")
+			const content = readFileSync(join(agentsTargetDir, "opencoder.md"))
+			expect(manifest.files[2]).toEqual({
+				file: "opencoder.md",
+				sha256: createHash("sha256").update(content).digest("hex"),
+				version: expect.stringMatching(/^\d+\.\d+\.\d+/),
+				installedAt: expect.any(String),
+			})
+		})
+
+		it("should keep modified files on uninstall unless --force is given", async () => {
+			await runScript("postinstall.mjs")
+			writeFileSync(join(agentsTargetDir, "opencoder.md"), "# My customized orchestrator")
+
+			const { exitCode, stdout } = await runScript("preuninstall.mjs")
+			expect(exitCode).toBe(0)
+			expect(stdout).toContain("Kept modified file: opencoder.md")
+			expect(stdout).toContain("Kept 1 modified agent(s): opencoder.md")
+			expect(stdout).toContain("Removed 2 agent(s)")
+			expect(existsSync(join(agentsTargetDir, "opencoder.md"))).toBe(true)
+			expect(existsSync(join(agentsTargetDir, "opencoder-planner.md"))).toBe(false)
+			const manifest = JSON.parse(readFileSync(manifestPath(), "utf-8"))
+			expect(manifest.files.map((entry: { file: string }) => entry.file)).toEqual(["opencoder.md"])
+
+			const forced = await runScript("preuninstall.mjs", "--force")
+			expect(forced.stdout).toContain("Removed 1 agent(s)")
+			expect(existsSync(join(agentsTargetDir, "opencoder.md"))).toBe(false)
+			expect(existsSync(manifestPath())).toBe(false)
+		})
+
+		it("should merge local changes into upgraded agents", async () => {
+			await runScript("postinstall.mjs")
+			const file = "opencoder-builder.md"
+			const current = readFileSync(join(process.cwd(), "agents", file), "utf-8")
+
+			// Simulate an install of a previous version that had an extra section
+			const previous = `${current}\n## Legacy Notes\n\nRemoved in this version.\n`
+			const { createHash } = await import("node:crypto")
+			writeFileSync(join(agentsTargetDir, ".opencoder-base", `${file}.base`), previous)
+			const manifest = JSON.parse(readFileSync(manifestPath(), "utf-8"))
+			manifest.files.find((entry: { file: string }) => entry.file === file).sha256 = createHash(
+				"sha256",
+			)
+				.update(previous)
+				.digest("hex")
+			writeFileSync(manifestPath(), JSON.stringify(manifest))
+
+			// The user customized the previous version
+			writeFileSync(join(agentsTargetDir, file), `${previous}\n## Team Conventions\n\nUse pnpm.\n`)
+
+			const { exitCode, stdout } = await runScript("postinstall.mjs")
+			expect(exitCode).toBe(0)
+			expect(stdout).toContain(`Merged local changes: ${file}`)
+			const merged = readFileSync(join(agentsTargetDir, file), "utf-8")
+			expect(merged).toContain("## Team Conventions\n\nUse pnpm.")
+			expect(merged).not.toContain("## Legacy Notes")
+			expect(readFileSync(join(agentsTargetDir, ".opencoder-base", `${file}.base`), "utf-8")).toBe(
+				current,
+			)
+
+			// Merged files keep the user's changes, so uninstall leaves them in place
+			const uninstall = await runScript("preuninstall.mjs")
+			expect(uninstall.stdout).toContain(`Kept modified file: ${file}`)
+		})
+
+		it("should keep conflicting local changes and write the update to a .new file", async () => {
+			await runScript("postinstall.mjs")
+			const file = "opencoder-builder.md"
+			const current = readFileSync(join(process.cwd(), "agents", file), "utf-8")
+
+			// The user edited a section that the new version also changed
+			const previous = current.replace(/^(## .+)$/m, "$1\n\nPrevious wording.")
+			const heading = current.match(/^## .+$/m)?.[0] as string
+			writeFileSync(join(agentsTargetDir, ".opencoder-base", `${file}.base`), previous)
+			const { createHash } = await import("node:crypto")
+			const manifest = JSON.parse(readFileSync(manifestPath(), "utf-8"))
+			manifest.files.find((entry: { file: string }) => entry.file === file).sha256 = createHash(
+				"sha256",
+			)
+				.update(previous)
+				.digest("hex")
+			writeFileSync(manifestPath(), JSON.stringify(manifest))
+			const local = current.replace(/^(## .+)$/m, "$1\n\nOur tuned wording.")
+			writeFileSync(join(agentsTargetDir, file), local)
+
+			const { exitCode, stdout } = await runScript("postinstall.mjs")
+			expect(exitCode).toBe(0)
+			expect(stdout).toContain(`Kept local changes: ${file} (update written to ${file}.new)`)
+			expect(stdout).toContain(`${file}: conflicting changes in ${heading}`)
+			expect(readFileSync(join(agentsTargetDir, file), "utf-8")).toBe(local)
+			expect(readFileSync(join(agentsTargetDir, `${file}.new`), "utf-8")).toBe(current)
+
+			// Uninstall removes the update it wrote along with the agents
+			const uninstall = await runScript("preuninstall.mjs")
+			expect(uninstall.stdout).toContain(`Removed: ${file}.new`)
+			expect(uninstall.stdout).toContain("Removed 2 agent(s) and 1 unmerged update(s)")
+			expect(existsSync(join(agentsTargetDir, `${file}.new`))).toBe(false)
+			expect(readFileSync(join(agentsTargetDir, file), "utf-8")).toBe(local)
+		})
+
+		it("should keep edited .new files on uninstall unless --force is given", async () => {
+			await runScript("postinstall.mjs")
+			const update = join(agentsTargetDir, "opencoder.md.new")
+			writeFileSync(update, "# Half-merged orchestrator")
+
+			const { stdout } = await runScript("preuninstall.mjs")
+			expect(stdout).toContain("Kept edited update: opencoder.md.new")
+			expect(stdout).toContain("Kept 1 update file(s): opencoder.md.new")
+			expect(existsSync(update)).toBe(true)
+
+			const forced = await runScript("preuninstall.mjs", "--force")
+			expect(forced.stdout).toContain("Removed 0 agent(s) and 1 unmerged update(s)")
+			expect(existsSync(update)).toBe(false)
+		})
+
+		it("should overwrite local changes with --force", async () => {
+			await runScript("postinstall.mjs")
+			writeFileSync(join(agentsTargetDir, "opencoder.md"), "# Customized")
+
+			await runScript("postinstall.mjs", "--force")
+			expect(readFileSync(join(agentsTargetDir, "opencoder.md"), "utf-8")).toBe(
+				readFileSync(join(process.cwd(), "agents", "opencoder.md"), "utf-8"),
+			)
+		})
+
+		it("should back up existing agents and roll back to them", async () => {
+			await runScript("postinstall.mjs")
+			// Simulate agents installed by a previous version
+			rmSync(manifestPath())
+			writeFileSync(join(agentsTargetDir, "opencoder.md"), "# Previous orchestrator prompt")
+
+			const upgrade = await runScript("postinstall.mjs")
+			expect(upgrade.exitCode).toBe(0)
+			expect(upgrade.stdout).toContain("Backed up existing agents: ")
+			const backupsDir = getBackupsDir(agentsTargetDir, {
+				XDG_STATE_HOME: join(mockHomeDir, ".local", "state"),
+			})
+			const [id] = readdirSync(backupsDir)
+			expect(readFileSync(join(backupsDir, id as string, "opencoder.md"), "utf-8")).toBe(
+				"# Previous orchestrator prompt",
+			)
+
+			const { exitCode, stdout } = await runScript("postinstall.mjs", "--rollback")
+			expect(exitCode).toBe(0)
+			expect(stdout).toContain(`Rolled back 3 agent(s) to backup ${id}`)
+			expect(stdout).toContain("Backed up current agents: ")
+			expect(readFileSync(join(agentsTargetDir, "opencoder.md"), "utf-8")).toBe(
+				"# Previous orchestrator prompt",
+			)
+			expect(existsSync(manifestPath())).toBe(false)
+
+			// The rollback itself can be undone
+			const current = readdirSync(backupsDir)
+				.sort()
+				.find((name) => name !== id) as string
+			await runScript("postinstall.mjs", "--rollback", current)
+			expect(readFileSync(join(agentsTargetDir, "opencoder.md"), "utf-8")).toBe(
+				readFileSync(join(process.cwd(), "agents", "opencoder.md"), "utf-8"),
+			)
+			expect(existsSync(manifestPath())).toBe(true)
+		})
+
+		it("should keep the restored backup when pruning after a rollback", async () => {
+			await runScript("postinstall.mjs")
+			rmSync(manifestPath())
+			writeFileSync(join(agentsTargetDir, "opencoder.md"), "# Previous orchestrator prompt")
+			await runScript("postinstall.mjs")
+			const backupsDir = getBackupsDir(agentsTargetDir, {
+				XDG_STATE_HOME: join(mockHomeDir, ".local", "state"),
+			})
+			const [id] = readdirSync(backupsDir)
+
+			// With one backup kept, the backup of the current agents would push out the restored one
+			const proc = Bun.spawn(["node", "postinstall.mjs", "--rollback"], {
+				cwd: process.cwd(),
+				env: { ...process.env, HOME: mockHomeDir, OPENCODER_MAX_BACKUPS: "1" },
+				stdout: "pipe",
+				stderr: "pipe",
+			})
+			expect(await proc.exited).toBe(0)
+			expect(readdirSync(backupsDir)).toContain(id as string)
+		})
+
+		it("should not back up agents that are up to date", async () => {
+			await runScript("postinstall.mjs")
+			const { stdout } = await runScript("postinstall.mjs")
+			expect(stdout).not.toContain("Backed up")
+			expect(existsSync(join(mockHomeDir, ".local", "state"))).toBe(false)
+		})
+
+		it("should fail to roll back to an unknown backup", async () => {
+			const proc = Bun.spawn(["node", "postinstall.mjs", "--rollback", "nope"], {
+				cwd: process.cwd(),
+				env: { ...process.env, HOME: mockHomeDir },
+				stdout: "pipe",
+				stderr: "pipe",
+			})
+			expect(await proc.exited).toBe(1)
+			expect(await new Response(proc.stderr).text()).toContain(
+				"Cannot roll back: No backups found in",
+			)
+		})
+
+		it("should leave the installed agents unchanged when any agent fails to install", async () => {
+			await runScript("postinstall.mjs")
+			const installed = readFileSync(join(agentsTargetDir, "opencoder.md"), "utf-8")
+
+			// A package copy with an updated orchestrator and a broken builder
+			const packageDir = copyPackage()
+			writeFileSync(join(packageDir, "agents", "opencoder.md"), `${installed}\n## New Section\n`)
+			writeFileSync(join(packageDir, "agents", "opencoder-builder.md"), "# Broken")
+
+			const { exitCode, stdout } = await runScript(join(packageDir, "postinstall.mjs"))
+			expect(exitCode).toBe(1)
+			expect(stdout).not.toContain("Installed: opencoder.md")
+			expect(readFileSync(join(agentsTargetDir, "opencoder.md"), "utf-8")).toBe(installed)
+			expect(readdirSync(join(mockHomeDir, ".config", "opencode"))).toEqual(["agents"])
+		})
+
+		it("should show every validation problem and install agents with only warnings", async () => {
+			const packageDir = copyPackage()
+			const agentPath = (name: string) => join(packageDir, "agents", `${name}.md`)
+			const orchestrator = readFileSync(agentPath("opencoder"), "utf-8")
+			writeFileSync(agentPath("opencoder"), orchestrator.replace(/^description: .*\n/m, ""))
+			const builder = readFileSync(agentPath("opencoder-builder"), "utf-8")
+			writeFileSync(
+				agentPath("opencoder-builder"),
+				builder.replace("version: 0.1.0", "version: 1.0").replace(/\n---\n/, "\nmode: main\n---\n"),
+			)
+
+			const { exitCode, stdout, stderr } = await runScript(join(packageDir, "postinstall.mjs"))
+			expect(exitCode).toBe(1)
+			expect(stdout).toContain(
+				"opencoder.md:1:1: warning: Frontmatter missing recommended field: description [recommended-field]",
+			)
+			expect(stderr).toContain("opencoder-builder.md:2:1: error: Frontmatter field version")
+			expect(stderr).toContain("opencoder-builder.md:6:1: error: Frontmatter field mode")
+			expect(stderr).toContain("fix: Set mode to one of primary, subagent, all")
+
+			// Only the builder's errors stop the install: without them it succeeds
+			writeFileSync(agentPath("opencoder-builder"), builder)
+			const retry = await runScript(join(packageDir, "postinstall.mjs"))
+			expect(retry.exitCode).toBe(0)
+			expect(retry.stdout).toContain("[recommended-field]")
+			expect(retry.stdout).toContain("Installed: opencoder.md")
+		})
+
+		it("should refuse to install agents that break their contracts", async () => {
+			await runScript("postinstall.mjs")
+			const installed = readFileSync(join(agentsTargetDir, "opencoder-builder.md"), "utf-8")
+
+			// A builder whose completion report ends with a status the orchestrator doesn't expect
+			const packageDir = copyPackage()
+			const builderPath = join(packageDir, "agents", "opencoder-builder.md")
+			writeFileSync(
+				builderPath,
+				installed.replace("**Status:** READY_FOR_NEXT_TASK\n```", "**Status:** DONE\n```"),
+			)
+
+			const { exitCode, stderr } = await runScript(join(packageDir, "postinstall.mjs"))
+			expect(exitCode).toBe(1)
+			expect(stderr).toContain(
+				'error: "## Done:" output has **Status:** DONE, but opencoder expects READY_FOR_NEXT_TASK [agent-contract]',
+			)
+			expect(stderr).toContain("Failed: opencoder-builder.md - Breaks agent contracts:")
+			expect(readFileSync(join(agentsTargetDir, "opencoder-builder.md"), "utf-8")).toBe(installed)
+		})
+
+		it("should install into the project with --scope project", async () => {
+			const projectDir = join(testDir, "repo")
+			mkdirSync(join(projectDir, ".git"), { recursive: true })
+			const proc = Bun.spawn(["node", "postinstall.mjs", "--scope", "project"], {
+				cwd: process.cwd(),
+				env: { ...process.env, HOME: mockHomeDir, INIT_CWD: projectDir },
+				stdout: "pipe",
+				stderr: "pipe",
+			})
+			expect(await proc.exited).toBe(0)
+			const projectAgentsDir = join(projectDir, ".opencode", "agents")
+			expect(readdirSync(projectAgentsDir)).toContain("opencoder.md")
+			expect(existsSync(agentsTargetDir)).toBe(false)
+
+			const uninstall = Bun.spawn(["node", "preuninstall.mjs", "--scope=project"], {
+				cwd: process.cwd(),
+				env: { ...process.env, HOME: mockHomeDir, INIT_CWD: projectDir },
+				stdout: "pipe",
+				stderr: "pipe",
+			})
+			expect(await uninstall.exited).toBe(0)
+			expect(await new Response(uninstall.stdout).text()).toContain("Removed 3 agent(s)")
+			expect(existsSync(join(projectAgentsDir, "opencoder.md"))).toBe(false)
+		})
+
+		it("should install into the directory given with --target", async () => {
+			const target = join(testDir, "custom-agents")
+			const { exitCode, stdout } = await runScript("postinstall.mjs", "--target", target)
+			expect(exitCode).toBe(0)
+			expect(stdout).toContain(`Location: ${target}`)
+			expect(existsSync(join(target, "opencoder.md"))).toBe(true)
+			expect(existsSync(join(target, ".opencoder-manifest.json"))).toBe(true)
+		})
+
+		it("should honor XDG_CONFIG_HOME and OPENCODE_CONFIG_DIR", async () => {
+			const run = async (env: Record<string, string>) => {
+				const proc = Bun.spawn(["node", "postinstall.mjs", "--quiet"], {
+					cwd: process.cwd(),
+					env: { ...process.env, HOME: mockHomeDir, ...env },
+					stdout: "pipe",
+					stderr: "pipe",
+				})
+				return proc.exited
+			}
+			expect(await run({ XDG_CONFIG_HOME: join(testDir, "xdg") })).toBe(0)
+			expect(existsSync(join(testDir, "xdg", "opencode", "agents", "opencoder.md"))).toBe(true)
+
+			expect(await run({ OPENCODE_CONFIG_DIR: join(testDir, "oc") })).toBe(0)
+			expect(existsSync(join(testDir, "oc", "agents", "opencoder.md"))).toBe(true)
+			expect(existsSync(agentsTargetDir)).toBe(false)
+		})
+
+		it("should reject an unknown scope", async () => {
+			const proc = Bun.spawn(["node", "postinstall.mjs", "--scope", "team"], {
+				cwd: process.cwd(),
+				env: { ...process.env, HOME: mockHomeDir },
+				stdout: "pipe",
+				stderr: "pipe",
+			})
+			expect(await proc.exited).toBe(1)
+			expect(await new Response(proc.stderr).text()).toContain(
+				'Invalid --scope "team": expected "global" or "project"',
+			)
+		})
+
+		it("should compare against the packaged agents when no manifest exists", async () => {
+			await runScript("postinstall.mjs")
+			rmSync(manifestPath())
+			writeFileSync(join(agentsTargetDir, "opencoder-builder.md"), "# Replaced by the user")
+
+			const { stdout } = await runScript("preuninstall.mjs")
+			expect(stdout).toContain("Kept modified file: opencoder-builder.md")
+			expect(stdout).toContain("Removed 2 agent(s)")
+			expect(existsSync(join(agentsTargetDir, "opencoder-builder.md"))).toBe(true)
+		})
+	})
+
 	describe("full install/uninstall cycle", () => {
 		it("should install and then cleanly uninstall", async () => {
 			// Create scripts
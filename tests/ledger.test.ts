@@ -0,0 +1,266 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import {
+	createLedger,
+	describeToolTarget,
+	formatLedgerSummary,
+	getLedgerPath,
+	LEDGER_FILE,
+	parsePlannerGoal,
+	parseSessionAgent,
+	parseSubagentInvocation,
+	readLedger,
+	STATE_DIR,
+	summarizeLedger,
+} from "../src/ledger"
+
+describe("ledger.ts", () => {
+	const testDir = join(tmpdir(), `opencoder-ledger-test-${Date.now()}`)
+
+	beforeEach(() => {
+		mkdirSync(testDir, { recursive: true })
+	})
+
+	afterEach(() => {
+		if (existsSync(testDir)) {
+			rmSync(testDir, { recursive: true, force: true })
+		}
+	})
+
+	describe("createLedger", () => {
+		it("should not create the state directory until the first write", () => {
+			createLedger(testDir)
+			expect(existsSync(join(testDir, STATE_DIR))).toBe(false)
+		})
+
+		it("should append entries as JSON lines", () => {
+			const ledger = createLedger(testDir)
+			ledger.startCycle("ses-1")
+			ledger.append({ type: "tool.started", tool: "bash", sessionID: "ses-1", callID: "c1" })
+
+			const lines = readFileSync(join(testDir, STATE_DIR, LEDGER_FILE), "utf-8")
+				.trim()
+				.split("\n")
+			expect(lines).toHaveLength(2)
+			const entry = JSON.parse(lines[1] as string)
+			expect(entry.type).toBe("tool.started")
+			expect(entry.cycle).toBe(1)
+			expect(entry.time).toMatch(/^\d{4}-\d{2}-\d{2}T/)
+		})
+
+		it("should keep the state directory out of git", () => {
+			createLedger(testDir).startCycle("ses-1")
+			expect(readFileSync(join(testDir, STATE_DIR, ".gitignore"), "utf-8")).toBe("*\n")
+
+			Bun.spawnSync(["git", "init", "-q"], { cwd: testDir })
+			const ignored = Bun.spawnSync(["git", "check-ignore", "-q", join(STATE_DIR, LEDGER_FILE)], {
+				cwd: testDir,
+			})
+			expect(ignored.exitCode).toBe(0)
+		})
+
+		it("should keep an existing .gitignore in the state directory", () => {
+			mkdirSync(join(testDir, STATE_DIR), { recursive: true })
+			writeFileSync(join(testDir, STATE_DIR, ".gitignore"), "ledger.jsonl\n")
+			createLedger(testDir).startCycle("ses-1")
+			expect(readFileSync(join(testDir, STATE_DIR, ".gitignore"), "utf-8")).toBe("ledger.jsonl\n")
+		})
+
+		it("should number cycles sequentially", () => {
+			const ledger = createLedger(testDir)
+			expect(ledger.startCycle("ses-1")).toBe(1)
+			expect(ledger.startCycle("ses-1")).toBe(2)
+			expect(ledger.summary.cycle).toBe(2)
+		})
+
+		it("should resume cycle numbering from existing history", () => {
+			const first = createLedger(testDir)
+			first.startCycle("ses-1")
+			first.startCycle("ses-1")
+
+			const resumed = createLedger(testDir)
+			expect(resumed.summary.cycle).toBe(2)
+			expect(resumed.startCycle("ses-2")).toBe(3)
+		})
+
+		it("should truncate long goals", () => {
+			const ledger = createLedger(testDir)
+			ledger.startCycle("ses-1", "x".repeat(500))
+			const goal = ledger.summary.cycles[0]?.goal ?? ""
+			expect(goal.length).toBe(200)
+			expect(goal.endsWith("...")).toBe(true)
+		})
+	})
+
+	describe("readLedger", () => {
+		it("should return an empty array when no ledger exists", () => {
+			expect(readLedger(testDir)).toEqual([])
+		})
+
+		it("should skip corrupted lines", () => {
+			const ledger = createLedger(testDir)
+			ledger.startCycle("ses-1")
+			appendFileSync(getLedgerPath(testDir), '{"type":"tool.sta\n')
+			ledger.startCycle("ses-1")
+
+			const entries = readLedger(testDir)
+			expect(entries).toHaveLength(2)
+			expect(entries.map((e) => e.cycle)).toEqual([1, 2])
+		})
+	})
+
+	describe("summarizeLedger", () => {
+		it("should track builder tasks per cycle", () => {
+			const ledger = createLedger(testDir)
+			ledger.startCycle("ses-1", "create a CLI todo app")
+			ledger.append({
+				type: "subagent.started",
+				agent: "opencoder-planner",
+				sessionID: "ses-1",
+				callID: "p1",
+				title: "Plan",
+			})
+			ledger.append({
+				type: "subagent.started",
+				agent: "opencoder-builder",
+				sessionID: "ses-1",
+				callID: "b1",
+				title: "Add validation",
+			})
+			ledger.append({
+				type: "subagent.finished",
+				agent: "opencoder-builder",
+				sessionID: "ses-1",
+				callID: "b1",
+				outputLength: 42,
+			})
+			ledger.append({ type: "tool.started", tool: "bash", sessionID: "ses-1", callID: "c1" })
+
+			const summary = summarizeLedger(readLedger(testDir))
+			expect(summary.cycle).toBe(1)
+			expect(summary.cycles[0]).toMatchObject({
+				cycle: 1,
+				goal: "create a CLI todo app",
+				toolCalls: 1,
+				tasks: [{ number: 1, title: "Add validation", callID: "b1", status: "finished" }],
+			})
+		})
+
+		it("should count completed edits per file", () => {
+			const ledger = createLedger(testDir)
+			ledger.startCycle("ses-1")
+			const call = { tool: "edit", sessionID: "ses-2", title: "", outputLength: 0 }
+			ledger.append({ type: "tool.finished", callID: "c1", files: ["src/api.ts"], ...call })
+			ledger.append({ type: "tool.finished", callID: "c2", files: ["src/api.ts", "a.ts"], ...call })
+			ledger.append({ type: "tool.finished", callID: "c3", ...call })
+
+			expect(ledger.summary.cycles[0]?.filesModified).toEqual({ "src/api.ts": 2, "a.ts": 1 })
+		})
+
+		it("should ignore entries recorded before the first cycle", () => {
+			const ledger = createLedger(testDir)
+			ledger.append({ type: "tool.started", tool: "read", sessionID: "ses-1", callID: "c1" })
+			expect(summarizeLedger(readLedger(testDir))).toEqual({ cycle: 0, cycles: [] })
+		})
+	})
+
+	describe("parseSubagentInvocation", () => {
+		it("should extract the builder task title from the prompt", () => {
+			const result = parseSubagentInvocation({
+				subagent_type: "opencoder-builder",
+				description: "Run builder",
+				prompt: "Execute this task: Add input validation\n\nFiles: src/api.ts",
+			})
+			expect(result).toEqual({
+				agent: "opencoder-builder",
+				title: "Add input validation",
+				prompt: "Execute this task: Add input validation\n\nFiles: src/api.ts",
+			})
+		})
+
+		it("should fall back to the description", () => {
+			const result = parseSubagentInvocation({
+				subagent_type: "opencoder-planner",
+				description: "Create plan",
+				prompt: "Analyze the codebase",
+			})
+			expect(result?.title).toBe("Create plan")
+		})
+
+		it("should return null without a subagent type", () => {
+			expect(parseSubagentInvocation({ prompt: "hi" })).toBeNull()
+			expect(parseSubagentInvocation(undefined)).toBeNull()
+		})
+	})
+
+	describe("parseSessionAgent", () => {
+		it("should extract the agent from a subagent session title", () => {
+			expect(parseSessionAgent("Create plan (@opencoder-planner subagent)")).toBe(
+				"opencoder-planner",
+			)
+		})
+
+		it("should return undefined for other titles", () => {
+			expect(parseSessionAgent("New session - 2026-01-19")).toBeUndefined()
+		})
+	})
+
+	describe("parsePlannerGoal", () => {
+		it("should extract initial instructions", () => {
+			expect(parsePlannerGoal("Create a plan to: build a REST API")).toBe("build a REST API")
+		})
+
+		it("should return undefined in autonomous mode", () => {
+			expect(parsePlannerGoal("Analyze the codebase and create a plan")).toBeUndefined()
+		})
+	})
+
+	describe("describeToolTarget", () => {
+		it("should prefer file paths, then commands", () => {
+			expect(describeToolTarget({ filePath: "src/a.ts", content: "x" })).toBe("src/a.ts")
+			expect(describeToolTarget({ command: "bun test" })).toBe("bun test")
+		})
+
+		it("should return undefined for unrecognized arguments", () => {
+			expect(describeToolTarget({ content: "x" })).toBeUndefined()
+			expect(describeToolTarget(null)).toBeUndefined()
+		})
+	})
+
+	describe("formatLedgerSummary", () => {
+		it("should return an empty string without cycles", () => {
+			expect(formatLedgerSummary({ cycle: 0, cycles: [] })).toBe("")
+		})
+
+		it("should describe recorded cycles and tasks", () => {
+			const text = formatLedgerSummary({
+				cycle: 2,
+				cycles: [
+					{
+						cycle: 1,
+						startedAt: "",
+						goal: "build an API",
+						plan: [],
+						tasks: [],
+						toolCalls: 0,
+						filesModified: {},
+					},
+					{
+						cycle: 2,
+						startedAt: "",
+						plan: [],
+						tasks: [{ number: 1, title: "Add tests", callID: "b1", status: "finished" }],
+						toolCalls: 3,
+						filesModified: {},
+					},
+				],
+			})
+			expect(text).toContain("Continue with Cycle 3.")
+			expect(text).toContain("- Cycle 1: Goal-directed (build an API) - 0 task(s)")
+			expect(text).toContain("- Cycle 2: Autonomous - 1 task(s)")
+			expect(text).toContain("  1. Add tests (finished)")
+		})
+	})
+})
@@ -0,0 +1,267 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import {
+	CONTENT_RULES,
+	DEFAULT_REQUIRED_SECTIONS,
+	formatLintReport,
+	LINT_RULES,
+	type LintInput,
+	lintAgents,
+	loadLintConfig,
+	validateLintConfig,
+} from "../src/lint.mjs"
+import { AGENT_NAMES } from "../src/paths.mjs"
+
+/** Reads a packaged agent as lint input */
+const packaged = (name: string): LintInput => {
+	const path = join("agents", `${name}.md`)
+	return { path, content: readFileSync(path, "utf-8") }
+}
+
+/** Lints the packaged agents with one agent's content changed */
+const lintWith = (name: string, change: (content: string) => string) =>
+	lintAgents(
+		AGENT_NAMES.map(packaged).map((agent) =>
+			agent.path.endsWith(`${name}.md`) ? { ...agent, content: change(agent.content) } : agent,
+		),
+	)
+
+/** Rule and message of every diagnostic of an agent */
+const problemsOf = (report: ReturnType<typeof lintAgents>, name: string) =>
+	(report.files.find(({ path }) => path.endsWith(`${name}.md`))?.diagnostics ?? []).map(
+		({ rule, message }) => [rule, message],
+	)
+
+describe("lint.mjs exports", () => {
+	describe("rules", () => {
+		it("should be frozen", () => {
+			expect(Object.isFrozen(LINT_RULES)).toBe(true)
+			expect(Object.isFrozen(CONTENT_RULES)).toBe(true)
+			expect(Object.isFrozen(DEFAULT_REQUIRED_SECTIONS)).toBe(true)
+		})
+
+		it("should not share ids between lint and content rules", () => {
+			expect(Object.keys(LINT_RULES).filter((rule) => CONTENT_RULES.includes(rule))).toEqual([])
+		})
+	})
+
+	describe("lintAgents", () => {
+		it("should find no problems in the packaged agents", () => {
+			const report = lintAgents(AGENT_NAMES.map(packaged))
+			expect(report.counts).toEqual({ error: 0, warning: 0, info: 0 })
+			expect(report.files.map(({ path }) => path)).toEqual(
+				AGENT_NAMES.map((name) => join("agents", `${name}.md`)),
+			)
+		})
+
+		it("should include the content validation diagnostics", () => {
+			const report = lintWith("opencoder-builder", (content) =>
+				content.replace(/^description: .*\n/m, ""),
+			)
+			expect(problemsOf(report, "opencoder-builder")).toEqual([
+				["recommended-field", "Frontmatter missing recommended field: description"],
+			])
+			expect(report.counts).toEqual({ error: 0, warning: 1, info: 0 })
+		})
+
+		it("should report missing required sections at the first heading", () => {
+			const report = lintWith("opencoder-builder", (content) =>
+				content.replace("## Related Agents", "## See Also"),
+			)
+			const diagnostic = report.files[2]?.diagnostics[0]
+			expect(diagnostic).toMatchObject({
+				rule: "required-sections",
+				severity: "error",
+				message: 'Missing required section "## Related Agents"',
+				fix: 'Add a "## Related Agents" section',
+			})
+			expect(diagnostic?.line).toBe(
+				packaged("opencoder-builder")
+					.content.split("\n")
+					.findIndex((line) => line.startsWith("# ")) + 1,
+			)
+		})
+
+		it("should report unknown agents in the Related Agents table", () => {
+			const report = lintWith("opencoder-planner", (content) =>
+				content
+					.replace("`opencoder-builder.md`", "`opencoder-reviewer.md`")
+					.replace("| Orchestrator | `opencoder.md` |", "| Orchestrator | opencoder |"),
+			)
+			expect(problemsOf(report, "opencoder-planner")).toEqual([
+				["related-agents", "Related Agents row does not name an agent file"],
+				["related-agents", 'Related agent "opencoder-reviewer" is not a known agent'],
+			])
+		})
+
+		it("should report broken agent contracts on the producing agent", () => {
+			const report = lintWith("opencoder-planner", (content) =>
+				content.replace("**Files:** [Paths to modify]\n", ""),
+			)
+			expect(problemsOf(report, "opencoder-planner")).toEqual([
+				["agent-contract", '"### Task 1:" output is missing fields opencoder parses: Files'],
+			])
+			expect(problemsOf(report, "opencoder")).toEqual([])
+		})
+
+		it("should check contracts only when both agents are linted", () => {
+			const planner = packaged("opencoder-planner")
+			const content = planner.content.replace("### Task 1:", "#### Task 1:")
+			expect(lintAgents([{ ...planner, content }]).counts.error).toBe(0)
+		})
+
+		it("should report duplicate sibling headings but not repeats under other parents", () => {
+			const content = `---
+version: 1.0.0
+description: Test agent
+requires: ">=0.1.0"
+updated: 2026-01-18
+---
+# Test Agent
+
+## Your Role
+
+Tests lint rules and keeps the content long enough for validation.
+
+### Rules
+
+### Rules
+
+## Related Agents
+
+## Other
+
+### Rules
+
+\`\`\`markdown
+## Your Role
+\`\`\`
+`
+			const report = lintAgents([{ path: "test-agent.md", content }])
+			expect(report.files[0]?.diagnostics).toEqual([
+				{
+					rule: "unique-headings",
+					severity: "warning",
+					message: 'Duplicate heading "### Rules" (first at line 13)',
+					line: 15,
+					column: 1,
+					fix: "Rename the heading or merge the sections",
+				},
+			])
+		})
+
+		it("should apply rule severities and turn rules off", () => {
+			const change = (content: string) =>
+				content.replace(/^description: .*\n/m, "").replace("## Related Agents", "## See Also")
+			const agents = AGENT_NAMES.map(packaged).map((agent) =>
+				agent.path.endsWith("opencoder-builder.md")
+					? { ...agent, content: change(agent.content) }
+					: agent,
+			)
+			const report = lintAgents(agents, {
+				rules: { "recommended-field": "error", "required-sections": "off" },
+			})
+			expect(report.files[2]?.diagnostics.map(({ rule, severity }) => [rule, severity])).toEqual([
+				["recommended-field", "error"],
+			])
+			expect(report.counts).toEqual({ error: 1, warning: 0, info: 0 })
+		})
+
+		it("should use the configured required sections instead of the defaults", () => {
+			const report = lintAgents([packaged("opencoder")], {
+				requiredSections: { "*": ["Your Role"], opencoder: ["Changelog"] },
+			})
+			expect(problemsOf(report, "opencoder")).toEqual([
+				["required-sections", 'Missing required section "## Changelog"'],
+			])
+		})
+	})
+
+	describe("validateLintConfig", () => {
+		it("should accept valid settings", () => {
+			expect(validateLintConfig({})).toEqual([])
+			expect(
+				validateLintConfig({
+					rules: { "unique-headings": "off", "markdown-header": "warning" },
+					requiredSections: { "*": ["Your Role"] },
+				}),
+			).toEqual([])
+		})
+
+		it("should report every problem", () => {
+			expect(validateLintConfig([])).toEqual(["lint must be an object"])
+			expect(
+				validateLintConfig({
+					rules: { "no-such-rule": "error", "unique-headings": "warn" },
+					requiredSections: { opencoder: "Rules" },
+				}),
+			).toEqual([
+				"lint.rules.no-such-rule is not a known rule",
+				"lint.rules.unique-headings must be one of off, error, warning, info",
+				"lint.requiredSections.opencoder must be an array of section titles",
+			])
+			expect(validateLintConfig({ rules: "off", requiredSections: [] })).toEqual([
+				"lint.rules must be an object keyed by rule id",
+				'lint.requiredSections must be an object keyed by agent name or "*"',
+			])
+		})
+	})
+
+	describe("loadLintConfig", () => {
+		const testDir = join(tmpdir(), `opencoder-lint-test-${Date.now()}`)
+		const configPath = join(testDir, "opencoder.json")
+
+		beforeEach(() => {
+			mkdirSync(testDir, { recursive: true })
+		})
+
+		afterEach(() => {
+			rmSync(testDir, { recursive: true, force: true })
+		})
+
+		it("should return empty settings without the file or the lint section", () => {
+			expect(loadLintConfig(configPath)).toEqual({})
+			writeFileSync(configPath, JSON.stringify({ budget: { maxTokens: 1000 } }))
+			expect(loadLintConfig(configPath)).toEqual({})
+		})
+
+		it("should return the lint section", () => {
+			const lint = { rules: { "unique-headings": "off" as const } }
+			writeFileSync(configPath, JSON.stringify({ lint }))
+			expect(loadLintConfig(configPath)).toEqual(lint)
+		})
+
+		it("should throw on invalid JSON or settings", () => {
+			writeFileSync(configPath, "{ lint: ")
+			expect(() => loadLintConfig(configPath)).toThrow(`Invalid JSON in ${configPath}`)
+			writeFileSync(configPath, JSON.stringify({ lint: { rules: { typo: "off" } } }))
+			expect(() => loadLintConfig(configPath)).toThrow(
+				`Invalid lint configuration in ${configPath}:\n- lint.rules.typo is not a known rule`,
+			)
+		})
+	})
+
+	describe("formatLintReport", () => {
+		it("should summarize a clean report", () => {
+			expect(formatLintReport(lintAgents(AGENT_NAMES.map(packaged)))).toBe(
+				"No problems found in 3 agent(s)",
+			)
+		})
+
+		it("should list diagnostics with their fixes, then the counts", () => {
+			const report = lintWith("opencoder-builder", (content) =>
+				content.replace(/^description: .*\n/m, ""),
+			)
+			expect(formatLintReport(report)).toBe(
+				[
+					`${join("agents", "opencoder-builder.md")}:1:1: warning: Frontmatter missing recommended field: description [recommended-field]`,
+					"  fix: Add to the frontmatter: description: What the agent does, shown when picking an agent",
+					"",
+					"0 error(s), 1 warning(s), 0 info(s) in 3 agent(s)",
+				].join("\n"),
+			)
+		})
+	})
+})
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import {
+	BASE_DIR,
+	checkInstalledFile,
+	getBasePath,
+	getManifestPath,
+	getPackageInfo,
+	hashContent,
+	hashFile,
+	MANIFEST_FILE,
+	readBase,
+	readManifest,
+	recordInstalledFiles,
+	removeBase,
+	writeBase,
+	writeManifest,
+} from "../src/manifest.mjs"
+
+describe("manifest.mjs exports", () => {
+	const testDir = join(tmpdir(), `opencoder-manifest-test-${Date.now()}`)
+
+	beforeEach(() => {
+		mkdirSync(testDir, { recursive: true })
+	})
+
+	afterEach(() => {
+		rmSync(testDir, { recursive: true, force: true })
+	})
+
+	describe("hashContent", () => {
+		it("should return the hex SHA-256 checksum", () => {
+			expect(hashContent("")).toBe(
+				"e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+			)
+			expect(hashContent(Buffer.from("abc"))).toBe(hashContent("abc"))
+		})
+
+		it("should hash files by content", () => {
+			writeFileSync(join(testDir, "a.md"), "# Agent")
+			expect(hashFile(join(testDir, "a.md"))).toBe(hashContent("# Agent"))
+		})
+	})
+
+	describe("getPackageInfo", () => {
+		it("should read the name and version from package.json", () => {
+			expect(getPackageInfo(process.cwd())).toEqual({
+				name: "opencode-plugin-opencoder",
+				version: expect.stringMatching(/^\d+\.\d+\.\d+/),
+			})
+		})
+	})
+
+	describe("readManifest / writeManifest", () => {
+		it("should return null when no manifest exists", () => {
+			expect(readManifest(testDir)).toBeNull()
+		})
+
+		it("should round-trip a manifest", () => {
+			const manifest = recordInstalledFiles(
+				null,
+				"opencode-plugin-opencoder",
+				[{ file: "opencoder.md", sha256: "abc" }],
+				"0.1.0",
+				"2026-01-01T00:00:00.000Z",
+			)
+			writeManifest(testDir, manifest)
+			expect(getManifestPath(testDir)).toBe(join(testDir, MANIFEST_FILE))
+			expect(readManifest(testDir)).toEqual(manifest)
+		})
+
+		it("should remove the manifest when no files are left", () => {
+			writeManifest(testDir, { package: "p", files: [{ file: "a.md", sha256: "x" } as never] })
+			writeManifest(testDir, { package: "p", files: [] })
+			expect(existsSync(getManifestPath(testDir))).toBe(false)
+		})
+
+		it("should throw for malformed manifests", () => {
+			writeFileSync(getManifestPath(testDir), "{ invalid")
+			expect(() => readManifest(testDir)).toThrow("Invalid install manifest")
+			writeFileSync(getManifestPath(testDir), JSON.stringify({ files: [{ file: 1 }] }))
+			expect(() => readManifest(testDir)).toThrow("unexpected format")
+		})
+	})
+
+	describe("recordInstalledFiles", () => {
+		it("should replace entries of reinstalled files and keep the others", () => {
+			const first = recordInstalledFiles(
+				null,
+				"pkg",
+				[
+					{ file: "b.md", sha256: "1" },
+					{ file: "a.md", sha256: "2" },
+				],
+				"0.1.0",
+				"2026-01-01T00:00:00.000Z",
+			)
+			const second = recordInstalledFiles(
+				first,
+				"pkg",
+				[{ file: "b.md", sha256: "3" }],
+				"0.2.0",
+				"2026-02-01T00:00:00.000Z",
+			)
+			expect(second).toEqual({
+				package: "pkg",
+				files: [
+					{ file: "a.md", sha256: "2", version: "0.1.0", installedAt: "2026-01-01T00:00:00.000Z" },
+					{ file: "b.md", sha256: "3", version: "0.2.0", installedAt: "2026-02-01T00:00:00.000Z" },
+				],
+			})
+		})
+	})
+
+	describe("checkInstalledFile", () => {
+		const target = () => join(testDir, "opencoder.md")
+		const source = () => join(testDir, "source.md")
+
+		it("should compare against the recorded checksum", () => {
+			writeFileSync(target(), "installed")
+			const entry = {
+				file: "opencoder.md",
+				sha256: hashContent("installed"),
+				version: "0.1.0",
+				installedAt: "",
+			}
+			expect(checkInstalledFile(target(), entry)).toBe("unmodified")
+			writeFileSync(target(), "edited by the user")
+			expect(checkInstalledFile(target(), entry)).toBe("modified")
+		})
+
+		it("should fall back to the packaged source file without a manifest entry", () => {
+			writeFileSync(target(), "installed")
+			writeFileSync(source(), "installed")
+			expect(checkInstalledFile(target(), undefined, source())).toBe("unmodified")
+			writeFileSync(source(), "newer version")
+			expect(checkInstalledFile(target(), undefined, source())).toBe("modified")
+			expect(checkInstalledFile(target(), undefined)).toBe("modified")
+		})
+
+		it("should report missing files", () => {
+			expect(checkInstalledFile(target(), undefined, source())).toBe("missing")
+		})
+	})
+
+	describe("merge bases", () => {
+		it("should store base copies without the .md extension", () => {
+			expect(getBasePath(testDir, "opencoder.md")).toBe(
+				join(testDir, BASE_DIR, "opencoder.md.base"),
+			)
+		})
+
+		it("should write, read and remove base copies", () => {
+			expect(readBase(testDir, "opencoder.md")).toBeNull()
+			writeBase(testDir, "opencoder.md", "# Base")
+			writeBase(testDir, "opencoder-builder.md", "# Builder")
+			expect(readBase(testDir, "opencoder.md")).toBe("# Base")
+
+			removeBase(testDir, "opencoder.md")
+			expect(readBase(testDir, "opencoder.md")).toBeNull()
+			expect(existsSync(join(testDir, BASE_DIR))).toBe(true)
+			removeBase(testDir, "opencoder-builder.md")
+			expect(existsSync(join(testDir, BASE_DIR))).toBe(false)
+		})
+	})
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "bun:test"
+import { findSection, outlineMarkdown } from "../src/markdown.mjs"
+
+const content = `---
+version: 1.0.0
+---
+# Agent
+
+## Rules
+
+~~~markdown
+## Not a heading
+\`\`\`
+still inside
+~~~
+
+### Details ###
+
+## Output
+Text
+`
+
+describe("markdown.mjs exports", () => {
+	describe("outlineMarkdown", () => {
+		it("should list headings outside the frontmatter and code blocks", () => {
+			expect(outlineMarkdown(content).headings).toEqual([
+				{ level: 1, text: "Agent", line: 4 },
+				{ level: 2, text: "Rules", line: 6 },
+				{ level: 3, text: "Details", line: 14 },
+				{ level: 2, text: "Output", line: 16 },
+			])
+		})
+
+		it("should list code blocks closed by their own fence", () => {
+			expect(outlineMarkdown(content).blocks).toEqual([
+				{ line: 8, lines: ["## Not a heading", "```", "still inside"] },
+			])
+		})
+
+		it("should drop an unclosed code block", () => {
+			const doc = outlineMarkdown("# Agent\n```\n## Inside\n")
+			expect(doc.blocks).toEqual([])
+			expect(doc.headings).toEqual([{ level: 1, text: "Agent", line: 1 }])
+		})
+	})
+
+	describe("findSection", () => {
+		it("should find a section case-insensitively up to the next heading of its level", () => {
+			const doc = outlineMarkdown(content)
+			expect(findSection(doc, "rules")).toEqual({
+				heading: { level: 2, text: "Rules", line: 6 },
+				end: 16,
+			})
+			expect(findSection(doc, "Output")?.end).toBe(doc.lines.length + 1)
+			expect(findSection(doc, "Agent")).toBeNull()
+		})
+	})
+})
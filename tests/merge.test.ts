@@ -0,0 +1,120 @@
+import { describe, expect, it } from "bun:test"
+import { mergeMarkdown, splitMarkdownBlocks } from "../src/merge.mjs"
+
+const agent = (sections: { version?: string; model?: string; role?: string; rules?: string }) =>
+	[
+		"---",
+		`version: ${sections.version ?? "1.0.0"}`,
+		...(sections.model ? [`model: ${sections.model}`] : []),
+		"tools:",
+		"  write: true",
+		"---",
+		"",
+		"# Builder",
+		"",
+		"## Your Role",
+		"",
+		sections.role ?? "Execute tasks.",
+		"",
+		"## Rules",
+		"",
+		sections.rules ?? "Run the tests.",
+		"",
+	].join("\n")
+
+describe("merge.mjs exports", () => {
+	describe("splitMarkdownBlocks", () => {
+		it("should split frontmatter fields and sections and preserve the content", () => {
+			const content = agent({})
+			const blocks = splitMarkdownBlocks(content)
+			expect(blocks.map((block) => block.key)).toEqual([
+				"---",
+				"frontmatter.version",
+				"frontmatter.tools",
+				"--- (end)",
+				"(preamble)",
+				"# Builder",
+				"## Your Role",
+				"## Rules",
+			])
+			expect(blocks[2]?.text).toBe("tools:\n  write: true\n")
+			expect(blocks.map((block) => block.text).join("")).toBe(content)
+		})
+
+		it("should not split at headings inside code blocks", () => {
+			const blocks = splitMarkdownBlocks("## Example\n\n```markdown\n## Done: Task\n```\n## Next\n")
+			expect(blocks.map((block) => block.key)).toEqual(["## Example", "## Next"])
+		})
+
+		it("should number repeated headings", () => {
+			const blocks = splitMarkdownBlocks("### Example\na\n### Example\nb\n")
+			expect(blocks.map((block) => block.key)).toEqual(["### Example", "### Example (2)"])
+		})
+
+		it("should throw TypeError for non-strings", () => {
+			expect(() => splitMarkdownBlocks(null as unknown as string)).toThrow(
+				"splitMarkdownBlocks: content must be a string, got null",
+			)
+		})
+	})
+
+	describe("mergeMarkdown", () => {
+		const base = agent({})
+
+		it("should take the upstream version when there are no local changes", () => {
+			const upstream = agent({ version: "1.1.0" })
+			expect(mergeMarkdown(base, base, upstream)).toEqual({ content: upstream, conflicts: [] })
+		})
+
+		it("should keep the local version when upstream did not change", () => {
+			const local = agent({ role: "Execute tasks carefully." })
+			expect(mergeMarkdown(base, local, base)).toEqual({ content: local, conflicts: [] })
+		})
+
+		it("should combine changes to different sections and frontmatter fields", () => {
+			const local = agent({ model: "anthropic/claude-sonnet", role: "Execute one task." })
+			const upstream = agent({ version: "1.1.0", rules: "Run the tests and the linter." })
+			expect(mergeMarkdown(base, local, upstream)).toEqual({
+				content: agent({
+					version: "1.1.0",
+					model: "anthropic/claude-sonnet",
+					role: "Execute one task.",
+					rules: "Run the tests and the linter.",
+				}),
+				conflicts: [],
+			})
+		})
+
+		it("should keep sections added locally in place and apply upstream deletions", () => {
+			const local = base.replace("## Rules", "## Team Conventions\n\nUse pnpm.\n\n## Rules")
+			const upstream = base.replace(/## Rules[\s\S]*$/, "## Verification\n\nRun bun test.\n")
+			const { content, conflicts } = mergeMarkdown(base, local, upstream)
+			expect(conflicts).toEqual([])
+			expect(content).toContain(
+				"## Your Role\n\nExecute tasks.\n\n## Team Conventions\n\nUse pnpm.",
+			)
+			expect(content).toContain("## Verification")
+			expect(content).not.toContain("## Rules")
+		})
+
+		it("should report sections changed differently on both sides", () => {
+			const local = agent({ role: "Local role.", rules: "Local rules." })
+			const upstream = agent({ version: "2.0.0", role: "Upstream role." })
+			const { content, conflicts } = mergeMarkdown(base, local, upstream)
+			expect(conflicts).toEqual(["## Your Role"])
+			expect(content).toContain("Local role.")
+		})
+
+		it("should report sections modified locally but removed upstream", () => {
+			const local = agent({ rules: "Local rules." })
+			const upstream = base.replace(/## Rules[\s\S]*$/, "")
+			expect(mergeMarkdown(base, local, upstream).conflicts).toEqual(["## Rules"])
+		})
+
+		it("should throw TypeError for non-string arguments", () => {
+			expect(() => mergeMarkdown(base, undefined as unknown as string, base)).toThrow(
+				"mergeMarkdown: local must be a string, got undefined",
+			)
+		})
+	})
+})
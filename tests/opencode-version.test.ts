@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+import { chmodSync, mkdirSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import {
+	clearOpenCodeVersionCache,
+	DEFAULT_OPENCODE_VERSION,
+	describeOpenCodeVersion,
+	detectOpenCodeVersion,
+} from "../src/opencode-version.mjs"
+
+describe("opencode-version.mjs exports", () => {
+	const testDir = join(tmpdir(), `opencoder-version-test-${Date.now()}`)
+	const projectDir = join(testDir, "project", "packages", "app")
+	const missingBin = join(testDir, "missing-opencode")
+
+	/** Writes a fake opencode binary printing the given output */
+	const writeBinary = (output: string, exitCode = 0) => {
+		const bin = join(testDir, "opencode")
+		writeFileSync(bin, `#!/bin/sh\necho "${output}"\nexit ${exitCode}\n`)
+		chmodSync(bin, 0o755)
+		return bin
+	}
+	const writePackage = (name: string, version: string) => {
+		const dir = join(testDir, "project", "node_modules", name)
+		mkdirSync(dir, { recursive: true })
+		writeFileSync(join(dir, "package.json"), JSON.stringify({ name, version }))
+		return join(dir, "package.json")
+	}
+
+	beforeEach(() => {
+		mkdirSync(projectDir, { recursive: true })
+		clearOpenCodeVersionCache()
+	})
+
+	afterEach(() => {
+		rmSync(testDir, { recursive: true, force: true })
+	})
+
+	describe("detectOpenCodeVersion", () => {
+		it("should read the version of an installed opencode-ai package", () => {
+			const path = writePackage("opencode-ai", "1.1.25")
+			expect(
+				detectOpenCodeVersion({ cwd: projectDir, env: { OPENCODE_BIN: writeBinary("9.9.9") } }),
+			).toEqual({ version: "1.1.25", source: "node_modules", path })
+		})
+
+		it("should fall back to the opencode package name", () => {
+			const path = writePackage("opencode", "0.15.8")
+			expect(detectOpenCodeVersion({ cwd: projectDir, env: { OPENCODE_BIN: missingBin } })).toEqual(
+				{
+					version: "0.15.8",
+					source: "node_modules",
+					path,
+				},
+			)
+		})
+
+		it("should probe the binary named by OPENCODE_BIN", () => {
+			const bin = writeBinary("opencode 1.2.3")
+			expect(
+				detectOpenCodeVersion({
+					cwd: projectDir,
+					env: { OPENCODE_BIN: bin, OPENCODE_VERSION: "2.0.0" },
+				}),
+			).toEqual({ version: "1.2.3", source: "binary", path: bin })
+		})
+
+		it("should fall back to OPENCODE_VERSION when detection fails", () => {
+			const bin = writeBinary("1.2.3", 1)
+			expect(
+				detectOpenCodeVersion({
+					cwd: projectDir,
+					env: { OPENCODE_BIN: bin, OPENCODE_VERSION: "2.0.0" },
+				}),
+			).toEqual({ version: "2.0.0", source: "env" })
+		})
+
+		it("should fall back to the default version", () => {
+			writeBinary("no version here")
+			expect(
+				detectOpenCodeVersion({
+					cwd: projectDir,
+					env: { OPENCODE_BIN: join(testDir, "opencode") },
+				}),
+			).toEqual({ version: DEFAULT_OPENCODE_VERSION, source: "default" })
+		})
+
+		it("should cache the result until the cache is cleared", () => {
+			const env = { OPENCODE_BIN: writeBinary("1.2.3") }
+			expect(detectOpenCodeVersion({ cwd: projectDir, env }).version).toBe("1.2.3")
+			writeBinary("1.3.0")
+			expect(detectOpenCodeVersion({ cwd: projectDir, env }).version).toBe("1.2.3")
+			clearOpenCodeVersionCache()
+			expect(detectOpenCodeVersion({ cwd: projectDir, env }).version).toBe("1.3.0")
+		})
+	})
+
+	describe("describeOpenCodeVersion", () => {
+		it("should name the detection source", () => {
+			expect(
+				describeOpenCodeVersion({ version: "1.2.3", source: "binary", path: "/usr/bin/opencode" }),
+			).toBe("1.2.3 (from --version: /usr/bin/opencode)")
+			expect(describeOpenCodeVersion({ version: "2.0.0", source: "env" })).toBe(
+				"2.0.0 (from OPENCODE_VERSION)",
+			)
+			expect(describeOpenCodeVersion({ version: "0.1.0", source: "default" })).toBe(
+				"0.1.0 (from default, OpenCode not found)",
+			)
+		})
+	})
+})
@@ -1,21 +1,29 @@
-import { describe, expect, it } from "bun:test"
-import { homedir } from "node:os"
+import { afterEach, describe, expect, it } from "bun:test"
+import { mkdirSync, rmSync } from "node:fs"
+import { homedir, tmpdir } from "node:os"
 import { join } from "node:path"
 import {
 	AGENT_NAMES,
 	AGENTS_TARGET_DIR,
 	checkVersionCompatibility,
 	createLogger,
+	formatDiagnostic,
 	getAgentsSourceDir,
 	getErrorMessage,
+	getGlobalAgentsDir,
 	getPackageRoot,
+	getProjectAgentsDir,
+	getProjectRoot,
 	isTransientError,
 	MIN_CONTENT_LENGTH,
 	OPENCODE_VERSION,
 	parseCliFlags,
 	parseFrontmatter,
+	READ_ONLY_AGENTS,
+	READ_ONLY_FRONTMATTER,
 	REQUIRED_FRONTMATTER_FIELDS,
 	REQUIRED_KEYWORDS,
+	resolveAgentsTargetDir,
 	retryOnTransientError,
 	TRANSIENT_ERROR_CODES,
 	validateAgentContent,
@@ -162,28 +170,141 @@ describe("paths.mjs exports", () => {
 	})
 
 	describe("AGENTS_TARGET_DIR", () => {
-		it("should resolve to ~/.config/opencode/agents/", () => {
-			const expected = join(homedir(), ".config", "opencode", "agents")
-			expect(AGENTS_TARGET_DIR).toBe(expected)
+		it("should resolve to the global agents directory", () => {
+			expect(AGENTS_TARGET_DIR).toBe(getGlobalAgentsDir())
 		})
 
-		it("should start with the user home directory", () => {
-			expect(AGENTS_TARGET_DIR.startsWith(homedir())).toBe(true)
+		it("should be an absolute path", () => {
+			// Absolute paths start with / on Unix or drive letter on Windows
+			expect(AGENTS_TARGET_DIR.startsWith("/") || /^[A-Z]:/i.test(AGENTS_TARGET_DIR)).toBe(true)
 		})
+	})
 
-		it("should contain the expected directory structure", () => {
-			expect(AGENTS_TARGET_DIR).toContain(".config")
-			expect(AGENTS_TARGET_DIR).toContain("opencode")
-			expect(AGENTS_TARGET_DIR).toContain("agents")
+	describe("getGlobalAgentsDir", () => {
+		it("should resolve to ~/.config/opencode/agents/ by default", () => {
+			expect(getGlobalAgentsDir({})).toBe(join(homedir(), ".config", "opencode", "agents"))
 		})
 
-		it("should end with 'agents' directory", () => {
-			expect(AGENTS_TARGET_DIR.endsWith("agents")).toBe(true)
+		it("should honor XDG_CONFIG_HOME", () => {
+			expect(getGlobalAgentsDir({ XDG_CONFIG_HOME: "/xdg" })).toBe(
+				join("/xdg", "opencode", "agents"),
+			)
 		})
 
-		it("should be an absolute path", () => {
-			// Absolute paths start with / on Unix or drive letter on Windows
-			expect(AGENTS_TARGET_DIR.startsWith("/") || /^[A-Z]:/i.test(AGENTS_TARGET_DIR)).toBe(true)
+		it("should prefer OPENCODE_CONFIG_DIR over XDG_CONFIG_HOME", () => {
+			expect(getGlobalAgentsDir({ OPENCODE_CONFIG_DIR: "/oc", XDG_CONFIG_HOME: "/xdg" })).toBe(
+				join("/oc", "agents"),
+			)
+		})
+	})
+
+	describe("getProjectRoot", () => {
+		const projectDir = join(tmpdir(), `opencoder-root-test-${Date.now()}`)
+
+		afterEach(() => {
+			rmSync(projectDir, { recursive: true, force: true })
+		})
+
+		it("should find the nearest directory containing .git", () => {
+			mkdirSync(join(projectDir, ".git"), { recursive: true })
+			mkdirSync(join(projectDir, "packages", "app"), { recursive: true })
+			expect(getProjectRoot(join(projectDir, "packages", "app"))).toBe(projectDir)
+		})
+
+		it("should use the directory itself outside a repository", () => {
+			mkdirSync(projectDir, { recursive: true })
+			expect(getProjectRoot(projectDir)).toBe(projectDir)
+		})
+
+		it("should throw TypeError for invalid input", () => {
+			expect(() => getProjectRoot("")).toThrow("getProjectRoot: projectDir must not be empty")
+		})
+	})
+
+	describe("getProjectAgentsDir", () => {
+		const projectDir = join(tmpdir(), `opencoder-project-test-${Date.now()}`)
+
+		afterEach(() => {
+			rmSync(projectDir, { recursive: true, force: true })
+		})
+
+		it("should use .opencode/agents in the repository root", () => {
+			mkdirSync(join(projectDir, ".git"), { recursive: true })
+			mkdirSync(join(projectDir, "packages", "app"), { recursive: true })
+			expect(getProjectAgentsDir(join(projectDir, "packages", "app"))).toBe(
+				join(projectDir, ".opencode", "agents"),
+			)
+		})
+
+		it("should use the directory itself outside a repository", () => {
+			mkdirSync(projectDir, { recursive: true })
+			expect(getProjectAgentsDir(projectDir)).toBe(join(projectDir, ".opencode", "agents"))
+		})
+
+		it("should use an existing .opencode/agent directory", () => {
+			mkdirSync(join(projectDir, ".opencode", "agent"), { recursive: true })
+			expect(getProjectAgentsDir(projectDir)).toBe(join(projectDir, ".opencode", "agent"))
+			mkdirSync(join(projectDir, ".opencode", "agents"))
+			expect(getProjectAgentsDir(projectDir)).toBe(join(projectDir, ".opencode", "agents"))
+		})
+
+		it("should throw TypeError for invalid input", () => {
+			// @ts-expect-error - testing invalid input
+			expect(() => getProjectAgentsDir(null)).toThrow(
+				"getProjectAgentsDir: projectDir must be a string, got null",
+			)
+			expect(() => getProjectAgentsDir(" ")).toThrow(
+				"getProjectAgentsDir: projectDir must not be empty",
+			)
+		})
+	})
+
+	describe("resolveAgentsTargetDir", () => {
+		const env = { XDG_CONFIG_HOME: "/xdg" }
+
+		it("should default to the global agents directory", () => {
+			expect(resolveAgentsTargetDir({ env })).toBe(join("/xdg", "opencode", "agents"))
+			expect(resolveAgentsTargetDir({ scope: "global", env })).toBe(
+				join("/xdg", "opencode", "agents"),
+			)
+		})
+
+		it("should resolve --target against the working directory", () => {
+			expect(
+				resolveAgentsTargetDir({ scope: "project", target: "agents", env, cwd: "/work" }),
+			).toBe(join("/work", "agents"))
+			expect(() => resolveAgentsTargetDir({ target: "", env })).toThrow(
+				"--target requires a directory",
+			)
+		})
+
+		it("should install into the project the package manager was run in", () => {
+			const cwd = join(tmpdir(), "opencoder-no-such-project")
+			expect(resolveAgentsTargetDir({ scope: "project", env, cwd })).toBe(
+				join(cwd, ".opencode", "agents"),
+			)
+			expect(
+				resolveAgentsTargetDir({ scope: "project", env: { INIT_CWD: cwd }, cwd: "/elsewhere" }),
+			).toBe(join(cwd, ".opencode", "agents"))
+		})
+
+		it("should read the scope from OPENCODER_SCOPE when --scope is not given", () => {
+			const cwd = join(tmpdir(), "opencoder-no-such-project")
+			expect(resolveAgentsTargetDir({ env: { OPENCODER_SCOPE: "project" }, cwd })).toBe(
+				join(cwd, ".opencode", "agents"),
+			)
+			expect(
+				resolveAgentsTargetDir({ scope: "global", env: { ...env, OPENCODER_SCOPE: "project" } }),
+			).toBe(join("/xdg", "opencode", "agents"))
+		})
+
+		it("should reject unknown scopes", () => {
+			expect(() => resolveAgentsTargetDir({ scope: "team", env })).toThrow(
+				'Invalid --scope "team": expected "global" or "project"',
+			)
+			expect(() => resolveAgentsTargetDir({ env: { OPENCODER_SCOPE: "all" } })).toThrow(
+				'Invalid OPENCODER_SCOPE "all": expected "global" or "project"',
+			)
 		})
 	})
 
@@ -550,7 +671,7 @@ describe("paths.mjs exports", () => {
 			it("should be usable in validateAgentContent for field validation", () => {
 				// Content missing 'version' field
 				const missingVersion = `---
-requires: opencode
+requires: ">=0.1.0"
 ---
 # Test Agent
 
@@ -564,7 +685,7 @@ This is a test agent that handles various tasks for you.
 
 				// Content missing 'requires' field
 				const missingRequires = `---
-version: 1.0
+version: 1.0.0
 ---
 # Test Agent
 
@@ -580,8 +701,8 @@ This is a test agent that handles various tasks for you.
 			it("should validate all fields from the constant are present in content", () => {
 				// Content with all required fields present
 				const validContent = `---
-version: 1.0
-requires: opencode
+version: 1.0.0
+requires: ">=0.1.0"
 ---
 # Test Agent
 
@@ -1836,13 +1957,139 @@ version: 1.0
 				expect(result.fields.version).toBe("1.0")
 			})
 		})
+
+		describe("nested maps", () => {
+			it("should return nested fields as dotted keys", () => {
+				const content = `---
+version: 1.0
+tools:
+  write: false
+  edit: false
+permission:
+  edit: deny
+  bash:
+    "*": ask
+    "git log*": allow
+updated: 2026-01-18
+---
+# Content`
+				const result = parseFrontmatter(content)
+				expect(result.fields).toEqual({
+					version: "1.0",
+					tools: "",
+					"tools.write": "false",
+					"tools.edit": "false",
+					permission: "",
+					"permission.edit": "deny",
+					"permission.bash": "",
+					"permission.bash.*": "ask",
+					"permission.bash.git log*": "allow",
+					updated: "2026-01-18",
+				})
+			})
+
+			it("should not nest indented fields below a key with a value", () => {
+				const content = `---
+version: 1.0
+  requires: opencode
+---
+# Content`
+				const result = parseFrontmatter(content)
+				expect(result.fields.requires).toBe("opencode")
+			})
+		})
+
+		describe("YAML values", () => {
+			it("should return typed values with nested maps and lists as data", () => {
+				const content = `---
+version: 1.0
+requires: ">=0.1.0"
+mode: subagent
+temperature: 0.2
+tools:
+  write: false
+tags:
+  - planning
+  - review
+---
+# Content`
+				const result = parseFrontmatter(content)
+				expect(result.errors).toEqual([])
+				expect(result.data).toEqual({
+					version: 1,
+					requires: ">=0.1.0",
+					mode: "subagent",
+					temperature: 0.2,
+					tools: { write: false },
+					tags: ["planning", "review"],
+				})
+				expect(result.fields["tags.1"]).toBe("review")
+			})
+
+			it("should parse multi-line strings", () => {
+				const content = `---
+description: |
+  Plans the next tasks.
+  Never edits files.
+summary: >-
+  Folded
+  text
+---
+# Content`
+				const result = parseFrontmatter(content)
+				expect(result.data.description).toBe("Plans the next tasks.\nNever edits files.\n")
+				expect(result.fields.summary).toBe("Folded text")
+			})
+
+			it("should handle CRLF line endings", () => {
+				const content = "---\r\nversion: 1.0\r\ntools:\r\n  write: false\r\n---\r\n# Content"
+				const result = parseFrontmatter(content)
+				expect(result.found).toBe(true)
+				expect(result.errors).toEqual([])
+				expect(result.fields).toEqual({ version: "1.0", tools: "", "tools.write": "false" })
+				expect(content.slice(result.endIndex)).toBe("\r\n# Content")
+			})
+
+			it("should report YAML errors with their line and column in the file", () => {
+				const content = `---
+version: 1.0
+name: "unterminated
+tools:
+	write: false
+---
+# Content`
+				const result = parseFrontmatter(content)
+				expect(result.found).toBe(true)
+				expect(result.errors).toEqual([
+					{ message: "unterminated double-quoted string", line: 3, column: 7 },
+					{ message: "tabs are not allowed in indentation", line: 5, column: 1 },
+				])
+				expect(result.fields.version).toBe("1.0")
+			})
+
+			it("should report frontmatter that is not a map", () => {
+				const result = parseFrontmatter("---\njust some text\n---\n# Content")
+				expect(result.found).toBe(true)
+				expect(result.data).toEqual({})
+				expect(result.errors).toEqual([
+					{ message: "frontmatter must be a map of key: value pairs", line: 2, column: 1 },
+				])
+			})
+
+			it("should return empty data and errors when frontmatter is not found", () => {
+				expect(parseFrontmatter("# No frontmatter")).toMatchObject({ data: {}, errors: [] })
+				expect(parseFrontmatter("---\nversion: 1.0")).toMatchObject({ data: {}, errors: [] })
+			})
+		})
 	})
 
 	describe("validateAgentContent", () => {
 		const createValidContent = (overrides: { content?: string } = {}) => {
 			const baseContent = `---
-version: 1.0
-requires: opencode
+version: 1.0.0
+requires: ">=0.1.0"
+description: Handles test tasks
+updated: 2026-01-18
 ---
 # Test Agent
 
@@ -1860,7 +2107,7 @@ The agent can process multiple items efficiently.
 		})
 
 		it("should return valid: false when content is too short", () => {
-			const content = "---\nversion: 1.0\nrequires: opencode\n---\n# Short agent task"
+			const content = '---\nversion: 1.0.0\nrequires: ">=0.1.0"\n---\n# Short agent task'
 			const result = validateAgentContent(content)
 			expect(result.valid).toBe(false)
 			expect(result.error).toContain("File too short")
@@ -1880,8 +2127,8 @@ The agent can process multiple items efficiently.
 
 		it("should return valid: false with specific error when frontmatter is unclosed", () => {
 			const content = `---
-version: 1.0
-requires: opencode
+version: 1.0.0
+requires: ">=0.1.0"
 This file has no closing frontmatter delimiter.
 # Test Agent
 This is a test agent that handles various tasks.
@@ -1891,9 +2138,32 @@ This is a test agent that handles various tasks.
 			expect(result.error).toBe("Unclosed YAML frontmatter (missing closing ---)")
 		})
 
+		it("should return valid: false with every YAML error in frontmatter", () => {
+			const content = `---
+version: 1.0.0
+requires: ">=0.1.0"
+version: 2.0.0
+not a pair
+---
+# Test Agent
+
+This is a test agent that handles various tasks.
+`.padEnd(MIN_CONTENT_LENGTH + 50, " ")
+			const result = validateAgentContent(content)
+			expect(result.valid).toBe(false)
+			expect(result.error).toBe(
+				'Invalid YAML frontmatter: duplicate key "version"; Invalid YAML frontmatter: expected a key: value pair',
+			)
+			const syntax = result.diagnostics.filter((diagnostic) => diagnostic.rule === "yaml-syntax")
+			expect(syntax.map(({ line, column }) => [line, column])).toEqual([
+				[4, 1],
+				[5, 1],
+			])
+		})
+
 		it("should return valid: false when version field is missing", () => {
 			const content = `---
-requires: opencode
+requires: ">=0.1.0"
 ---
 # Test Agent
 
@@ -1907,7 +2177,7 @@ This is a test agent that handles various tasks.
 
 		it("should return valid: false when requires field is missing", () => {
 			const content = `---
-version: 1.0
+version: 1.0.0
 ---
 # Test Agent
 
@@ -1921,8 +2191,8 @@ This is a test agent that handles various tasks.
 
 		it("should return valid: false when markdown header is missing after frontmatter", () => {
 			const content = `---
-version: 1.0
-requires: opencode
+version: 1.0.0
+requires: ">=0.1.0"
 ---
 No markdown header here, just text about agent tasks.
 `.padEnd(MIN_CONTENT_LENGTH + 50, " ")
@@ -1933,8 +2203,8 @@ No markdown header here, just text about agent tasks.
 
 		it("should return valid: false when required keywords are missing", () => {
 			const content = `---
-version: 1.0
-requires: opencode
+version: 1.0.0
+requires: ">=0.1.0"
 ---
 # Test Helper
 
@@ -1948,8 +2218,8 @@ It can process multiple items efficiently and reliably.
 
 		it("should be case-insensitive for keyword matching", () => {
 			const content = `---
-version: 1.0
-requires: opencode
+version: 1.0.0
+requires: ">=0.1.0"
 ---
 # Test AGENT
 
@@ -1961,8 +2231,8 @@ This is a test AGENT that handles various TASKS.
 
 		it("should allow whitespace between frontmatter and header", () => {
 			const content = `---
-version: 1.0
-requires: opencode
+version: 1.0.0
+requires: ">=0.1.0"
 ---
 
 # Test Agent
@@ -1973,6 +2243,75 @@ This is a test agent that handles various tasks.
 			expect(result.valid).toBe(true)
 		})
 
+		describe("diagnostics", () => {
+			it("should report missing recommended fields without failing validation", () => {
+				const content = createValidContent().replace(
+					"description: Handles test tasks\nupdated: 2026-01-18\n",
+					"",
+				)
+				const result = validateAgentContent(content)
+				expect(result.valid).toBe(true)
+				expect(result.error).toBeUndefined()
+				expect(result.diagnostics).toEqual([
+					{
+						rule: "recommended-field",
+						severity: "warning",
+						message: "Frontmatter missing recommended field: description",
+						line: 1,
+						column: 1,
+						fix: "Add to the frontmatter: description: What the agent does, shown when picking an agent",
+					},
+					{
+						rule: "recommended-field",
+						severity: "info",
+						message: "Frontmatter missing recommended field: updated",
+						line: 1,
+						column: 1,
+						fix: "Add to the frontmatter: updated: 2026-01-18",
+					},
+				])
+			})
+
+			it("should report every problem in one pass, sorted by position", () => {
+				const content = `---
+version: 1.0
+requires: ">=0.1.0"
+description: Helps
+mode: main
+---
+
+Some text without a header.`
+				const result = validateAgentContent(content)
+				expect(result.valid).toBe(false)
+				expect(
+					result.diagnostics.map(({ rule, severity, line, column }) => ({
+						rule,
+						severity,
+						line,
+						column,
+					})),
+				).toEqual([
+					{ rule: "content-length", severity: "error", line: 1, column: 1 },
+					{ rule: "recommended-field", severity: "info", line: 1, column: 1 },
+					{ rule: "required-keywords", severity: "error", line: 1, column: 1 },
+					{ rule: "field-format", severity: "error", line: 2, column: 1 },
+					{ rule: "field-enum", severity: "error", line: 5, column: 1 },
+					{ rule: "markdown-header", severity: "error", line: 8, column: 1 },
+				])
+				expect(result.diagnostics.every((diagnostic) => diagnostic.fix)).toBe(true)
+				expect(result.error?.split("; ")).toHaveLength(5)
+			})
+
+			it("should not check the body of content without frontmatter", () => {
+				const result = validateAgentContent("No frontmatter here")
+				expect(result.diagnostics.map((diagnostic) => diagnostic.rule)).toEqual([
+					"content-length",
+					"frontmatter-missing",
+					"required-keywords",
+				])
+			})
+		})
+
 		it("should throw TypeError for null input", () => {
 			expect(() => validateAgentContent(null as unknown as string)).toThrow(TypeError)
 			expect(() => validateAgentContent(null as unknown as string)).toThrow(
@@ -2014,6 +2353,95 @@ This is a test agent that handles various tasks.
 				"validateAgentContent: content must be a string, got boolean",
 			)
 		})
+
+		describe("tools and permission frontmatter", () => {
+			const withFrontmatter = (extra: string) =>
+				createValidContent().replace('requires: ">=0.1.0"\n', `requires: ">=0.1.0"\n${extra}\n`)
+
+			it("should accept boolean tools and known permission values", () => {
+				const content = withFrontmatter("tools:\n  write: false\npermission:\n  edit: ask")
+				expect(validateAgentContent(content)).toEqual({ valid: true, diagnostics: [] })
+			})
+
+			it("should reject non-boolean tool settings", () => {
+				const result = validateAgentContent(withFrontmatter("tools:\n  write: no"))
+				expect(result).toEqual({
+					valid: false,
+					error: 'Frontmatter field tools.write must be true or false, got "no"',
+					diagnostics: [
+						{
+							rule: "field-type",
+							severity: "error",
+							message: 'Frontmatter field tools.write must be true or false, got "no"',
+							line: 5,
+							column: 3,
+							fix: "Set tools.write to true or false",
+						},
+					],
+				})
+			})
+
+			it("should report every frontmatter violation at once", () => {
+				const result = validateAgentContent(
+					withFrontmatter("mode: main\ntools:\n  write: no"),
+					"opencoder-planner",
+				)
+				expect(result.valid).toBe(false)
+				expect(result.error).toBe(
+					[
+						'Frontmatter field mode must be one of primary, subagent, all, got "main"',
+						"Read-only agent opencoder-planner must set tools.write: false, tools.edit: false, tools.patch: false, permission.edit: deny in frontmatter",
+						'Frontmatter field tools.write must be true or false, got "no"',
+					].join("; "),
+				)
+				expect(result.diagnostics.map(({ rule, line }) => `${line} ${rule}`)).toEqual([
+					"4 field-enum",
+					"5 read-only-agent",
+					"6 field-type",
+				])
+			})
+
+			it("should reject unknown permission values", () => {
+				const result = validateAgentContent(withFrontmatter("permission:\n  edit: never"))
+				expect(result.error).toBe(
+					'Frontmatter field permission.edit must be one of allow, ask, deny, got "never"',
+				)
+			})
+
+			it("should require read-only settings for read-only agents", () => {
+				expect(READ_ONLY_AGENTS).toContain("opencoder-planner")
+				const result = validateAgentContent(
+					withFrontmatter("tools:\n  write: false"),
+					"opencoder-planner",
+				)
+				expect(result.valid).toBe(false)
+				expect(result.error).toBe(
+					"Read-only agent opencoder-planner must set tools.edit: false, tools.patch: false, permission.edit: deny in frontmatter",
+				)
+				expect(result.diagnostics[0]?.fix).toBe(
+					"Set tools.edit to false, tools.patch to false, permission.edit to deny",
+				)
+			})
+
+			it("should accept read-only agents with the required settings", () => {
+				const settings = Object.entries(READ_ONLY_FRONTMATTER)
+				const tools = settings.filter(([key]) => key.startsWith("tools."))
+				const frontmatter = [
+					"tools:",
+					...tools.map(([key, value]) => `  ${key.slice("tools.".length)}: ${value}`),
+					"permission:",
+					"  edit: deny",
+				].join("\n")
+				expect(validateAgentContent(withFrontmatter(frontmatter), "opencoder-planner")).toEqual({
+					valid: true,
+					diagnostics: [],
+				})
+			})
+
+			it("should not require read-only settings for other agents", () => {
+				expect(validateAgentContent(createValidContent(), "opencoder-builder").valid).toBe(true)
+			})
+		})
 	})
 
 	describe("checkVersionCompatibility", () => {
@@ -2246,6 +2674,9 @@ This is a test agent that handles various tasks.
 				quiet: false,
 				force: false,
 				help: false,
+				rollback: false,
+				scope: null,
+				target: null,
 			})
 		})
 
@@ -2257,6 +2688,9 @@ This is a test agent that handles various tasks.
 				quiet: false,
 				force: false,
 				help: false,
+				rollback: false,
+				scope: null,
+				target: null,
 			})
 		})
 
@@ -2333,7 +2767,48 @@ This is a test agent that handles various tasks.
 				"--force",
 				"--help",
 			])
-			expect(result).toEqual({ dryRun: true, verbose: true, quiet: true, force: true, help: true })
+			expect(result).toEqual({
+				dryRun: true,
+				verbose: true,
+				quiet: true,
+				force: true,
+				help: true,
+				rollback: false,
+				scope: null,
+				target: null,
+			})
+		})
+
+		it("should parse --rollback with and without a backup id", () => {
+			expect(parseCliFlags(["node", "script.js", "--rollback"]).rollback).toBe(true)
+			expect(parseCliFlags(["node", "script.js", "--rollback", "--verbose"]).rollback).toBe(true)
+			expect(
+				parseCliFlags(["node", "script.js", "--rollback", "2026-01-19T12-00-00-000Z"]),
+			).toEqual({
+				dryRun: false,
+				verbose: false,
+				quiet: false,
+				force: false,
+				help: false,
+				rollback: "2026-01-19T12-00-00-000Z",
+				scope: null,
+				target: null,
+			})
+			expect(parseCliFlags(["node", "script.js", "--rollback=abc"]).rollback).toBe("abc")
+			expect(parseCliFlags(["node", "script.js", "--rollback="]).rollback).toBe(true)
+		})
+
+		it("should parse --scope and --target values", () => {
+			const result = parseCliFlags([
+				"node",
+				"script.js",
+				"--scope",
+				"project",
+				"--target=/tmp/agents",
+			])
+			expect(result.scope).toBe("project")
+			expect(result.target).toBe("/tmp/agents")
+			expect(parseCliFlags(["node", "script.js", "--target"]).target).toBe("")
 		})
 
 		it("should ignore unknown flags", () => {
@@ -2344,6 +2819,9 @@ This is a test agent that handles various tasks.
 				quiet: false,
 				force: false,
 				help: false,
+				rollback: false,
+				scope: null,
+				target: null,
 			})
 		})
 
@@ -2357,7 +2835,16 @@ This is a test agent that handles various tasks.
 				"--quiet",
 				"--force",
 			])
-			expect(result).toEqual({ dryRun: true, verbose: true, quiet: true, force: true, help: true })
+			expect(result).toEqual({
+				dryRun: true,
+				verbose: true,
+				quiet: true,
+				force: true,
+				help: true,
+				rollback: false,
+				scope: null,
+				target: null,
+			})
 		})
 
 		it("should not match partial flag names", () => {
@@ -2715,6 +3202,33 @@ This is a test agent that handles various tasks.
 		})
 	})
 
+	describe("formatDiagnostic", () => {
+		it("should format a diagnostic with its location, rule and fix", () => {
+			const diagnostic = {
+				rule: "field-enum",
+				severity: "error" as const,
+				message: 'Frontmatter field mode must be one of primary, subagent, all, got "main"',
+				line: 4,
+				column: 1,
+				fix: "Set mode to one of primary, subagent, all",
+			}
+			expect(formatDiagnostic(diagnostic, "opencoder.md")).toBe(
+				'opencoder.md:4:1: error: Frontmatter field mode must be one of primary, subagent, all, got "main" [field-enum]\n  fix: Set mode to one of primary, subagent, all',
+			)
+		})
+
+		it("should omit the fix line when there is no fix", () => {
+			const diagnostic = {
+				rule: "custom",
+				severity: "info" as const,
+				message: "Note",
+				line: 1,
+				column: 1,
+			}
+			expect(formatDiagnostic(diagnostic, "agent.md")).toBe("agent.md:1:1: info: Note [custom]")
+		})
+	})
+
 	describe("validateAgentFile", () => {
 		describe("with actual files", () => {
 			it("should return valid: true for actual agent files in agents/ directory", () => {
@@ -2843,7 +3357,7 @@ This is a test agent that handles various tasks.
 				const tempPath = join(import.meta.dirname, "temp-version-agent.md")
 				try {
 					const content = `---
-version: 1.0
+version: 1.0.0
 requires: ">=99.0.0"
 ---
 # Test Agent
@@ -2870,7 +3384,7 @@ This is a test agent that handles various tasks.
 				const tempPath = join(import.meta.dirname, "temp-exact-version.md")
 				try {
 					const content = `---
-version: 1.0
+version: 1.0.0
 requires: "1.0.0"
 ---
 # Test Agent
@@ -2894,7 +3408,7 @@ This is a test agent that handles various tasks.
 				const tempPath = join(import.meta.dirname, "temp-gte-version.md")
 				try {
 					const content = `---
-version: 1.0
+version: 1.0.0
 requires: ">=1.0.0"
 ---
 # Test Agent
@@ -2919,7 +3433,7 @@ This is a test agent that handles various tasks.
 				const tempPath = join(import.meta.dirname, "temp-caret-version.md")
 				try {
 					const content = `---
-version: 1.0
+version: 1.0.0
 requires: "^1.0.0"
 ---
 # Test Agent
@@ -2945,7 +3459,7 @@ This is a test agent that handles various tasks.
 				const tempPath = join(import.meta.dirname, "temp-tilde-version.md")
 				try {
 					const content = `---
-version: 1.0
+version: 1.0.0
 requires: "~1.2.0"
 ---
 # Test Agent
@@ -2964,6 +3478,30 @@ This is a test agent that handles various tasks.
 					}
 				}
 			})
+
+			it("should accept prerelease OpenCode versions covered by the range", () => {
+				const { writeFileSync, unlinkSync, existsSync: fsExistsSync } = require("node:fs")
+				const tempPath = join(import.meta.dirname, "temp-prerelease-version.md")
+				try {
+					const content = `---
+version: 1.0.0
+requires: ">=0.1.0"
+---
+# Test Agent
+
+This is a test agent that handles various tasks.
+`.padEnd(MIN_CONTENT_LENGTH + 50, " ")
+					writeFileSync(tempPath, content)
+
+					expect(validateAgentFile(tempPath, "0.15.0-beta.2").valid).toBe(true)
+					expect(validateAgentFile(tempPath, "1.0.0+build.5").valid).toBe(true)
+					expect(validateAgentFile(tempPath, "0.1.0-beta.1").valid).toBe(false)
+				} finally {
+					if (fsExistsSync(tempPath)) {
+						unlinkSync(tempPath)
+					}
+				}
+			})
 		})
 
 		describe("files without requires field", () => {
@@ -2971,10 +3509,9 @@ This is a test agent that handles various tasks.
 				const { writeFileSync, unlinkSync, existsSync: fsExistsSync } = require("node:fs")
 				const tempPath = join(import.meta.dirname, "temp-no-requires.md")
 				try {
-					// When requires is not a version string like "opencode", version compatibility check happens
-					// but checkVersionCompatibility returns false for invalid version strings
+					// When requires is not a version range like "opencode", the range error is reported
 					const content = `---
-version: 1.0
+version: 1.0.0
 requires: opencode
 ---
 # Test Agent
@@ -2983,11 +3520,14 @@ This is a test agent that handles various tasks.
 `.padEnd(MIN_CONTENT_LENGTH + 50, " ")
 					writeFileSync(tempPath, content)
 
-					// The requires field "opencode" is not a valid version string
-					// checkVersionCompatibility("opencode", ...) returns false
+					// The requires field "opencode" is not a valid version range
 					const result = validateAgentFile(tempPath)
 					expect(result.valid).toBe(false)
-					expect(result.error).toContain("Incompatible OpenCode version")
+					expect(result.error).toBe(
+						'Frontmatter field requires must be a version range (e.g. >=0.1.0), got "opencode": invalid version "opencode"',
+					)
+					// --force skips the version check but not the range check
+					expect(validateAgentFile(tempPath, "1.0.0", true).valid).toBe(false)
 				} finally {
 					if (fsExistsSync(tempPath)) {
 						unlinkSync(tempPath)
@@ -3000,7 +3540,7 @@ This is a test agent that handles various tasks.
 				const tempPath = join(import.meta.dirname, "temp-valid-requires.md")
 				try {
 					const content = `---
-version: 1.0
+version: 1.0.0
 requires: ">=0.1.0"
 ---
 # Test Agent
@@ -3026,7 +3566,7 @@ This is a test agent that handles various tasks.
 				const tempPath = join(import.meta.dirname, "temp-force-version.md")
 				try {
 					const content = `---
-version: 1.0
+version: 1.0.0
 requires: ">=99.0.0"
 ---
 # Test Agent
@@ -3044,6 +3584,15 @@ This is a test agent that handles various tasks.
 					const resultWithForce = validateAgentFile(tempPath, "1.0.0", true)
 					expect(resultWithForce.valid).toBe(true)
 					expect(resultWithForce.skippedVersionCheck).toBe(true)
+					expect(resultWithForce.diagnostics).toContainEqual({
+						rule: "opencode-version",
+						severity: "warning",
+						message:
+							"Incompatible OpenCode version: requires >=99.0.0, but current version is 1.0.0",
+						line: 3,
+						column: 1,
+						fix: "Upgrade OpenCode to a version matching >=99.0.0",
+					})
 				} finally {
 					if (fsExistsSync(tempPath)) {
 						unlinkSync(tempPath)
@@ -3056,7 +3605,7 @@ This is a test agent that handles various tasks.
 				const tempPath = join(import.meta.dirname, "temp-force-compatible.md")
 				try {
 					const content = `---
-version: 1.0
+version: 1.0.0
 requires: ">=1.0.0"
 ---
 # Test Agent
@@ -3103,7 +3652,7 @@ This is a test agent that handles various tasks.
 				const tempPath = join(import.meta.dirname, "temp-force-default.md")
 				try {
 					const content = `---
-version: 1.0
+version: 1.0.0
 requires: ">=99.0.0"
 ---
 # Test Agent
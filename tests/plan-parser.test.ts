@@ -0,0 +1,196 @@
+import { describe, expect, it } from "bun:test"
+import { formatPlan } from "../src/plan"
+import { DEFAULT_DONE_WHEN, formatBuilderPrompt, parsePlan } from "../src/plan-parser"
+
+const STANDARD_PLAN = `## Development Plan
+
+### Task 1: Add input validation
+
+**Priority:** High
+**Complexity:** Medium
+**Description:** API endpoints accept invalid data. Add zod schemas.
+**Files:** src/api/users.ts, src/schemas/user.ts
+**Done when:** Invalid requests return 400 with error details
+
+### Task 2: Fix null pointer bug
+
+**Priority:** Critical
+**Complexity:** Small
+**Category:** bugfix
+**Description:** User service crashes when email is missing.
+**Files:** \`src/services/user.ts\`
+**Done when:** Missing email handled gracefully
+`
+
+describe("plan-parser.ts", () => {
+	describe("parsePlan", () => {
+		it("should parse the standard planner format without issues", () => {
+			const { plan, issues } = parsePlan(STANDARD_PLAN)
+			expect(issues).toEqual([])
+			expect(plan.tasks).toEqual([
+				{
+					number: 1,
+					title: "Add input validation",
+					priority: "High",
+					complexity: "Medium",
+					description: "API endpoints accept invalid data. Add zod schemas.",
+					files: ["src/api/users.ts", "src/schemas/user.ts"],
+					doneWhen: "Invalid requests return 400 with error details",
+				},
+				{
+					number: 2,
+					title: "Fix null pointer bug",
+					priority: "Critical",
+					complexity: "Small",
+					description: "User service crashes when email is missing.",
+					files: ["src/services/user.ts"],
+					doneWhen: "Missing email handled gracefully",
+					category: "bugfix",
+				},
+			])
+		})
+
+		it("should round-trip plans formatted by the plan tool", () => {
+			const { plan } = parsePlan(STANDARD_PLAN)
+			const reparsed = parsePlan(formatPlan(plan))
+			expect(reparsed.issues).toEqual([])
+			expect(reparsed.plan).toEqual(plan)
+		})
+
+		it("should handle CRLF line endings", () => {
+			const { plan, issues } = parsePlan(STANDARD_PLAN.replace(/\n/g, "\r\n"))
+			expect(issues).toEqual([])
+			expect(plan.tasks).toHaveLength(2)
+			expect(plan.tasks[1]?.doneWhen).toBe("Missing email handled gracefully")
+		})
+
+		it("should return tasks in numbered order", () => {
+			const { plan } = parsePlan(
+				"### Task 2: Second\n**Files:** b\n### Task 1: First\n**Files:** a",
+			)
+			expect(plan.tasks.map((t) => t.title)).toEqual(["First", "Second"])
+		})
+
+		it("should default missing Files and Done when fields", () => {
+			const { plan, issues } = parsePlan(`### Task 1: Refactor config module
+**Priority:** Medium
+**Complexity:** Medium
+**Description:** Split monolithic config into separate files`)
+			expect(plan.tasks[0]?.files).toEqual([])
+			expect(plan.tasks[0]?.doneWhen).toBe(DEFAULT_DONE_WHEN)
+			expect(issues).toEqual([
+				{ level: "warning", message: "Task 1 missing Files and Done when fields, using defaults" },
+			])
+		})
+
+		it("should default missing or invalid priority and complexity", () => {
+			const { plan, issues } = parsePlan(`### Task 1: Do it
+**Priority:** Urgent
+**Files:** a.ts
+**Done when:** done`)
+			expect(plan.tasks[0]).toMatchObject({ priority: "Medium", complexity: "Medium" })
+			expect(issues.map((i) => i.message)).toEqual([
+				'Task 1 has invalid priority "Urgent", using Medium',
+				"Task 1 has no complexity, using Medium",
+			])
+		})
+
+		it("should number unnumbered tasks in document order", () => {
+			const { plan, issues } = parsePlan(`### Task: Add error handling
+**Files:** a.ts
+**Done when:** done
+### Task: Update tests
+**Files:** b.ts
+**Done when:** done`)
+			expect(plan.tasks.map((t) => [t.number, t.title])).toEqual([
+				[1, "Add error handling"],
+				[2, "Update tests"],
+			])
+			expect(issues.map((i) => i.message)).toContain(
+				"Tasks missing numbers, processing in document order",
+			)
+		})
+
+		it("should parse non-standard headings flexibly", () => {
+			const { plan, issues } = parsePlan(`## Task 1: Add validation
+**Task 2: Fix bug**
+Task 3 - Update docs`)
+			expect(plan.tasks.map((t) => [t.number, t.title])).toEqual([
+				[1, "Add validation"],
+				[2, "Fix bug"],
+				[3, "Update docs"],
+			])
+			expect(issues.map((i) => i.message)).toContain(
+				"Non-standard task format, attempting flexible parsing",
+			)
+		})
+
+		it("should not start tasks at unnumbered plain text or fenced code lines", () => {
+			const { plan } = parsePlan(`### Task 1: Add logging
+**Description:** Add structured logs
+Task - note: check the logger
+\`\`\`markdown
+### Task 2: Example in a code block
+Task 3 - Plain example in a code block
+\`\`\`
+**Files:** src/log.ts
+**Done when:** Logs are JSON`)
+			expect(plan.tasks).toHaveLength(1)
+			expect(plan.tasks[0]?.files).toEqual(["src/log.ts"])
+			expect(plan.tasks[0]?.doneWhen).toBe("Logs are JSON")
+		})
+
+		it("should continue multi-line field values", () => {
+			const { plan } = parsePlan(`### Task 1: Do it
+**Description:** First line
+second line
+**Files:** a.ts`)
+			expect(plan.tasks[0]?.description).toBe("First line second line")
+		})
+
+		it("should treat an unparseable response as a single task", () => {
+			const { plan, issues } = parsePlan("# Improve logging\n\nAdd structured logs to the server.")
+			expect(plan.tasks).toHaveLength(1)
+			expect(plan.tasks[0]?.title).toBe("Improve logging")
+			expect(plan.tasks[0]?.description).toContain("Add structured logs")
+			expect(issues[0]).toEqual({
+				level: "warning",
+				message: "Unparseable plan format, treating response as a single task",
+			})
+		})
+
+		it("should report an error for an empty response", () => {
+			const { plan, issues } = parsePlan("  \n ")
+			expect(plan.tasks).toEqual([])
+			expect(issues).toEqual([
+				{ level: "error", message: "Planner returned an empty response, re-invoke the planner" },
+			])
+		})
+
+		it("should throw TypeError for non-string input", () => {
+			expect(() => parsePlan(null as unknown as string)).toThrow(
+				"parsePlan: markdown must be a string, got null",
+			)
+		})
+	})
+
+	describe("formatBuilderPrompt", () => {
+		it("should include description, files and acceptance criteria", () => {
+			const { plan } = parsePlan(STANDARD_PLAN)
+			expect(
+				formatBuilderPrompt(plan.tasks[0] as (typeof plan.tasks)[number]),
+			).toBe(`@opencoder-builder Execute this task: Add input validation
+
+API endpoints accept invalid data. Add zod schemas.
+Files: src/api/users.ts, src/schemas/user.ts
+Done when: Invalid requests return 400 with error details`)
+		})
+
+		it("should use unknown for tasks without files", () => {
+			const { plan } = parsePlan("### Task 1: Do it\n**Description:** Something")
+			expect(formatBuilderPrompt(plan.tasks[0] as (typeof plan.tasks)[number])).toContain(
+				"Files: unknown",
+			)
+		})
+	})
+})
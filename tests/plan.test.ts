@@ -0,0 +1,164 @@
+import { describe, expect, it } from "bun:test"
+import type { ToolContext } from "@opencode-ai/plugin"
+import {
+	createPlanTool,
+	type DevelopmentPlan,
+	formatPlan,
+	type PlanTaskInput,
+	validatePlanTasks,
+} from "../src/plan"
+
+/** Creates a complete, valid task input */
+const createTask = (title: string, overrides: Partial<PlanTaskInput> = {}): PlanTaskInput => ({
+	title,
+	priority: "High",
+	complexity: "Small",
+	description: `Do ${title}`,
+	files: ["src/index.ts"],
+	doneWhen: "Tests pass",
+	category: "bugfix",
+	...overrides,
+})
+
+const mockContext = {
+	sessionID: "planner-session",
+	messageID: "msg-1",
+	agent: "opencoder-planner",
+	abort: new AbortController().signal,
+	metadata: () => {},
+	ask: async () => {},
+} as ToolContext
+
+describe("plan.ts", () => {
+	describe("validatePlanTasks", () => {
+		it("should accept a complete plan and number tasks in order", () => {
+			const result = validatePlanTasks([createTask("One"), createTask("Two"), createTask("Three")])
+			expect(result.valid).toBe(true)
+			if (!result.valid) return
+			expect(result.plan.tasks.map((t) => [t.number, t.title])).toEqual([
+				[1, "One"],
+				[2, "Two"],
+				[3, "Three"],
+			])
+		})
+
+		it("should normalize priority, complexity and category case", () => {
+			const result = validatePlanTasks([
+				createTask("One", { priority: "critical", complexity: "LARGE", category: "Perf" }),
+				createTask("Two"),
+				createTask("Three"),
+			])
+			expect(result.valid).toBe(true)
+			if (!result.valid) return
+			expect(result.plan.tasks[0]).toMatchObject({
+				priority: "Critical",
+				complexity: "Large",
+				category: "perf",
+			})
+		})
+
+		it("should reject fewer than 3 tasks", () => {
+			const result = validatePlanTasks([createTask("One")])
+			expect(result.valid).toBe(false)
+			if (result.valid) return
+			expect(result.errors[0]).toContain("Plan has 1 task(s); submit between 3 and 7 tasks.")
+		})
+
+		it("should reject more than 7 tasks", () => {
+			const tasks = Array.from({ length: 8 }, (_, i) => createTask(`Task ${i}`))
+			const result = validatePlanTasks(tasks)
+			expect(result.valid).toBe(false)
+			if (result.valid) return
+			expect(result.errors[0]).toContain("Plan has 8 task(s)")
+		})
+
+		it("should report every malformed field with its task", () => {
+			const result = validatePlanTasks([
+				createTask("One", { priority: "Urgent", files: [] }),
+				createTask("Two", { doneWhen: " ", category: undefined }),
+				{ priority: "Low" },
+			])
+			expect(result.valid).toBe(false)
+			if (result.valid) return
+			expect(result.errors).toContain(
+				'Task 1 ("One"): priority "Urgent" is invalid. Use one of: Critical, High, Medium, Low.',
+			)
+			expect(result.errors).toContain(
+				'Task 1 ("One"): files is empty. List the paths the task will modify.',
+			)
+			expect(result.errors).toContain(
+				'Task 2 ("Two"): doneWhen is missing. State a verifiable completion criterion.',
+			)
+			expect(result.errors).toContain(
+				'Task 2 ("Two"): category is missing. Use one of: bugfix, test, docs, refactor, perf, security, dx.',
+			)
+			expect(result.errors.some((e) => e.startsWith("Task 3: title is missing"))).toBe(true)
+			expect(result.errors.some((e) => e.startsWith("Task 3: complexity is missing"))).toBe(true)
+		})
+
+		it("should reject duplicate titles", () => {
+			const result = validatePlanTasks([
+				createTask("Same"),
+				createTask("same"),
+				createTask("Other"),
+			])
+			expect(result.valid).toBe(false)
+			if (result.valid) return
+			expect(result.errors).toEqual([
+				'Task 2 ("same"): duplicate title. Merge or rename the tasks.',
+			])
+		})
+	})
+
+	describe("formatPlan", () => {
+		it("should produce the markdown format the orchestrator parses", () => {
+			const plan: DevelopmentPlan = {
+				tasks: [
+					{
+						number: 1,
+						title: "Add input validation",
+						priority: "High",
+						complexity: "Medium",
+						description: "Add zod schemas.",
+						files: ["src/api/users.ts", "src/schemas/user.ts"],
+						doneWhen: "Invalid requests return 400",
+						category: "security",
+					},
+				],
+			}
+			expect(formatPlan(plan)).toBe(`## Development Plan
+
+### Task 1: Add input validation
+**Priority:** High
+**Complexity:** Medium
+**Category:** security
+**Description:** Add zod schemas.
+**Files:** src/api/users.ts, src/schemas/user.ts
+**Done when:** Invalid requests return 400`)
+		})
+	})
+
+	describe("createPlanTool", () => {
+		it("should return the formatted plan and notify the callback", async () => {
+			const received: DevelopmentPlan[] = []
+			const planTool = createPlanTool((plan) => received.push(plan))
+			const tasks = [createTask("One"), createTask("Two"), createTask("Three")]
+
+			const output = await planTool.execute({ tasks }, mockContext)
+
+			expect(output).toStartWith("## Development Plan")
+			expect(output).toContain("### Task 3: Three")
+			expect(received).toHaveLength(1)
+		})
+
+		it("should throw an actionable error for an invalid plan", async () => {
+			const received: DevelopmentPlan[] = []
+			const planTool = createPlanTool((plan) => received.push(plan))
+
+			await expect(planTool.execute({ tasks: [createTask("One")] }, mockContext)).rejects.toThrow(
+				"Fix these problems and call opencoder_plan again",
+			)
+			expect(received).toHaveLength(0)
+		})
+	})
+})
@@ -1,6 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test"
-import type { PluginInput } from "@opencode-ai/plugin"
-import type { Event } from "@opencode-ai/sdk"
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import type { Hooks, PluginInput } from "@opencode-ai/plugin"
+import type { Event, Message, Part } from "@opencode-ai/sdk"
+import { readLedger } from "../src/ledger"
 import { OpenCoderPlugin } from "../src/plugin"
 
 describe("OpenCoderPlugin", () => {
@@ -26,6 +30,13 @@ describe("OpenCoderPlugin", () => {
 		expect(typeof result).toBe("object")
 	})
 
+	it("should register the opencoder_plan tool", async () => {
+		const result = await OpenCoderPlugin(createMockContext())
+
+		expect(result.tool?.opencoder_plan).toBeDefined()
+		expect(typeof result.tool?.opencoder_plan?.execute).toBe("function")
+	})
+
 	it("should return hooks object with lifecycle callbacks", async () => {
 		const result = await OpenCoderPlugin(createMockContext())
 
@@ -202,3 +213,634 @@ describe("OpenCoderPlugin debug logging", () => {
 		expect(logCalls.length).toBe(0)
 	})
 })
+
+describe("OpenCoderPlugin cycle ledger", () => {
+	const testDir = join(tmpdir(), `opencoder-plugin-test-${Date.now()}`)
+
+	const createContext = () =>
+		({
+			project: {},
+			client: {},
+			$: () => {},
+			directory: testDir,
+			worktree: testDir,
+			serverUrl: new URL("http://localhost:3000"),
+		}) as unknown as PluginInput
+
+	/** Simulates a user message that binds a session to an agent */
+	const startSession = (hooks: Hooks, sessionID: string, agent: string) =>
+		hooks["chat.message"]?.(
+			{ sessionID, agent },
+			{ message: {} as Extract<Message, { role: "user" }>, parts: [] as Part[] },
+		)
+
+	/** Simulates a `task` tool call invoking a subagent */
+	const runSubagent = async (
+		hooks: Hooks,
+		callID: string,
+		subagent_type: string,
+		prompt: string,
+		response = "ok",
+	) => {
+		const input = { tool: "task", sessionID: "orchestrator", callID }
+		await hooks["tool.execute.before"]?.(input, {
+			args: { subagent_type, prompt, description: "Subagent" },
+		})
+		await hooks["tool.execute.after"]?.(input, {
+			title: "Subagent",
+			output: response,
+			metadata: {},
+		})
+	}
+
+	beforeEach(() => {
+		mkdirSync(testDir, { recursive: true })
+	})
+
+	afterEach(() => {
+		if (existsSync(testDir)) {
+			rmSync(testDir, { recursive: true, force: true })
+		}
+	})
+
+	it("should not record sessions of other agents", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "other", "build")
+		await hooks["tool.execute.before"]?.(
+			{ tool: "bash", sessionID: "other", callID: "c1" },
+			{ args: { command: "ls" } },
+		)
+
+		expect(readLedger(testDir)).toEqual([])
+	})
+
+	it("should record cycles, subagents and tool calls of the orchestrator", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "orchestrator", "opencoder")
+
+		await runSubagent(hooks, "p1", "opencoder-planner", "Create a plan to: build an API")
+		await runSubagent(hooks, "b1", "opencoder-builder", "Execute this task: Add routes")
+		await hooks["tool.execute.before"]?.(
+			{ tool: "bash", sessionID: "orchestrator", callID: "c1" },
+			{ args: { command: "git push" } },
+		)
+
+		const entries = readLedger(testDir)
+		expect(entries.map((e) => e.type)).toEqual([
+			"cycle.started",
+			"subagent.started",
+			"subagent.finished",
+			"subagent.started",
+			"subagent.finished",
+			"task.outcome",
+			"tool.started",
+		])
+		expect(entries[0]).toMatchObject({ cycle: 1, goal: "build an API" })
+		expect(entries[6]).toMatchObject({ tool: "bash", target: "git push", cycle: 1 })
+	})
+
+	it("should start a new cycle only after tasks ran", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "orchestrator", "opencoder")
+
+		await runSubagent(hooks, "p1", "opencoder-planner", "Analyze the codebase")
+		// Re-invoking the planner before any task belongs to the same cycle
+		await runSubagent(hooks, "p2", "opencoder-planner", "You MUST return 3-7 tasks")
+		await runSubagent(hooks, "b1", "opencoder-builder", "Execute this task: Add tests")
+		await runSubagent(hooks, "p3", "opencoder-planner", "Analyze the codebase")
+
+		const cycles = readLedger(testDir).filter((e) => e.type === "cycle.started")
+		expect(cycles.map((e) => e.cycle)).toEqual([1, 2])
+	})
+
+	it("should record tool calls of child sessions", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "orchestrator", "opencoder")
+		await hooks.event?.({
+			event: {
+				type: "session.created",
+				properties: {
+					info: {
+						id: "child",
+						parentID: "orchestrator",
+						title: "Builder",
+					},
+				},
+			} as Event,
+		})
+		await hooks["tool.execute.before"]?.(
+			{ tool: "edit", sessionID: "child", callID: "c1" },
+			{ args: { filePath: "src/a.ts" } },
+		)
+
+		const entries = readLedger(testDir)
+		expect(entries.map((e) => e.type)).toEqual(["session.created", "tool.started"])
+	})
+
+	it("should inject recorded history into a resumed orchestrator session", async () => {
+		const first = await OpenCoderPlugin(createContext())
+		await startSession(first, "orchestrator", "opencoder")
+		await runSubagent(first, "p1", "opencoder-planner", "Analyze the codebase")
+		await runSubagent(first, "b1", "opencoder-builder", "Execute this task: Add tests")
+
+		const resumed = await OpenCoderPlugin(createContext())
+		await startSession(resumed, "new-session", "opencoder")
+		const output = { system: [] as string[] }
+		await resumed["experimental.chat.system.transform"]?.({ sessionID: "new-session" }, output)
+
+		expect(output.system).toHaveLength(1)
+		expect(output.system[0]).toContain("Continue with Cycle 2.")
+		expect(output.system[0]).toContain("1. Add tests (unclear)")
+	})
+
+	it("should record plans submitted through the plan tool", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "orchestrator", "opencoder")
+		await runSubagent(hooks, "p1", "opencoder-planner", "Analyze the codebase")
+
+		const task = (title: string) => ({
+			title,
+			priority: "High",
+			complexity: "Small",
+			description: "Do it",
+			files: ["src/a.ts"],
+			doneWhen: "Tests pass",
+			category: "test",
+		})
+		await hooks.tool?.opencoder_plan?.execute(
+			{ tasks: [task("A"), task("B"), task("C")] },
+			{
+				sessionID: "planner",
+				messageID: "m1",
+				agent: "opencoder-planner",
+				abort: new AbortController().signal,
+				metadata: () => {},
+				ask: async () => {},
+			},
+		)
+
+		const plan = readLedger(testDir).find((e) => e.type === "plan.submitted")
+		expect(plan).toMatchObject({ cycle: 1, sessionID: "planner", tasks: ["A", "B", "C"] })
+	})
+
+	it("should record the parsed outcome when the builder finishes", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "orchestrator", "opencoder")
+		await runSubagent(hooks, "p1", "opencoder-planner", "Analyze the codebase")
+		await runSubagent(
+			hooks,
+			"b1",
+			"opencoder-builder",
+			"Execute this task: Add Stripe payments",
+			"## Blocked: Add Stripe payments\n**Reason:** STRIPE_SECRET_KEY missing\n**Status:** READY_FOR_NEXT_TASK",
+		)
+
+		const outcome = readLedger(testDir).find((e) => e.type === "task.outcome")
+		expect(outcome).toMatchObject({
+			callID: "b1",
+			outcome: { status: "blocked", blockers: ["STRIPE_SECRET_KEY missing"], commit: false },
+		})
+
+		const output = { system: [] as string[] }
+		await hooks["experimental.chat.system.transform"]?.({ sessionID: "orchestrator" }, output)
+		expect(output.system[0]).toContain(
+			"1. Add Stripe payments (blocked) - STRIPE_SECRET_KEY missing",
+		)
+	})
+
+	it("should record health changes and inject recovery prompts", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "orchestrator", "opencoder")
+		await runSubagent(hooks, "p1", "opencoder-planner", "Analyze the codebase")
+		for (const [index, callID] of ["e1", "e2", "e3"].entries()) {
+			const input = { tool: "edit", sessionID: "orchestrator", callID }
+			await hooks["tool.execute.before"]?.(input, { args: { filePath: "src/api.ts" } })
+			await hooks["tool.execute.after"]?.(input, {
+				title: `Edit ${index}`,
+				output: "",
+				metadata: {},
+			})
+		}
+
+		const changes = readLedger(testDir).filter((e) => e.type === "health.changed")
+		expect(changes).toMatchObject([
+			{ status: "Warning", signals: ["src/api.ts was modified 3 times this cycle"] },
+		])
+
+		const output = { system: [] as string[] }
+		await hooks["experimental.chat.system.transform"]?.({ sessionID: "orchestrator" }, output)
+		expect(output.system[1]).toStartWith("## Loop Health: Warning")
+		expect(output.system[1]).toContain("@opencoder-planner Note: src/api.ts was modified 3 times")
+	})
+
+	it("should block edits to a file modified too often in the cycle", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "orchestrator", "opencoder")
+		await runSubagent(hooks, "p1", "opencoder-planner", "Analyze the codebase")
+		const editFile = async (callID: string) => {
+			const input = { tool: "edit", sessionID: "orchestrator", callID }
+			await hooks["tool.execute.before"]?.(input, { args: { filePath: `${testDir}/src/api.ts` } })
+			await hooks["tool.execute.after"]?.(input, { title: "", output: "", metadata: {} })
+		}
+		await editFile("e1")
+		await editFile("e2")
+		await editFile("e3")
+
+		await expect(editFile("e4")).rejects.toThrow(
+			"src/api.ts was already modified 3 times this cycle (limit: 3).",
+		)
+		expect(readLedger(testDir).find((e) => e.type === "tool.blocked")).toMatchObject({
+			tool: "edit",
+			callID: "e4",
+		})
+
+		// The count resets when the next cycle starts
+		await runSubagent(hooks, "b1", "opencoder-builder", "Execute this task: Fix API")
+		await runSubagent(hooks, "p2", "opencoder-planner", "Analyze the codebase")
+		await editFile("e5")
+		expect(readLedger(testDir).findLast((e) => e.type === "tool.finished")).toMatchObject({
+			callID: "e5",
+			cycle: 2,
+		})
+	})
+
+	it("should apply the file edit limit from the project config", async () => {
+		mkdirSync(join(testDir, ".opencode"), { recursive: true })
+		writeFileSync(join(testDir, ".opencode", "opencoder.json"), JSON.stringify({ maxFileEdits: 1 }))
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "orchestrator", "opencoder")
+		await runSubagent(hooks, "p1", "opencoder-planner", "Analyze the codebase")
+		const editFile = async (callID: string) => {
+			const input = { tool: "edit", sessionID: "orchestrator", callID }
+			await hooks["tool.execute.before"]?.(input, { args: { filePath: "src/api.ts" } })
+			await hooks["tool.execute.after"]?.(input, { title: "", output: "", metadata: {} })
+		}
+		await editFile("e1")
+
+		await expect(editFile("e2")).rejects.toThrow(
+			"src/api.ts was already modified 1 times this cycle (limit: 1).",
+		)
+	})
+
+	it("should reject changes to protected paths", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "builder", "opencoder-builder")
+
+		await expect(
+			hooks["tool.execute.before"]?.(
+				{ tool: "write", sessionID: "builder", callID: "w1" },
+				{ args: { filePath: `${testDir}/.env`, content: "KEY=1" } },
+			),
+		).rejects.toThrow('opencoder-builder may not modify .env: it is protected by ".env"')
+		await expect(
+			hooks["tool.execute.before"]?.(
+				{ tool: "bash", sessionID: "builder", callID: "b1" },
+				{ args: { command: "rm bun.lock && bun install" } },
+			),
+		).rejects.toThrow("may not modify bun.lock")
+		await hooks["tool.execute.before"]?.(
+			{ tool: "edit", sessionID: "builder", callID: "e1" },
+			{ args: { filePath: `${testDir}/src/index.ts` } },
+		)
+
+		expect(
+			readLedger(testDir)
+				.filter((e) => e.type === "tool.blocked")
+				.map((e) => e.callID),
+		).toEqual(["w1", "b1"])
+	})
+
+	it("should keep the planner read-only", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "planner", "opencoder-planner")
+		const run = (tool: string, args: Record<string, unknown>) =>
+			hooks["tool.execute.before"]?.({ tool, sessionID: "planner", callID: "c1" }, { args })
+
+		await expect(run("edit", { filePath: "src/index.ts" })).rejects.toThrow(
+			"opencoder-planner is read-only: the edit tool modifies files.",
+		)
+		await expect(run("bash", { command: "git commit -am wip" })).rejects.toThrow(
+			"opencoder-planner is read-only: `git commit` changes the repository.",
+		)
+		await run("bash", { command: "git log --oneline | head -20" })
+		await run("read", { filePath: "src/index.ts" })
+	})
+
+	it("should identify subagent sessions from their title", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "orchestrator", "opencoder")
+		await hooks.event?.({
+			event: {
+				type: "session.created",
+				properties: {
+					info: {
+						id: "planner",
+						parentID: "orchestrator",
+						title: "Create plan (@opencoder-planner subagent)",
+					},
+				},
+			} as Event,
+		})
+
+		await expect(
+			hooks["tool.execute.before"]?.(
+				{ tool: "write", sessionID: "planner", callID: "w1" },
+				{ args: { filePath: "PLAN.md", content: "" } },
+			),
+		).rejects.toThrow("opencoder-planner is read-only")
+	})
+
+	it("should apply the protected-paths policy from the project config", async () => {
+		mkdirSync(join(testDir, ".opencode"), { recursive: true })
+		writeFileSync(
+			join(testDir, ".opencode", "opencoder.json"),
+			JSON.stringify({ protectedPaths: { deny: ["docs/**"] } }),
+		)
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "builder", "opencoder-builder")
+
+		await hooks["tool.execute.before"]?.(
+			{ tool: "edit", sessionID: "builder", callID: "e1" },
+			{ args: { filePath: "bun.lock" } },
+		)
+		await expect(
+			hooks["tool.execute.before"]?.(
+				{ tool: "edit", sessionID: "builder", callID: "e2" },
+				{ args: { filePath: "docs/guide.md" } },
+			),
+		).rejects.toThrow('protected by "docs/**"')
+	})
+
+	it("should reject tool calls until an invalid config is fixed", async () => {
+		mkdirSync(join(testDir, ".opencode"), { recursive: true })
+		const configPath = join(testDir, ".opencode", "opencoder.json")
+		writeFileSync(configPath, JSON.stringify({ maxFileEdits: -1 }))
+		const warnSpy = spyOn(console, "warn").mockImplementation(() => {})
+		try {
+			const hooks = await OpenCoderPlugin(createContext())
+			expect(warnSpy.mock.calls[0]?.[0]).toContain("rejected until the file is fixed")
+
+			await startSession(hooks, "builder", "opencoder-builder")
+			const run = (callID: string, filePath: string) =>
+				hooks["tool.execute.before"]?.(
+					{ tool: "edit", sessionID: "builder", callID },
+					{ args: { filePath } },
+				)
+			await expect(run("e1", "src/index.ts")).rejects.toThrow(
+				`Invalid configuration in ${configPath}:\n- maxFileEdits must be a non-negative integer`,
+			)
+			expect(readLedger(testDir).at(-1)).toMatchObject({
+				type: "tool.blocked",
+				callID: "e1",
+				reason: expect.stringContaining("Stop and ask the user to fix"),
+			})
+
+			// Fixing the file resumes the loop, with the built-in protections in place
+			writeFileSync(configPath, "{}")
+			await run("e2", "src/index.ts")
+			await expect(run("e3", ".env")).rejects.toThrow("may not modify .env")
+		} finally {
+			warnSpy.mockRestore()
+		}
+	})
+
+	it("should block dangerous shell commands", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "builder", "opencoder-builder")
+
+		await expect(
+			hooks["tool.execute.before"]?.(
+				{ tool: "bash", sessionID: "builder", callID: "b1" },
+				{ args: { command: "rm -rf /" } },
+			),
+		).rejects.toThrow('Command blocked by the OpenCoder firewall (rule "rm-recursive-root")')
+		expect(readLedger(testDir).at(-1)).toMatchObject({
+			type: "tool.blocked",
+			callID: "b1",
+			reason: expect.stringContaining("rm-recursive-root"),
+		})
+	})
+
+	it("should rewrite force pushes and explain the rewrite in the tool output", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "builder", "opencoder-builder")
+
+		const args: Record<string, unknown> = { command: "git push --force origin feature" }
+		await hooks["tool.execute.before"]?.(
+			{ tool: "bash", sessionID: "builder", callID: "b1" },
+			{ args },
+		)
+		expect(args.command).toBe("git push --force-with-lease origin feature")
+		expect(readLedger(testDir).find((e) => e.type === "command.rewritten")).toMatchObject({
+			callID: "b1",
+			command: "git push --force origin feature",
+			rewritten: "git push --force-with-lease origin feature",
+			rules: ["git-push-force"],
+		})
+
+		const output = { title: "git push", output: "Everything up-to-date", metadata: {} }
+		await hooks["tool.execute.after"]?.(
+			{ tool: "bash", sessionID: "builder", callID: "b1" },
+			output,
+		)
+		expect(output.output).toContain("[OpenCoder firewall] Ran `git push --force-with-lease")
+	})
+
+	it("should not rewrite or record commands that are rejected", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "builder", "opencoder-builder")
+
+		const command = "rm bun.lock && git push --force origin feature"
+		const args: Record<string, unknown> = { command }
+		await expect(
+			hooks["tool.execute.before"]?.(
+				{ tool: "bash", sessionID: "builder", callID: "b1" },
+				{ args },
+			),
+		).rejects.toThrow("may not modify bun.lock")
+		expect(args.command).toBe(command)
+		expect(readLedger(testDir).map((e) => e.type)).not.toContain("command.rewritten")
+
+		const output = { title: "git push", output: "", metadata: {} }
+		await hooks["tool.execute.after"]?.(
+			{ tool: "bash", sessionID: "builder", callID: "b1" },
+			output,
+		)
+		expect(output.output).not.toContain("[OpenCoder firewall]")
+	})
+
+	it("should apply firewall rules from the project config", async () => {
+		mkdirSync(join(testDir, ".opencode"), { recursive: true })
+		writeFileSync(
+			join(testDir, ".opencode", "opencoder.json"),
+			JSON.stringify({
+				firewall: {
+					rules: [
+						{ id: "no-publish", pattern: "\\bnpm publish\\b", action: "block", reason: "CI only" },
+					],
+				},
+			}),
+		)
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "builder", "opencoder-builder")
+
+		await expect(
+			hooks["tool.execute.before"]?.(
+				{ tool: "bash", sessionID: "builder", callID: "b1" },
+				{ args: { command: "npm publish" } },
+			),
+		).rejects.toThrow('(rule "no-publish"): CI only')
+	})
+
+	describe("session budgets", () => {
+		const writeBudget = (budget: Record<string, number>) => {
+			mkdirSync(join(testDir, ".opencode"), { recursive: true })
+			writeFileSync(join(testDir, ".opencode", "opencoder.json"), JSON.stringify({ budget }))
+		}
+
+		const getSystemPrompt = async (hooks: Hooks) => {
+			const output = { system: [] as string[] }
+			await hooks["experimental.chat.system.transform"]?.({ sessionID: "orchestrator" }, output)
+			return output.system.join("\n")
+		}
+
+		it("should stop starting cycles once the cycle budget is used", async () => {
+			writeBudget({ maxCycles: 1 })
+			const hooks = await OpenCoderPlugin(createContext())
+			await startSession(hooks, "orchestrator", "opencoder")
+
+			await runSubagent(hooks, "p1", "opencoder-planner", "Analyze the codebase")
+			await runSubagent(hooks, "b1", "opencoder-builder", "Execute this task: Fix API")
+			expect(await getSystemPrompt(hooks)).not.toContain("Session Budget Exhausted")
+
+			await expect(
+				runSubagent(hooks, "p2", "opencoder-planner", "Analyze the codebase"),
+			).rejects.toThrow("The session budget is exhausted: 1 of 1 cycles (budget.maxCycles).")
+			expect(await getSystemPrompt(hooks)).toContain("## Session Budget Exhausted")
+			expect(readLedger(testDir).filter((e) => e.type === "cycle.started")).toHaveLength(1)
+			expect(readLedger(testDir).find((e) => e.type === "budget.exhausted")).toMatchObject({
+				limit: "maxCycles",
+				used: 1,
+				max: 1,
+			})
+		})
+
+		it("should let tools run but reject new tasks once the tool call budget is used", async () => {
+			writeBudget({ maxToolCalls: 2 })
+			const hooks = await OpenCoderPlugin(createContext())
+			await startSession(hooks, "orchestrator", "opencoder")
+			await runSubagent(hooks, "p1", "opencoder-planner", "Analyze the codebase")
+
+			const bash = (callID: string) =>
+				hooks["tool.execute.before"]?.(
+					{ tool: "bash", sessionID: "orchestrator", callID },
+					{ args: { command: "git status" } },
+				)
+			await bash("c1")
+			await bash("c2")
+			await expect(
+				runSubagent(hooks, "b1", "opencoder-builder", "Execute this task: Fix API"),
+			).rejects.toThrow("tool calls (budget.maxToolCalls)")
+			expect(await getSystemPrompt(hooks)).toContain("Push all commits")
+		})
+
+		it("should count tokens from assistant message updates", async () => {
+			writeBudget({ maxTokens: 1000 })
+			const hooks = await OpenCoderPlugin(createContext())
+			await startSession(hooks, "orchestrator", "opencoder")
+			const update = (id: string, output: number) =>
+				hooks.event?.({
+					event: {
+						type: "message.updated",
+						properties: {
+							info: {
+								id,
+								sessionID: "orchestrator",
+								role: "assistant",
+								tokens: { input: 300, output, reasoning: 0, cache: { read: 5000, write: 0 } },
+							},
+						},
+					} as Event,
+				})
+
+			// Updates of the same message replace its count
+			await update("m1", 100)
+			await update("m1", 300)
+			expect(await getSystemPrompt(hooks)).not.toContain("Session Budget Exhausted")
+			await update("m2", 400)
+			expect(await getSystemPrompt(hooks)).toContain("1300 of 1000 tokens (budget.maxTokens)")
+		})
+
+		it("should give a new root session fresh budgets", async () => {
+			writeBudget({ maxCycles: 1, maxMinutes: 10 })
+			const now = spyOn(Date, "now")
+			try {
+				now.mockReturnValue(0)
+				const hooks = await OpenCoderPlugin(createContext())
+				await startSession(hooks, "orchestrator", "opencoder")
+				await runSubagent(hooks, "p1", "opencoder-planner", "Analyze the codebase")
+				await runSubagent(hooks, "b1", "opencoder-builder", "Execute this task: Fix API")
+				await expect(
+					runSubagent(hooks, "p2", "opencoder-planner", "Analyze the codebase"),
+				).rejects.toThrow("budget.maxCycles")
+
+				// A later run in the same OpenCode process starts its own clock and counts
+				now.mockReturnValue(9 * 60_000)
+				await startSession(hooks, "orchestrator-2", "opencoder")
+				now.mockReturnValue(15 * 60_000)
+				const output = { system: [] as string[] }
+				await hooks["experimental.chat.system.transform"]?.({ sessionID: "orchestrator-2" }, output)
+				expect(output.system.join("\n")).not.toContain("Session Budget Exhausted")
+				await hooks["tool.execute.before"]?.(
+					{ tool: "task", sessionID: "orchestrator-2", callID: "p3" },
+					{
+						args: {
+							subagent_type: "opencoder-planner",
+							prompt: "Analyze the codebase",
+							description: "Subagent",
+						},
+					},
+				)
+				expect(await getSystemPrompt(hooks)).toContain("## Session Budget Exhausted")
+			} finally {
+				now.mockRestore()
+			}
+		})
+
+		it("should stop when the time budget runs out", async () => {
+			writeBudget({ maxMinutes: 1 })
+			const now = spyOn(Date, "now")
+			try {
+				now.mockReturnValue(0)
+				const hooks = await OpenCoderPlugin(createContext())
+				await startSession(hooks, "orchestrator", "opencoder")
+				expect(await getSystemPrompt(hooks)).not.toContain("Session Budget Exhausted")
+
+				now.mockReturnValue(61_000)
+				expect(await getSystemPrompt(hooks)).toContain("1 of 1 minutes (budget.maxMinutes)")
+			} finally {
+				now.mockRestore()
+			}
+		})
+	})
+
+	it("should not enforce the policy outside OpenCoder sessions", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "other", "build")
+		await hooks["tool.execute.before"]?.(
+			{ tool: "write", sessionID: "other", callID: "w1" },
+			{ args: { filePath: ".env" } },
+		)
+	})
+
+	it("should not inject history into subagent sessions", async () => {
+		const hooks = await OpenCoderPlugin(createContext())
+		await startSession(hooks, "orchestrator", "opencoder")
+		await runSubagent(hooks, "p1", "opencoder-planner", "Analyze the codebase")
+		await startSession(hooks, "planner", "opencoder-planner")
+
+		const output = { system: [] as string[] }
+		await hooks["experimental.chat.system.transform"]?.({ sessionID: "planner" }, output)
+		expect(output.system).toEqual([])
+	})
+})
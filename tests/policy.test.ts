@@ -0,0 +1,98 @@
+import { describe, expect, it } from "bun:test"
+import { checkPath, formatPathDenial, getShellWriteTargets, resolvePathPolicy } from "../src/policy"
+
+describe("policy.ts", () => {
+	describe("checkPath", () => {
+		const policy = resolvePathPolicy()
+
+		it("should protect lockfiles, CI configs, migrations and env files by default", () => {
+			expect(checkPath(policy, "bun.lock")).toEqual({ allowed: false, pattern: "*.lock" })
+			expect(checkPath(policy, "packages/app/package-lock.json").allowed).toBe(false)
+			expect(checkPath(policy, ".github/workflows/ci.yml").allowed).toBe(false)
+			expect(checkPath(policy, "db/migrations/001_init.sql").allowed).toBe(false)
+			expect(checkPath(policy, ".env").allowed).toBe(false)
+			expect(checkPath(policy, "config/.env.production").allowed).toBe(false)
+		})
+
+		it("should allow unprotected paths and allow-listed exceptions", () => {
+			expect(checkPath(policy, "src/index.ts")).toEqual({ allowed: true })
+			expect(checkPath(policy, ".env.example")).toEqual({ allowed: true })
+		})
+
+		it("should keep the planner read-only", () => {
+			expect(checkPath(policy, "src/index.ts", "opencoder-planner")).toEqual({
+				allowed: false,
+				pattern: "**",
+			})
+			expect(checkPath(policy, ".env.example", "opencoder-planner").allowed).toBe(false)
+		})
+
+		it("should apply agent rules before project-wide rules", () => {
+			const custom = resolvePathPolicy({
+				deny: ["docs/**"],
+				agents: { "opencoder-builder": { allow: ["docs/api/**"], deny: ["src/generated/**"] } },
+			})
+			expect(checkPath(custom, "docs/api/index.md", "opencoder-builder").allowed).toBe(true)
+			expect(checkPath(custom, "docs/guide.md", "opencoder-builder").allowed).toBe(false)
+			expect(checkPath(custom, "src/generated/types.ts", "opencoder-builder").allowed).toBe(false)
+			expect(checkPath(custom, "src/generated/types.ts", "opencoder").allowed).toBe(true)
+		})
+	})
+
+	describe("resolvePathPolicy", () => {
+		it("should replace default lists and keep default agent rules", () => {
+			const policy = resolvePathPolicy({ deny: ["secrets/**"] })
+			expect(policy.deny).toEqual(["secrets/**"])
+			expect(policy.allow).toEqual([".env.example"])
+			expect(policy.agents["opencoder-planner"]).toEqual({ deny: ["**"] })
+		})
+
+		it("should let the configuration override default agent rules", () => {
+			const policy = resolvePathPolicy({ agents: { "opencoder-planner": { deny: [] } } })
+			expect(checkPath(policy, "src/index.ts", "opencoder-planner").allowed).toBe(true)
+		})
+	})
+
+	describe("formatPathDenial", () => {
+		it("should name the agent, path, pattern and config file", () => {
+			expect(formatPathDenial(".env", ".env", "opencoder-builder")).toStartWith(
+				'opencoder-builder may not modify .env: it is protected by ".env" in the OpenCoder path policy (.opencode/opencoder.json).',
+			)
+		})
+	})
+
+	describe("getShellWriteTargets", () => {
+		it("should extract redirection targets", () => {
+			expect(getShellWriteTargets("echo KEY=1 >> .env")).toEqual([".env"])
+			expect(getShellWriteTargets('cat a >"out file.txt" 2>&1')).toEqual(["out file.txt"])
+			expect(getShellWriteTargets("bun test 2>/dev/null")).toEqual([])
+		})
+
+		it("should extract arguments of file-modifying commands", () => {
+			expect(getShellWriteTargets("rm -rf dist bun.lock && touch x")).toEqual([
+				"dist",
+				"bun.lock",
+				"x",
+			])
+			expect(getShellWriteTargets("cp .env.example .env")).toEqual([".env"])
+			expect(getShellWriteTargets("sed -i 's/a/b/' .github/workflows/ci.yml")).toEqual([
+				".github/workflows/ci.yml",
+			])
+			expect(getShellWriteTargets("echo x | tee -a log.txt")).toEqual(["log.txt"])
+			expect(getShellWriteTargets("git rm --cached .env")).toEqual([".env"])
+		})
+
+		it("should skip the mode or owner of chmod and chown", () => {
+			expect(getShellWriteTargets("chmod +x script.sh")).toEqual(["script.sh"])
+			expect(getShellWriteTargets("chmod -R 755 bin lib")).toEqual(["bin", "lib"])
+			expect(getShellWriteTargets("chmod -x script.sh")).toEqual(["script.sh"])
+			expect(getShellWriteTargets("chown user:group .env")).toEqual([".env"])
+			expect(getShellWriteTargets("chown --reference=a.txt b.txt")).toEqual(["b.txt"])
+		})
+
+		it("should ignore read-only commands", () => {
+			expect(getShellWriteTargets("cat .env && grep -r TODO src")).toEqual([])
+			expect(getShellWriteTargets("sed -n 1,5p bun.lock")).toEqual([])
+		})
+	})
+})
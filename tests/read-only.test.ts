@@ -0,0 +1,95 @@
+import { describe, expect, it } from "bun:test"
+import { checkReadOnly, describeMutation } from "../src/read-only"
+
+describe("read-only.ts", () => {
+	describe("describeMutation", () => {
+		it("should allow read-only commands", () => {
+			expect(describeMutation("ls -la && cat package.json 2>/dev/null")).toBeNull()
+			expect(describeMutation("git log --oneline -10 && git diff HEAD~1")).toBeNull()
+			expect(describeMutation("grep -rn TODO src | head -20")).toBeNull()
+			expect(describeMutation("git branch")).toBeNull()
+			expect(describeMutation("bun test")).toBeNull()
+		})
+
+		it("should detect file writes", () => {
+			expect(describeMutation("echo notes > PLAN.md")).toBe("the command writes to PLAN.md")
+			expect(describeMutation("rm -rf dist")).toBe("the command writes to dist")
+		})
+
+		it("should detect mutating git commands", () => {
+			expect(describeMutation("git add . && git commit -m wip")).toBe(
+				"`git add` changes the repository",
+			)
+			expect(describeMutation("git -c core.pager=cat push")).toBe(
+				"`git push` changes the repository",
+			)
+			expect(describeMutation("git branch -D feature")).toBe("`git branch` changes the repository")
+			expect(describeMutation("git tag -a v1.0.0 -m release")).toBe(
+				"`git tag` changes the repository",
+			)
+			expect(describeMutation("git stash pop")).toBe("`git stash` changes the repository")
+		})
+
+		it("should allow listing branches, tags and stashes", () => {
+			for (const command of [
+				"git branch -a",
+				"git branch -r",
+				"git branch -l 'feature/*'",
+				"git branch --list",
+				"git branch --show-current",
+				"git branch -v",
+				"git branch --contains HEAD~3",
+				"git -C packages/app branch",
+				"git tag",
+				"git tag -l 'v1.*'",
+				"git tag --list",
+				"git tag --contains=abc123",
+				"git stash list",
+				"git stash show -p stash@{1}",
+			]) {
+				expect(describeMutation(command)).toBeNull()
+			}
+		})
+
+		it("should reject listing options mixed with mutating options or names", () => {
+			for (const command of [
+				"git branch -v -D main",
+				"git branch -vD main",
+				"git branch --list -m a b",
+				"git branch -a --set-upstream-to=origin/main",
+				"git branch -v feature",
+				"git branch --contains HEAD new-branch",
+				"git tag -l -d v1",
+				"git tag --list -a v2 -m release",
+				"git tag --contains=abc123 v3",
+			]) {
+				expect(describeMutation(command)).not.toBeNull()
+			}
+		})
+
+		it("should detect dependency changes", () => {
+			expect(describeMutation("bun add zod")).toBe("`bun add` changes dependencies")
+			expect(describeMutation("CI=1 npm install")).toBe("`npm install` changes dependencies")
+		})
+	})
+
+	describe("checkReadOnly", () => {
+		it("should reject edit tools", () => {
+			expect(checkReadOnly("opencoder-planner", "patch", { patchText: "" })).toStartWith(
+				"opencoder-planner is read-only: the patch tool modifies files.",
+			)
+		})
+
+		it("should reject mutating shell commands", () => {
+			expect(checkReadOnly("opencoder-planner", "bash", { command: "git stash" })).toContain(
+				"`git stash` changes the repository",
+			)
+		})
+
+		it("should allow read-only tools", () => {
+			expect(checkReadOnly("opencoder-planner", "read", { filePath: "a.ts" })).toBeNull()
+			expect(checkReadOnly("opencoder-planner", "bash", { command: "git status" })).toBeNull()
+			expect(checkReadOnly("opencoder-planner", "bash", undefined)).toBeNull()
+		})
+	})
+})
@@ -1,5 +1,12 @@
 import { describe, expect, it } from "bun:test"
-import { checkVersionCompatibility, compareVersions, parseVersion } from "../src/semver.mjs"
+import {
+	checkVersionCompatibility,
+	compareVersions,
+	type ParsedVersion,
+	parseRange,
+	parseVersion,
+	validateRange,
+} from "../src/semver.mjs"
 
 describe("semver.mjs exports", () => {
 	describe("parseVersion", () => {
@@ -16,10 +23,39 @@ describe("semver.mjs exports", () => {
 			expect(parseVersion("1")).toBeNull()
 			expect(parseVersion("1.0.0.0")).toBeNull()
 			expect(parseVersion("v1.0.0")).toBeNull()
-			expect(parseVersion("1.0.0-alpha")).toBeNull()
+			expect(parseVersion("1.0.0-")).toBeNull()
+			expect(parseVersion("1.0.0-beta..1")).toBeNull()
+			expect(parseVersion("1.0.0-01")).toBeNull()
+			expect(parseVersion("01.2.3")).toBeNull()
+			expect(parseVersion("1.02.3")).toBeNull()
+			expect(parseVersion("1.2.03")).toBeNull()
+			expect(parseVersion("1.0.0+")).toBeNull()
 			expect(parseVersion("")).toBeNull()
 		})
 
+		it("should parse prerelease identifiers and build metadata", () => {
+			expect(parseVersion("0.15.0-beta.2")).toEqual({
+				major: 0,
+				minor: 15,
+				patch: 0,
+				prerelease: ["beta", 2],
+			})
+			expect(parseVersion("1.0.0+build.5")).toEqual({
+				major: 1,
+				minor: 0,
+				patch: 0,
+				build: ["build", "5"],
+			})
+			expect(parseVersion("1.0.0-rc.1+sha.0a1b")).toEqual({
+				major: 1,
+				minor: 0,
+				patch: 0,
+				prerelease: ["rc", 1],
+				build: ["sha", "0a1b"],
+			})
+			expect(parseVersion("1.0.0-x-y.0")?.prerelease).toEqual(["x-y", 0])
+		})
+
 		it("should handle edge cases", () => {
 			expect(parseVersion("0.0.1")).toEqual({ major: 0, minor: 0, patch: 1 })
 			expect(parseVersion("999.999.999")).toEqual({ major: 999, minor: 999, patch: 999 })
@@ -190,6 +226,43 @@ describe("semver.mjs exports", () => {
 				),
 			).toThrow("compareVersions: a must have numeric major, minor, and patch properties")
 		})
+
+		it("should order prereleases by semver 2.0 precedence", () => {
+			const ordered = [
+				"1.0.0-alpha",
+				"1.0.0-alpha.1",
+				"1.0.0-alpha.beta",
+				"1.0.0-beta",
+				"1.0.0-beta.2",
+				"1.0.0-beta.11",
+				"1.0.0-rc.1",
+				"1.0.0",
+				"1.0.1-0",
+			].map((version) => parseVersion(version) as ParsedVersion)
+			for (const [i, lower] of ordered.slice(0, -1).entries()) {
+				const higher = ordered[i + 1] as ParsedVersion
+				expect(compareVersions(lower, higher)).toBe(-1)
+				expect(compareVersions(higher, lower)).toBe(1)
+			}
+		})
+
+		it("should ignore build metadata", () => {
+			expect(
+				compareVersions(
+					parseVersion("1.0.0+build.5") as ParsedVersion,
+					parseVersion("1.0.0+build.6") as ParsedVersion,
+				),
+			).toBe(0)
+		})
+
+		it("should throw TypeError for a non-array prerelease property", () => {
+			expect(() =>
+				compareVersions(
+					{ major: 1, minor: 0, patch: 0, prerelease: "beta" } as unknown as ParsedVersion,
+					{ major: 1, minor: 0, patch: 0 },
+				),
+			).toThrow("compareVersions: a must have an array prerelease property")
+		})
 	})
 
 	describe("checkVersionCompatibility", () => {
@@ -316,6 +389,112 @@ describe("semver.mjs exports", () => {
 			})
 		})
 
+		describe("comparator sets", () => {
+			it("should require every comparator to match", () => {
+				expect(checkVersionCompatibility(">=0.2.0 <1.0.0", "0.2.0")).toBe(true)
+				expect(checkVersionCompatibility(">=0.2.0 <1.0.0", "0.9.9")).toBe(true)
+				expect(checkVersionCompatibility(">=0.2.0 <1.0.0", "1.0.0")).toBe(false)
+				expect(checkVersionCompatibility(">=0.2.0 <1.0.0", "0.1.9")).toBe(false)
+			})
+
+			it("should allow whitespace between operators and versions", () => {
+				expect(checkVersionCompatibility(">= 0.2.0  < 1.0.0", "0.5.0")).toBe(true)
+			})
+		})
+
+		describe("|| unions", () => {
+			it("should match any of the ranges", () => {
+				expect(checkVersionCompatibility("^0.3 || ^1.0", "0.3.7")).toBe(true)
+				expect(checkVersionCompatibility("^0.3 || ^1.0", "1.4.0")).toBe(true)
+				expect(checkVersionCompatibility("^0.3 || ^1.0", "0.4.0")).toBe(false)
+				expect(checkVersionCompatibility("^0.3 || ^1.0", "2.0.0")).toBe(false)
+			})
+		})
+
+		describe("hyphen ranges", () => {
+			it("should include both ends", () => {
+				expect(checkVersionCompatibility("1.2.3 - 1.4.0", "1.2.3")).toBe(true)
+				expect(checkVersionCompatibility("1.2.3 - 1.4.0", "1.4.0")).toBe(true)
+				expect(checkVersionCompatibility("1.2.3 - 1.4.0", "1.4.1")).toBe(false)
+				expect(checkVersionCompatibility("1.2.3 - 1.4.0", "1.2.2")).toBe(false)
+			})
+
+			it("should cover the whole X-range of a partial upper end", () => {
+				expect(checkVersionCompatibility("1.2 - 1.4", "1.4.9")).toBe(true)
+				expect(checkVersionCompatibility("1.2 - 1.4", "1.5.0")).toBe(false)
+				expect(checkVersionCompatibility("1.2 - 1.4", "1.2.0")).toBe(true)
+			})
+
+			it("should include prereleases of a full lower end with includePrerelease", () => {
+				const options = { includePrerelease: true }
+				expect(checkVersionCompatibility("1.2.3 - 1.4.0", "1.2.3-beta.1", options)).toBe(true)
+				expect(checkVersionCompatibility("1.2.3 - 1.4.0", "1.2.2", options)).toBe(false)
+				expect(checkVersionCompatibility("1.2.3 - 1.4.0", "1.2.3-beta.1")).toBe(false)
+			})
+		})
+
+		describe("X-ranges and partial versions", () => {
+			it("should match any version for *, x and X", () => {
+				expect(checkVersionCompatibility("*", "0.0.1")).toBe(true)
+				expect(checkVersionCompatibility("x", "5.4.3")).toBe(true)
+				expect(checkVersionCompatibility("X.X.X", "5.4.3")).toBe(true)
+			})
+
+			it("should match within the given major or minor version", () => {
+				expect(checkVersionCompatibility("1.x", "1.0.0")).toBe(true)
+				expect(checkVersionCompatibility("1.x", "1.99.99")).toBe(true)
+				expect(checkVersionCompatibility("1.x", "2.0.0")).toBe(false)
+				expect(checkVersionCompatibility("1", "1.5.0")).toBe(true)
+				expect(checkVersionCompatibility("1.2.x", "1.2.9")).toBe(true)
+				expect(checkVersionCompatibility("1.2", "1.3.0")).toBe(false)
+			})
+
+			it("should apply operators to partial versions like npm", () => {
+				expect(checkVersionCompatibility(">1", "1.9.9")).toBe(false)
+				expect(checkVersionCompatibility(">1", "2.0.0")).toBe(true)
+				expect(checkVersionCompatibility("<=1.2", "1.2.9")).toBe(true)
+				expect(checkVersionCompatibility("<=1.2", "1.3.0")).toBe(false)
+				expect(checkVersionCompatibility("^0.2", "0.2.5")).toBe(true)
+				expect(checkVersionCompatibility("^0.2", "0.3.0")).toBe(false)
+				expect(checkVersionCompatibility("^0.0.3", "0.0.3")).toBe(true)
+				expect(checkVersionCompatibility("^0.0.3", "0.0.4")).toBe(false)
+				expect(checkVersionCompatibility("~1", "1.9.0")).toBe(true)
+				expect(checkVersionCompatibility("v1.2.3", "1.2.3")).toBe(true)
+			})
+		})
+
+		describe("prerelease versions", () => {
+			it("should accept prerelease and build metadata in the current version", () => {
+				expect(checkVersionCompatibility(">=0.15.0-beta.1", "0.15.0-beta.2")).toBe(true)
+				expect(checkVersionCompatibility("1.0.0", "1.0.0+build.5")).toBe(true)
+				expect(checkVersionCompatibility("^1.0.0", "1.2.0+build.5")).toBe(true)
+			})
+
+			it("should only match ranges naming a prerelease of the same version", () => {
+				expect(checkVersionCompatibility(">=0.15.0-beta.1 <0.16.0", "0.15.0-beta.2")).toBe(true)
+				expect(checkVersionCompatibility(">=0.1.0", "0.15.0-beta.2")).toBe(false)
+				expect(checkVersionCompatibility(">=0.14.0-beta.1", "0.15.0-beta.2")).toBe(false)
+				expect(checkVersionCompatibility("*", "1.0.0-beta")).toBe(false)
+				expect(checkVersionCompatibility("^1.2.3-beta.2", "1.2.3-beta.4")).toBe(true)
+				expect(checkVersionCompatibility("^1.2.3-beta.2", "1.2.4-beta.1")).toBe(false)
+			})
+
+			it("should rank prereleases below their release", () => {
+				expect(checkVersionCompatibility(">=1.0.0-beta", "1.0.0")).toBe(true)
+				expect(checkVersionCompatibility("<1.0.0-rc.1", "1.0.0-beta.11")).toBe(true)
+				expect(checkVersionCompatibility(">1.0.0-beta.2", "1.0.0-beta.11")).toBe(true)
+			})
+
+			it("should match any covering range with includePrerelease", () => {
+				const options = { includePrerelease: true }
+				expect(checkVersionCompatibility(">=0.1.0", "0.15.0-beta.2", options)).toBe(true)
+				expect(checkVersionCompatibility("*", "1.0.0-beta", options)).toBe(true)
+				expect(checkVersionCompatibility("1.x", "1.0.0-beta", options)).toBe(true)
+				expect(checkVersionCompatibility("^1.2.3", "2.0.0-beta", options)).toBe(false)
+				expect(checkVersionCompatibility(">=1.0.0", "1.0.0-beta", options)).toBe(false)
+			})
+		})
+
 		describe("invalid inputs", () => {
 			it("should return false for invalid current version", () => {
 				expect(checkVersionCompatibility(">=1.0.0", "invalid")).toBe(false)
@@ -325,17 +504,18 @@ describe("semver.mjs exports", () => {
 
 			it("should return false for invalid required version", () => {
 				expect(checkVersionCompatibility("invalid", "1.0.0")).toBe(false)
+				expect(checkVersionCompatibility(">=01.2.3", "1.2.3")).toBe(false)
+				expect(checkVersionCompatibility("1.02", "1.2.0")).toBe(false)
 				expect(checkVersionCompatibility(">=invalid", "1.0.0")).toBe(false)
 				expect(checkVersionCompatibility("^", "1.0.0")).toBe(false)
 			})
 
-			it("should return false for malformed range with missing patch version", () => {
-				// "^1.2" is missing the patch number, so parseVersion returns null
-				expect(checkVersionCompatibility("^1.2", "1.2.0")).toBe(false)
-				expect(checkVersionCompatibility("~1.2", "1.2.0")).toBe(false)
-				expect(checkVersionCompatibility(">=1.2", "1.2.0")).toBe(false)
+			it("should treat ranges with missing patch versions as X-ranges", () => {
+				expect(checkVersionCompatibility("^1.2", "1.2.0")).toBe(true)
+				expect(checkVersionCompatibility("~1.2", "1.2.0")).toBe(true)
+				expect(checkVersionCompatibility(">=1.2", "1.2.0")).toBe(true)
 				expect(checkVersionCompatibility(">1.2", "1.2.0")).toBe(false)
-				expect(checkVersionCompatibility("<=1.2", "1.2.0")).toBe(false)
+				expect(checkVersionCompatibility("<=1.2", "1.2.0")).toBe(true)
 				expect(checkVersionCompatibility("<1.2", "1.2.0")).toBe(false)
 			})
 
@@ -452,4 +632,65 @@ describe("semver.mjs exports", () => {
 			})
 		})
 	})
+
+	describe("parseRange", () => {
+		it("should parse comparator sets and unions", () => {
+			expect(parseRange(">=0.2.0 <1.0.0 || 2.0.0")).toEqual([
+				[
+					{ operator: ">=", version: { major: 0, minor: 2, patch: 0 } },
+					{ operator: "<", version: { major: 1, minor: 0, patch: 0 } },
+				],
+				[{ operator: "=", version: { major: 2, minor: 0, patch: 0 } }],
+			])
+		})
+
+		it("should desugar caret, tilde and X-ranges", () => {
+			expect(parseRange("^1.2.3")).toEqual([
+				[
+					{ operator: ">=", version: { major: 1, minor: 2, patch: 3 } },
+					{ operator: "<", version: { major: 2, minor: 0, patch: 0, prerelease: [0] } },
+				],
+			])
+			expect(parseRange("~1.2")).toEqual(parseRange(">=1.2.0 <1.3.0-0"))
+			expect(parseRange("*")).toEqual([[]])
+		})
+
+		it("should throw errors describing malformed ranges", () => {
+			expect(() => parseRange(">>1.0.0")).toThrow('invalid version ">1.0.0" in ">>1.0.0"')
+			expect(() => parseRange("^")).toThrow('expected a version after "^"')
+			expect(() => parseRange("^1.0.0 ||")).toThrow('empty range next to "||"')
+			expect(() => parseRange("1.2.3.4")).toThrow('invalid version "1.2.3.4"')
+			expect(() => parseRange("1.0.0 - abc")).toThrow('invalid version "abc" in hyphen range')
+			expect(() => parseRange(" ")).toThrow("range is empty")
+		})
+
+		it("should throw TypeError for non-string input", () => {
+			// @ts-expect-error - testing invalid input
+			expect(() => parseRange(null)).toThrow("parseRange: range must be a string, got null")
+		})
+	})
+
+	describe("validateRange", () => {
+		it("should accept valid ranges", () => {
+			for (const range of [">=0.2.0 <1.0.0", "^0.3 || ^1.0", "1.x", "1.2.3 - 1.4.0", "*"]) {
+				expect(validateRange(range)).toEqual({ valid: true })
+			}
+		})
+
+		it("should return the parse error for malformed ranges", () => {
+			expect(validateRange("opencode")).toEqual({
+				valid: false,
+				error: 'invalid version "opencode"',
+			})
+			expect(validateRange(">=")).toEqual({
+				valid: false,
+				error: 'expected a version after ">="',
+			})
+		})
+
+		it("should throw TypeError for non-string input", () => {
+			// @ts-expect-error - testing invalid input
+			expect(() => validateRange(1)).toThrow("validateRange: range must be a string, got number")
+		})
+	})
 })
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test"
+import { mkdirSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { hashContent, recordInstalledFiles, writeManifest } from "../src/manifest.mjs"
+import { getAgentStatuses } from "../src/status.mjs"
+
+describe("status.mjs exports", () => {
+	const testDir = join(tmpdir(), `opencoder-status-test-${Date.now()}`)
+	const sourceDir = join(testDir, "package", "agents")
+	const targetDir = join(testDir, "agents")
+	const agent = (version: string, body = "") => `---\nversion: ${version}\n---\n# Agent\n${body}`
+
+	beforeEach(() => {
+		mkdirSync(sourceDir, { recursive: true })
+		mkdirSync(targetDir, { recursive: true })
+	})
+
+	afterEach(() => {
+		rmSync(testDir, { recursive: true, force: true })
+	})
+
+	describe("getAgentStatuses", () => {
+		it("should classify each packaged and recorded agent", () => {
+			for (const file of ["current.md", "outdated.md", "modified.md", "missing.md"]) {
+				writeFileSync(join(sourceDir, file), agent("2.0.0"))
+			}
+			writeFileSync(join(targetDir, "current.md"), agent("2.0.0"))
+			writeFileSync(join(targetDir, "outdated.md"), agent("1.0.0"))
+			writeFileSync(join(targetDir, "modified.md"), agent("1.0.0", "Our changes\n"))
+			writeFileSync(join(targetDir, "obsolete.md"), agent("1.0.0"))
+			writeManifest(
+				targetDir,
+				recordInstalledFiles(
+					null,
+					"opencode-plugin-opencoder",
+					["current.md", "outdated.md", "modified.md", "obsolete.md"].map((file) => ({
+						file,
+						sha256: hashContent(agent(file === "current.md" ? "2.0.0" : "1.0.0")),
+					})),
+					"0.1.0",
+				),
+			)
+
+			const statuses = getAgentStatuses(sourceDir, targetDir)
+			expect(statuses.map(({ file, state }) => [file, state])).toEqual([
+				["current.md", "current"],
+				["missing.md", "missing"],
+				["modified.md", "modified"],
+				["obsolete.md", "obsolete"],
+				["outdated.md", "outdated"],
+			])
+			expect(statuses.find((s) => s.file === "outdated.md")).toEqual({
+				file: "outdated.md",
+				state: "outdated",
+				packaged: { version: "2.0.0", sha256: hashContent(agent("2.0.0")) },
+				installed: { version: "1.0.0", sha256: hashContent(agent("1.0.0")), installedBy: "0.1.0" },
+			})
+			expect(statuses.find((s) => s.file === "missing.md")?.installed).toBeNull()
+			expect(statuses.find((s) => s.file === "obsolete.md")?.packaged).toBeNull()
+		})
+
+		it("should treat differing files without a manifest as modified", () => {
+			writeFileSync(join(sourceDir, "opencoder.md"), agent("2.0.0"))
+			writeFileSync(join(targetDir, "opencoder.md"), agent("1.0.0"))
+			expect(getAgentStatuses(sourceDir, targetDir)[0]?.state).toBe("modified")
+		})
+
+		it("should report all agents as missing when the target directory does not exist", () => {
+			writeFileSync(join(sourceDir, "opencoder.md"), agent("2.0.0"))
+			expect(getAgentStatuses(sourceDir, join(testDir, "none"))[0]?.state).toBe("missing")
+		})
+	})
+})
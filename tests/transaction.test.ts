@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test"
+import * as fs from "node:fs"
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { basename, join } from "node:path"
+import { createInstallTransaction, STAGING_PREFIX } from "../src/transaction.mjs"
+
+describe("transaction.mjs exports", () => {
+	const testDir = join(tmpdir(), `opencoder-transaction-test-${Date.now()}`)
+	const targetDir = join(testDir, "agents")
+	const read = (path: string) => readFileSync(join(targetDir, path), "utf-8")
+	const stagingDirs = () => readdirSync(testDir).filter((name) => name.startsWith(STAGING_PREFIX))
+
+	beforeEach(() => {
+		mkdirSync(targetDir, { recursive: true })
+	})
+
+	afterEach(() => {
+		rmSync(testDir, { recursive: true, force: true })
+	})
+
+	describe("createInstallTransaction", () => {
+		it("should stage files next to the target directory", () => {
+			const transaction = createInstallTransaction(targetDir)
+			const stagedPath = transaction.stage("opencoder.md", "# new")
+
+			expect(stagingDirs()).toEqual([basename(transaction.stagingDir)])
+			expect(basename(stagedPath)).toBe("opencoder.md")
+			expect(readFileSync(stagedPath, "utf-8")).toBe("# new")
+			expect(existsSync(join(targetDir, "opencoder.md"))).toBe(false)
+			transaction.abort()
+		})
+
+		it("should apply all staged changes on commit", () => {
+			writeFileSync(join(targetDir, "opencoder.md"), "# old")
+			writeFileSync(join(targetDir, "obsolete.md"), "# obsolete")
+			mkdirSync(join(targetDir, ".opencoder-base"))
+			writeFileSync(join(targetDir, ".opencoder-base", "obsolete.md.base"), "# obsolete")
+
+			const transaction = createInstallTransaction(targetDir)
+			transaction.stage("opencoder.md", "# new")
+			transaction.stage(".opencoder-base/opencoder.md.base", "# new")
+			transaction.remove("obsolete.md")
+			transaction.remove(".opencoder-base/obsolete.md.base")
+
+			expect(transaction.commit()).toEqual([
+				"opencoder.md",
+				".opencoder-base/opencoder.md.base",
+				"obsolete.md",
+				".opencoder-base/obsolete.md.base",
+			])
+			expect(read("opencoder.md")).toBe("# new")
+			expect(read(".opencoder-base/opencoder.md.base")).toBe("# new")
+			expect(readdirSync(targetDir).sort()).toEqual([".opencoder-base", "opencoder.md"])
+			expect(stagingDirs()).toEqual([])
+		})
+
+		it("should remove directories emptied by removals", () => {
+			mkdirSync(join(targetDir, ".opencoder-base"))
+			writeFileSync(join(targetDir, ".opencoder-base", "opencoder.md.base"), "# base")
+
+			const transaction = createInstallTransaction(targetDir)
+			transaction.remove(".opencoder-base/opencoder.md.base")
+			transaction.commit()
+			expect(readdirSync(targetDir)).toEqual([])
+		})
+
+		it("should discard staged changes on abort", () => {
+			writeFileSync(join(targetDir, "opencoder.md"), "# old")
+			const transaction = createInstallTransaction(targetDir)
+			transaction.stage("opencoder.md", "# new")
+			transaction.abort()
+
+			expect(read("opencoder.md")).toBe("# old")
+			expect(stagingDirs()).toEqual([])
+		})
+
+		it("should revert applied changes when a change fails", () => {
+			writeFileSync(join(targetDir, "opencoder.md"), "# old")
+			// A file where the next change needs a directory makes the commit fail midway
+			writeFileSync(join(targetDir, "blocked"), "")
+
+			const transaction = createInstallTransaction(targetDir)
+			transaction.stage("opencoder.md", "# new")
+			transaction.stage("opencoder-planner.md", "# planner")
+			transaction.stage("blocked/opencoder-builder.md", "# builder")
+
+			expect(() => transaction.commit()).toThrow()
+			expect(read("opencoder.md")).toBe("# old")
+			expect(readdirSync(targetDir).sort()).toEqual(["blocked", "opencoder.md"])
+			expect(stagingDirs()).toEqual([])
+		})
+
+		it("should report files it could not restore and keep their previous copies", () => {
+			writeFileSync(join(targetDir, "opencoder.md"), "# old")
+			writeFileSync(join(targetDir, "opencoder-planner.md"), "# old planner")
+			writeFileSync(join(targetDir, "blocked"), "")
+
+			const transaction = createInstallTransaction(targetDir)
+			transaction.stage("opencoder.md", "# new")
+			transaction.stage("opencoder-planner.md", "# planner")
+			transaction.stage("blocked/opencoder-builder.md", "# builder")
+
+			const previousPath = join(transaction.stagingDir, "previous", "opencoder.md")
+			const rename = fs.renameSync
+			const spy = spyOn(fs, "renameSync").mockImplementation((from, to) => {
+				if (from === previousPath) throw new Error("EBUSY: resource busy")
+				rename(from, to)
+			})
+			let error: (Error & { unrestored?: unknown }) | undefined
+			try {
+				transaction.commit()
+			} catch (err) {
+				error = err as Error & { unrestored?: unknown }
+			} finally {
+				spy.mockRestore()
+			}
+
+			expect(error?.message).toContain(
+				`could not restore opencoder.md (previous copy kept at ${previousPath})`,
+			)
+			expect(error?.unrestored).toEqual([{ path: "opencoder.md", previousPath }])
+			expect(read("opencoder-planner.md")).toBe("# old planner")
+			expect(readFileSync(previousPath, "utf-8")).toBe("# old")
+			expect(stagingDirs()).toEqual([basename(transaction.stagingDir)])
+		})
+	})
+})
@@ -0,0 +1,253 @@
+import { describe, expect, it } from "bun:test"
+import { parseYaml } from "../src/yaml.mjs"
+
+describe("yaml.mjs exports", () => {
+	describe("parseYaml", () => {
+		it("should return null for an empty document", () => {
+			const empty = { value: null, flat: {}, positions: {}, errors: [] }
+			expect(parseYaml("")).toEqual(empty)
+			expect(parseYaml("\n  \n# only a comment\n")).toEqual(empty)
+		})
+
+		it("should parse nested block maps", () => {
+			const result = parseYaml(`tools:
+  write: false
+permission:
+  bash:
+    "*": ask
+    'git log*': allow`)
+			expect(result.errors).toEqual([])
+			expect(result.value).toEqual({
+				tools: { write: false },
+				permission: { bash: { "*": "ask", "git log*": "allow" } },
+			})
+		})
+
+		it("should parse block sequences", () => {
+			const result = parseYaml(`tags:
+  - review
+  - name: docs
+    paths: [docs, README.md]
+  - - nested
+    - list
+steps:
+- first
+- second`)
+			expect(result.errors).toEqual([])
+			expect(result.value).toEqual({
+				tags: ["review", { name: "docs", paths: ["docs", "README.md"] }, ["nested", "list"]],
+				steps: ["first", "second"],
+			})
+		})
+
+		it("should parse flow collections", () => {
+			const result = parseYaml(`list: [a, "b, c", 3, [x]]
+map: { write: false, edit: 'it''s', empty: }
+none: []`)
+			expect(result.errors).toEqual([])
+			expect(result.value).toEqual({
+				list: ["a", "b, c", 3, ["x"]],
+				map: { write: false, edit: "it's", empty: null },
+				none: [],
+			})
+		})
+
+		it("should resolve plain scalars with the core schema", () => {
+			const result = parseYaml(`a: ~
+b:
+c: true
+d: False
+e: 42
+f: -1.5e3
+g: 0x1F
+h: 0o17
+i: .inf
+j: 0.1.0
+k: 2026-01-18
+l: >=0.1.0 <1.0.0`)
+			expect(result.value).toEqual({
+				a: null,
+				b: null,
+				c: true,
+				d: false,
+				e: 42,
+				f: -1500,
+				g: 31,
+				h: 15,
+				i: Number.POSITIVE_INFINITY,
+				j: "0.1.0",
+				k: "2026-01-18",
+				l: ">=0.1.0 <1.0.0",
+			})
+		})
+
+		it("should unescape quoted scalars", () => {
+			const result = parseYaml(`double: "tab\\there \\"quoted\\" \\u00e9"
+single: 'it''s # not a comment'
+number: "42"`)
+			expect(result.value).toEqual({
+				double: 'tab\there "quoted" é',
+				single: "it's # not a comment",
+				number: "42",
+			})
+		})
+
+		it("should strip comments", () => {
+			const result = parseYaml(`# leading comment
+model: gpt # trailing comment
+url: https://example.com/#anchor`)
+			expect(result.value).toEqual({ model: "gpt", url: "https://example.com/#anchor" })
+		})
+
+		it("should parse literal and folded block scalars", () => {
+			const result = parseYaml(`literal: |
+  line one
+  line two
+
+  paragraph
+folded: >
+  folded
+  text
+
+  next
+strip: |-
+  no newline
+keep: |+
+  kept
+
+after: 1`)
+			expect(result.errors).toEqual([])
+			expect(result.value).toEqual({
+				literal: "line one\nline two\n\nparagraph\n",
+				folded: "folded text\nnext\n",
+				strip: "no newline",
+				keep: "kept\n\n",
+				after: 1,
+			})
+		})
+
+		it("should fold multi-line plain scalars", () => {
+			const result = parseYaml(`description: Plans the
+  next tasks
+
+  of a cycle
+mode: subagent`)
+			expect(result.value).toEqual({
+				description: "Plans the next tasks\nof a cycle",
+				mode: "subagent",
+			})
+		})
+
+		it("should handle CRLF line endings", () => {
+			const result = parseYaml(
+				"version: 1.0\r\ntools:\r\n  write: false\r\ntext: |\r\n  a\r\n  b\r\n",
+			)
+			expect(result.errors).toEqual([])
+			expect(result.value).toEqual({ version: 1, tools: { write: false }, text: "a\nb\n" })
+		})
+
+		it("should return values by dotted path as written", () => {
+			const result = parseYaml(`version: 1.0
+tools:
+  write: false
+tags: [a, "b"]
+empty:`)
+			expect(result.flat).toEqual({
+				version: "1.0",
+				tools: "",
+				"tools.write": "false",
+				tags: "",
+				"tags.0": "a",
+				"tags.1": "b",
+				empty: "",
+			})
+		})
+
+		it("should return where each value is written by dotted path", () => {
+			const result = parseYaml(`# comment
+version: 1.0
+tools:
+  write: false
+tags:
+  - a
+  - name: b
+list: [x, y]`)
+			expect(result.positions).toEqual({
+				version: { line: 2, column: 1 },
+				tools: { line: 3, column: 1 },
+				"tools.write": { line: 4, column: 3 },
+				tags: { line: 5, column: 1 },
+				"tags.0": { line: 6, column: 3 },
+				"tags.1": { line: 7, column: 3 },
+				"tags.1.name": { line: 7, column: 5 },
+				list: { line: 8, column: 1 },
+				"list.0": { line: 8, column: 1 },
+				"list.1": { line: 8, column: 1 },
+			})
+		})
+
+		describe("errors", () => {
+			it("should report lines that are not key: value pairs and keep parsing", () => {
+				const result = parseYaml("version: 1.0\nnot a pair\nrequires: opencode")
+				expect(result.errors).toEqual([
+					{ message: "expected a key: value pair", line: 2, column: 1 },
+				])
+				expect(result.value).toEqual({ version: 1, requires: "opencode" })
+			})
+
+			it("should report duplicate keys, keeping the last value", () => {
+				const result = parseYaml("key: first\nkey: second")
+				expect(result.errors).toEqual([{ message: 'duplicate key "key"', line: 2, column: 1 }])
+				expect(result.value).toEqual({ key: "second" })
+			})
+
+			it("should report unexpected and inconsistent indentation", () => {
+				expect(parseYaml("version: 1.0\n  requires: opencode").errors).toEqual([
+					{ message: "unexpected indentation", line: 2, column: 3 },
+				])
+				expect(parseYaml("  name: value\nversion: 1.0").errors).toEqual([
+					{ message: "inconsistent indentation", line: 2, column: 1 },
+				])
+			})
+
+			it("should report tabs in indentation", () => {
+				const result = parseYaml("tools:\n\twrite: false")
+				expect(result.errors).toEqual([
+					{ message: "tabs are not allowed in indentation", line: 2, column: 1 },
+				])
+			})
+
+			it("should keep malformed quoted strings and flow collections as text", () => {
+				const result = parseYaml(`name: "unterminated
+list: [a, b
+bad: "\\q"
+after: 'ok' trailing`)
+				expect(result.errors).toEqual([
+					{ message: "unterminated double-quoted string", line: 1, column: 7 },
+					{ message: "unterminated flow sequence", line: 2, column: 12 },
+					{ message: 'invalid escape sequence "\\q"', line: 3, column: 7 },
+					{ message: "unexpected text after quoted string", line: 4, column: 13 },
+				])
+				expect(result.value).toEqual({
+					name: '"unterminated',
+					list: "[a, b",
+					bad: '"\\q"',
+					after: "ok",
+				})
+			})
+
+			it("should report anchors, aliases and tags", () => {
+				expect(parseYaml("a: &anchor value").errors).toEqual([
+					{ message: "anchors, aliases and tags are not supported", line: 1, column: 4 },
+				])
+			})
+		})
+
+		it("should throw TypeError for non-string input", () => {
+			expect(() => parseYaml(null as unknown as string)).toThrow(
+				"parseYaml: source must be a string, got null",
+			)
+			expect(() => parseYaml(42 as unknown as string)).toThrow(TypeError)
+		})
+	})
+})